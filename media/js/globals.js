@@ -90,6 +90,7 @@
     let configProvider = 'mistral';
     const MODEL_PLACEHOLDER = 'Выбрать модель';
     let savedModels = [];
+    let customProviders = []; // user-defined providers, models reference them as custom:<id>
     let currentSelectedModelId = null;
     let currentCodeModelId = null;
     let currentMode = 'agent'; // 'agent' or 'chat'
@@ -172,6 +172,8 @@
           break;
         case 'updateModels':
           savedModels = message.models || [];
+          customProviders = message.customProviders || [];
+          renderCustomProviders(customProviders);
           currentSelectedModelId = message.selectedModelId || null;
           currentCodeModelId = message.codeModelId || null;
           renderModels(message.models || [], message.selectedModelId || null);
@@ -228,17 +230,13 @@
           dbg('[Mode] Mode lock:', modeLocked ? 'LOCKED' : 'UNLOCKED');
           break;
         case 'restoreSettings':
-          // Restore saved provider settings (API keys, URLs) on webview reload
+          // Restore saved provider URLs on webview reload (keys arrive masked via 'providerKeys')
           dbg('[Settings] Restoring saved settings');
           if (message.providerSettings) {
             for (const [prov, val] of Object.entries(message.providerSettings)) {
               if (!val) continue;
               const acc = document.querySelector(`.provider-accordion[data-provider="${prov}"]`);
               if (!acc) continue;
-              if (val.apiKey) {
-                const apiInput = acc.querySelector('.provider-apikey');
-                if (apiInput) apiInput.value = val.apiKey;
-              }
               if (val.url) {
                 const urlInput = acc.querySelector('.provider-url');
                 if (urlInput) urlInput.value = val.url;
@@ -261,6 +259,13 @@
             const warning = document.getElementById('auto-run-warning');
             if (warning) warning.style.display = message.autoRunTerminal ? '' : 'none';
           }
+          if (message.terminalSandbox !== undefined) {
+            const toggle = document.getElementById('terminal-sandbox');
+            if (toggle) toggle.checked = message.terminalSandbox;
+          }
+          if (message.webSearch) {
+            applyWebSearchSettings(message.webSearch);
+          }
           // Restore metrics toggle from VS Code config (overrides localStorage default)
           if (message.metricsEnabled !== undefined) {
             const metricsToggleEl = document.getElementById('metrics-toggle');
@@ -445,11 +450,29 @@
         case 'lspResult':
           showLspResult(message.id, message.success, message.operation, message.filePath, message.results, message.resultsCount);
           break;
+        case 'commitStorageUsage':
+          renderCommitStorageUsage(message.usage);
+          break;
+        case 'webSearchKeys':
+          renderWebSearchKeys(message.keys);
+          break;
+        case 'providerKeys':
+          renderProviderKeys(message);
+          break;
+        case 'projectMemory':
+          renderProjectMemory(message);
+          break;
+        case 'memoryFactSaved':
+          showMemoryFactSaved(message.id, message.fact, message.category, message.duplicate);
+          break;
+        case 'commitDiffResult':
+          showCommitDiffResult(message.id, message.commitId, message.compareTo, message.files);
+          break;
         case 'terminalConfirm':
-          showTerminalConfirmation(message.command, message.workingDir, message.id);
+          showTerminalConfirmation(message.command, message.workingDir, message.id, message.rule, message.risks);
           break;
         case 'toolApproval':
-          showToolApproval(message.toolName, message.args, message.id);
+          showToolApproval(message.toolName, message.args, message.id, message.rule);
           break;
         case 'userQuestionRequest':
           showUserQuestion(message.question, message.options, message.id);
@@ -462,6 +462,11 @@
           `;
           return actionEl;
         }
+        case 'tool':
+          // Generic registry actions: only remember has a visible indicator
+          return action.name === 'remember' && action.success
+            ? createMemoryFactElement(action.summary || '', '', false)
+            : null;
         default:
           // All other tool types are invisible — do not render
           return null;
@@ -27,6 +27,7 @@
     /** Immediate (non-debounced) settings save — used on panel close */
     function saveSettingsNow() {
       const autoRunTerminal = document.getElementById('auto-run-terminal');
+      const terminalSandbox = document.getElementById('terminal-sandbox');
       const ollamaUrlInput = document.getElementById('ollama-base-url');
 
       const providerSettings = {};
@@ -37,18 +38,22 @@
         if (urlInput || apiKeyInput) {
           providerSettings[prov] = {};
           if (urlInput) providerSettings[prov].url = urlInput.value.trim();
-          if (apiKeyInput) providerSettings[prov].apiKey = apiKeyInput.value.trim();
+          // Only a newly typed key is sent; saved keys are shown masked in the placeholder
+          if (apiKeyInput && apiKeyInput.value.trim()) providerSettings[prov].apiKey = apiKeyInput.value.trim();
         }
       });
 
       const settings = {
         agentIterations: agentIterationsSlider ? parseInt(agentIterationsSlider.value, 10) || 5 : 5,
         autoRunTerminal: autoRunTerminal ? autoRunTerminal.checked : false,
+        terminalSandbox: terminalSandbox ? terminalSandbox.checked : false,
         metricsEnabled: metricsToggle ? metricsToggle.checked : false,
         ollamaBaseUrl: ollamaUrlInput ? ollamaUrlInput.value.trim() : undefined,
-        providerSettings
+        providerSettings,
+        apiKeyScope: apiKeyScope(),
+        webSearch: collectWebSearchSettings()
       };
-      dbg('[Settings] saveSettingsNow — providerSettings:', JSON.stringify(providerSettings));
+      dbg('[Settings] saveSettingsNow — providers:', Object.keys(providerSettings).join(', '));
       vscode.postMessage({ type: 'saveSettings', ...settings });
     }
 
@@ -81,6 +86,8 @@
         item.classList.add('active');
         const content = document.getElementById('tab-content-' + tabId);
         if (content) content.classList.add('active');
+        if (tabId === 'metrics') vscode.postMessage({ type: 'getCommitStorageUsage' });
+        if (tabId === 'memory') vscode.postMessage({ type: 'getProjectMemory' });
       });
     });
 
@@ -96,6 +103,8 @@
         if (navItem) navItem.classList.add('active');
         const content = document.getElementById('tab-content-' + tabId);
         if (content) content.classList.add('active');
+        if (tabId === 'metrics') vscode.postMessage({ type: 'getCommitStorageUsage' });
+        if (tabId === 'memory') vscode.postMessage({ type: 'getProjectMemory' });
       });
     });
 
@@ -105,6 +114,7 @@
       if (saveSettingsDebounce) clearTimeout(saveSettingsDebounce);
       saveSettingsDebounce = setTimeout(() => {
         const autoRunTerminal = document.getElementById('auto-run-terminal');
+        const terminalSandbox = document.getElementById('terminal-sandbox');
         const ollamaUrlInput = document.getElementById('ollama-base-url');
         
         const providerSettings = {};
@@ -115,16 +125,19 @@
           if (urlInput || apiKeyInput) {
             providerSettings[prov] = {};
             if (urlInput) providerSettings[prov].url = urlInput.value.trim();
-            if (apiKeyInput) providerSettings[prov].apiKey = apiKeyInput.value.trim();
+            if (apiKeyInput && apiKeyInput.value.trim()) providerSettings[prov].apiKey = apiKeyInput.value.trim();
           }
         });
 
         const settings = {
           agentIterations: agentIterationsSlider ? parseInt(agentIterationsSlider.value, 10) || 5 : 5,
           autoRunTerminal: autoRunTerminal ? autoRunTerminal.checked : false,
+          terminalSandbox: terminalSandbox ? terminalSandbox.checked : false,
           metricsEnabled: metricsToggle ? metricsToggle.checked : false,
           ollamaBaseUrl: ollamaUrlInput ? ollamaUrlInput.value.trim() : undefined,
-          providerSettings
+          providerSettings,
+          apiKeyScope: apiKeyScope(),
+          webSearch: collectWebSearchSettings()
         };
         vscode.postMessage({ type: 'saveSettings', ...settings });
       }, 400);
@@ -145,6 +158,10 @@
         autoSaveSettings();
       });
     }
+    const terminalSandboxToggle = document.getElementById('terminal-sandbox');
+    if (terminalSandboxToggle) {
+      terminalSandboxToggle.addEventListener('change', () => autoSaveSettings());
+    }
 
     // ===== Usage Metrics Toggle =====
     const metricsToggle = document.getElementById('metrics-toggle');
@@ -243,6 +260,210 @@
 
     }
 
+    /** Checkpoint storage report (add_commit blobs), requested when the Metrics tab opens */
+    function renderCommitStorageUsage(usage) {
+      const el = (id) => document.getElementById(id);
+      if (!usage) return;
+      const commits = el('commit-storage-commits');
+      if (commits) commits.textContent = formatMetricNumber(usage.commits || 0);
+      const disk = el('commit-storage-disk');
+      if (disk) disk.textContent = formatBytes(usage.diskSize || 0);
+      const logical = el('commit-storage-logical');
+      if (logical) logical.textContent = formatBytes(usage.logicalSize || 0);
+      const sessions = el('commit-storage-sessions');
+      if (sessions) sessions.textContent = formatMetricNumber(usage.sessions || 0);
+    }
+
+    // ===== API keys (SecretStorage — the webview only gets masked values) =====
+    const apiKeyScopeSelect = document.getElementById('api-key-scope');
+    let providerKeys = {};
+
+    /** Scope for newly typed keys: all projects or the open workspace only */
+    function apiKeyScope() {
+      return apiKeyScopeSelect ? apiKeyScopeSelect.value : 'global';
+    }
+
+    function describeSavedKey(info) {
+      return info.scope === 'workspace' ? `${info.masked} (этот проект)` : info.masked;
+    }
+
+    function updateProviderKeyClearButton(btn) {
+      btn.style.display = providerKeys[btn.dataset.provider] ? '' : 'none';
+    }
+
+    /** Removes the key in effect (a workspace override first, then the global key) */
+    function bindProviderKeyClearButton(btn) {
+      btn.addEventListener('click', () => {
+        const provider = btn.dataset.provider;
+        const info = providerKeys[provider];
+        if (!info) return;
+        vscode.postMessage({ type: 'deleteProviderKey', provider, scope: info.scope });
+      });
+    }
+
+    function renderProviderKeys(message) {
+      providerKeys = message.keys || {};
+      const scopeRow = document.getElementById('api-key-scope-row');
+      if (scopeRow) scopeRow.style.display = message.workspaceScope ? '' : 'none';
+      if (!message.workspaceScope && apiKeyScopeSelect) apiKeyScopeSelect.value = 'global';
+      document.querySelectorAll('.provider-apikey[data-provider]').forEach(input => {
+        const info = providerKeys[input.dataset.provider];
+        input.value = '';
+        input.placeholder = info ? `API Key: ${describeSavedKey(info)}` : 'API Key';
+      });
+      document.querySelectorAll('.provider-apikey-clear[data-provider]').forEach(updateProviderKeyClearButton);
+    }
+
+    document.querySelectorAll('.provider-apikey-clear').forEach(bindProviderKeyClearButton);
+
+    // ===== Web Search (provider, key in SecretStorage, domain filters) =====
+    const WEB_SEARCH_KEY_PROVIDERS = { tavily: 'Tavily', brave: 'Brave Search', kagi: 'Kagi', searxng: 'SearXNG' };
+    const webSearchProviderSelect = document.getElementById('web-search-provider');
+    const webSearchKeyInput = document.getElementById('web-search-api-key');
+    const webSearchKeySaveBtn = document.getElementById('web-search-key-save-btn');
+    const searxngUrlInput = document.getElementById('searxng-url');
+    const webSearchAllowedInput = document.getElementById('web-search-allowed-domains');
+    const webSearchBlockedInput = document.getElementById('web-search-blocked-domains');
+    let webSearchKeys = {};
+
+    function parseDomainList(value) {
+      return (value || '').split(/[,\s]+/).map(d => d.trim()).filter(Boolean);
+    }
+
+    function collectWebSearchSettings() {
+      if (!webSearchProviderSelect) return undefined;
+      return {
+        provider: webSearchProviderSelect.value,
+        searxngUrl: searxngUrlInput ? searxngUrlInput.value.trim() : undefined,
+        allowedDomains: parseDomainList(webSearchAllowedInput && webSearchAllowedInput.value),
+        blockedDomains: parseDomainList(webSearchBlockedInput && webSearchBlockedInput.value)
+      };
+    }
+
+    /** Show the key field for providers that take one, and whether a key is saved */
+    function updateWebSearchFields() {
+      if (!webSearchProviderSelect) return;
+      const provider = webSearchProviderSelect.value;
+      const label = WEB_SEARCH_KEY_PROVIDERS[provider];
+      const keyRow = document.getElementById('web-search-key-row');
+      const status = document.getElementById('web-search-key-status');
+      const searxngRow = document.getElementById('searxng-url-row');
+      if (keyRow) keyRow.style.display = label ? '' : 'none';
+      if (searxngRow) searxngRow.style.display = provider === 'searxng' ? '' : 'none';
+      if (webSearchKeyInput) {
+        webSearchKeyInput.value = '';
+        webSearchKeyInput.placeholder = provider === 'searxng' ? 'API Key (необязательно)' : `API Key ${label || ''}`.trim();
+      }
+      if (status) {
+        const info = webSearchKeys[provider];
+        status.style.display = label ? '' : 'none';
+        status.textContent = info
+          ? `Ключ сохранён: ${describeSavedKey(info)}. Введите новый, чтобы заменить, или сохраните пустое поле, чтобы удалить.`
+          : 'Ключ не задан.';
+      }
+    }
+
+    /** Restore web search fields from VS Code config (restoreSettings) */
+    function applyWebSearchSettings(ws) {
+      if (!ws) return;
+      if (webSearchProviderSelect && ws.provider) webSearchProviderSelect.value = ws.provider;
+      if (searxngUrlInput) searxngUrlInput.value = ws.searxngUrl || '';
+      if (webSearchAllowedInput) webSearchAllowedInput.value = (ws.allowedDomains || []).join(', ');
+      if (webSearchBlockedInput) webSearchBlockedInput.value = (ws.blockedDomains || []).join(', ');
+      updateWebSearchFields();
+    }
+
+    function renderWebSearchKeys(keys) {
+      webSearchKeys = keys || {};
+      updateWebSearchFields();
+    }
+
+    if (webSearchProviderSelect) {
+      webSearchProviderSelect.addEventListener('change', () => {
+        updateWebSearchFields();
+        autoSaveSettings();
+      });
+    }
+    [searxngUrlInput, webSearchAllowedInput, webSearchBlockedInput].forEach(input => {
+      if (input) input.addEventListener('change', () => autoSaveSettings());
+    });
+    if (webSearchKeySaveBtn) {
+      webSearchKeySaveBtn.addEventListener('click', () => {
+        if (!webSearchProviderSelect) return;
+        const provider = webSearchProviderSelect.value;
+        const apiKey = webSearchKeyInput ? webSearchKeyInput.value.trim() : '';
+        const saved = webSearchKeys[provider];
+        vscode.postMessage({
+          type: 'saveWebSearchKey',
+          provider,
+          apiKey,
+          // A new key goes to the selected scope; an empty field removes the key in effect
+          scope: apiKey || !saved ? apiKeyScope() : saved.scope
+        });
+        if (webSearchKeyInput) webSearchKeyInput.value = '';
+      });
+    }
+
+    // ===== Project Memory (rule files + .ashibalt/memory.md) =====
+    const projectMemoryEditor = document.getElementById('project-memory-editor');
+    const projectMemorySaveBtn = document.getElementById('project-memory-save-btn');
+    const projectMemoryOpenBtn = document.getElementById('project-memory-open-btn');
+
+    if (projectMemorySaveBtn) {
+      projectMemorySaveBtn.addEventListener('click', () => {
+        vscode.postMessage({ type: 'saveProjectMemory', content: projectMemoryEditor ? projectMemoryEditor.value : '' });
+      });
+    }
+    if (projectMemoryOpenBtn) {
+      projectMemoryOpenBtn.addEventListener('click', () => vscode.postMessage({ type: 'openProjectMemory' }));
+    }
+
+    /** Rule files and learned facts, requested when the Memory tab opens */
+    function renderProjectMemory(data) {
+      if (!data) return;
+      const list = document.getElementById('project-rules-list');
+      if (list) {
+        list.innerHTML = '';
+        if (!data.rules || data.rules.length === 0) {
+          const empty = document.createElement('p');
+          empty.className = 'provider-note';
+          empty.textContent = 'Файлы правил не найдены.';
+          list.appendChild(empty);
+        }
+        (data.rules || []).forEach(rule => {
+          const row = document.createElement('div');
+          row.className = 'project-rule-item';
+          row.innerHTML = `
+            <span class="codicon codicon-book"></span>
+            <span class="project-rule-label"></span>
+            <span class="project-rule-size"></span>
+            <button class="icon-btn" title="Открыть">
+              <span class="codicon codicon-go-to-file"></span>
+            </button>
+          `;
+          row.querySelector('.project-rule-label').textContent = rule.label;
+          row.querySelector('.project-rule-size').textContent = formatBytes(rule.size || 0) + (rule.truncated ? ' · обрезан' : '');
+          row.querySelector('button').addEventListener('click', () => {
+            vscode.postMessage({ type: 'openFile', filePath: rule.path });
+          });
+          list.appendChild(row);
+        });
+      }
+      if (projectMemoryEditor) {
+        projectMemoryEditor.value = data.content || '';
+        projectMemoryEditor.disabled = !data.available;
+      }
+      if (projectMemorySaveBtn) projectMemorySaveBtn.disabled = !data.available;
+      if (projectMemoryOpenBtn) projectMemoryOpenBtn.disabled = !data.available;
+    }
+
+    function formatBytes(n) {
+      if (n >= 1024 * 1024 * 1024) return (n / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
+      if (n >= 1024 * 1024) return (n / (1024 * 1024)).toFixed(1) + ' MB';
+      if (n >= 1024) return (n / 1024).toFixed(1) + ' KB';
+      return n + ' B';
+    }
+
     function formatMetricNumber(n) {
       if (n >= 1000000) return (n / 1000000).toFixed(1) + 'M';
       if (n >= 1000) return (n / 1000).toFixed(1) + 'K';
@@ -368,3 +589,168 @@
         modelIdInput.value = '';
       });
     });
+
+    // ===== Custom Providers =====
+    const customProviderList = document.getElementById('custom-provider-list');
+    const customProviderForm = document.getElementById('custom-provider-form');
+    const cpAuthStyle = document.getElementById('cp-auth-style');
+    const cpAuthHeader = document.getElementById('cp-auth-header');
+    const cpSaveBtn = document.getElementById('cp-save-btn');
+
+    /** "Name: value" lines → headers object */
+    function parseHeaderLines(text) {
+      const headers = {};
+      (text || '').split('\n').forEach(line => {
+        const idx = line.indexOf(':');
+        if (idx <= 0) return;
+        const name = line.slice(0, idx).trim();
+        const value = line.slice(idx + 1).trim();
+        if (name) headers[name] = value;
+      });
+      return headers;
+    }
+
+    function formatHeaderLines(headers) {
+      return Object.entries(headers || {}).map(([k, v]) => `${k}: ${v}`).join('\n');
+    }
+
+    function updateAuthHeaderVisibility() {
+      if (cpAuthStyle && cpAuthHeader) {
+        cpAuthHeader.style.display = cpAuthStyle.value === 'header' ? '' : 'none';
+      }
+    }
+
+    /** Fill the add/edit form (edit keeps the same id → provider is replaced on save) */
+    function fillCustomProviderForm(cp) {
+      const set = (id, value) => {
+        const el = document.getElementById(id);
+        if (el) el.value = value;
+      };
+      set('cp-id', cp ? cp.id : '');
+      set('cp-name', cp ? cp.name : '');
+      set('cp-url', cp ? cp.baseUrl : '');
+      set('cp-apikey', '');
+      const cpKeyInput = document.getElementById('cp-apikey');
+      const savedKey = cp && providerKeys['custom:' + cp.id];
+      if (cpKeyInput) {
+        cpKeyInput.placeholder = savedKey
+          ? `API Key: ${describeSavedKey(savedKey)} (пусто — оставить)`
+          : 'API Key (необязательно)';
+      }
+      set('cp-auth-style', cp ? cp.authStyle || 'bearer' : 'bearer');
+      set('cp-auth-header', cp ? cp.authHeader || '' : '');
+      set('cp-extra-headers', cp ? formatHeaderLines(cp.extraHeaders) : '');
+      set('cp-models-endpoint', cp ? cp.modelsEndpoint ?? '/models' : '/models');
+      set('cp-context-length', cp && cp.contextLength ? String(cp.contextLength) : '');
+      updateAuthHeaderVisibility();
+      if (customProviderForm) customProviderForm.open = true;
+    }
+
+    function renderCustomProviders(list) {
+      if (!customProviderList) return;
+      customProviderList.innerHTML = '';
+      (list || []).forEach(cp => {
+        const providerId = 'custom:' + cp.id;
+        const acc = document.createElement('details');
+        acc.className = 'provider-accordion custom-provider-item';
+        acc.innerHTML = `
+          <summary class="provider-summary">
+            <span class="codicon codicon-server"></span>
+            <span class="provider-label"></span>
+            <span class="provider-tag api">Custom</span>
+          </summary>
+          <div class="provider-content">
+            <p class="provider-note cp-url"></p>
+            <div class="compact-field" style="margin-top: 6px;">
+              <input type="text" class="settings-input provider-model-id" placeholder="ID модели">
+              <button class="icon-btn accent cp-add-model-btn" title="Добавить">
+                <span class="codicon codicon-add"></span>
+              </button>
+              <button class="icon-btn provider-fetch-btn" title="Загрузить модели">
+                <span class="codicon codicon-cloud-download"></span>
+              </button>
+              <button class="icon-btn provider-apikey-clear" title="Удалить сохранённый ключ" style="display: none;">
+                <span class="codicon codicon-trash"></span>
+              </button>
+              <button class="icon-btn cp-edit-btn" title="Изменить">
+                <span class="codicon codicon-edit"></span>
+              </button>
+              <button class="icon-btn cp-delete-btn" title="Удалить провайдер">
+                <span class="codicon codicon-trash"></span>
+              </button>
+            </div>
+          </div>
+        `;
+        acc.querySelector('.provider-label').textContent = cp.name;
+        acc.querySelector('.cp-url').textContent = cp.baseUrl;
+
+        const fetchBtn = acc.querySelector('.provider-fetch-btn');
+        fetchBtn.dataset.provider = providerId;
+        if (!cp.modelsEndpoint && cp.modelsEndpoint !== undefined) {
+          fetchBtn.style.display = 'none';
+        }
+        fetchBtn.addEventListener('click', () => {
+          fetchBtn.classList.add('loading');
+          // The saved key is resolved on the host
+          vscode.postMessage({ type: 'fetchProviderModels', provider: providerId, url: cp.baseUrl, apiKey: '' });
+          setTimeout(() => fetchBtn.classList.remove('loading'), 10000);
+        });
+
+        acc.querySelector('.cp-add-model-btn').addEventListener('click', () => {
+          const input = acc.querySelector('.provider-model-id');
+          const modelId = input.value.trim();
+          if (!modelId) return;
+          const nameParts = modelId.split('/');
+          vscode.postMessage({
+            type: 'saveModel',
+            model: { id: modelId, name: nameParts[nameParts.length - 1], provider: providerId }
+          });
+          input.value = '';
+        });
+
+        const keyClearBtn = acc.querySelector('.provider-apikey-clear');
+        keyClearBtn.dataset.provider = providerId;
+        updateProviderKeyClearButton(keyClearBtn);
+        bindProviderKeyClearButton(keyClearBtn);
+
+        acc.querySelector('.cp-edit-btn').addEventListener('click', () => fillCustomProviderForm(cp));
+        acc.querySelector('.cp-delete-btn').addEventListener('click', () => {
+          if (confirm(`Удалить провайдер "${cp.name}" и его модели?`)) {
+            vscode.postMessage({ type: 'deleteCustomProvider', id: cp.id });
+          }
+        });
+
+        customProviderList.appendChild(acc);
+      });
+    }
+
+    if (cpAuthStyle) {
+      cpAuthStyle.addEventListener('change', updateAuthHeaderVisibility);
+    }
+
+    if (cpSaveBtn) {
+      cpSaveBtn.addEventListener('click', () => {
+        const val = (id) => {
+          const el = document.getElementById(id);
+          return el ? el.value.trim() : '';
+        };
+        const contextLength = parseInt(val('cp-context-length'), 10);
+        vscode.postMessage({
+          type: 'saveCustomProvider',
+          provider: {
+            id: val('cp-id'),
+            name: val('cp-name'),
+            baseUrl: val('cp-url'),
+            apiKey: val('cp-apikey'),
+            authStyle: val('cp-auth-style') || 'bearer',
+            authHeader: val('cp-auth-header'),
+            extraHeaders: parseHeaderLines(val('cp-extra-headers')),
+            modelsEndpoint: val('cp-models-endpoint'),
+            contextLength: contextLength > 0 ? contextLength : undefined
+          },
+          apiKeyScope: apiKeyScope()
+        });
+        fillCustomProviderForm(null);
+        if (customProviderForm) customProviderForm.open = false;
+      });
+    }
@@ -1,7 +1,7 @@
 /* ================================================================
    TOOL-ACTIONS — визуальные индикаторы действий инструментов:
                  чтение/редактирование/создание/удаление файлов,
-                 терминал, веб-поиск, поиск по коду
+                 терминал, веб-поиск, поиск по коду, память проекта
    ================================================================ */
 
     function showFileReadAction(data) {
@@ -342,7 +342,7 @@
     }
 
     // Show terminal confirmation dialog in chat (inline, like VS Code)
-    function showTerminalConfirmation(command, workingDir, replyTo) {
+    function showTerminalConfirmation(command, workingDir, replyTo, rule, risks) {
       // Remove any existing confirmation dialog
       const existing = document.querySelector('.terminal-confirm-inline');
       if (existing) existing.remove();
@@ -376,10 +376,18 @@
           <div class="terminal-confirm-command">
             <textarea class="terminal-command-input" id="terminal-command-input" rows="1">${escapeHtml(command)}</textarea>
           </div>
+          ${(risks || []).length ? `<div class="terminal-confirm-risks">
+            ${risks.map(r => `<div class="terminal-confirm-risk ${escapeHtml(r.category)}" title="${escapeHtml(r.segment || '')}">
+              <span class="codicon codicon-warning"></span>${escapeHtml(r.reason)}
+            </div>`).join('')}
+          </div>` : ''}
           <div class="terminal-confirm-actions">
             <button class="terminal-confirm-btn allow" id="terminal-confirm-yes">
               Разрешить
             </button>
+            ${rule ? `<button class="terminal-confirm-btn always" id="terminal-confirm-always" title="Добавить правило: ${escapeHtml(rule)}">
+              Всегда разрешать
+            </button>` : ''}
             <button class="terminal-confirm-btn deny" id="terminal-confirm-no">
               Пропустить
             </button>
@@ -399,10 +407,10 @@
       autoResize();
       commandInput.addEventListener('input', autoResize);
       
-      // Add event handlers
-      actionEl.querySelector('#terminal-confirm-yes').addEventListener('click', () => {
+      // Add event handlers ("always" also writes an allow rule to the permission policy)
+      const confirmCommand = (always) => {
         const editedCommand = commandInput.value.trim();
-        vscode.postMessage({ type: 'terminalConfirmResponse', confirmed: true, command: editedCommand });
+        vscode.postMessage({ type: 'terminalConfirmResponse', confirmed: true, command: editedCommand, always });
         
         // Immediately show loading state with detach button
         actionEl.innerHTML = `
@@ -422,7 +430,10 @@
             </div>
           `;
         });
-      });
+      };
+      actionEl.querySelector('#terminal-confirm-yes').addEventListener('click', () => confirmCommand(false));
+      const alwaysBtn = actionEl.querySelector('#terminal-confirm-always');
+      if (alwaysBtn) alwaysBtn.addEventListener('click', () => confirmCommand(true));
       
       actionEl.querySelector('#terminal-confirm-no').addEventListener('click', () => {
         vscode.postMessage({ type: 'terminalConfirmResponse', confirmed: false });
@@ -443,8 +454,8 @@
       scrollToBottom();
     }
 
-    // Show tool approval dialog in chat mode (inline)
-    function showToolApproval(toolName, args, replyTo) {
+    // Show tool approval dialog (inline) for tools the permission policy marks as "ask"
+    function showToolApproval(toolName, args, replyTo, rule) {
       // Remove any existing approval dialog
       const existing = document.querySelector('.tool-approval-inline');
       if (existing) existing.remove();
@@ -476,9 +487,13 @@
         description = args.file_path;
       } else if (toolName === 'fetch_url' && args && args.url) {
         description = args.url;
+      } else if (toolName.startsWith('mcp__')) {
+        description = JSON.stringify(args || {}).slice(0, 120);
       } else if (toolName === 'lsp' && args) {
         const opLabels = { definitions: 'Определение', references: 'Ссылки', hover: 'Информация', symbols: 'Символы', type_definition: 'Тип', implementations: 'Реализации', rename_preview: 'Превью переименования' };
         description = (opLabels[args.operation] || args.operation || 'lsp') + ': ' + (args.file_path || '');
+      } else if (args && (args.file_path || args.url || args.command)) {
+        description = args.file_path || args.url || args.command;
       }
 
       const toolLabels = {
@@ -488,9 +503,11 @@
         'web_search': 'Веб-поиск',
         'diagnose': 'Диагностика',
         'fetch_url': 'Загрузить URL',
-        'lsp': 'LSP Запрос'
+        'lsp': 'LSP Запрос',
+        'delete_file': 'Удалить файл'
       };
-      const label = toolLabels[toolName] || toolName;
+      const mcpMatch = toolName.match(/^mcp__(.+?)__(.+)$/);
+      const label = toolLabels[toolName] || (mcpMatch ? `MCP ${mcpMatch[1]}: ${mcpMatch[2]}` : toolName);
 
       const actionEl = document.createElement('div');
       actionEl.className = 'tool-approval-inline';
@@ -502,23 +519,27 @@
           </div>
           <div class="terminal-confirm-actions">
             <button class="terminal-confirm-btn allow" id="tool-approve-yes">Разрешить</button>
+            ${rule ? `<button class="terminal-confirm-btn always" id="tool-approve-always" title="Добавить правило: ${escapeHtml(rule)}">Всегда разрешать</button>` : ''}
             <button class="terminal-confirm-btn deny" id="tool-approve-no">Отклонить</button>
           </div>
         </div>
       `;
       messageContent.appendChild(actionEl);
 
-      actionEl.querySelector('#tool-approve-yes').addEventListener('click', () => {
-        vscode.postMessage({ type: 'toolApprovalResponse', confirmed: true });
+      const approve = (always) => {
+        vscode.postMessage({ type: 'toolApprovalResponse', confirmed: true, always });
         actionEl.innerHTML = `
           <div class="terminal-confirm-box" style="opacity:0.6;">
             <div class="terminal-confirm-label">
               <span class="codicon codicon-check"></span>
-              ${escapeHtml(label)}: <code>${escapeHtml(description)}</code> — разрешено
+              ${escapeHtml(label)}: <code>${escapeHtml(description)}</code> — ${always ? 'разрешено всегда' : 'разрешено'}
             </div>
           </div>
         `;
-      });
+      };
+      actionEl.querySelector('#tool-approve-yes').addEventListener('click', () => approve(false));
+      const alwaysBtn = actionEl.querySelector('#tool-approve-always');
+      if (alwaysBtn) alwaysBtn.addEventListener('click', () => approve(true));
 
       actionEl.querySelector('#tool-approve-no').addEventListener('click', () => {
         vscode.postMessage({ type: 'toolApprovalResponse', confirmed: false });
@@ -670,6 +691,45 @@
       scrollToBottom();
     }
 
+    // ============ PROJECT MEMORY (remember) ============
+    function createMemoryFactElement(fact, category, duplicate) {
+      const actionEl = document.createElement('div');
+      actionEl.className = 'terminal-result-inline success memory-fact-inline';
+      const text = fact && fact.length > 80 ? fact.slice(0, 80) + '...' : (fact || '');
+      actionEl.title = (category ? category + ': ' : '') + (fact || '');
+      actionEl.innerHTML = `
+        <span class="codicon codicon-bookmark"></span>
+        <span class="terminal-result-text">${duplicate ? 'Уже в памяти' : 'Запомнено'}: ${escapeHtml(text)}</span>
+      `;
+      return actionEl;
+    }
+
+    function showMemoryFactSaved(replyTo, fact, category, duplicate) {
+      let targetMsg = null;
+      if (replyTo) {
+        targetMsg = chatContainer.querySelector(`.message.assistant[data-msg-id="${replyTo}"]`);
+      }
+      if (!targetMsg) {
+        const assistants = chatContainer.querySelectorAll('.message.assistant');
+        targetMsg = assistants.length > 0 ? assistants[assistants.length - 1] : null;
+      }
+      if (!targetMsg) return;
+
+      const messageContent = targetMsg.querySelector('.message-content');
+      if (!messageContent) return;
+
+      messageContent.appendChild(createMemoryFactElement(fact, category, duplicate));
+
+      const segments = messageContent.querySelectorAll('.content-segment');
+      const newSegment = document.createElement('div');
+      newSegment.className = 'content-segment';
+      newSegment.dataset.segmentIdx = String(segments.length);
+      newSegment.dataset.raw = '';
+      messageContent.appendChild(newSegment);
+
+      scrollToBottom();
+    }
+
     // ============ TERMINAL INTERACTIVE PROMPT ============
     // Shows inline UI when terminal detects an interactive prompt (y/n, selection, etc.)
     // The model suggests a response; user can approve, edit, or skip.
@@ -992,7 +1052,9 @@
         'symbols': 'Символы',
         'type_definition': 'Тип',
         'implementations': 'Реализации',
-        'rename_preview': 'Превью переименования'
+        'rename_preview': 'Превью переименования',
+        'rename': 'Переименование',
+        'code_action': 'Действия кода'
       };
       const label = operationLabels[operation] || operation;
       const fileName = filePath ? filePath.split(/[\\/]/).pop() : '';
@@ -1083,6 +1145,92 @@
       scrollToBottom();
     }
 
+    function showCommitDiffResult(replyTo, commitId, compareTo, files) {
+      let targetMsg = null;
+      if (replyTo) {
+        targetMsg = chatContainer.querySelector(`.message.assistant[data-msg-id="${replyTo}"]`);
+      }
+      if (!targetMsg) {
+        const assistants = chatContainer.querySelectorAll('.message.assistant');
+        targetMsg = assistants.length > 0 ? assistants[assistants.length - 1] : null;
+      }
+      if (!targetMsg) return;
+
+      const messageContent = targetMsg.querySelector('.message-content');
+      if (!messageContent) return;
+
+      files = files || [];
+      const statusLetters = { modified: 'M', new: 'A', deleted: 'D' };
+      const title = `Сравнение ${commitId} ↔ ${compareTo || 'рабочая папка'}`;
+
+      const actionEl = document.createElement('div');
+      actionEl.className = 'lsp-action commit-diff-action success';
+
+      let filesHtml = '<div class="lsp-results">';
+      if (files.length === 0) {
+        filesHtml += '<div style="padding: 1px 6px;">Изменений нет</div>';
+      }
+      files.forEach((f, idx) => {
+        filesHtml += `
+          <div class="lsp-result-item commit-diff-item" data-idx="${idx}" title="${escapeHtml(f.file)}">
+            <span class="commit-diff-status ${escapeHtml(f.status)}">${statusLetters[f.status] || '?'}</span>
+            <span class="result-file">${escapeHtml(f.file)}</span>
+            <span class="diff-stats">
+              <span class="added">+${f.added || 0}</span>
+              <span class="removed">-${f.removed || 0}</span>
+            </span>
+          </div>
+        `;
+      });
+      filesHtml += '</div>';
+
+      actionEl.innerHTML = `
+        <button class="lsp-header accordion-toggle">
+          <span class="status-icon success">
+            <span class="codicon codicon-git-compare"></span>
+          </span>
+          <span class="lsp-title">${escapeHtml(title)}</span>
+          <span class="lsp-count">${files.length}</span>
+          <span class="accordion-icon">
+            <span class="codicon codicon-chevron-down"></span>
+          </span>
+        </button>
+        <div class="lsp-content collapsed">
+          ${filesHtml}
+        </div>
+      `;
+
+      const header = actionEl.querySelector('.accordion-toggle');
+      const content = actionEl.querySelector('.lsp-content');
+      const icon = actionEl.querySelector('.accordion-icon');
+      if (header && content) {
+        header.addEventListener('click', () => {
+          content.classList.toggle('collapsed');
+          if (icon) icon.classList.toggle('rotated');
+        });
+      }
+
+      // Click a file to open the side-by-side diff
+      actionEl.querySelectorAll('.commit-diff-item').forEach(item => {
+        item.addEventListener('click', () => {
+          const f = files[parseInt(item.dataset.idx)];
+          if (!f) return;
+          vscode.postMessage({ type: 'openCommitDiff', file: f.file, oldPath: f.oldPath, newPath: f.newPath, commitId, compareTo });
+        });
+      });
+
+      messageContent.appendChild(actionEl);
+
+      const diffSegments = messageContent.querySelectorAll('.content-segment');
+      const diffNewSeg = document.createElement('div');
+      diffNewSeg.className = 'content-segment';
+      diffNewSeg.dataset.segmentIdx = String(diffSegments.length);
+      diffNewSeg.dataset.raw = '';
+      messageContent.appendChild(diffNewSeg);
+
+      scrollToBottom();
+    }
+
     // ── ask_user: inline question UI ────────────────────────────────────────
     function showUserQuestion(question, options, replyTo) {
       // Find the target assistant message bubble to attach the UI to
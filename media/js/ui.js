@@ -533,18 +533,25 @@
       saveChatState();
     }
 
+    const PROVIDER_LABELS = {
+      ollama: 'Ollama', openrouter: 'OpenRouter', openai: 'OpenAI',
+      claude: 'Claude', gemini: 'Gemini', deepseek: 'DeepSeek',
+      mistral: 'Mistral', grok: 'Grok'
+    };
+
+    /** Display name of a built-in or custom (custom:<id>) provider */
+    function providerLabel(provider) {
+      if (PROVIDER_LABELS[provider]) return PROVIDER_LABELS[provider];
+      const custom = customProviders.find(p => 'custom:' + p.id === provider);
+      return custom ? custom.name : provider;
+    }
+
     // ===== Model Browser Popup (for cloud providers with many models) =====
     function showModelBrowser(provider, models) {
       // Remove existing browser if any
       const existing = document.getElementById('model-browser-overlay');
       if (existing) existing.remove();
 
-      const providerLabels = {
-        ollama: 'Ollama', openrouter: 'OpenRouter', openai: 'OpenAI',
-        claude: 'Claude', gemini: 'Gemini', deepseek: 'DeepSeek',
-        mistral: 'Mistral', grok: 'Grok'
-      };
-
       // Already saved model IDs for this provider
       const savedIds = new Set((savedModels || []).filter(m => m.provider === provider).map(m => m.id));
 
@@ -555,7 +562,7 @@
       overlay.innerHTML = `
         <div class="model-browser">
           <div class="model-browser-header">
-            <span class="model-browser-title">${providerLabels[provider] || provider} — ${models.length} моделей</span>
+            <span class="model-browser-title">${providerLabel(provider)} — ${models.length} моделей</span>
             <button class="model-browser-close" title="Закрыть">&times;</button>
           </div>
           <div class="model-browser-search-wrap">
@@ -669,6 +676,72 @@
       renderList();
     }
 
+    /** Model whose fallback editor stays open across re-renders */
+    let openFallbackEditorKey = null;
+
+    /**
+     * Inline editor of a model's fallback chain: ordered list of other saved models
+     * the agent switches to when the model's provider fails persistently.
+     */
+    function renderFallbackEditor(model, models) {
+      const chain = (model.fallbacks || []).slice();
+      const editor = document.createElement('div');
+      editor.className = 'model-fallback-editor';
+
+      const save = (next) => {
+        vscode.postMessage({ type: 'setModelFallbacks', id: model.id, provider: model.provider, fallbacks: next });
+      };
+
+      chain.forEach((fb, idx) => {
+        const row = document.createElement('div');
+        row.className = 'model-fallback-row';
+        const label = document.createElement('span');
+        label.textContent = `${idx + 1}. ${providerLabel(fb.provider)}: ${fb.model}`;
+        const removeBtn = document.createElement('button');
+        removeBtn.className = 'icon-btn';
+        removeBtn.title = 'Убрать';
+        removeBtn.innerHTML = '<span class="codicon codicon-close"></span>';
+        removeBtn.addEventListener('click', () => save(chain.filter((_, i) => i !== idx)));
+        row.appendChild(label);
+        row.appendChild(removeBtn);
+        editor.appendChild(row);
+      });
+
+      const candidates = models.filter(m =>
+        !(m.provider === model.provider && m.id === model.id) &&
+        !chain.some(f => f.provider === m.provider && f.model === m.id)
+      );
+      if (candidates.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'model-fallback-empty';
+        empty.textContent = chain.length === 0
+          ? 'Добавьте модель другого провайдера, чтобы использовать её как резервную.'
+          : 'Все сохранённые модели уже в цепочке.';
+        editor.appendChild(empty);
+        return editor;
+      }
+
+      const addRow = document.createElement('div');
+      addRow.className = 'compact-field';
+      const select = document.createElement('select');
+      select.className = 'settings-input';
+      candidates.forEach(m => {
+        const opt = document.createElement('option');
+        opt.value = JSON.stringify({ provider: m.provider, model: m.id });
+        opt.textContent = `${providerLabel(m.provider)}: ${m.name}`;
+        select.appendChild(opt);
+      });
+      const addBtn = document.createElement('button');
+      addBtn.className = 'icon-btn accent';
+      addBtn.title = 'Добавить в цепочку';
+      addBtn.innerHTML = '<span class="codicon codicon-add"></span>';
+      addBtn.addEventListener('click', () => save([...chain, JSON.parse(select.value)]));
+      addRow.appendChild(select);
+      addRow.appendChild(addBtn);
+      editor.appendChild(addRow);
+      return editor;
+    }
+
     function renderModels(models, selectedId = null) {
       dbg('[RenderModels] called. models:', models?.length, 'selectedId:', selectedId, 'currentUser:', currentUser);
       if (!modelDropdown) return;
@@ -704,16 +777,6 @@
 
         // Group models by provider
         const providerOrder = ['ollama', 'openrouter', 'openai', 'claude', 'gemini', 'deepseek', 'mistral', 'grok'];
-        const providerLabels = {
-          ollama: 'Ollama',
-          openrouter: 'OpenRouter',
-          openai: 'OpenAI',
-          claude: 'Claude',
-          gemini: 'Gemini',
-          deepseek: 'DeepSeek',
-          mistral: 'Mistral',
-          grok: 'Grok'
-        };
         
         const renderModelGroup = (groupModels, label) => {
           if (groupModels.length === 0) return;
@@ -730,7 +793,7 @@
             }
             div.innerHTML = `
               <span class="name">${model.name}</span>
-              <span class="provider ${model.provider}">${providerLabels[model.provider] || model.provider}</span>
+              <span class="provider ${model.provider}">${providerLabel(model.provider)}</span>
             `;
             div.addEventListener('click', () => {
             // Auth disabled — all models available regardless of tier
@@ -750,7 +813,10 @@
         
         providerOrder.forEach(prov => {
           const groupModels = models.filter(m => m.provider === prov || (prov === 'mistral' && m.provider === 'ashibalt'));
-          renderModelGroup(groupModels, providerLabels[prov] || prov);
+          renderModelGroup(groupModels, providerLabel(prov));
+        });
+        customProviders.forEach(cp => {
+          renderModelGroup(models.filter(m => m.provider === 'custom:' + cp.id), cp.name);
         });
 
         modelDropdown.appendChild(scrollWrap);
@@ -771,14 +837,17 @@
             const div = document.createElement('div');
             div.className = 'settings-model-item';
             
+            const fallbacks = model.fallbacks || [];
             div.innerHTML = `
               <div class="model-info">
                 <div class="model-name">${model.name}</div>
                 <div class="model-id">${model.id}</div>
+                ${fallbacks.length > 0 ? `<div class="model-fallbacks">↪ ${fallbacks.map(f => `${providerLabel(f.provider)}: ${f.model}`).join(' → ')}</div>` : ''}
               </div>
-              <span class="model-provider ${model.provider}">${
-                { ollama: 'Ollama', openrouter: 'OpenRouter', openai: 'OpenAI', claude: 'Claude', gemini: 'Gemini', deepseek: 'DeepSeek', mistral: 'Mistral', grok: 'Grok' }[model.provider] || model.provider
-              }</span>
+              <span class="model-provider ${model.provider}">${providerLabel(model.provider)}</span>
+              <button class="fallback-model-btn" title="Резервные провайдеры">
+                <span class="codicon codicon-arrow-swap"></span>
+              </button>
               <button class="delete-model-btn" title="Удалить модель">
                 <span class="codicon codicon-trash"></span>
               </button>
@@ -790,6 +859,16 @@
               });
             }
             settingsModelList.appendChild(div);
+
+            const editorKey = model.provider + '/' + model.id;
+            const editor = renderFallbackEditor(model, models);
+            editor.style.display = openFallbackEditorKey === editorKey ? '' : 'none';
+            settingsModelList.appendChild(editor);
+            div.querySelector('.fallback-model-btn').addEventListener('click', () => {
+              const open = editor.style.display === 'none';
+              editor.style.display = open ? '' : 'none';
+              openFallbackEditorKey = open ? editorKey : null;
+            });
           });
         } else {
           settingsModelList.innerHTML = '<div style="color: var(--secondary-text); font-size: 11px; padding: 12px; text-align: center;">Нет сохранённых моделей</div>';
@@ -0,0 +1,116 @@
+/**
+ * jsonlEvents.ts — Converts agent loop UI messages into JSONL events (headless CLI).
+ *
+ * The agent loop reports progress through postMessage payloads meant for the webview
+ * (cumulative `streamResponse` text, `toolCall`/`toolResult`, `metricsUpdate`, ...).
+ * HeadlessEventWriter turns them into one JSON object per line:
+ *
+ *   {"type":"text_delta","delta":"..."}           new model text
+ *   {"type":"reasoning_delta","delta":"..."}      new reasoning text
+ *   {"type":"status","message":"..."}             retry / provider notes
+ *   {"type":"tool_call","name":"...","args":{}}
+ *   {"type":"tool_result","name":"...","result":{}}
+ *   {"type":"metrics","metrics":{...}}
+ *   {"type":"tasks","tasks":[...]}
+ *
+ * plus the run-level events emitted by the CLI itself (start, approval, done, error).
+ * Every event carries `ts` (ms since epoch).
+ */
+
+export type HeadlessEvent = { type: string; [key: string]: unknown };
+
+/** Transient notes the loop appends to the streamed text without keeping them */
+const STATUS_NOTE = /^\s*(⏳|⚠️)/;
+
+export class HeadlessEventWriter {
+  private emittedText = '';
+  private emittedReasoning = '';
+  private lastMetrics: Record<string, unknown> | undefined;
+  private toolCalls = 0;
+
+  constructor(private readonly write: (line: string) => void) {}
+
+  emit(event: HeadlessEvent): void {
+    this.write(JSON.stringify({ ...event, ts: Date.now() }));
+  }
+
+  /** Final model text streamed so far */
+  get text(): string {
+    return this.emittedText;
+  }
+
+  get metrics(): Record<string, unknown> | undefined {
+    return this.lastMetrics;
+  }
+
+  get toolCallCount(): number {
+    return this.toolCalls;
+  }
+
+  /** postMessage implementation handed to the agent loop */
+  handleLoopMessage(msg: any): void {
+    switch (msg?.type) {
+      case 'streamResponse':
+        this.handleStream(String(msg.content ?? ''), typeof msg.reasoning === 'string' ? msg.reasoning : '');
+        break;
+      case 'toolCall':
+        this.toolCalls++;
+        this.emit({ type: 'tool_call', name: msg.name, args: msg.args });
+        break;
+      case 'toolResult':
+        // Only posted for calls the loop answers itself (bad JSON, limits, rejections)
+        this.toolResult(msg.name, msg.result);
+        break;
+      case 'metricsUpdate':
+        this.lastMetrics = { ...this.lastMetrics, ...msg.metrics };
+        this.emit({ type: 'metrics', metrics: msg.metrics });
+        break;
+      case 'tasksUpdate':
+        if (Array.isArray(msg.tasks) && msg.tasks.length > 0) this.emit({ type: 'tasks', tasks: msg.tasks });
+        break;
+      case 'summarizationStatus':
+        if (msg.status !== 'idle') this.emit({ type: 'status', message: `context summarization: ${msg.status}` });
+        break;
+      case 'addMessage':
+        if (msg.role === 'system' && msg.content) this.emit({ type: 'status', message: msg.content });
+        break;
+      default:
+        // Webview-only messages (streamEnd, toolUsed, balanceUpdate, file action cards, ...)
+        break;
+    }
+  }
+
+  /** Result of an executed tool call (agent loop onToolResult hook) */
+  toolResult(name: string, result: unknown, durationMs?: number): void {
+    this.emit({ type: 'tool_result', name, result: parseMaybeJson(result), ...(durationMs !== undefined ? { durationMs } : {}) });
+  }
+
+  private handleStream(content: string, reasoning: string): void {
+    if (reasoning && reasoning !== this.emittedReasoning) {
+      const delta = reasoning.startsWith(this.emittedReasoning) ? reasoning.slice(this.emittedReasoning.length) : reasoning;
+      this.emittedReasoning = reasoning;
+      this.emit({ type: 'reasoning_delta', delta });
+    }
+    if (!content.startsWith(this.emittedText)) {
+      // The loop never rewrites streamed text; anything else is a transient note
+      return;
+    }
+    const delta = content.slice(this.emittedText.length);
+    if (!delta) return;
+    if (STATUS_NOTE.test(delta)) {
+      this.emit({ type: 'status', message: delta.trim().replace(/^\*|\*$/g, '') });
+      return;
+    }
+    this.emittedText = content;
+    this.emit({ type: 'text_delta', delta });
+  }
+}
+
+function parseMaybeJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,332 @@
+#!/usr/bin/env node
+/**
+ * main.ts — `ashibalt` command: runs the agent loop without VS Code.
+ *
+ *   ashibalt --model <id> [options] "fix failing tests"
+ *
+ * The same runOpenRouterAgentLoop as in the extension, with:
+ *   - a filesystem-backed `vscode` module (vscodeShim.ts) rooted at --workspace
+ *   - terminal commands run as child processes
+ *   - a non-interactive approval policy: tool policy "ask" decisions are
+ *     denied (default) or approved (--on-ask allow); "deny" always wins
+ *   - JSONL events on stdout (jsonlEvents.ts), logs on stderr with --verbose
+ *
+ * Exit codes: 0 completed, 1 error, 2 usage error, 3 iteration limit reached, 130 interrupted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createVscodeShim, installVscodeShim, parseJsonc } from './vscodeShim';
+import { HeadlessEventWriter } from './jsonlEvents';
+import type { ProviderType } from '../Config/config';
+
+export interface CliOptions {
+  task: string;
+  workspace: string;
+  provider: ProviderType;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  mode: 'agent' | 'chat';
+  onAsk: 'deny' | 'allow';
+  maxIterations?: number;
+  contextLength?: number;
+  /** settings.json-style file with ashibaltAi.* keys */
+  settingsFile?: string;
+  sessionId?: string;
+  verbose: boolean;
+}
+
+export const EXIT_CODES = { completed: 0, error: 1, usage: 2, iterationLimit: 3, interrupted: 130 } as const;
+
+/** Built-in providers accepted by --provider (custom ones live in VS Code settings) */
+const CLI_PROVIDERS: ProviderType[] = ['openrouter', 'openai', 'claude', 'gemini', 'deepseek', 'mistral', 'grok', 'ollama'];
+
+function isCliProvider(provider: string): provider is ProviderType {
+  return (CLI_PROVIDERS as string[]).includes(provider);
+}
+
+const USAGE = `Usage: ashibalt [options] <task...>
+
+Runs an Ashibalt agent task headless and prints JSONL events to stdout.
+
+Options:
+  -m, --model <id>            Model id (or ASHIBALT_MODEL)
+  -p, --provider <id>         openrouter | openai | claude | gemini | deepseek | mistral | grok | ollama
+                              (or ASHIBALT_PROVIDER, default openrouter)
+  -w, --workspace <dir>       Workspace root (default: current directory)
+  -k, --api-key <key>         API key (or ASHIBALT_API_KEY, or providerSettings in the settings file)
+      --base-url <url>        Override the provider base URL
+      --mode <agent|chat>     agent (default) or chat (read-only tools)
+      --on-ask <deny|allow>   Answer for actions the tool policy marks "ask" (default deny)
+      --max-iterations <n>    Iteration limit (default: ashibaltAi.agentIterations)
+      --context-length <n>    Model context window in tokens
+      --settings <file>       Settings file (default: <workspace>/.vscode/settings.json)
+      --session <id>          Session id; continues the conversation of an earlier run
+      --task-file <file>      Read the task from a file ("-" = stdin)
+  -v, --verbose               Write extension logs to stderr
+  -h, --help                  Show this help`;
+
+/**
+ * Parse command line arguments. Returns an error message for invalid input.
+ */
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env, cwd = process.cwd()): CliOptions | { help: true } | { error: string } {
+  const positional: string[] = [];
+  const values: Record<string, string> = {};
+  let verbose = false;
+  const aliases: Record<string, string> = { '-m': '--model', '-p': '--provider', '-w': '--workspace', '-k': '--api-key' };
+  const withValue = new Set([
+    '--model', '--provider', '--workspace', '--api-key', '--base-url', '--mode', '--on-ask',
+    '--max-iterations', '--context-length', '--settings', '--session', '--task-file'
+  ]);
+
+  for (let i = 0; i < argv.length; i++) {
+    let arg = argv[i];
+    if (arg === '--') {
+      positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === '-h' || arg === '--help') return { help: true };
+    if (arg === '-v' || arg === '--verbose') {
+      verbose = true;
+      continue;
+    }
+    let inline: string | undefined;
+    const eq = arg.indexOf('=');
+    if (arg.startsWith('--') && eq > 0) {
+      inline = arg.slice(eq + 1);
+      arg = arg.slice(0, eq);
+    }
+    arg = aliases[arg] || arg;
+    if (withValue.has(arg)) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) return { error: `${arg} requires a value` };
+      values[arg] = value;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      return { error: `Unknown option: ${arg}` };
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  let task = positional.join(' ').trim();
+  if (values['--task-file']) {
+    const file = values['--task-file'];
+    try {
+      task = fs.readFileSync(file === '-' ? 0 : path.resolve(cwd, file), 'utf8').trim();
+    } catch (err: any) {
+      return { error: `Cannot read task file: ${err?.message || err}` };
+    }
+  }
+  if (!task) return { error: 'Task is required' };
+
+  const model = values['--model'] || env.ASHIBALT_MODEL;
+  if (!model) return { error: 'Model is required (--model or ASHIBALT_MODEL)' };
+
+  const provider = values['--provider'] || env.ASHIBALT_PROVIDER || 'openrouter';
+  if (provider.startsWith('custom:')) {
+    return { error: 'Custom providers are stored in VS Code; use --provider openai --base-url <url> instead' };
+  }
+  if (!isCliProvider(provider)) {
+    return { error: `Invalid --provider: ${provider} (expected ${CLI_PROVIDERS.join(', ')})` };
+  }
+
+  const mode = values['--mode'] || 'agent';
+  if (mode !== 'agent' && mode !== 'chat') return { error: `Invalid --mode: ${mode}` };
+  const onAsk = values['--on-ask'] || 'deny';
+  if (onAsk !== 'deny' && onAsk !== 'allow') return { error: `Invalid --on-ask: ${onAsk}` };
+
+  const toInt = (name: string): number | undefined | null => {
+    if (values[name] === undefined) return undefined;
+    const n = Number(values[name]);
+    return Number.isInteger(n) && n > 0 ? n : null;
+  };
+  const maxIterations = toInt('--max-iterations');
+  const contextLength = toInt('--context-length');
+  if (maxIterations === null) return { error: '--max-iterations must be a positive integer' };
+  if (contextLength === null) return { error: '--context-length must be a positive integer' };
+
+  return {
+    task,
+    workspace: path.resolve(cwd, values['--workspace'] || '.'),
+    provider,
+    model,
+    apiKey: values['--api-key'] || env.ASHIBALT_API_KEY || undefined,
+    baseUrl: values['--base-url'],
+    mode,
+    onAsk,
+    maxIterations,
+    contextLength,
+    settingsFile: values['--settings'] ? path.resolve(cwd, values['--settings']) : undefined,
+    sessionId: values['--session'],
+    verbose
+  };
+}
+
+/** Flat ashibaltAi.* settings from the settings file (missing default file = no settings) */
+function loadSettings(opts: CliOptions): Record<string, unknown> {
+  const file = opts.settingsFile || path.join(opts.workspace, '.vscode', 'settings.json');
+  if (!fs.existsSync(file)) {
+    if (opts.settingsFile) throw new Error(`Settings file not found: ${file}`);
+    return {};
+  }
+  const parsed = parseJsonc(fs.readFileSync(file, 'utf8'));
+  const settings: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parsed || {})) {
+    if (key.startsWith('ashibaltAi.')) settings[key] = value;
+  }
+  return settings;
+}
+
+/**
+ * Run one task. Resolves with the process exit code.
+ */
+export async function runCli(opts: CliOptions, write: (line: string) => void = line => process.stdout.write(line + '\n')): Promise<number> {
+  const events = new HeadlessEventWriter(write);
+  const controller = new AbortController();
+  let interrupted = false;
+  let iterationLimitReached = false;
+  const onSignal = () => {
+    interrupted = true;
+    controller.abort();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  let stopBackground: (() => void) | undefined;
+  let disposeMcp: (() => Promise<void>) | undefined;
+  try {
+    if (!fs.existsSync(opts.workspace) || !fs.statSync(opts.workspace).isDirectory()) {
+      throw new Error(`Workspace not found: ${opts.workspace}`);
+    }
+    installVscodeShim(createVscodeShim({
+      workspaceRoot: opts.workspace,
+      settings: loadSettings(opts),
+      log: opts.verbose ? line => process.stderr.write(line + '\n') : undefined
+    }));
+
+    // Engine modules import `vscode` — load them only after the shim is installed
+    const { loadExtensionConfig } = await import('../Config/config');
+    const { resolveProviderConnection } = await import('../chatClientFactory');
+    const { runOpenRouterAgentLoop } = await import('../Engine/agentLoop');
+    const { setTerminalBackend, stopBackgroundProcess, chatTools } = await import('../Engine/toolCalling');
+    const { disposeMcpServers } = await import('../Engine/Mcp/mcpRegistry');
+    const { StorageManager } = await import('../Storage/storageManager');
+    const { CommitManager } = await import('../Storage/commitManager');
+    const { getChatSystemPrompt } = await import('../promptUtils');
+    const { getSnapshotManager } = await import('../Storage/snapshotManager');
+    stopBackground = stopBackgroundProcess;
+    disposeMcp = disposeMcpServers;
+    setTerminalBackend('child_process');
+
+    const connection = await resolveProviderConnection(loadExtensionConfig(), opts.provider);
+    const baseUrl = opts.baseUrl || connection.baseUrl;
+    const apiKey = opts.apiKey || connection.apiKey;
+    if (opts.provider !== 'ollama' && !apiKey) {
+      throw new Error(`API key for ${opts.provider} is not set (--api-key, ASHIBALT_API_KEY or providerSettings)`);
+    }
+
+    const storageManager = new StorageManager();
+    await storageManager.init();
+    // Edits are recorded as pending snapshots, reviewable later in VS Code like any agent edit
+    await getSnapshotManager().init();
+    const sessionId = opts.sessionId || `cli-${Date.now()}`;
+    const previous = opts.sessionId ? await storageManager.loadApiConversation(sessionId) : [];
+    const providerMessages = [...previous, { role: 'user', content: opts.task }];
+
+    events.emit({
+      type: 'start',
+      sessionId,
+      workspace: opts.workspace,
+      provider: opts.provider,
+      model: opts.model,
+      mode: opts.mode,
+      task: opts.task
+    });
+
+    // Non-interactive approval: the policy already resolved allow/deny, only "ask" reaches here
+    const approve = (tool: string, subject: string, extra: Record<string, unknown> = {}): boolean => {
+      const approved = opts.onAsk === 'allow';
+      events.emit({ type: 'approval', tool, subject, decision: approved ? 'approved' : 'denied', ...extra });
+      return approved;
+    };
+
+    let historyCounter = 0;
+    await runOpenRouterAgentLoop({
+      baseUrl,
+      apiKey,
+      model: opts.model,
+      providerType: opts.provider,
+      headers: connection.headers,
+      providerLabel: `${opts.provider} (${opts.model})`,
+      providerMessages,
+      currentSessionId: sessionId,
+      storageManager,
+      commitManager: new CommitManager(storageManager.getSessionsDir()),
+      addToHistory: () => `cli-${++historyCounter}`,
+      postMessage: msg => events.handleLoopMessage(msg),
+      getLastUserMessage: () => ({ id: 'task', content: opts.task }),
+      updateHistoryEntry: () => {},
+      signal: controller.signal,
+      contextLength: opts.contextLength,
+      // Long --session conversations are summarized by the same model
+      summarizer: { baseUrl, apiKey, model: opts.model, providerType: opts.provider, headers: connection.headers },
+      requestTerminalConfirmation: async (command, _workingDir, details) => ({
+        confirmed: approve('terminal', command, details?.risks?.length ? { risks: details.risks.map(r => r.reason) } : {})
+      }),
+      requestToolApproval: async (toolName, args) =>
+        approve(toolName, String(args?.file_path ?? args?.path ?? args?.url ?? args?.query ?? JSON.stringify(args ?? {})).slice(0, 500)),
+      requestIterationConfirmation: async () => {
+        iterationLimitReached = true;
+        events.emit({ type: 'status', message: 'iteration limit reached' });
+        return false;
+      },
+      onToolResult: ({ name, result, durationMs }) => events.toolResult(name, result, durationMs),
+      onConversationUpdate: msgs => {
+        storageManager.saveApiConversation(sessionId, msgs).catch(() => {});
+      },
+      ...(opts.maxIterations ? { maxIterationsOverride: opts.maxIterations } : {}),
+      ...(opts.mode === 'chat' ? {
+        toolOverrides: chatTools,
+        maxIterationsOverride: opts.maxIterations ?? 25,
+        systemPromptOverride: getChatSystemPrompt(),
+        isChat: true
+      } : {})
+    });
+
+    const status = interrupted ? 'interrupted' : iterationLimitReached ? 'iteration_limit' : 'completed';
+    events.emit({ type: 'done', status, sessionId, text: events.text, toolCalls: events.toolCallCount, metrics: events.metrics });
+    return interrupted ? EXIT_CODES.interrupted : iterationLimitReached ? EXIT_CODES.iterationLimit : EXIT_CODES.completed;
+  } catch (err: any) {
+    if (interrupted) {
+      events.emit({ type: 'done', status: 'interrupted', text: events.text, toolCalls: events.toolCallCount, metrics: events.metrics });
+      return EXIT_CODES.interrupted;
+    }
+    events.emit({ type: 'error', message: err?.message || String(err), ...(err?.errorDetails ? { details: err.errorDetails } : {}) });
+    return EXIT_CODES.error;
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+    stopBackground?.();
+    await disposeMcp?.().catch(() => {});
+  }
+}
+
+async function main(): Promise<void> {
+  const parsed = parseCliArgs(process.argv.slice(2));
+  if ('help' in parsed) {
+    process.stdout.write(USAGE + '\n');
+    return;
+  }
+  if ('error' in parsed) {
+    process.stderr.write(`ashibalt: ${parsed.error}\n\n${USAGE}\n`);
+    process.exit(EXIT_CODES.usage);
+  }
+  const code = await runCli(parsed);
+  // Flush stdout, then exit even if MCP servers or timers keep the event loop alive
+  process.stdout.write('', () => process.exit(code));
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,541 @@
+/**
+ * vscodeShim.ts — Filesystem-backed stand-in for the `vscode` module (headless CLI).
+ *
+ * Engine modules import `vscode` directly. The CLI registers this object under the
+ * module name before the agent loop is loaded, so that:
+ *   - workspace folders, workspace.fs, findFiles and openTextDocument work on disk
+ *   - getConfiguration reads `ashibaltAi.*` keys from a settings.json-style file,
+ *     falling back to the defaults declared in package.json
+ *   - terminals are not available (the CLI switches the terminal tool to child_process)
+ *   - editor-only APIs (decorations, status bar, code lens, LSP commands) are no-ops
+ *
+ * This module must not import `vscode` (directly or through Engine modules).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface VscodeShimOptions {
+  workspaceRoot: string;
+  /** Flat settings, as in settings.json: { "ashibaltAi.agentIterations": 30 } */
+  settings?: Record<string, unknown>;
+  /** Receives output channel lines and notifications */
+  log?: (line: string) => void;
+}
+
+// ── Basic types ────────────────────────────────────────────────────────────
+
+class Uri {
+  private constructor(readonly scheme: string, readonly fsPath: string) {}
+
+  get path(): string {
+    return this.fsPath.split(path.sep).join('/');
+  }
+
+  static file(p: string): Uri {
+    return new Uri('file', path.resolve(p));
+  }
+
+  static parse(value: string): Uri {
+    const m = value.match(/^([a-z][\w+.-]*):(.*)$/i);
+    if (!m || m[1].length === 1) return Uri.file(value); // plain path or Windows drive letter
+    if (m[1] === 'file') return Uri.file(decodeURIComponent(m[2].replace(/^\/\//, '')));
+    return new Uri(m[1], m[2]);
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return Uri.file(path.join(base.fsPath, ...segments));
+  }
+
+  with(change: { path?: string }): Uri {
+    return change.path !== undefined ? Uri.file(change.path) : this;
+  }
+
+  toString(): string {
+    return this.scheme === 'file' ? `file://${this.path}` : `${this.scheme}:${this.fsPath}`;
+  }
+}
+
+const FileType = { Unknown: 0, File: 1, Directory: 2, SymbolicLink: 64 };
+
+class Position {
+  constructor(readonly line: number, readonly character: number) {}
+}
+
+class Range {
+  readonly start: Position;
+  readonly end: Position;
+  constructor(a: number | Position, b: number | Position, c?: number, d?: number) {
+    this.start = typeof a === 'number' ? new Position(a, b as number) : a;
+    this.end = typeof a === 'number' ? new Position(c!, d!) : b as Position;
+  }
+}
+
+class Selection extends Range {}
+
+class Location {
+  constructor(readonly uri: Uri, readonly range: Range | Position) {}
+}
+
+class Disposable {
+  constructor(private readonly fn: () => void = () => {}) {}
+  static from(...items: { dispose(): unknown }[]): Disposable {
+    return new Disposable(() => items.forEach(i => i.dispose()));
+  }
+  dispose(): void {
+    this.fn();
+  }
+}
+
+class EventEmitter<T> {
+  private listeners: ((e: T) => void)[] = [];
+  event = (listener: (e: T) => void): Disposable => {
+    this.listeners.push(listener);
+    return new Disposable(() => { this.listeners = this.listeners.filter(l => l !== listener); });
+  };
+  fire(data: T): void {
+    this.listeners.forEach(l => l(data));
+  }
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+/** Event that never fires */
+const noEvent = (): Disposable => new Disposable();
+
+class RelativePattern {
+  readonly baseUri: Uri;
+  constructor(base: Uri | string | { uri: Uri }, readonly pattern: string) {
+    this.baseUri = typeof base === 'string' ? Uri.file(base) : base instanceof Uri ? base : base.uri;
+  }
+}
+
+class MarkdownString {
+  constructor(public value = '') {}
+  appendMarkdown(text: string): this { this.value += text; return this; }
+  appendText(text: string): this { this.value += text; return this; }
+  appendCodeblock(code: string, lang = ''): this { this.value += `\n\`\`\`${lang}\n${code}\n\`\`\`\n`; return this; }
+}
+
+class ThemeColor {
+  constructor(readonly id: string) {}
+}
+
+class CodeLens {
+  constructor(readonly range: Range, public command?: unknown) {}
+}
+
+class WorkspaceEdit {
+  private readonly edits: { uri: Uri; range?: Range; position?: Position; newText: string }[] = [];
+  replace(uri: Uri, range: Range, newText: string): void { this.edits.push({ uri, range, newText }); }
+  insert(uri: Uri, position: Position, newText: string): void { this.edits.push({ uri, position, newText }); }
+  delete(uri: Uri, range: Range): void { this.edits.push({ uri, range, newText: '' }); }
+  get size(): number { return this.edits.length; }
+}
+
+const TextEdit = {
+  replace: (range: Range, newText: string) => ({ range, newText }),
+  insert: (position: Position, newText: string) => ({ range: new Range(position, position), newText }),
+  delete: (range: Range) => ({ range, newText: '' })
+};
+
+const SymbolKind = {
+  File: 0, Module: 1, Namespace: 2, Package: 3, Class: 4, Method: 5, Property: 6, Field: 7,
+  Constructor: 8, Enum: 9, Interface: 10, Function: 11, Variable: 12, Constant: 13, String: 14,
+  Number: 15, Boolean: 16, Array: 17, Object: 18, Key: 19, Null: 20, EnumMember: 21, Struct: 22,
+  Event: 23, Operator: 24, TypeParameter: 25
+};
+
+const DiagnosticSeverity = { Error: 0, Warning: 1, Information: 2, Hint: 3 };
+const StatusBarAlignment = { Left: 1, Right: 2 };
+const OverviewRulerLane = { Left: 1, Center: 2, Right: 4, Full: 7 };
+const CodeActionKind = { QuickFix: { value: 'quickfix' }, Refactor: { value: 'refactor' } };
+const ConfigurationTarget = { Global: 1, Workspace: 2, WorkspaceFolder: 3 };
+
+/** Mirrors vscode.FileSystemError: tools check `code` / message text */
+class FileSystemError extends Error {
+  constructor(message: string, readonly code: string) {
+    super(message);
+  }
+  static FileNotFound(uri?: Uri): FileSystemError {
+    return new FileSystemError(`File not found: ${uri?.fsPath ?? ''}`, 'FileNotFound');
+  }
+}
+
+// ── Globs (findFiles) ──────────────────────────────────────────────────────
+
+/** Expand {a,b} alternatives (non-nested) into separate patterns */
+function expandBraces(glob: string): string[] {
+  const m = glob.match(/\{([^{}]*)\}/);
+  if (!m) return [glob];
+  const [before, after] = [glob.slice(0, m.index), glob.slice(m.index! + m[0].length)];
+  return m[1].split(',').flatMap(alt => expandBraces(before + alt + after));
+}
+
+/** VS Code glob → RegExp over workspace-relative paths with forward slashes */
+export function globToRegExp(glob: string): RegExp {
+  const alternatives = expandBraces(glob.replace(/\\/g, '/').replace(/^\.\//, '')).map(g => {
+    let re = '';
+    for (let i = 0; i < g.length; i++) {
+      const c = g[i];
+      if (c === '*' && g[i + 1] === '*') {
+        const slash = g[i + 2] === '/';
+        re += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else if (c === '*') {
+        re += '[^/]*';
+      } else if (c === '?') {
+        re += '[^/]';
+      } else {
+        re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return re;
+  });
+  return new RegExp(`^(?:${alternatives.join('|')})$`);
+}
+
+// ── Settings ───────────────────────────────────────────────────────────────
+
+/** Parse settings.json (JSON with comments and trailing commas) */
+export function parseJsonc(text: string): any {
+  let out = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      out += c;
+      if (c === '\\') out += text[++i] ?? '';
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+      out += c;
+    } else if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (c === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i < 0) break;
+      i++;
+    } else {
+      out += c;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/** Defaults from contributes.configuration of the extension manifest */
+function loadManifestDefaults(): Record<string, unknown> {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+    const props = manifest?.contributes?.configuration?.properties || {};
+    const defaults: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries<any>(props)) {
+      if (schema && 'default' in schema) defaults[key] = schema.default;
+    }
+    return defaults;
+  } catch {
+    return {};
+  }
+}
+
+// ── Text documents ─────────────────────────────────────────────────────────
+
+const LANGUAGE_IDS: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'typescriptreact', '.js': 'javascript', '.jsx': 'javascriptreact',
+  '.py': 'python', '.json': 'json', '.md': 'markdown', '.css': 'css', '.html': 'html', '.go': 'go',
+  '.rs': 'rust', '.java': 'java', '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.cs': 'csharp', '.sh': 'shellscript'
+};
+
+function createTextDocument(uri: Uri, text: string) {
+  const lines = text.split(/\r?\n/);
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+  return {
+    uri,
+    fileName: uri.fsPath,
+    languageId: LANGUAGE_IDS[path.extname(uri.fsPath).toLowerCase()] || 'plaintext',
+    version: 1,
+    isDirty: false,
+    isUntitled: false,
+    eol: text.includes('\r\n') ? 2 : 1,
+    lineCount: lines.length,
+    getText: (range?: Range) => {
+      if (!range) return text;
+      const start = offsets[range.start.line] + range.start.character;
+      const end = offsets[range.end.line] + range.end.character;
+      return text.slice(start, end);
+    },
+    lineAt: (lineOrPos: number | Position) => {
+      const line = typeof lineOrPos === 'number' ? lineOrPos : lineOrPos.line;
+      const lineText = lines[line] ?? '';
+      return {
+        lineNumber: line,
+        text: lineText,
+        range: new Range(line, 0, line, lineText.length),
+        isEmptyOrWhitespace: lineText.trim() === '',
+        firstNonWhitespaceCharacterIndex: lineText.length - lineText.trimStart().length
+      };
+    },
+    offsetAt: (pos: Position) => offsets[pos.line] + pos.character,
+    positionAt: (off: number) => {
+      let line = 0;
+      while (line + 1 < offsets.length && offsets[line + 1] <= off) line++;
+      return new Position(line, off - offsets[line]);
+    },
+    save: async () => true
+  };
+}
+
+// ── Module object ──────────────────────────────────────────────────────────
+
+export function createVscodeShim(options: VscodeShimOptions): Record<string, unknown> {
+  const root = path.resolve(options.workspaceRoot);
+  const log = options.log || (() => {});
+  const settings: Record<string, unknown> = { ...loadManifestDefaults(), ...(options.settings || {}) };
+
+  const toPath = (uri: Uri | string) => (typeof uri === 'string' ? path.resolve(uri) : uri.fsPath);
+  const notFound = (uri: Uri | string, err: any) =>
+    err?.code === 'ENOENT' ? FileSystemError.FileNotFound(typeof uri === 'string' ? Uri.file(uri) : uri) : err;
+
+  const workspaceFs = {
+    readFile: async (uri: Uri) => {
+      try {
+        return new Uint8Array(await fs.promises.readFile(toPath(uri)));
+      } catch (err) {
+        throw notFound(uri, err);
+      }
+    },
+    writeFile: async (uri: Uri, content: Uint8Array) => {
+      await fs.promises.mkdir(path.dirname(toPath(uri)), { recursive: true });
+      await fs.promises.writeFile(toPath(uri), content);
+    },
+    stat: async (uri: Uri) => {
+      try {
+        const st = await fs.promises.stat(toPath(uri));
+        return {
+          type: st.isDirectory() ? FileType.Directory : st.isFile() ? FileType.File : FileType.Unknown,
+          ctime: st.ctimeMs,
+          mtime: st.mtimeMs,
+          size: st.size
+        };
+      } catch (err) {
+        throw notFound(uri, err);
+      }
+    },
+    readDirectory: async (uri: Uri) => {
+      try {
+        const entries = await fs.promises.readdir(toPath(uri), { withFileTypes: true });
+        return entries.map(e => [e.name, e.isDirectory() ? FileType.Directory : e.isFile() ? FileType.File : FileType.Unknown]);
+      } catch (err) {
+        throw notFound(uri, err);
+      }
+    },
+    createDirectory: async (uri: Uri) => {
+      await fs.promises.mkdir(toPath(uri), { recursive: true });
+    },
+    delete: async (uri: Uri, opts?: { recursive?: boolean }) => {
+      try {
+        await fs.promises.rm(toPath(uri), { recursive: !!opts?.recursive });
+      } catch (err) {
+        throw notFound(uri, err);
+      }
+    },
+    rename: async (source: Uri, target: Uri) => {
+      await fs.promises.mkdir(path.dirname(toPath(target)), { recursive: true });
+      await fs.promises.rename(toPath(source), toPath(target));
+    },
+    copy: async (source: Uri, target: Uri) => {
+      await fs.promises.cp(toPath(source), toPath(target), { recursive: true });
+    }
+  };
+
+  const findFiles = async (include: string | RelativePattern, exclude?: string | RelativePattern | null, maxResults?: number) => {
+    const base = typeof include === 'string' ? root : include.baseUri.fsPath;
+    const includeRe = globToRegExp(typeof include === 'string' ? include : include.pattern);
+    const excludeRe = exclude ? globToRegExp(typeof exclude === 'string' ? exclude : exclude.pattern) : null;
+    const results: Uri[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const e of entries) {
+        if (maxResults !== undefined && results.length >= maxResults) return;
+        const full = path.join(dir, e.name);
+        const rel = path.relative(base, full).split(path.sep).join('/');
+        if (e.isDirectory()) {
+          // Directory excludes are written as "**/dir/**"
+          if (e.name === '.git' || excludeRe?.test(`${rel}/x`)) continue;
+          await walk(full);
+        } else if (e.isFile() && includeRe.test(rel) && !excludeRe?.test(rel)) {
+          results.push(Uri.file(full));
+        }
+      }
+    };
+    await walk(base);
+    return results;
+  };
+
+  const getConfiguration = (section?: string) => {
+    const key = (k: string) => (section ? `${section}.${k}` : k);
+    return {
+      get: <T>(k: string, defaultValue?: T): T | undefined => {
+        const value = settings[key(k)];
+        return value === undefined ? defaultValue : (value as T);
+      },
+      has: (k: string) => settings[key(k)] !== undefined,
+      inspect: (k: string) => ({ key: key(k), globalValue: settings[key(k)] }),
+      // Updates live for the duration of the run only
+      update: async (k: string, value: unknown) => {
+        settings[key(k)] = value;
+      }
+    };
+  };
+
+  const outputChannel = (name: string) => ({
+    name,
+    append: (text: string) => log(text),
+    appendLine: (line: string) => log(line),
+    replace: () => {},
+    clear: () => {},
+    show: () => {},
+    hide: () => {},
+    dispose: () => {}
+  });
+
+  const notify = (level: string) => async (message: string) => {
+    log(`[${level}] ${message}`);
+    return undefined;
+  };
+
+  const decorationType = () => ({ key: 'headless', dispose: () => {} });
+  const statusBarItem = () => ({ text: '', tooltip: '', command: undefined, show: () => {}, hide: () => {}, dispose: () => {} });
+
+  const workspace = {
+    name: path.basename(root),
+    workspaceFolders: [{ uri: Uri.file(root), name: path.basename(root), index: 0 }],
+    // The user picked the workspace on the command line; MCP consent dialogs still decline headless
+    isTrusted: true,
+    rootPath: root,
+    textDocuments: [],
+    fs: workspaceFs,
+    findFiles,
+    getConfiguration,
+    getWorkspaceFolder: (uri: Uri) => {
+      const rel = path.relative(root, uri.fsPath);
+      return rel.startsWith('..') || path.isAbsolute(rel) ? undefined : workspace.workspaceFolders[0];
+    },
+    asRelativePath: (p: Uri | string) => path.relative(root, toPath(p)).split(path.sep).join('/'),
+    openTextDocument: async (uriOrPath: Uri | string) => {
+      const uri = typeof uriOrPath === 'string' ? Uri.file(uriOrPath) : uriOrPath;
+      const bytes = await workspaceFs.readFile(uri);
+      return createTextDocument(uri, Buffer.from(bytes).toString('utf8'));
+    },
+    // Edits go through workspace.fs in the engine; editor-buffer edits are unavailable headless
+    applyEdit: async () => false,
+    saveAll: async () => true,
+    createFileSystemWatcher: () => ({
+      onDidCreate: noEvent, onDidChange: noEvent, onDidDelete: noEvent, dispose: () => {}
+    }),
+    registerTextDocumentContentProvider: () => new Disposable(),
+    onDidChangeTextDocument: noEvent,
+    onDidSaveTextDocument: noEvent,
+    onDidOpenTextDocument: noEvent,
+    onDidCloseTextDocument: noEvent,
+    onWillCreateFiles: noEvent,
+    onWillDeleteFiles: noEvent,
+    onWillRenameFiles: noEvent,
+    onDidCreateFiles: noEvent,
+    onDidDeleteFiles: noEvent,
+    onDidRenameFiles: noEvent,
+    onDidChangeConfiguration: noEvent,
+    onDidChangeWorkspaceFolders: noEvent
+  };
+
+  const window = {
+    activeTextEditor: undefined,
+    visibleTextEditors: [],
+    terminals: [],
+    createOutputChannel: outputChannel,
+    showInformationMessage: notify('info'),
+    showWarningMessage: notify('warning'),
+    showErrorMessage: notify('error'),
+    createTerminal: () => {
+      throw new Error('Terminals are not available in headless mode');
+    },
+    createTextEditorDecorationType: decorationType,
+    createStatusBarItem: statusBarItem,
+    showTextDocument: async () => undefined,
+    onDidChangeActiveTextEditor: noEvent,
+    onDidChangeVisibleTextEditors: noEvent,
+    onDidCloseTerminal: noEvent,
+    onDidOpenTerminal: noEvent
+  };
+
+  return {
+    __esModule: true,
+    version: 'headless',
+    Uri,
+    FileType,
+    FileSystemError,
+    Position,
+    Range,
+    Selection,
+    Location,
+    Disposable,
+    EventEmitter,
+    RelativePattern,
+    MarkdownString,
+    ThemeColor,
+    CodeLens,
+    WorkspaceEdit,
+    TextEdit,
+    SymbolKind,
+    DiagnosticSeverity,
+    StatusBarAlignment,
+    OverviewRulerLane,
+    CodeActionKind,
+    ConfigurationTarget,
+    workspace,
+    window,
+    commands: {
+      registerCommand: () => new Disposable(),
+      // Language-server commands (symbols, definitions, code actions) have no provider headless
+      executeCommand: async () => undefined
+    },
+    languages: {
+      getDiagnostics: () => [],
+      registerCodeLensProvider: () => new Disposable(),
+      createDiagnosticCollection: () => ({ set: () => {}, delete: () => {}, clear: () => {}, dispose: () => {} })
+    },
+    env: {
+      appName: 'Ashibalt CLI',
+      openExternal: async () => false,
+      clipboard: { readText: async () => '', writeText: async () => {} }
+    },
+    extensions: {
+      getExtension: () => undefined,
+      all: []
+    }
+  };
+}
+
+/**
+ * Serve `require('vscode')` from the shim. Must run before any Engine module is loaded.
+ */
+export function installVscodeShim(shim: Record<string, unknown>): void {
+  const Module = require('module');
+  const originalLoad = Module._load;
+  Module._load = function (request: string, ...rest: unknown[]) {
+    if (request === 'vscode') return shim;
+    return originalLoad.call(this, request, ...rest);
+  };
+}
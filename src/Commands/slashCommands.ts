@@ -3,7 +3,7 @@
  * 
  * Handles /command literals in chat input.
  * Commands can be:
- * - Immediate actions (/clear, /new)
+ * - Immediate actions (/clear, /new, /compact, /commit_message, /pr_description)
  * - Prompt generators (/fix, /project_analysis, /workspace_fix)
  */
 
@@ -19,9 +19,12 @@ export interface SlashCommand {
 export const SLASH_COMMANDS: SlashCommand[] = [
   { name: 'clear', description: 'Очистить историю сообщений в текущей сессии', immediate: true },
   { name: 'new', description: 'Создать новый чат', immediate: true },
+  { name: 'compact', description: 'Сжать контекст: пересказать старые сообщения моделью', immediate: true, args: '[на чём сосредоточиться]' },
   { name: 'fix', description: 'Исправить проблемы в файле', immediate: false, args: '<file>' },
   { name: 'project_analysis', description: 'Анализ структуры и качества проекта', immediate: false },
   { name: 'workspace_fix', description: 'Исправить проблемы во всём workspace', immediate: false },
+  { name: 'commit_message', description: 'Сообщение коммита для изменений агента', immediate: true, args: '[контекст]' },
+  { name: 'pr_description', description: 'Описание PR для изменений агента', immediate: true, args: '[контекст]' },
 ];
 
 export interface ParsedCommand {
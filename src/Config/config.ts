@@ -2,6 +2,73 @@ import { workspace } from "vscode";
 
 export type ProviderType = 'ollama' | 'mistral' | 'openrouter' | 'openai' | 'claude' | 'deepseek' | 'grok' | 'gemini';
 
+/** Prefix of user-defined provider ids (`custom:<slug>`) */
+export const CUSTOM_PROVIDER_PREFIX = 'custom:';
+
+/** Id of a user-defined provider from the custom providers registry */
+export type CustomProviderId = `custom:${string}`;
+
+/** Any provider a model can belong to: built-in or user-defined */
+export type ProviderId = ProviderType | CustomProviderId;
+
+/** How the API key is sent to a custom provider */
+export type CustomProviderAuthStyle = 'bearer' | 'header' | 'none';
+
+/**
+ * User-defined OpenAI-compatible provider (vLLM, LM Studio, LiteLLM, ...).
+ * Persisted in ConfigManager, referenced from models as `custom:<id>`.
+ */
+export interface CustomProviderConfig {
+  /** Slug, unique among custom providers */
+  id: string;
+  /** Display name in the UI */
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  authStyle: CustomProviderAuthStyle;
+  /** Header name for authStyle 'header' (e.g. "api-key", "x-api-key") */
+  authHeader?: string;
+  /** Sent with every request */
+  extraHeaders?: Record<string, string>;
+  /** Model list endpoint: path relative to baseUrl or absolute URL. Empty — no model list. */
+  modelsEndpoint?: string;
+  /** Context length for all models of this provider (overrides the value reported by the API) */
+  contextLength?: number;
+}
+
+export function isCustomProvider(provider: string | undefined | null): provider is CustomProviderId {
+  return !!provider && provider.startsWith(CUSTOM_PROVIDER_PREFIX);
+}
+
+export function customProviderId(slug: string): CustomProviderId {
+  return `${CUSTOM_PROVIDER_PREFIX}${slug}`;
+}
+
+export function customProviderSlug(provider: CustomProviderId): string {
+  return provider.slice(CUSTOM_PROVIDER_PREFIX.length);
+}
+
+/** Auth + extra headers for requests to a custom provider */
+export function buildCustomProviderHeaders(cp: CustomProviderConfig): Record<string, string> {
+  const headers: Record<string, string> = { ...(cp.extraHeaders || {}) };
+  if (cp.apiKey) {
+    if (cp.authStyle === 'bearer') {
+      headers['Authorization'] = `Bearer ${cp.apiKey}`;
+    } else if (cp.authStyle === 'header' && cp.authHeader) {
+      headers[cp.authHeader] = cp.apiKey;
+    }
+  }
+  return headers;
+}
+
+/** Full URL of the model list endpoint, or null when the provider has none */
+export function resolveCustomModelsUrl(cp: CustomProviderConfig): string | null {
+  const endpoint = (cp.modelsEndpoint ?? '/models').trim();
+  if (!endpoint) return null;
+  if (/^https?:\/\//i.test(endpoint)) return endpoint;
+  return `${cp.baseUrl.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
+}
+
 export interface ProviderSettings {
   url: string;
   apiKey: string;
@@ -23,7 +90,7 @@ export interface ExtensionConfig {
   openRouterApiKey: string;
   openRouterBaseUrl: string;
   ollamaBaseUrl: string;
-  /** Per-provider URL + API key overrides from settings panel */
+  /** Per-provider URL overrides from settings panel; API keys here are legacy (CLI settings file, not yet migrated to SecretStorage) */
   providerSettings: Partial<Record<ProviderType, ProviderSettings>>;
 }
 
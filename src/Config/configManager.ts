@@ -1,14 +1,22 @@
 import { window, workspace, type Memento } from 'vscode';
 
 import { logger } from '../logger';
-import type { ProviderType } from './config';
+import { buildCustomProviderHeaders, customProviderId, customProviderSlug, isCustomProvider, resolveCustomModelsUrl, type CustomProviderConfig, type CustomProviderId, type ProviderId, type ProviderType } from './config';
+
+/** Entry of a model's fallback chain: the same (or an equivalent) model on another provider */
+export interface ModelFallback {
+  provider: ProviderId;
+  model: string;
+}
 
 export interface AIModel {
   name: string;
   id: string;
-  provider: ProviderType;
+  provider: ProviderId;
   tier?: 'free' | 'pro';
   contextLength?: number;
+  /** Ordered providers to switch to when the primary one fails persistently */
+  fallbacks?: ModelFallback[];
 }
 
 /** Warnings about model capabilities/status discovered from provider API */
@@ -21,12 +29,15 @@ export interface AshibaltConfig {
   models: AIModel[];
   selectedModelId: string | null;
   codeModel: string | null; // Model for autocomplete and refactoring
+  /** User-defined OpenAI-compatible providers (models reference them as `custom:<id>`) */
+  customProviders: CustomProviderConfig[];
 }
 
 const DEFAULT_CONFIG: AshibaltConfig = {
   models: [],
   selectedModelId: null,
-  codeModel: null
+  codeModel: null,
+  customProviders: []
 };
 
 const STORAGE_KEY = 'ashibaltConfigV1';
@@ -81,19 +92,20 @@ export class ConfigManager {
         const validModels = Array.isArray(stored.models) 
           ? stored.models.map(m => ({
               ...m,
-              provider: (validProviders.includes(m.provider as ProviderType) ? m.provider : 
-                         (m.provider as string) === 'ashibalt' ? 'mistral' : 'mistral') as ProviderType
+              provider: (validProviders.includes(m.provider as ProviderType) || isCustomProvider(m.provider) ? m.provider : 
+                         (m.provider as string) === 'ashibalt' ? 'mistral' : 'mistral') as ProviderId
             }))
           : [];
         
         this.config = {
           ...DEFAULT_CONFIG,
           ...stored,
-          models: validModels
+          models: validModels,
+          customProviders: Array.isArray(stored.customProviders) ? stored.customProviders : []
         };
         logger.log(`✓ Config loaded from VS Code storage. Models: ${this.config.models.length}, Selected: ${this.config.selectedModelId}`);
       } else {
-        this.config = { ...DEFAULT_CONFIG };
+        this.config = { ...DEFAULT_CONFIG, models: [], customProviders: [] };
         logger.log('No stored config found, using defaults.');
       }
       this.emitChange();
@@ -211,6 +223,22 @@ export class ConfigManager {
     this.saveConfig();
   }
 
+  /** Replace the fallback chain of a saved model */
+  public setModelFallbacks(modelId: string, provider: ProviderId, fallbacks: ModelFallback[]): void {
+    const model = this.config.models.find(m => m.id === modelId && m.provider === provider);
+    if (!model) {
+      throw new Error('Model not found');
+    }
+    const chain = fallbacks.filter(f => f?.provider && f?.model && !(f.provider === provider && f.model === modelId));
+    if (chain.length > 0) {
+      model.fallbacks = chain.map(f => ({ provider: f.provider, model: f.model }));
+    } else {
+      delete model.fallbacks;
+    }
+    this.saveConfig();
+    logger.log(`[ConfigManager] Fallback chain for ${provider}/${modelId}: ${chain.map(f => `${f.provider}/${f.model}`).join(' → ') || 'none'}`);
+  }
+
   public setCodeModel(modelId: string | null): void {
     // Handle special "disabled" value - treat as null
     if (modelId === 'disabled') {
@@ -230,6 +258,72 @@ export class ConfigManager {
     this.saveConfig();
   }
 
+  /** User-defined providers from the settings panel */
+  public getCustomProviders(): CustomProviderConfig[] {
+    return [...this.config.customProviders];
+  }
+
+  /** Look up a custom provider by slug or by its `custom:<slug>` id */
+  public getCustomProvider(idOrSlug: string): CustomProviderConfig | undefined {
+    const slug = isCustomProvider(idOrSlug) ? customProviderSlug(idOrSlug) : idOrSlug;
+    return this.config.customProviders.find(p => p.id === slug);
+  }
+
+  /** Add a custom provider or replace the one with the same id */
+  public saveCustomProvider(provider: CustomProviderConfig): void {
+    const id = provider.id?.trim();
+    if (!id || !/^[a-z0-9][a-z0-9._-]*$/i.test(id)) {
+      throw new Error('Идентификатор провайдера может содержать только латиницу, цифры, ".", "_" и "-".');
+    }
+    if (!provider.name?.trim()) {
+      throw new Error('Укажите название провайдера.');
+    }
+    if (!/^https?:\/\//i.test(provider.baseUrl?.trim() || '')) {
+      throw new Error('Base URL провайдера должен начинаться с http:// или https://.');
+    }
+    if (provider.authStyle === 'header' && !provider.authHeader?.trim()) {
+      throw new Error('Укажите имя заголовка для API-ключа.');
+    }
+
+    const normalized: CustomProviderConfig = {
+      id,
+      name: provider.name.trim(),
+      baseUrl: provider.baseUrl.trim().replace(/\/+$/, ''),
+      apiKey: provider.apiKey?.trim() || '',
+      authStyle: provider.authStyle || 'bearer',
+      authHeader: provider.authStyle === 'header' ? provider.authHeader!.trim() : undefined,
+      extraHeaders: provider.extraHeaders && Object.keys(provider.extraHeaders).length > 0 ? { ...provider.extraHeaders } : undefined,
+      modelsEndpoint: provider.modelsEndpoint?.trim() ?? '/models',
+      contextLength: provider.contextLength && provider.contextLength > 0 ? Math.floor(provider.contextLength) : undefined,
+    };
+
+    const others = this.config.customProviders.filter(p => p.id !== id);
+    this.config.customProviders = [...others, normalized];
+    this.saveConfig();
+    logger.log(`[ConfigManager] Saved custom provider ${id} (${normalized.baseUrl})`);
+  }
+
+  /** Remove a custom provider together with its saved models */
+  public deleteCustomProvider(slug: string): void {
+    const providerId = customProviderId(slug);
+    const before = this.config.customProviders.length;
+    this.config.customProviders = this.config.customProviders.filter(p => p.id !== slug);
+    if (this.config.customProviders.length === before) {
+      return;
+    }
+
+    const removedIds = new Set(this.config.models.filter(m => m.provider === providerId).map(m => m.id));
+    this.config.models = this.config.models.filter(m => m.provider !== providerId);
+    if (this.config.selectedModelId && removedIds.has(this.config.selectedModelId)) {
+      this.config.selectedModelId = null;
+    }
+    if (this.config.codeModel && removedIds.has(this.config.codeModel)) {
+      this.config.codeModel = null;
+    }
+    this.saveConfig();
+    logger.log(`[ConfigManager] Deleted custom provider ${slug} and ${removedIds.size} models`);
+  }
+
   public getConfigPath(): string {
     return 'VS Code global storage (config.json не используется)';
   }
@@ -320,13 +414,27 @@ export class ConfigManager {
    * Fetch context length for a single model from provider API.
    * Used when a model is added manually (no prior fetch of full model list).
    */
-  public async fetchSingleModelContextLength(provider: ProviderType, modelId: string, baseUrl: string, apiKey: string): Promise<number | undefined> {
+  public async fetchSingleModelContextLength(provider: ProviderId, modelId: string, baseUrl: string, apiKey: string): Promise<number | undefined> {
     try {
       let url: string;
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      let headers: Record<string, string> = { 'Content-Type': 'application/json' };
       let extractContextLength: (data: any) => number | undefined;
 
-      switch (provider) {
+      switch (isCustomProvider(provider) ? 'custom' : provider) {
+        case 'custom': {
+          const cp = this.getCustomProvider(provider);
+          if (!cp) return undefined;
+          if (cp.contextLength) return cp.contextLength;
+          const modelsUrl = resolveCustomModelsUrl(cp);
+          if (!modelsUrl) return undefined;
+          url = modelsUrl;
+          headers = { ...headers, ...buildCustomProviderHeaders({ ...cp, apiKey: apiKey || cp.apiKey }) };
+          extractContextLength = (data) => {
+            const model = customModelEntries(data).find((m: any) => (m.id || m.name) === modelId);
+            return model ? customModelContextLength(model) : undefined;
+          };
+          break;
+        }
         case 'mistral': {
           // Mistral supports GET /v1/models/{model_id}
           url = `${baseUrl}/models/${encodeURIComponent(modelId)}`;
@@ -390,14 +498,34 @@ export class ConfigManager {
     }
   }
 
-  public async fetchProviderModels(provider: ProviderType, baseUrl: string, apiKey: string): Promise<AIModel[]> {
+  public async fetchProviderModels(provider: ProviderId, baseUrl: string, apiKey: string): Promise<AIModel[]> {
     try {
       let url: string;
       let headers: Record<string, string> = { 'Content-Type': 'application/json' };
       let parseModels: (data: any) => AIModel[];
       let extractWarnings: ((data: any) => Map<string, string[]>) | undefined;
 
-      switch (provider) {
+      switch (isCustomProvider(provider) ? 'custom' : provider) {
+        case 'custom': {
+          // Custom providers carry their own URL, auth style and headers
+          const cp = this.getCustomProvider(provider);
+          if (!cp) {
+            throw new Error(`Провайдер ${provider} не найден`);
+          }
+          const modelsUrl = resolveCustomModelsUrl(cp);
+          if (!modelsUrl) {
+            throw new Error(`У провайдера ${cp.name} не задан endpoint списка моделей`);
+          }
+          url = modelsUrl;
+          headers = { ...headers, ...buildCustomProviderHeaders({ ...cp, apiKey: apiKey || cp.apiKey }) };
+          parseModels = (data) => customModelEntries(data).map((m: any) => ({
+            id: m.id || m.name,
+            name: m.name || m.id,
+            provider: provider as CustomProviderId,
+            contextLength: cp.contextLength || customModelContextLength(m),
+          })).filter((m: AIModel) => !!m.id);
+          break;
+        }
         case 'ollama': {
           url = `${baseUrl}/api/tags`;
           parseModels = (data) => (data.models || []).map((m: any) => ({
@@ -565,6 +693,17 @@ export class ConfigManager {
   }
 }
 
+/** Model entries of a custom provider's list response (OpenAI `data`, Ollama-style `models` or a bare array) */
+function customModelEntries(data: any): any[] {
+  if (Array.isArray(data)) return data;
+  return data?.data || data?.models || [];
+}
+
+/** Context length as reported by OpenAI-compatible servers (vLLM: max_model_len, LM Studio: max_context_length) */
+function customModelContextLength(m: any): number | undefined {
+  return m.context_length || m.max_model_len || m.max_context_length || m.context_window || undefined;
+}
+
 // Singleton instance
 let configManagerInstance: ConfigManager | null = null;
 
@@ -0,0 +1,109 @@
+/**
+ * providerKeys.ts — Provider API keys in SecretStorage.
+ *
+ * Keys used to live in `ashibaltAi.providerSettings[*].apiKey`,
+ * `ashibaltAi.openRouterApiKey` and the custom providers registry — plain
+ * settings that end up in synced settings.json files. On activation they are
+ * moved to SecretStorage and removed from settings. The headless CLI has no
+ * SecretStorage and keeps reading keys from its settings file.
+ */
+
+import { workspace } from 'vscode';
+import { customProviderId, PROVIDER_DEFAULTS, type ProviderId, type ProviderSettings, type ProviderType } from './config';
+import type { ConfigManager } from './configManager';
+import { isSecretStorageAvailable, maskSecret, resolveSecret, setSecret, type SecretScope } from './secrets';
+import { logger } from '../logger';
+
+/** What the settings panel shows for a saved key (the key itself never leaves the host) */
+export interface ProviderKeyInfo {
+  masked: string;
+  scope: SecretScope;
+}
+
+/** SecretStorage key of a provider's API key */
+export function providerSecretKey(provider: ProviderId): string {
+  return `ashibaltAi.provider.${provider}.apiKey`;
+}
+
+export async function resolveProviderKey(provider: ProviderId): Promise<string | undefined> {
+  return (await resolveSecret(providerSecretKey(provider)))?.value;
+}
+
+/** Masked saved keys of built-in providers (except Ollama) and custom providers */
+export async function describeProviderKeys(configManager: ConfigManager): Promise<Record<string, ProviderKeyInfo>> {
+  const providers: ProviderId[] = [
+    ...(Object.keys(PROVIDER_DEFAULTS) as ProviderType[]).filter(p => p !== 'ollama'),
+    ...configManager.getCustomProviders().map(cp => customProviderId(cp.id))
+  ];
+  const keys: Record<string, ProviderKeyInfo> = {};
+  for (const provider of providers) {
+    const secret = await resolveSecret(providerSecretKey(provider));
+    if (secret) keys[provider] = { masked: maskSecret(secret.value), scope: secret.scope };
+  }
+  return keys;
+}
+
+/**
+ * Move API keys from settings (user and workspace level) and from the custom
+ * providers registry to SecretStorage. Runs on every activation, so keys pasted
+ * into settings.json by hand are picked up too — they replace the stored secret.
+ * Returns the number of moved keys.
+ */
+export async function migrateApiKeysToSecrets(configManager: ConfigManager): Promise<number> {
+  if (!isSecretStorageAvailable()) return 0;
+  const config = workspace.getConfiguration('ashibaltAi');
+  let moved = 0;
+
+  const levels: Array<{ scope: SecretScope; global: boolean; pick: 'globalValue' | 'workspaceValue' }> = [
+    { scope: 'global', global: true, pick: 'globalValue' },
+    { scope: 'workspace', global: false, pick: 'workspaceValue' }
+  ];
+
+  for (const level of levels) {
+    try {
+      const stored = config.inspect<Record<string, Partial<ProviderSettings>>>('providerSettings')?.[level.pick];
+      if (stored && typeof stored === 'object') {
+        const stripped: Record<string, Partial<ProviderSettings>> = {};
+        let changed = false;
+        for (const [provider, value] of Object.entries(stored)) {
+          if (!value || typeof value !== 'object') continue;
+          const { apiKey, ...rest } = value;
+          if (apiKey !== undefined) changed = true;
+          if (apiKey) {
+            await setSecret(providerSecretKey(provider as ProviderType), apiKey, level.scope);
+            moved++;
+          }
+          stripped[provider] = rest;
+        }
+        if (changed) await config.update('providerSettings', stripped, level.global);
+      }
+
+      const openRouterKey = config.inspect<string>('openRouterApiKey')?.[level.pick];
+      if (openRouterKey !== undefined) {
+        if (openRouterKey) {
+          await setSecret(providerSecretKey('openrouter'), openRouterKey, level.scope);
+          moved++;
+        }
+        await config.update('openRouterApiKey', undefined, level.global);
+      }
+    } catch (err) {
+      logger.log(`[Secrets] Failed to migrate ${level.scope} API keys from settings: ${err}`);
+    }
+  }
+
+  for (const cp of configManager.getCustomProviders()) {
+    if (!cp.apiKey) continue;
+    try {
+      await setSecret(providerSecretKey(customProviderId(cp.id)), cp.apiKey, 'global');
+      configManager.saveCustomProvider({ ...cp, apiKey: '' });
+      moved++;
+    } catch (err) {
+      logger.log(`[Secrets] Failed to migrate API key of custom provider ${cp.id}: ${err}`);
+    }
+  }
+
+  if (moved > 0) {
+    logger.log(`[Secrets] Moved ${moved} API key(s) from settings to SecretStorage`);
+  }
+  return moved;
+}
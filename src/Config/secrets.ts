@@ -0,0 +1,93 @@
+/**
+ * secrets.ts — API keys kept in VS Code SecretStorage.
+ *
+ * The extension registers context.secrets on activation. Outside VS Code
+ * (headless CLI, tests) no store is registered: reads return undefined and
+ * callers fall back to settings files or environment variables.
+ *
+ * A key is stored either for all projects ('global') or for the open
+ * workspace only ('workspace'). Workspace keys are the same secret name with
+ * a suffix derived from the workspace path and win over the global key.
+ */
+
+import * as crypto from 'crypto';
+import { logger } from '../logger';
+
+/** Subset of vscode.SecretStorage used by the extension */
+export interface SecretStore {
+  get(key: string): PromiseLike<string | undefined>;
+  store(key: string, value: string): PromiseLike<void>;
+  delete(key: string): PromiseLike<void>;
+}
+
+export type SecretScope = 'global' | 'workspace';
+
+export interface ResolvedSecret {
+  value: string;
+  scope: SecretScope;
+}
+
+let _store: SecretStore | null = null;
+let _workspaceId: string | null = null;
+
+/**
+ * @param workspacePath .code-workspace file or first folder of the open workspace;
+ *   without it only global keys are available.
+ */
+export function initSecretStorage(store: SecretStore | null, workspacePath?: string | null): void {
+  _store = store;
+  _workspaceId = workspacePath
+    ? crypto.createHash('sha256').update(workspacePath).digest('hex').slice(0, 16)
+    : null;
+}
+
+export function isSecretStorageAvailable(): boolean {
+  return !!_store;
+}
+
+/** True when keys can be overridden for the open workspace */
+export function isWorkspaceScopeAvailable(): boolean {
+  return !!_store && !!_workspaceId;
+}
+
+function scopedKey(key: string, scope: SecretScope): string {
+  if (scope === 'global') return key;
+  if (!_workspaceId) throw new Error('No workspace is open');
+  return `${key}@${_workspaceId}`;
+}
+
+export async function getSecret(key: string, scope: SecretScope = 'global'): Promise<string | undefined> {
+  if (!_store || (scope === 'workspace' && !_workspaceId)) return undefined;
+  const name = scopedKey(key, scope);
+  try {
+    return (await _store.get(name)) || undefined;
+  } catch (err) {
+    logger.log(`[Secrets] Failed to read '${name}': ${err}`);
+    return undefined;
+  }
+}
+
+/** Workspace override first, then the global key */
+export async function resolveSecret(key: string): Promise<ResolvedSecret | undefined> {
+  const local = await getSecret(key, 'workspace');
+  if (local) return { value: local, scope: 'workspace' };
+  const global = await getSecret(key, 'global');
+  return global ? { value: global, scope: 'global' } : undefined;
+}
+
+/** Store a secret; an empty value deletes it */
+export async function setSecret(key: string, value: string, scope: SecretScope = 'global'): Promise<void> {
+  if (!_store) throw new Error('Secret storage is not available');
+  const name = scopedKey(key, scope);
+  if (value) {
+    await _store.store(name, value);
+  } else {
+    await _store.delete(name);
+  }
+}
+
+/** "sk-or-v1-abcdef…" → "sk-…cdef"; short keys are masked completely */
+export function maskSecret(value: string): string {
+  if (value.length < 12) return '••••••••';
+  return `${value.slice(0, 3)}…${value.slice(-4)}`;
+}
@@ -0,0 +1,317 @@
+/**
+ * Minimal Model Context Protocol client.
+ *
+ * Speaks JSON-RPC 2.0 over one of the two standard transports:
+ *   - stdio           — newline-delimited JSON on the child process stdin/stdout
+ *   - streamable HTTP — POST per message, response is JSON or an SSE stream
+ *
+ * Only the client side of the tools capability is implemented:
+ * initialize → notifications/initialized → tools/list → tools/call.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { readSSEPayloads } from '../sseParser';
+import { logger } from '../../logger';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+const CLIENT_VERSION = '0.5.4';
+
+/** Server entry as written in settings / .vscode/mcp.json */
+export interface McpServerConfig {
+  /** stdio: executable to spawn */
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Streamable HTTP endpoint */
+  url?: string;
+  headers?: Record<string, string>;
+  /** Explicit transport; inferred from command/url when omitted */
+  type?: 'stdio' | 'http';
+  /** Per-request timeout in ms */
+  timeout?: number;
+  disabled?: boolean;
+}
+
+/** Tool descriptor returned by tools/list */
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: any;
+}
+
+/** Content block of a tools/call result */
+export interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  data?: string;
+  resource?: { uri?: string; text?: string; mimeType?: string };
+}
+
+export interface McpCallResult {
+  content?: McpContent[];
+  structuredContent?: any;
+  isError?: boolean;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+/** Transport moves raw JSON-RPC messages; the client does the bookkeeping */
+interface McpTransport {
+  start(onMessage: (msg: JsonRpcMessage) => void, onClose: () => void): Promise<void>;
+  send(msg: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+class StdioTransport implements McpTransport {
+  private proc: ChildProcess | null = null;
+  private buffer = '';
+
+  constructor(private readonly name: string, private readonly config: McpServerConfig) {}
+
+  async start(onMessage: (msg: JsonRpcMessage) => void, onClose: () => void): Promise<void> {
+    const proc = spawn(this.config.command!, this.config.args || [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...(this.config.env || {}) },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32',
+      windowsHide: true
+    });
+    this.proc = proc;
+
+    proc.stdout!.setEncoding('utf8');
+    proc.stdout!.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let nl = this.buffer.indexOf('\n');
+      while (nl >= 0) {
+        const line = this.buffer.slice(0, nl).trim();
+        this.buffer = this.buffer.slice(nl + 1);
+        nl = this.buffer.indexOf('\n');
+        if (!line) continue;
+        try {
+          onMessage(JSON.parse(line));
+        } catch {
+          logger.log(`[MCP] ${this.name}: ignoring non-JSON stdout line: ${line.slice(0, 200)}`);
+        }
+      }
+    });
+    // Writing to a server that already exited raises EPIPE here; the exit handler reports it
+    proc.stdin!.on('error', (err) => {
+      logger.log(`[MCP] ${this.name}: stdin error — ${err.message}`);
+    });
+    proc.stderr!.setEncoding('utf8');
+    proc.stderr!.on('data', (chunk: string) => {
+      logger.log(`[MCP] ${this.name} stderr: ${chunk.trimEnd().slice(0, 500)}`);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      proc.once('spawn', () => resolve());
+      proc.once('error', reject);
+    });
+    proc.on('exit', (code) => {
+      logger.log(`[MCP] ${this.name}: process exited with code ${code}`);
+      this.proc = null;
+      onClose();
+    });
+  }
+
+  async send(msg: JsonRpcMessage): Promise<void> {
+    if (!this.proc?.stdin?.writable) {
+      throw new Error(`MCP server "${this.name}" is not running`);
+    }
+    this.proc.stdin.write(JSON.stringify(msg) + '\n');
+  }
+
+  async close(): Promise<void> {
+    const proc = this.proc;
+    this.proc = null;
+    if (!proc) return;
+    proc.stdin?.end();
+    if (proc.exitCode === null) {
+      proc.kill();
+    }
+  }
+}
+
+class HttpTransport implements McpTransport {
+  private onMessage: ((msg: JsonRpcMessage) => void) | null = null;
+  private sessionId: string | undefined;
+
+  constructor(private readonly name: string, private readonly config: McpServerConfig) {}
+
+  async start(onMessage: (msg: JsonRpcMessage) => void): Promise<void> {
+    this.onMessage = onMessage;
+  }
+
+  async send(msg: JsonRpcMessage): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'MCP-Protocol-Version': MCP_PROTOCOL_VERSION,
+      ...(this.config.headers || {})
+    };
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+
+    const res = await fetch(this.config.url!, { method: 'POST', headers, body: JSON.stringify(msg) });
+    const sid = res.headers.get('mcp-session-id');
+    if (sid) this.sessionId = sid;
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`MCP server "${this.name}" HTTP ${res.status}: ${text.slice(0, 300)}`);
+    }
+    // Notifications and responses are acknowledged with 202 and no body
+    if (res.status === 202 || !res.body) return;
+
+    const contentType = res.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      for await (const payload of readSSEPayloads(res.body)) {
+        try {
+          this.onMessage?.(JSON.parse(payload));
+        } catch {
+          logger.log(`[MCP] ${this.name}: ignoring malformed SSE payload`);
+        }
+      }
+      return;
+    }
+
+    const text = await res.text();
+    if (!text.trim()) return;
+    const parsed = JSON.parse(text);
+    for (const m of Array.isArray(parsed) ? parsed : [parsed]) {
+      this.onMessage?.(m);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    // Best effort session termination
+    try {
+      await fetch(this.config.url!, {
+        method: 'DELETE',
+        headers: { 'Mcp-Session-Id': this.sessionId, ...(this.config.headers || {}) }
+      });
+    } catch {}
+    this.sessionId = undefined;
+  }
+}
+
+/**
+ * Connection to a single MCP server.
+ */
+export class McpClient {
+  private transport: McpTransport;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void; timer: NodeJS.Timeout }>();
+  private connected = false;
+
+  constructor(public readonly name: string, private readonly config: McpServerConfig) {
+    const type = config.type || (config.url ? 'http' : 'stdio');
+    if (type === 'http') {
+      if (!config.url) throw new Error(`MCP server "${name}": "url" is required for http transport`);
+      this.transport = new HttpTransport(name, config);
+    } else {
+      if (!config.command) throw new Error(`MCP server "${name}": "command" is required for stdio transport`);
+      this.transport = new StdioTransport(name, config);
+    }
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /** Start the transport and perform the initialize handshake */
+  async connect(): Promise<void> {
+    await this.transport.start((msg) => this.handleMessage(msg), () => this.failPending());
+    const init = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'ashibalt-ai', version: CLIENT_VERSION }
+    });
+    await this.transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    this.connected = true;
+    logger.log(`[MCP] ${this.name}: connected (server=${init?.serverInfo?.name || '?'} protocol=${init?.protocolVersion || '?'})`);
+  }
+
+  /** tools/list with cursor pagination */
+  async listTools(): Promise<McpToolInfo[]> {
+    const all: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request('tools/list', cursor ? { cursor } : {});
+      all.push(...(page?.tools || []));
+      cursor = page?.nextCursor;
+    } while (cursor);
+    return all;
+  }
+
+  async callTool(name: string, args: any): Promise<McpCallResult> {
+    return this.request('tools/call', { name, arguments: args || {} });
+  }
+
+  async close(): Promise<void> {
+    this.failPending();
+    await this.transport.close();
+  }
+
+  /** Connection lost or closed: reject in-flight requests, next sync reconnects */
+  private failPending(): void {
+    this.connected = false;
+    for (const [, p] of this.pending) {
+      clearTimeout(p.timer);
+      p.reject(new Error(`MCP server "${this.name}" closed`));
+    }
+    this.pending.clear();
+  }
+
+  private request(method: string, params: any): Promise<any> {
+    const id = this.nextId++;
+    const timeoutMs = this.config.timeout || DEFAULT_REQUEST_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP server "${this.name}": ${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport.send({ jsonrpc: '2.0', id, method, params }).catch((err) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(err);
+      });
+    });
+  }
+
+  private handleMessage(msg: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (msg.id !== undefined && msg.method === undefined) {
+      const p = this.pending.get(Number(msg.id));
+      if (!p) return;
+      this.pending.delete(Number(msg.id));
+      clearTimeout(p.timer);
+      if (msg.error) {
+        p.reject(new Error(`MCP ${this.name}: ${msg.error.message} (${msg.error.code})`));
+      } else {
+        p.resolve(msg.result);
+      }
+      return;
+    }
+    // Server-initiated request: answer ping, refuse everything else
+    if (msg.id !== undefined && msg.method) {
+      const reply: JsonRpcMessage = msg.method === 'ping'
+        ? { jsonrpc: '2.0', id: msg.id, result: {} }
+        : { jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: `Method not supported: ${msg.method}` } };
+      this.transport.send(reply).catch(() => {});
+    }
+    // Notifications (progress, logging, list_changed) are ignored
+  }
+}
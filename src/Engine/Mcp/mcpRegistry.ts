@@ -0,0 +1,280 @@
+/**
+ * MCP server registry — connects the configured MCP servers and exposes
+ * their tools to the agent loop as regular ToolSpec entries.
+ *
+ * Server list is merged from two sources (workspace wins on name clash):
+ *   - global:    `ashibaltAi.mcpServers` setting (machine-scoped, so a workspace
+ *                settings.json can't add servers)
+ *   - workspace: `.vscode/mcp.json` ({ "servers": {...} } or { "mcpServers": {...} }),
+ *                ignored in untrusted workspaces. A stdio server from this file
+ *                runs a command from the repository, so it starts only after the
+ *                user allows that exact command (once or always, ~/.Ashibalt/mcp-approvals.json).
+ *
+ * Tools are namespaced as `mcp__<server>__<tool>` so they never collide with
+ * built-in tools; executeTool routes those names to callMcpTool().
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { McpClient, McpServerConfig, McpToolInfo, McpCallResult } from './mcpClient';
+import type { ToolSpec } from '../toolCalling';
+import { logger } from '../../logger';
+
+export const MCP_TOOL_PREFIX = 'mcp__';
+
+/** OpenAI-compatible APIs limit function names to 64 chars of [a-zA-Z0-9_-] */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/** Server entry with its origin; workspace stdio servers need the user's consent */
+export interface ConfiguredMcpServer extends McpServerConfig {
+  fromWorkspace?: boolean;
+}
+
+interface McpServerState {
+  client: McpClient;
+  /** Serialized config — a change triggers reconnect */
+  configKey: string;
+  tools: McpToolInfo[];
+}
+
+interface McpToolRoute {
+  server: string;
+  tool: string;
+}
+
+const servers = new Map<string, McpServerState>();
+const routes = new Map<string, McpToolRoute>();
+let toolSpecs: ToolSpec[] = [];
+let syncInFlight: Promise<void> | null = null;
+/** Consent answers of this session, by approvalKey */
+const sessionConsent = new Map<string, boolean>();
+
+function sanitizeNamePart(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/** Build the namespaced tool name exposed to the model */
+export function mcpToolName(server: string, tool: string): string {
+  return `${MCP_TOOL_PREFIX}${sanitizeNamePart(server)}__${sanitizeNamePart(tool)}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+export function isMcpToolName(name: string): boolean {
+  return name.startsWith(MCP_TOOL_PREFIX);
+}
+
+/**
+ * Read the merged server list.
+ * Workspace entries override global entries with the same name.
+ */
+export function loadMcpServerConfigs(workspaceRoot?: string): Record<string, ConfiguredMcpServer> {
+  const globalServers = vscode.workspace.getConfiguration('ashibaltAi').get<Record<string, McpServerConfig>>('mcpServers', {}) || {};
+  let workspaceServers: Record<string, McpServerConfig> = {};
+
+  if (workspaceRoot) {
+    const file = path.join(workspaceRoot, '.vscode', 'mcp.json');
+    if (vscode.workspace.isTrusted === false) {
+      if (fs.existsSync(file)) logger.log(`[MCP] Workspace is not trusted — servers from ${file} are ignored`);
+    } else if (fs.existsSync(file)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+        workspaceServers = parsed?.servers || parsed?.mcpServers || {};
+        // Relative cwd in the workspace file is resolved against the workspace root
+        for (const cfg of Object.values(workspaceServers)) {
+          if (cfg?.cwd && !path.isAbsolute(cfg.cwd)) cfg.cwd = path.join(workspaceRoot, cfg.cwd);
+        }
+      } catch (err: any) {
+        logger.log(`[MCP] Failed to parse ${file}: ${err?.message || err}`);
+      }
+    }
+  }
+
+  const merged: Record<string, ConfiguredMcpServer> = {};
+  for (const [name, cfg] of Object.entries({ ...globalServers, ...workspaceServers })) {
+    if (!cfg || typeof cfg !== 'object' || cfg.disabled) continue;
+    if (!cfg.command && !cfg.url) {
+      logger.log(`[MCP] Server "${name}" has neither "command" nor "url" — skipped`);
+      continue;
+    }
+    const fromWorkspace = Object.prototype.hasOwnProperty.call(workspaceServers, name);
+    merged[name] = { ...cfg, cwd: cfg.cwd || workspaceRoot, ...(fromWorkspace ? { fromWorkspace } : {}) };
+  }
+  return merged;
+}
+
+export function mcpApprovalsPath(): string {
+  return path.join(os.homedir(), '.Ashibalt', 'mcp-approvals.json');
+}
+
+function isStdioServer(cfg: McpServerConfig): boolean {
+  return (cfg.type || (cfg.url ? 'http' : 'stdio')) === 'stdio';
+}
+
+/** Everything that decides what gets spawned: a changed command, argument or env var asks again */
+function approvalKey(name: string, cfg: McpServerConfig, workspaceRoot?: string): string {
+  return JSON.stringify({ workspace: workspaceRoot || '', server: name, command: cfg.command, args: cfg.args || [], cwd: cfg.cwd || '', env: cfg.env || {} });
+}
+
+function readApprovals(): string[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(mcpApprovalsPath(), 'utf8'));
+    return Array.isArray(data?.approved) ? data.approved.map((a: unknown) => JSON.stringify(a)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveApproval(key: string): void {
+  const file = mcpApprovalsPath();
+  try {
+    const approved = [...new Set([...readApprovals(), key])].map(k => JSON.parse(k));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ approved }, null, 2) + '\n', 'utf8');
+  } catch (err: any) {
+    logger.log(`[MCP] Failed to save approval to ${file}: ${err?.message || err}`);
+  }
+}
+
+/**
+ * Whether a server may be started. Global servers come from the user's own
+ * settings; a workspace stdio server is asked about once per exact command.
+ */
+async function hasConsent(name: string, cfg: ConfiguredMcpServer, workspaceRoot?: string): Promise<boolean> {
+  if (!cfg.fromWorkspace || !isStdioServer(cfg)) return true;
+  const key = approvalKey(name, cfg, workspaceRoot);
+  if (sessionConsent.has(key)) return sessionConsent.get(key)!;
+  if (readApprovals().includes(key)) return true;
+
+  const commandLine = [cfg.command, ...(cfg.args || [])].join(' ');
+  const allowOnce = 'Разрешить';
+  const allowAlways = 'Разрешать всегда';
+  const choice = await vscode.window.showWarningMessage(
+    `MCP-сервер «${name}» из .vscode/mcp.json запустит команду:\n${commandLine}\n\nРазрешайте только серверы проектов, которым доверяете.`,
+    { modal: true },
+    allowOnce,
+    allowAlways
+  );
+  const allowed = choice === allowOnce || choice === allowAlways;
+  if (choice === allowAlways) saveApproval(key);
+  sessionConsent.set(key, allowed);
+  logger.log(`[MCP] ${name}: ${allowed ? 'start allowed' : 'start declined'} (${commandLine.slice(0, 200)})`);
+  return allowed;
+}
+
+function rebuildToolSpecs(): void {
+  routes.clear();
+  const specs: ToolSpec[] = [];
+  for (const [server, state] of servers) {
+    for (const tool of state.tools) {
+      const name = mcpToolName(server, tool.name);
+      if (routes.has(name)) {
+        logger.log(`[MCP] Tool name collision for ${name} — ${server}/${tool.name} skipped`);
+        continue;
+      }
+      routes.set(name, { server, tool: tool.name });
+      specs.push({
+        type: 'function',
+        function: {
+          name,
+          description: `[MCP: ${server}] ${tool.description || tool.name}`,
+          parameters: tool.inputSchema && typeof tool.inputSchema === 'object'
+            ? tool.inputSchema
+            : { type: 'object', properties: {} }
+        }
+      });
+    }
+  }
+  toolSpecs = specs;
+}
+
+async function syncServers(workspaceRoot?: string): Promise<void> {
+  const configs = loadMcpServerConfigs(workspaceRoot);
+
+  // One consent dialog at a time, before anything is spawned
+  for (const [name, cfg] of Object.entries(configs)) {
+    if (!await hasConsent(name, cfg, workspaceRoot)) delete configs[name];
+  }
+
+  // Drop servers that were removed or reconfigured
+  for (const [name, state] of [...servers]) {
+    if (configs[name] && JSON.stringify(configs[name]) === state.configKey && state.client.isConnected) continue;
+    servers.delete(name);
+    await state.client.close().catch(() => {});
+  }
+
+  await Promise.all(Object.entries(configs).map(async ([name, cfg]) => {
+    if (servers.has(name)) return;
+    let client: McpClient | undefined;
+    try {
+      client = new McpClient(name, cfg);
+      await client.connect();
+      const tools = await client.listTools();
+      servers.set(name, { client, configKey: JSON.stringify(cfg), tools });
+      logger.log(`[MCP] ${name}: ${tools.length} tool(s): ${tools.map(t => t.name).join(', ')}`);
+    } catch (err: any) {
+      logger.log(`[MCP] ${name}: failed to start — ${err?.message || err}`);
+      await client?.close().catch(() => {});
+    }
+  }));
+
+  rebuildToolSpecs();
+}
+
+/**
+ * Connect (or reconnect after config changes) all configured MCP servers.
+ * Never throws — a broken server only loses its tools.
+ */
+export async function ensureMcpServers(workspaceRoot?: string): Promise<void> {
+  if (syncInFlight) return syncInFlight;
+  syncInFlight = syncServers(workspaceRoot).finally(() => { syncInFlight = null; });
+  return syncInFlight;
+}
+
+/** Tool specs of all connected servers, ready to be merged into the loop tool list */
+export function getMcpToolSpecs(): ToolSpec[] {
+  return toolSpecs;
+}
+
+/** Flatten an MCP tools/call result into a tool result for the model */
+export function formatMcpResult(result: McpCallResult): string | { error: string } {
+  const parts: string[] = [];
+  for (const block of result?.content || []) {
+    if (block.type === 'text' && typeof block.text === 'string') {
+      parts.push(block.text);
+    } else if (block.type === 'resource' && block.resource) {
+      parts.push(block.resource.text ?? `[resource: ${block.resource.uri || 'unknown'}]`);
+    } else if (block.type === 'image' || block.type === 'audio') {
+      parts.push(`[${block.type}: ${block.mimeType || 'unknown'}, ${block.data?.length || 0} base64 chars]`);
+    } else {
+      parts.push(`[${block.type}]`);
+    }
+  }
+  if (parts.length === 0 && result?.structuredContent !== undefined) {
+    parts.push(JSON.stringify(result.structuredContent, null, 2));
+  }
+  const text = parts.join('\n');
+  return result?.isError ? { error: text || 'MCP tool reported an error' } : text;
+}
+
+/** Execute a namespaced MCP tool (called from executeTool) */
+export async function callMcpTool(name: string, args: any): Promise<string | { error: string }> {
+  const route = routes.get(name);
+  if (!route) {
+    return { error: `Unknown MCP tool: ${name}. The server may be disconnected.` };
+  }
+  const state = servers.get(route.server);
+  if (!state?.client.isConnected) {
+    return { error: `MCP server "${route.server}" is not connected.` };
+  }
+  return formatMcpResult(await state.client.callTool(route.tool, args));
+}
+
+/** Close every server connection (extension deactivate / tests) */
+export async function disposeMcpServers(): Promise<void> {
+  const all = [...servers.values()];
+  servers.clear();
+  rebuildToolSpecs();
+  await Promise.all(all.map(s => s.client.close().catch(() => {})));
+  sessionConsent.clear();
+}
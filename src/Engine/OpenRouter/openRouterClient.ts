@@ -7,6 +7,8 @@ interface OpenRouterConfig {
   baseUrl?: string;
   apiKey?: string;
   defaultModel?: string;
+  /** Auth + extra headers of a custom provider (replace the default Bearer auth) */
+  headers?: Record<string, string>;
 }
 
 interface ChatMessage {
@@ -29,11 +31,13 @@ export class OpenRouterClient {
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly defaultModel?: string;
+  private readonly extraHeaders?: Record<string, string>;
 
   constructor(config: OpenRouterConfig) {
     this.baseUrl = (config.baseUrl ?? "https://openrouter.ai/api/v1").replace(/\/$/, "");
   this.apiKey = config.apiKey?.trim() ?? "";
     this.defaultModel = config.defaultModel;
+    this.extraHeaders = config.headers;
   }
 
   async chat(options: ChatOptions, onChunk?: (chunk: string) => void, onReasoning?: (reasoning: string) => void): Promise<string> {
@@ -69,7 +73,9 @@ export class OpenRouterClient {
       headers['HTTP-Referer'] = 'https://github.com/Ashibalt/Ashibalt-AI';
     }
 
-    if (authHeader) {
+    if (this.extraHeaders) {
+      Object.assign(headers, this.extraHeaders);
+    } else if (authHeader) {
       headers["Authorization"] = `Bearer ${authHeader}`;
     } else {
       logger.log('[OpenRouterClient] No auth token or API key provided!');
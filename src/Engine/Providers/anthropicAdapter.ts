@@ -0,0 +1,408 @@
+/**
+ * Native Anthropic Messages API adapter for the "claude" provider.
+ *
+ * Request: OpenAI-style messages/tools → Messages API
+ *   - system messages → top-level `system` blocks (last block gets cache_control)
+ *   - assistant tool_calls → `tool_use` blocks, role=tool results → `tool_result` blocks
+ *   - consecutive same-role messages are merged (the API requires strict alternation)
+ *   - reasoning → `thinking` with a token budget
+ *
+ * Response: content_block_* / message_* events → SSEParseResult
+ *   - text_delta → content, thinking_delta → reasoning, input_json_delta → tool_calls
+ *   - stop_reason → OpenAI finish_reason, usage incl. cache_read_input_tokens
+ */
+
+import { logger } from '../../logger';
+import { buildModelParams } from '../modelParams';
+import { readSSEPayloads, type ReadableStreamLike, type ReasoningSignature, type ThinkingBlock, type SSEParseOptions, type SSEParseResult, type SSEToolCall, type SSEUsageInfo } from '../sseParser';
+import type { FetchWithToolsOptions } from '../fetchWithTools';
+import type { ProviderAdapter, ProviderRequest } from './providerAdapter';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** Thinking budget by OpenRouter-style reasoning effort */
+const THINKING_BUDGET_BY_EFFORT: Record<string, number> = {
+  low: 4096,
+  medium: 8192,
+  high: 16384,
+};
+const DEFAULT_THINKING_BUDGET = 8192;
+
+/** Messages API stop_reason → OpenAI finish_reason */
+const STOP_REASON_MAP: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  tool_use: 'tool_calls',
+  max_tokens: 'length',
+  refusal: 'content_filter',
+};
+
+/** Stream error type → HTTP status (keeps the "(STATUS)" format parseApiError expects) */
+const ERROR_STATUS_MAP: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+// ─── Request translation ───────────────────────────────────────────
+
+/** Convert OpenAI message content (string or multipart array) into text blocks */
+function toTextBlocks(content: any): any[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  if (Array.isArray(content)) {
+    return content
+      .filter((part: any) => part?.type === 'text' && part.text)
+      .map((part: any) => ({ type: 'text', text: part.text }));
+  }
+  return [];
+}
+
+/** Convert user content, keeping images (data URLs → base64 source, others → url source) */
+function toUserBlocks(content: any): any[] {
+  if (!Array.isArray(content)) {
+    return toTextBlocks(content);
+  }
+  const blocks: any[] = [];
+  for (const part of content) {
+    if (part?.type === 'text' && part.text) {
+      blocks.push({ type: 'text', text: part.text });
+    } else if (part?.type === 'image_url') {
+      const url: string = part.image_url?.url || '';
+      const dataMatch = url.match(/^data:([^;]+);base64,(.*)$/s);
+      if (dataMatch) {
+        blocks.push({ type: 'image', source: { type: 'base64', media_type: dataMatch[1], data: dataMatch[2] } });
+      } else if (url) {
+        blocks.push({ type: 'image', source: { type: 'url', url } });
+      }
+    }
+  }
+  return blocks;
+}
+
+/** Tool call arguments are a JSON string internally; the Messages API wants an object */
+function parseToolInput(args: string | undefined): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translate the internal conversation into Messages API `system` + `messages`.
+ * Exported for tests.
+ */
+export function convertMessagesToAnthropic(messages: any[]): { system: any[]; messages: any[] } {
+  const system: any[] = [];
+  const out: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+  const push = (role: 'user' | 'assistant', blocks: any[]) => {
+    if (blocks.length === 0) return;
+    const last = out[out.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      out.push({ role, content: blocks });
+    }
+  };
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case 'system':
+        system.push(...toTextBlocks(msg.content));
+        break;
+      case 'user':
+        push('user', toUserBlocks(msg.content));
+        break;
+      case 'assistant': {
+        const blocks: any[] = [];
+        // Thinking blocks can only be replayed with their signatures, and only to Anthropic
+        const signed: ReasoningSignature | undefined = msg.reasoning_signature;
+        if (signed?.provider === 'claude') {
+          for (const b of signed.blocks) {
+            blocks.push('data' in b
+              ? { type: 'redacted_thinking', data: b.data }
+              : { type: 'thinking', thinking: b.thinking, signature: b.signature });
+          }
+        }
+        blocks.push(...toTextBlocks(msg.content));
+        for (const tc of msg.tool_calls || []) {
+          blocks.push({
+            type: 'tool_use',
+            id: tc.id,
+            name: tc.function?.name,
+            input: parseToolInput(tc.function?.arguments),
+          });
+        }
+        push('assistant', blocks);
+        break;
+      }
+      case 'tool':
+        push('user', [{
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id,
+          content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content ?? ''),
+        }]);
+        break;
+      default:
+        break;
+    }
+  }
+
+  // The Messages API requires the conversation to start with a user turn
+  if (out.length > 0 && out[0].role !== 'user') {
+    out.unshift({ role: 'user', content: [{ type: 'text', text: '(continue)' }] });
+  }
+
+  return { system, messages: out };
+}
+
+function buildAnthropicRequest(opts: FetchWithToolsOptions): ProviderRequest {
+  const { baseUrl, apiKey, model, messages, tools, toolChoice, reasoning } = opts;
+  const params = buildModelParams(baseUrl, model);
+  const converted = convertMessagesToAnthropic(messages);
+
+  const body: any = {
+    model,
+    messages: converted.messages,
+    max_tokens: params.max_tokens,
+    stream: true,
+  };
+
+  if (converted.system.length > 0) {
+    // Explicit breakpoint: Anthropic only caches when cache_control is present.
+    // Tools are part of the cached prefix (tools → system → messages).
+    // Default 5-minute TTL: the 1-hour one needs the extended-cache-ttl beta header.
+    converted.system[converted.system.length - 1].cache_control = { type: 'ephemeral' };
+    body.system = converted.system;
+  }
+
+  const thinkingEnabled = !!reasoning && reasoning.enabled !== false;
+  if (thinkingEnabled) {
+    const budget = reasoning!.max_tokens
+      || THINKING_BUDGET_BY_EFFORT[reasoning!.effort || '']
+      || DEFAULT_THINKING_BUDGET;
+    body.thinking = { type: 'enabled', budget_tokens: budget };
+    // max_tokens must exceed the thinking budget; temperature must stay at default
+    body.max_tokens = Math.max(params.max_tokens, budget + 4096);
+  } else {
+    body.temperature = params.temperature;
+  }
+
+  if (tools && tools.length > 0) {
+    body.tools = tools.map((t: any) => ({
+      name: t.function.name,
+      description: t.function.description,
+      input_schema: t.function.parameters || { type: 'object', properties: {} },
+    }));
+    if (toolChoice === 'none') {
+      body.tool_choice = { type: 'none' };
+    } else if ((toolChoice === 'any' || toolChoice === 'required') && !thinkingEnabled) {
+      // Forced tool use is not allowed together with extended thinking
+      body.tool_choice = { type: 'any' };
+    } else if (toolChoice) {
+      body.tool_choice = { type: 'auto' };
+    }
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Ashibalt-AI/1.0',
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+  if (apiKey) {
+    headers['x-api-key'] = apiKey;
+  } else {
+    logger.error('[Anthropic] No API key provided');
+  }
+
+  logger.log(`[Anthropic] Request: model=${model}, messages=${converted.messages.length}, system_blocks=${converted.system.length}, tools=${body.tools?.length || 0}, max_tokens=${body.max_tokens}, thinking=${thinkingEnabled}`);
+
+  return {
+    url: `${baseUrl.replace(/\/$/, '')}/messages`,
+    headers,
+    body,
+  };
+}
+
+// ─── Response translation ──────────────────────────────────────────
+
+interface BlockState {
+  type: string;
+  id?: string;
+  name?: string;
+  json: string;
+  /** Thinking blocks: text and signature, kept per block for replay */
+  thinking?: string;
+  signature?: string;
+  /** Redacted thinking blocks: encrypted data, replayed as is */
+  data?: string;
+}
+
+/**
+ * Parse a Messages API event stream into the internal response shape.
+ * Exported for tests.
+ */
+export async function parseAnthropicStream(
+  body: ReadableStreamLike,
+  opts: SSEParseOptions
+): Promise<SSEParseResult> {
+  const { onChunk, onReasoning, signal } = opts;
+  let content = '';
+  let reasoning = '';
+  let stopReason = '';
+  let eventsParsed = 0;
+  let parseErrors = 0;
+  const usage: SSEUsageInfo = {};
+  let inputTokens = 0;
+  let cacheReadTokens = 0;
+  let cacheWriteTokens = 0;
+  let outputTokens = 0;
+  let hasUsage = false;
+  const blocks = new Map<number, BlockState>();
+
+  logger.log('[Anthropic] Stream parse started');
+
+  for await (const payload of readSSEPayloads(body, signal)) {
+    let event: any;
+    try {
+      event = JSON.parse(payload);
+    } catch (e: any) {
+      parseErrors++;
+      if (parseErrors <= 3) {
+        logger.log(`[Anthropic] Event parse error (${parseErrors}): ${(e?.message || String(e)).slice(0, 120)}`);
+      }
+      continue;
+    }
+    eventsParsed++;
+
+    switch (event.type) {
+      case 'message_start': {
+        const u = event.message?.usage;
+        if (u) {
+          hasUsage = true;
+          inputTokens = u.input_tokens ?? 0;
+          cacheReadTokens = u.cache_read_input_tokens ?? 0;
+          cacheWriteTokens = u.cache_creation_input_tokens ?? 0;
+          outputTokens = u.output_tokens ?? 0;
+        }
+        break;
+      }
+      case 'content_block_start': {
+        const block = event.content_block || {};
+        const state: BlockState = { type: block.type, json: '' };
+        if (block.type === 'tool_use') {
+          state.id = block.id;
+          state.name = block.name;
+          // Non-streamed input (rare) arrives whole in the start event
+          if (block.input && Object.keys(block.input).length > 0) {
+            state.json = JSON.stringify(block.input);
+          }
+        } else if (block.type === 'text' && block.text) {
+          content += block.text;
+          onChunk(block.text);
+        } else if (block.type === 'thinking') {
+          state.thinking = block.thinking || '';
+          state.signature = block.signature || '';
+        } else if (block.type === 'redacted_thinking') {
+          state.data = block.data || '';
+        }
+        blocks.set(event.index, state);
+        break;
+      }
+      case 'content_block_delta': {
+        const delta = event.delta || {};
+        if (delta.type === 'text_delta' && delta.text) {
+          content += delta.text;
+          onChunk(delta.text);
+        } else if (delta.type === 'thinking_delta' && delta.thinking) {
+          reasoning += delta.thinking;
+          const state = blocks.get(event.index);
+          if (state) state.thinking = (state.thinking ?? '') + delta.thinking;
+          onReasoning?.(reasoning);
+        } else if (delta.type === 'signature_delta' && delta.signature) {
+          const state = blocks.get(event.index);
+          if (state) state.signature = (state.signature ?? '') + delta.signature;
+        } else if (delta.type === 'input_json_delta') {
+          const state = blocks.get(event.index);
+          if (state) state.json += delta.partial_json || '';
+        }
+        break;
+      }
+      case 'message_delta': {
+        if (event.delta?.stop_reason) {
+          stopReason = event.delta.stop_reason;
+        }
+        if (event.usage) {
+          hasUsage = true;
+          outputTokens = event.usage.output_tokens ?? outputTokens;
+          // Some gateways only report input usage in message_delta
+          inputTokens = event.usage.input_tokens ?? inputTokens;
+          cacheReadTokens = event.usage.cache_read_input_tokens ?? cacheReadTokens;
+          cacheWriteTokens = event.usage.cache_creation_input_tokens ?? cacheWriteTokens;
+        }
+        break;
+      }
+      case 'error': {
+        const errType: string = event.error?.type || 'api_error';
+        const status = ERROR_STATUS_MAP[errType] ?? 500;
+        throw new Error(`API request failed (${status}): ${JSON.stringify({ error: event.error })}`);
+      }
+      default:
+        // ping, content_block_stop, message_stop — nothing to do
+        break;
+    }
+  }
+
+  const ordered = Array.from(blocks.entries()).sort((a, b) => a[0] - b[0]).map(([, b]) => b);
+  // A thinking block without a signature can't be replayed; redacted ones go back with their turn too
+  const thinkingBlocks = ordered.flatMap<ThinkingBlock>(b =>
+    b.type === 'thinking' && b.signature ? [{ thinking: b.thinking || '', signature: b.signature }]
+      : b.type === 'redacted_thinking' && b.data ? [{ data: b.data }]
+        : []);
+  const toolCalls: SSEToolCall[] = ordered
+    .filter(b => b.type === 'tool_use')
+    .map(b => ({
+      id: b.id || '',
+      type: 'function',
+      function: { name: b.name || '', arguments: b.json || '{}' },
+    }));
+
+  if (hasUsage) {
+    // prompt_tokens = full prompt size (uncached + cache reads + cache writes)
+    usage.prompt_tokens = inputTokens + cacheReadTokens + cacheWriteTokens;
+    usage.completion_tokens = outputTokens;
+    usage.total_tokens = usage.prompt_tokens + outputTokens;
+    usage.cached_tokens = cacheReadTokens || undefined;
+  }
+
+  const finishReason = STOP_REASON_MAP[stopReason] || stopReason || undefined;
+  logger.log(
+    `[Anthropic] Stream parse done: events=${eventsParsed}, parseErrors=${parseErrors}, ` +
+    `toolCalls=${toolCalls.length}, stop_reason=${stopReason || 'none'}, contentChars=${content.length}, ` +
+    `reasoningChars=${reasoning.length}, input=${inputTokens}, cache_read=${cacheReadTokens}, cache_write=${cacheWriteTokens}, output=${outputTokens}`
+  );
+
+  return {
+    content,
+    reasoning: reasoning || undefined,
+    reasoning_signature: thinkingBlocks.length > 0 ? { provider: 'claude', blocks: thinkingBlocks } : undefined,
+    finish_reason: finishReason,
+    tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: hasUsage ? usage : undefined,
+  };
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  name: 'Anthropic',
+  buildRequest: buildAnthropicRequest,
+  parseStream: parseAnthropicStream,
+};
@@ -0,0 +1,357 @@
+/**
+ * Native Gemini generateContent adapter for the "gemini" provider.
+ *
+ * Request: OpenAI-style messages/tools → streamGenerateContent
+ *   - system messages → `systemInstruction`
+ *   - assistant tool_calls → `functionCall` parts, role=tool results → `functionResponse` parts
+ *     (Gemini identifies responses by function name, so names are recovered from tool_call_id)
+ *   - tools → a single `functionDeclarations` tool, schemas reduced to the supported OpenAPI subset
+ *   - reasoning → `thinkingConfig`
+ *
+ * Response: GenerateContentResponse chunks → SSEParseResult
+ *   - text parts → content, `thought` parts → reasoning, functionCall parts → tool_calls
+ *   - usageMetadata (incl. cachedContentTokenCount, thoughtsTokenCount) → usage
+ */
+
+import { logger } from '../../logger';
+import { buildModelParams } from '../modelParams';
+import { readSSEPayloads, type ReadableStreamLike, type ReasoningSignature, type SSEParseOptions, type SSEParseResult, type SSEToolCall, type SSEUsageInfo } from '../sseParser';
+import type { FetchWithToolsOptions } from '../fetchWithTools';
+import type { ProviderAdapter, ProviderRequest } from './providerAdapter';
+
+/** Thinking budget by OpenRouter-style reasoning effort */
+const THINKING_BUDGET_BY_EFFORT: Record<string, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+const DEFAULT_THINKING_BUDGET = 8192;
+
+/** JSON-schema keys accepted in Gemini function declarations */
+const SUPPORTED_SCHEMA_KEYS = new Set([
+  'type', 'format', 'description', 'nullable', 'enum', 'properties', 'required',
+  'items', 'minItems', 'maxItems', 'minimum', 'maximum', 'anyOf', 'title',
+]);
+
+/** Gemini finishReason → OpenAI finish_reason */
+const FINISH_REASON_MAP: Record<string, string> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+  SPII: 'content_filter',
+};
+
+// ─── Request translation ───────────────────────────────────────────
+
+/**
+ * Reduce a JSON schema to the subset Gemini accepts.
+ * oneOf → anyOf, unknown keys dropped, empty `required` removed.
+ */
+export function sanitizeGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(sanitizeGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const out: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    const target = key === 'oneOf' ? 'anyOf' : key;
+    if (!SUPPORTED_SCHEMA_KEYS.has(target)) continue;
+    if (target === 'properties' && value && typeof value === 'object') {
+      out.properties = {};
+      for (const [prop, propSchema] of Object.entries(value as Record<string, any>)) {
+        out.properties[prop] = sanitizeGeminiSchema(propSchema);
+      }
+    } else if (target === 'items' || target === 'anyOf') {
+      out[target] = sanitizeGeminiSchema(value);
+    } else if (target === 'required' && Array.isArray(value) && value.length === 0) {
+      continue;
+    } else {
+      out[target] = value;
+    }
+  }
+  return out;
+}
+
+function toTextParts(content: any): any[] {
+  if (typeof content === 'string') {
+    return content ? [{ text: content }] : [];
+  }
+  if (Array.isArray(content)) {
+    const parts: any[] = [];
+    for (const part of content) {
+      if (part?.type === 'text' && part.text) {
+        parts.push({ text: part.text });
+      } else if (part?.type === 'image_url') {
+        const dataMatch = String(part.image_url?.url || '').match(/^data:([^;]+);base64,(.*)$/s);
+        if (dataMatch) {
+          parts.push({ inlineData: { mimeType: dataMatch[1], data: dataMatch[2] } });
+        }
+      }
+    }
+    return parts;
+  }
+  return [];
+}
+
+/** functionResponse.response must be an object — wrap plain-text tool results */
+function toFunctionResponse(content: any): Record<string, any> {
+  if (content && typeof content === 'object' && !Array.isArray(content)) return content;
+  const text = typeof content === 'string' ? content : JSON.stringify(content ?? '');
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {}
+  return { content: text };
+}
+
+function parseArgs(args: string | undefined): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translate the internal conversation into Gemini `systemInstruction` + `contents`.
+ * Exported for tests.
+ */
+export function convertMessagesToGemini(messages: any[]): { systemInstruction?: any; contents: any[] } {
+  const systemParts: any[] = [];
+  const contents: { role: 'user' | 'model'; parts: any[] }[] = [];
+  const toolNames = new Map<string, string>();
+
+  const push = (role: 'user' | 'model', parts: any[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case 'system':
+        systemParts.push(...toTextParts(msg.content));
+        break;
+      case 'user':
+        push('user', toTextParts(msg.content));
+        break;
+      case 'assistant': {
+        const parts = toTextParts(msg.content);
+        (msg.tool_calls || []).forEach((tc: any, i: number) => {
+          const name = tc.function?.name || '';
+          toolNames.set(tc.id, name);
+          const part: any = { functionCall: { name, args: parseArgs(tc.function?.arguments) } };
+          // Thought signature belongs to the first function call of the turn; only Gemini signs it
+          const signed: ReasoningSignature | undefined = msg.reasoning_signature;
+          if (i === 0 && signed?.provider === 'gemini') {
+            part.thoughtSignature = signed.signature;
+          }
+          parts.push(part);
+        });
+        push('model', parts);
+        break;
+      }
+      case 'tool':
+        push('user', [{
+          functionResponse: {
+            name: toolNames.get(msg.tool_call_id) || msg.name || 'unknown',
+            response: toFunctionResponse(msg.content),
+          },
+        }]);
+        break;
+      default:
+        break;
+    }
+  }
+
+  return {
+    systemInstruction: systemParts.length > 0 ? { parts: systemParts } : undefined,
+    contents,
+  };
+}
+
+function buildGeminiRequest(opts: FetchWithToolsOptions): ProviderRequest {
+  const { baseUrl, apiKey, model, messages, tools, toolChoice, reasoning } = opts;
+  const params = buildModelParams(baseUrl, model);
+  const converted = convertMessagesToGemini(messages);
+
+  const generationConfig: any = {
+    temperature: params.temperature,
+    topP: params.top_p,
+    candidateCount: params.n,
+    maxOutputTokens: params.max_tokens,
+  };
+  const thinkingEnabled = !!reasoning && reasoning.enabled !== false;
+  if (thinkingEnabled) {
+    generationConfig.thinkingConfig = {
+      includeThoughts: true,
+      thinkingBudget: reasoning!.max_tokens
+        || THINKING_BUDGET_BY_EFFORT[reasoning!.effort || '']
+        || DEFAULT_THINKING_BUDGET,
+    };
+  }
+
+  const body: any = {
+    contents: converted.contents,
+    generationConfig,
+  };
+  if (converted.systemInstruction) {
+    body.systemInstruction = converted.systemInstruction;
+  }
+
+  if (tools && tools.length > 0) {
+    body.tools = [{
+      functionDeclarations: tools.map((t: any) => {
+        const decl: any = { name: t.function.name, description: t.function.description };
+        const params = sanitizeGeminiSchema(t.function.parameters);
+        // OBJECT schemas without properties are rejected — omit parameters entirely
+        if (params?.properties && Object.keys(params.properties).length > 0) {
+          decl.parameters = params;
+        }
+        return decl;
+      }),
+    }];
+    if (toolChoice) {
+      const mode = toolChoice === 'none' ? 'NONE'
+        : (toolChoice === 'any' || toolChoice === 'required') ? 'ANY'
+        : 'AUTO';
+      body.toolConfig = { functionCallingConfig: { mode } };
+    }
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Ashibalt-AI/1.0',
+  };
+  if (apiKey) {
+    headers['x-goog-api-key'] = apiKey;
+  } else {
+    logger.error('[Gemini] No API key provided');
+  }
+
+  // Accept the OpenAI-compatible base URL (".../v1beta/openai") users may have configured
+  const root = baseUrl.replace(/\/$/, '').replace(/\/openai$/, '');
+  const modelPath = model.startsWith('models/') ? model : `models/${model}`;
+
+  logger.log(`[Gemini] Request: model=${model}, contents=${converted.contents.length}, tools=${tools?.length || 0}, maxOutputTokens=${generationConfig.maxOutputTokens}, thinking=${thinkingEnabled}`);
+
+  return {
+    url: `${root}/${modelPath}:streamGenerateContent?alt=sse`,
+    headers,
+    body,
+  };
+}
+
+// ─── Response translation ──────────────────────────────────────────
+
+/**
+ * Parse a streamGenerateContent SSE stream into the internal response shape.
+ * Exported for tests.
+ */
+export async function parseGeminiStream(
+  body: ReadableStreamLike,
+  opts: SSEParseOptions
+): Promise<SSEParseResult> {
+  const { onChunk, onReasoning, signal } = opts;
+  let content = '';
+  let reasoning = '';
+  let signature = '';
+  let finishReason = '';
+  let eventsParsed = 0;
+  let parseErrors = 0;
+  let usage: SSEUsageInfo | undefined;
+  const toolCalls: SSEToolCall[] = [];
+
+  logger.log('[Gemini] Stream parse started');
+
+  for await (const payload of readSSEPayloads(body, signal)) {
+    let chunk: any;
+    try {
+      chunk = JSON.parse(payload);
+    } catch (e: any) {
+      parseErrors++;
+      if (parseErrors <= 3) {
+        logger.log(`[Gemini] Event parse error (${parseErrors}): ${(e?.message || String(e)).slice(0, 120)}`);
+      }
+      continue;
+    }
+    eventsParsed++;
+
+    if (chunk.error) {
+      throw new Error(`API request failed (${chunk.error.code || 500}): ${JSON.stringify({ error: chunk.error })}`);
+    }
+
+    const candidate = chunk.candidates?.[0];
+    for (const part of candidate?.content?.parts || []) {
+      if (part.thoughtSignature && !signature) {
+        signature = part.thoughtSignature;
+      }
+      if (part.functionCall) {
+        toolCalls.push({
+          id: part.functionCall.id || `call_${Date.now().toString(36)}_${toolCalls.length}`,
+          type: 'function',
+          function: {
+            name: part.functionCall.name || '',
+            arguments: JSON.stringify(part.functionCall.args || {}),
+          },
+        });
+      } else if (part.thought && part.text) {
+        reasoning += part.text;
+        onReasoning?.(reasoning);
+      } else if (part.text) {
+        content += part.text;
+        onChunk(part.text);
+      }
+    }
+
+    if (candidate?.finishReason) {
+      finishReason = candidate.finishReason;
+    }
+
+    // usageMetadata is cumulative — the last chunk carries the final numbers
+    const u = chunk.usageMetadata;
+    if (u) {
+      const completion = (u.candidatesTokenCount ?? 0) + (u.thoughtsTokenCount ?? 0);
+      usage = {
+        prompt_tokens: u.promptTokenCount,
+        completion_tokens: completion,
+        total_tokens: u.totalTokenCount ?? ((u.promptTokenCount ?? 0) + completion),
+        cached_tokens: u.cachedContentTokenCount || undefined,
+      };
+    }
+  }
+
+  let finish = FINISH_REASON_MAP[finishReason] || (finishReason ? finishReason.toLowerCase() : undefined);
+  // Gemini reports STOP for function-call turns
+  if (toolCalls.length > 0 && (!finish || finish === 'stop')) {
+    finish = 'tool_calls';
+  }
+
+  logger.log(
+    `[Gemini] Stream parse done: events=${eventsParsed}, parseErrors=${parseErrors}, ` +
+    `toolCalls=${toolCalls.length}, finishReason=${finishReason || 'none'}, contentChars=${content.length}, ` +
+    `reasoningChars=${reasoning.length}, prompt=${usage?.prompt_tokens ?? '?'}, cached=${usage?.cached_tokens ?? 0}`
+  );
+
+  return {
+    content,
+    reasoning: reasoning || undefined,
+    reasoning_signature: signature ? { provider: 'gemini', signature } : undefined,
+    finish_reason: finish,
+    tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage,
+  };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  name: 'Gemini',
+  buildRequest: buildGeminiRequest,
+  parseStream: parseGeminiStream,
+};
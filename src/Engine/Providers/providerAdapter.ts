@@ -0,0 +1,46 @@
+/**
+ * Provider adapter layer.
+ *
+ * Most providers speak the OpenAI-compatible /chat/completions protocol and are
+ * handled directly by fetchOpenRouterWithTools + parseSSEStream. Providers with
+ * their own native API register an adapter here: it translates the internal
+ * OpenAI-style request (messages, tools, tool_calls) into the provider format and
+ * parses the provider event stream back into the same SSEParseResult shape,
+ * so the agent loop works unchanged.
+ */
+
+import type { ProviderId, ProviderType } from '../../Config/config';
+import type { FetchWithToolsOptions } from '../fetchWithTools';
+import type { ReadableStreamLike, SSEParseOptions, SSEParseResult } from '../sseParser';
+import { anthropicAdapter } from './anthropicAdapter';
+import { geminiAdapter } from './geminiAdapter';
+
+/** HTTP request prepared by an adapter */
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface ProviderAdapter {
+  /** Human-readable name for logs */
+  name: string;
+  /** Translate internal OpenAI-style options into a native request */
+  buildRequest(opts: FetchWithToolsOptions): ProviderRequest;
+  /** Parse the native event stream into the internal response shape */
+  parseStream(body: ReadableStreamLike, opts: SSEParseOptions): Promise<SSEParseResult>;
+}
+
+const ADAPTERS: Partial<Record<ProviderType, ProviderAdapter>> = {
+  claude: anthropicAdapter,
+  gemini: geminiAdapter,
+};
+
+/**
+ * Get the native adapter for a provider.
+ * Returns null for OpenAI-compatible providers (default /chat/completions path).
+ */
+export function getProviderAdapter(provider?: ProviderId): ProviderAdapter | null {
+  if (!provider) return null;
+  return ADAPTERS[provider as ProviderType] ?? null;
+}
@@ -1,7 +1,23 @@
+/**
+ * contextSummarizer.ts — Model-written summaries of older conversation turns.
+ *
+ * When the conversation passes `summarizationThreshold` percent of the context
+ * window, everything before the last turns is sent to a summarization model
+ * (`summarizationModel`, a cheap one, or the chat model) and replaced with one
+ * structured summary message: goals, decisions, files touched, open issues.
+ * Summaries are cached by a hash of the summarized range, so a retried request
+ * does not pay for the same summary twice. /compact runs the same compaction
+ * on demand. Drop-compression in the agent loop stays as the safety net for a
+ * single turn that outgrows the window.
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
 import { logger } from '../../logger';
+import { fetchOpenRouterWithTools } from '../fetchWithTools';
+import type { ProviderId } from '../../Config/config';
 import { prepareMessagesWithMemory, estimateTokens as memoryEstimateTokens } from './memoryManager';
-
-const CHARS_PER_TOKEN = 4;
+import { countMessagesTokens } from './tokenizer';
 
 export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
@@ -11,47 +27,259 @@ export interface Message {
   name?: string;
 }
 
-export function estimateTokenCount(messages: Message[]): number {
-  let totalChars = 0;
-  for (const msg of messages) {
-    if (typeof msg.content === 'string') {
-      totalChars += msg.content.length;
-    }
-    if (msg.tool_calls) {
-      totalChars += JSON.stringify(msg.tool_calls).length;
-    }
-    if (msg.role === 'tool') {
-      if (msg.tool_call_id) {
-        totalChars += msg.tool_call_id.length;
-      }
-      if (msg.name) {
-        totalChars += msg.name.length;
-      }
+/** Connection of the model that writes summaries */
+export interface SummarizerConnection {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  providerType?: ProviderId;
+  headers?: Record<string, string>;
+}
+
+export interface SummarizationSettings {
+  /** Summarize automatically when the threshold is passed */
+  enabled: boolean;
+  /** Percent of the context window that triggers summarization */
+  threshold: number;
+  /** Id of a saved model; empty — the chat model */
+  model: string;
+}
+
+export type SummarizationStatus = 'idle' | 'summarizing';
+
+export interface CompactOptions {
+  /** User turns (a user message and the replies to it) kept verbatim at the end */
+  keepTurns: number;
+  /** Extra focus for the summary, e.g. "/compact keep the API design" */
+  instructions?: string;
+  signal?: AbortSignal;
+  onStatusChange?: (status: SummarizationStatus) => void;
+}
+
+/** Starts the message that replaces the summarized turns */
+export const SUMMARY_MARKER = '[CONVERSATION SUMMARY';
+
+/** Same window caps as the agent loop's drop-compression */
+const DEFAULT_CONTEXT_WINDOW = 32000;
+const MAX_EFFECTIVE_CONTEXT = 128000;
+/** Turns kept verbatim by automatic summarization */
+const AUTO_KEEP_TURNS = 2;
+/** Budget of the transcript sent to the summarization model */
+const MAX_TRANSCRIPT_CHARS = 60000;
+const MESSAGE_CHAR_LIMITS: Record<Message['role'], number> = { system: 0, user: 4000, assistant: 3000, tool: 1500 };
+const SUMMARY_CACHE_LIMIT = 50;
+
+const SUMMARY_SYSTEM_PROMPT = `You compact the history of a coding-assistant session so the work can continue in a fresh context window.
+Write a structured summary in the language of the conversation, using exactly these section headings:
+## Goals — what the user wants, including constraints and preferences they stated
+## Decisions — approaches chosen or rejected, and why
+## Files touched — every file read, created, edited or deleted, with what changed
+## Open issues — unfinished steps, failing commands or tests, unanswered questions
+Keep identifiers, paths, commands and error messages verbatim. If the transcript starts with a previous summary, merge it into the new one.
+Leave out pleasantries and tool output that no longer matters. Do not add anything that is not in the transcript. Output only the summary.`;
+
+const summaryCache = new Map<string, string>();
+
+export function resetSummaryCache(): void {
+  summaryCache.clear();
+}
+
+export function getSummarizationSettings(): SummarizationSettings {
+  const cfg = vscode.workspace.getConfiguration('ashibaltAi');
+  const threshold = Number(cfg.get<number>('summarizationThreshold', 60)) || 60;
+  return {
+    enabled: cfg.get<boolean>('autoSummarizeContext', true) !== false,
+    threshold: Math.min(90, Math.max(30, threshold)),
+    model: (cfg.get<string>('summarizationModel', '') || '').trim()
+  };
+}
+
+/** Tokens of the messages as counted by the model's tokenizer (see tokenizer.ts) */
+export function estimateTokenCount(messages: Message[], model?: string): number {
+  return countMessagesTokens(messages, model);
+}
+
+export function isSummaryMessage(msg: Message): boolean {
+  return msg.role === 'user' && typeof msg.content === 'string' && msg.content.startsWith(SUMMARY_MARKER);
+}
+
+/**
+ * Index of the first message kept verbatim: the start of the `keepTurns`-th
+ * user turn from the end. Splitting at a user message never separates tool
+ * calls from their results. 0 — too little history to summarize.
+ */
+export function findCompactionSplit(messages: Message[], keepTurns: number): number {
+  const start = messages[0]?.role === 'system' ? 1 : 0;
+  const turns: number[] = [];
+  for (let i = start; i < messages.length; i++) {
+    if (messages[i].role === 'user' && !isSummaryMessage(messages[i])) turns.push(i);
+  }
+  const keep = Math.max(1, keepTurns);
+  if (turns.length <= keep) return 0;
+  const split = turns[turns.length - keep];
+  return split - start >= 2 ? split : 0;
+}
+
+function clip(text: string, limit: number): string {
+  return text.length <= limit ? text : `${text.slice(0, limit)}\n…[${text.length - limit} chars cut]`;
+}
+
+function formatToolCall(tc: any): string {
+  const args = String(tc?.function?.arguments ?? '');
+  return `→ ${tc?.function?.name || 'tool'}(${clip(args, 300)})`;
+}
+
+/** Plain-text transcript of the messages for the summarization prompt */
+export function buildTranscript(messages: Message[]): string {
+  const entries = messages.map(msg => {
+    const content = typeof msg.content === 'string' ? msg.content : '';
+    if (isSummaryMessage(msg)) return `PREVIOUS SUMMARY:\n${content}`;
+    const body = content ? clip(content, MESSAGE_CHAR_LIMITS[msg.role] || 2000) : '';
+    if (msg.role === 'tool') return `TOOL RESULT (${msg.name || 'tool'}):\n${body}`;
+    if (msg.role === 'assistant') {
+      return ['ASSISTANT:', body, ...(msg.tool_calls || []).map(formatToolCall)].filter(Boolean).join('\n');
     }
-    totalChars += 20;
+    return `${msg.role.toUpperCase()}:\n${body}`;
+  });
+
+  let total = entries.reduce((sum, e) => sum + e.length + 2, 0);
+  if (total <= MAX_TRANSCRIPT_CHARS) return entries.join('\n\n');
+
+  // Over budget: keep the first entry (often the previous summary) and the newest ones that fit
+  const kept: string[] = [];
+  total = entries[0].length;
+  for (let i = entries.length - 1; i > 0 && total + entries[i].length + 2 <= MAX_TRANSCRIPT_CHARS; i--) {
+    kept.unshift(entries[i]);
+    total += entries[i].length + 2;
+  }
+  const omitted = entries.length - 1 - kept.length;
+  return [entries[0], `[… ${omitted} messages omitted …]`, ...kept].join('\n\n');
+}
+
+function rangeHash(messages: Message[], instructions?: string): string {
+  const payload = JSON.stringify([
+    instructions || '',
+    messages.map(m => [m.role, m.content, m.tool_calls || null, m.tool_call_id || null])
+  ]);
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+/** Structured summary of the messages; cached by the hash of the range */
+export async function summarizeMessages(
+  messages: Message[],
+  connection: SummarizerConnection,
+  options?: { instructions?: string; signal?: AbortSignal }
+): Promise<string> {
+  const key = rangeHash(messages, options?.instructions);
+  const cached = summaryCache.get(key);
+  if (cached) {
+    logger.log(`[SUMMARIZE] Cache hit for ${messages.length} messages`);
+    return cached;
+  }
+
+  logger.log(`[SUMMARIZE] Summarizing ${messages.length} messages with ${connection.model}`);
+  const focus = options?.instructions ? `Pay special attention to: ${options.instructions}\n\n` : '';
+  const response = await fetchOpenRouterWithTools({
+    baseUrl: connection.baseUrl,
+    apiKey: connection.apiKey,
+    model: connection.model,
+    providerType: connection.providerType,
+    headers: connection.headers,
+    messages: [
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      { role: 'user', content: `${focus}Transcript:\n\n${buildTranscript(messages)}` }
+    ],
+    tools: [],
+    signal: options?.signal,
+    onChunk: () => {}
+  });
+  const summary = (response.content || '').trim();
+  if (!summary) {
+    throw new Error('Модель вернула пустой пересказ');
+  }
+
+  if (summaryCache.size >= SUMMARY_CACHE_LIMIT) {
+    summaryCache.delete(summaryCache.keys().next().value!);
   }
-  return Math.ceil(totalChars / CHARS_PER_TOKEN);
+  summaryCache.set(key, summary);
+  return summary;
+}
+
+/**
+ * Replace everything between the system prompt and the last `keepTurns` turns
+ * with one summary message. Returns null when there is too little history.
+ */
+export async function compactMessages(
+  messages: Message[],
+  connection: SummarizerConnection,
+  options: CompactOptions
+): Promise<Message[] | null> {
+  const split = findCompactionSplit(messages, options.keepTurns);
+  if (!split) return null;
+  const start = messages[0]?.role === 'system' ? 1 : 0;
+  const range = messages.slice(start, split);
+
+  options.onStatusChange?.('summarizing');
+  let summary: string;
+  try {
+    summary = await summarizeMessages(range, connection, options);
+  } finally {
+    options.onStatusChange?.('idle');
+  }
+
+  const summaryMessage: Message = {
+    role: 'user',
+    content: `${SUMMARY_MARKER} — replaces ${range.length} earlier messages of this session. Continue from it without repeating finished work.]\n\n${summary}`
+  };
+  return [...messages.slice(0, start), summaryMessage, ...messages.slice(split)];
 }
 
 export async function prepareMessagesForApi(
   messages: Message[],
-  _apiKey?: string,
-  _baseUrl?: string,
   options?: {
-    onStatusChange?: (status: 'idle' | 'summarizing') => void;
+    onStatusChange?: (status: SummarizationStatus) => void;
     contextLength?: number;
+    /** Model the messages are sent to — selects the tokenizer */
+    model?: string;
+    /** Model for automatic summaries; without it the history is sent as is */
+    summarizer?: SummarizerConnection;
+    signal?: AbortSignal;
   }
 ): Promise<Message[]> {
   logger.log('[CONTEXT] Processing ' + messages.length + ' messages');
-  
-  const tokensBefore = memoryEstimateTokens(messages);
-  const result = prepareMessagesWithMemory(messages, options?.contextLength);
-  const tokensAfter = memoryEstimateTokens(result);
-  
+
+  const model = options?.model;
+  const tokensBefore = memoryEstimateTokens(messages, model);
+  let result = prepareMessagesWithMemory(messages, options?.contextLength, model);
+  const tokensAfter = memoryEstimateTokens(result, model);
+
   if (tokensBefore !== tokensAfter) {
     logger.log('[CONTEXT] Memory optimized: ' + tokensBefore + ' -> ' + tokensAfter + ' tokens');
   }
-  
+
+  const settings = getSummarizationSettings();
+  if (settings.enabled && options?.summarizer) {
+    const window = Math.min(options.contextLength || DEFAULT_CONTEXT_WINDOW, MAX_EFFECTIVE_CONTEXT);
+    const limit = Math.floor(window * settings.threshold / 100);
+    const tokens = estimateTokenCount(result, model);
+    if (tokens > limit) {
+      try {
+        const compacted = await compactMessages(result, options.summarizer, {
+          keepTurns: AUTO_KEEP_TURNS,
+          signal: options.signal,
+          onStatusChange: options.onStatusChange
+        });
+        if (compacted) {
+          logger.log(`[CONTEXT] Summarized: ${tokens} -> ${estimateTokenCount(compacted, model)} tokens (threshold ${limit})`);
+          result = compacted;
+        }
+      } catch (err: any) {
+        // Not fatal: the full history is sent and drop-compression takes over if needed
+        logger.log(`[CONTEXT] Summarization failed, keeping full history: ${err?.message || err}`);
+      }
+    }
+  }
+
   options?.onStatusChange?.('idle');
   return result;
 }
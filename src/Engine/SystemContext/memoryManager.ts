@@ -19,6 +19,7 @@
 
 import { extractSkeleton, formatSkeletonCompact } from './fileSkeletonExtractor';
 import { logger } from '../../logger';
+import { countMessagesTokens } from './tokenizer';
 
 // Конфигурация
 const MAX_MESSAGE_PAIRS = 15;  // 15 пар = 30 сообщений (user + assistant) — more memory for model
@@ -321,7 +322,7 @@ function aggressivelyCompressMessage(msg: Message): Message {
  *   - aggressiveThreshold (60% окна) — начинаем превентивно сжимать старые tool результаты
  *   - maxContextTokens (70% окна) — агрессивное сжатие + удаление старых сообщений
  */
-export function prepareMessagesWithMemory(messages: Message[], contextLength?: number): Message[] {
+export function prepareMessagesWithMemory(messages: Message[], contextLength?: number, model?: string): Message[] {
   // DISABLED: This function previously applied graduated compression (skeleton extraction,
   // tool result truncation, aggressive message removal). This CONFLICTED with the
   // cache-friendly drop-compression in agentLoop.ts, causing:
@@ -333,23 +334,15 @@ export function prepareMessagesWithMemory(messages: Message[], contextLength?: n
   // which drops complete assistant+tool groups from the oldest end while keeping
   // remaining messages byte-identical for prompt cache hits.
   
-  const currentTokens = estimateTokens(messages);
+  const currentTokens = estimateTokens(messages, model);
   logger.log(`[MEMORY] Pass-through: ${messages.length} msgs, ~${currentTokens} tok | model context: ${contextLength ?? 'UNKNOWN'}`);
   
   return messages;
 }
 
 /**
- * Оценка количества токенов (примерная)
+ * Оценка количества токенов токенизатором семейства модели (см. tokenizer.ts)
  */
-export function estimateTokens(messages: Message[]): number {
-  let chars = 0;
-  for (const msg of messages) {
-    chars += msg.content?.length || 0;
-    if (msg.tool_calls) {
-      chars += JSON.stringify(msg.tool_calls).length;
-    }
-    chars += 20; // overhead
-  }
-  return Math.ceil(chars / 4);
+export function estimateTokens(messages: Message[], model?: string): number {
+  return countMessagesTokens(messages, model);
 }
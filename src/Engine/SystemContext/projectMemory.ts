@@ -0,0 +1,190 @@
+/**
+ * projectMemory.ts — Cross-session project memory.
+ *
+ * Two sources are added to the system prompt of every session:
+ *   - rule files the team keeps in the repository (AGENTS.md, .ashibalt/rules.md)
+ *   - learned facts in .ashibalt/memory.md, written by the `remember` tool and
+ *     editable by the user (Settings → Память)
+ *
+ * Rule files are read from every workspace folder; learned facts live in the
+ * first folder. The memory file is plain Markdown: facts are "- " bullets
+ * grouped under "## <category>" headings.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getWorkspaceRoots, type WorkspaceRootInfo } from '../tools/toolUtils';
+
+/** Rule files, relative to a workspace folder, in prompt order */
+export const PROJECT_RULE_FILES = ['AGENTS.md', '.ashibalt/rules.md'];
+/** Learned facts, relative to the first workspace folder */
+export const PROJECT_MEMORY_FILE = '.ashibalt/memory.md';
+
+const MAX_RULE_FILE_CHARS = 12000;
+const MAX_MEMORY_CHARS = 8000;
+export const MAX_FACT_LENGTH = 500;
+const DEFAULT_CATEGORY = 'General';
+
+const MEMORY_HEADER = `# Project memory
+
+Facts saved by the Ashibalt agent (\`remember\` tool) and added to every session.
+Edit or delete them freely; keep one fact per "- " line under a "## " category.
+`;
+
+export interface ProjectRuleFile {
+  /** Path as shown to the model and in the UI ("AGENTS.md", "backend:AGENTS.md" in multi-root) */
+  label: string;
+  path: string;
+  content: string;
+  /** Size of the file in bytes */
+  size: number;
+  truncated: boolean;
+}
+
+export interface RememberResult {
+  added: boolean;
+  /** True when the same fact was already saved */
+  duplicate: boolean;
+  category: string;
+  file: string;
+  totalFacts: number;
+}
+
+function readText(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function cap(text: string, max: number): { text: string; truncated: boolean } {
+  if (text.length <= max) return { text, truncated: false };
+  const lineEnd = text.lastIndexOf('\n', max);
+  return { text: text.slice(0, lineEnd > 0 ? lineEnd : max), truncated: true };
+}
+
+/** Rule files present in the workspace folders */
+export function loadProjectRules(roots: WorkspaceRootInfo[] = getWorkspaceRoots()): ProjectRuleFile[] {
+  const rules: ProjectRuleFile[] = [];
+  for (const root of roots) {
+    for (const rel of PROJECT_RULE_FILES) {
+      const filePath = path.join(root.path, rel);
+      const raw = readText(filePath);
+      if (raw === null || !raw.trim()) continue;
+      const { text, truncated } = cap(raw.trim(), MAX_RULE_FILE_CHARS);
+      rules.push({ label: roots.length > 1 ? `${root.name}:${rel}` : rel, path: filePath, content: text, size: Buffer.byteLength(raw), truncated });
+    }
+  }
+  return rules;
+}
+
+/** Absolute path of the memory file (null without a workspace) */
+export function getProjectMemoryPath(root: string | undefined = getWorkspaceRoots()[0]?.path): string | null {
+  return root ? path.join(root, PROJECT_MEMORY_FILE) : null;
+}
+
+/** Raw content of the memory file ('' when it does not exist yet) */
+export function readProjectMemory(root?: string): string {
+  const filePath = getProjectMemoryPath(root);
+  return (filePath && readText(filePath)) || '';
+}
+
+/** Replace the memory file (used by the settings editor) */
+export function writeProjectMemory(content: string, root?: string): string {
+  const filePath = getProjectMemoryPath(root);
+  if (!filePath) throw new Error('No workspace folder is open');
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content.endsWith('\n') || !content ? content : content + '\n', 'utf8');
+  return filePath;
+}
+
+/** Create the memory file with its header when missing; returns its path */
+export function ensureProjectMemoryFile(root?: string): string {
+  const filePath = getProjectMemoryPath(root);
+  if (!filePath) throw new Error('No workspace folder is open');
+  if (!fs.existsSync(filePath)) writeProjectMemory(MEMORY_HEADER, root);
+  return filePath;
+}
+
+const normalizeFact = (fact: string) => fact.toLowerCase().replace(/[\s.]+$/, '').replace(/\s+/g, ' ').trim();
+
+/** Facts of the memory file grouped by category, in file order */
+export function parseMemoryFacts(text: string): Map<string, string[]> {
+  const facts = new Map<string, string[]>();
+  let category = DEFAULT_CATEGORY;
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      category = heading[1];
+      continue;
+    }
+    const bullet = line.match(/^\s*[-*]\s+(.+?)\s*$/);
+    if (bullet) {
+      if (!facts.has(category)) facts.set(category, []);
+      facts.get(category)!.push(bullet[1]);
+    }
+  }
+  return facts;
+}
+
+/**
+ * Append a fact under its category heading (created when missing).
+ * A fact already present in any category is not added again.
+ */
+export function addMemoryFact(fact: string, category?: string, root?: string): RememberResult {
+  const filePath = getProjectMemoryPath(root);
+  if (!filePath) throw new Error('No workspace folder is open');
+
+  const text = fact.replace(/\s+/g, ' ').trim();
+  const heading = (category || '').replace(/\s+/g, ' ').replace(/^#+\s*/, '').trim() || DEFAULT_CATEGORY;
+  const current = readText(filePath) ?? MEMORY_HEADER;
+  const existing = parseMemoryFacts(current);
+  const all = [...existing.values()].flat();
+
+  if (all.some(f => normalizeFact(f) === normalizeFact(text))) {
+    return { added: false, duplicate: true, category: heading, file: PROJECT_MEMORY_FILE, totalFacts: all.length };
+  }
+
+  const lines = current.replace(/\s+$/, '').split(/\r?\n/);
+  const headingIdx = lines.findIndex(l => /^##\s+/.test(l) && l.replace(/^##\s+/, '').trim().toLowerCase() === heading.toLowerCase());
+  if (headingIdx === -1) {
+    lines.push('', `## ${heading}`, `- ${text}`);
+  } else {
+    // Insert after the last bullet of the section
+    let end = headingIdx + 1;
+    while (end < lines.length && !/^##\s+/.test(lines[end])) end++;
+    let insertAt = end;
+    while (insertAt > headingIdx + 1 && !lines[insertAt - 1].trim()) insertAt--;
+    lines.splice(insertAt, 0, `- ${text}`);
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, lines.join('\n') + '\n', 'utf8');
+  return { added: true, duplicate: false, category: heading, file: PROJECT_MEMORY_FILE, totalFacts: all.length + 1 };
+}
+
+/**
+ * <PROJECT_MEMORY> block for the system prompt ('' when there are no rules or facts)
+ */
+export function buildProjectMemoryPrompt(roots: WorkspaceRootInfo[] = getWorkspaceRoots()): string {
+  const sections: string[] = [];
+
+  for (const rule of loadProjectRules(roots)) {
+    sections.push(`<rules file="${rule.label}">\n${rule.content}${rule.truncated ? '\n… (truncated)' : ''}\n</rules>`);
+  }
+
+  const memory = readProjectMemory(roots[0]?.path);
+  const facts = parseMemoryFacts(memory);
+  if (facts.size > 0) {
+    const body = [...facts].map(([category, items]) => `## ${category}\n${items.map(f => `- ${f}`).join('\n')}`).join('\n\n');
+    const { text, truncated } = cap(body, MAX_MEMORY_CHARS);
+    sections.push(`<learned_facts file="${PROJECT_MEMORY_FILE}">\n${text}${truncated ? '\n… (truncated)' : ''}\n</learned_facts>`);
+  }
+
+  if (sections.length === 0) return '';
+  return `<PROJECT_MEMORY>
+Team rules and facts learned in earlier sessions. Follow the rules; they override general defaults.
+${sections.join('\n')}
+</PROJECT_MEMORY>`;
+}
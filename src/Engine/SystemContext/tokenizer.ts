@@ -0,0 +1,282 @@
+/**
+ * tokenizer.ts — Token counting per model family.
+ *
+ * chars/4 is close for English prose but undercounts Cyrillic text 1.5–2×
+ * and miscounts code, so compression thresholds fired late for Russian
+ * conversations. The tokenizer is chosen by model id:
+ *   - cl100k / o200k — the real OpenAI BPE tables (js-tiktoken), loaded on
+ *     first use. cl100k is the default for unknown models (Claude, DeepSeek,
+ *     Qwen, ...); Llama 3 counts with cl100k, the base of its vocabulary;
+ *   - tekken (newer Mistral models), llama2 and mistral — approximations:
+ *     pre-tokenization into words, digit groups and punctuation runs with
+ *     per-script rates; the SentencePiece ones split digits one by one and
+ *     give every newline its own token.
+ * If a table fails to load, its family falls back to the approximation with
+ * cl100k-like rates. Other exact tokenizers can be plugged in with
+ * registerTokenizer().
+ */
+
+import type { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import { logger } from '../../logger';
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/** Message shape shared by contextSummarizer and memoryManager */
+export interface TokenizedMessage {
+  role: string;
+  content: string;
+  tool_calls?: any[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+/** Compression rates of one tokenizer family (characters per token unless noted) */
+interface TokenizerProfile {
+  name: string;
+  /** Latin words up to this length are one token */
+  wordChars: number;
+  /** Characters per extra token of longer Latin words */
+  wordRate: number;
+  cyrillic: number;
+  cjk: number;
+  otherLetters: number;
+  /** Digits per token: 3 for cl100k-style BPE, 1 for SentencePiece and Tekken */
+  digits: number;
+  symbols: number;
+  /** SentencePiece encodes every newline as its own byte token */
+  newlinePerToken: boolean;
+}
+
+/** Role markers and separators the chat template adds around each message */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SEGMENT_RE = /\p{Script=Latin}+|\p{Script=Cyrillic}+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|\p{L}+|\p{N}+|\s+|[^\s\p{L}\p{N}]+/gu;
+const LATIN_RE = /^\p{Script=Latin}/u;
+const CYRILLIC_RE = /^\p{Script=Cyrillic}/u;
+const CJK_RE = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const LETTER_RE = /^\p{L}/u;
+const NUMBER_RE = /^\p{N}/u;
+const SPACE_RE = /^\s/;
+
+const PROFILES: Record<string, TokenizerProfile> = {
+  cl100k: { name: 'cl100k', wordChars: 8, wordRate: 4, cyrillic: 2.6, cjk: 0.9, otherLetters: 2, digits: 3, symbols: 2, newlinePerToken: false },
+  tekken: { name: 'tekken', wordChars: 8, wordRate: 4, cyrillic: 3.5, cjk: 1.2, otherLetters: 2.5, digits: 1, symbols: 2, newlinePerToken: false },
+  llama2: { name: 'llama2', wordChars: 6, wordRate: 3.5, cyrillic: 2, cjk: 0.7, otherLetters: 1.5, digits: 1, symbols: 1, newlinePerToken: true },
+  mistral: { name: 'mistral', wordChars: 6, wordRate: 3.5, cyrillic: 2.2, cjk: 0.7, otherLetters: 1.5, digits: 1, symbols: 1, newlinePerToken: true }
+};
+
+function countWhitespace(run: string, profile: TokenizerProfile): number {
+  const newlines = run.split('\n').length - 1;
+  if (!newlines) {
+    // A single space merges into the next word; longer runs (indentation) are one token
+    return run.length > 1 ? 1 : 0;
+  }
+  const indent = run.length - run.lastIndexOf('\n') - 1;
+  return (profile.newlinePerToken ? newlines : 1) + (indent > 1 ? 1 : 0);
+}
+
+function countSegment(seg: string, profile: TokenizerProfile): number {
+  const len = seg.length;
+  if (LATIN_RE.test(seg)) {
+    return len <= profile.wordChars ? 1 : 1 + Math.ceil((len - profile.wordChars) / profile.wordRate);
+  }
+  if (SPACE_RE.test(seg)) return countWhitespace(seg, profile);
+  if (NUMBER_RE.test(seg)) return Math.ceil(len / profile.digits);
+  if (CYRILLIC_RE.test(seg)) return Math.ceil(len / profile.cyrillic);
+  if (CJK_RE.test(seg)) return Math.ceil(len / profile.cjk);
+  if (LETTER_RE.test(seg)) return Math.ceil(len / profile.otherLetters);
+  return Math.ceil(len / profile.symbols);
+}
+
+function createApproximateTokenizer(profile: TokenizerProfile): Tokenizer {
+  return {
+    name: profile.name,
+    count(text: string): number {
+      if (!text) return 0;
+      let tokens = 0;
+      for (const match of text.matchAll(SEGMENT_RE)) {
+        tokens += countSegment(match[0], profile);
+      }
+      return tokens;
+    }
+  };
+}
+
+type BpeTable = 'cl100k_base' | 'o200k_base';
+
+const encoders = new Map<BpeTable, Tiktoken | null>();
+
+/** Load a BPE table once; null when js-tiktoken is missing or the table is broken */
+function loadEncoder(table: BpeTable): Tiktoken | null {
+  if (encoders.has(table)) return encoders.get(table)!;
+  let encoder: Tiktoken | null = null;
+  try {
+    const { Tiktoken: TiktokenClass } = require('js-tiktoken/lite') as typeof import('js-tiktoken/lite');
+    const ranks: TiktokenBPE = require(`js-tiktoken/ranks/${table}`);
+    encoder = new TiktokenClass(ranks);
+    logger.log(`[TOKENIZER] Loaded ${table}`);
+  } catch (err) {
+    logger.log(`[TOKENIZER] Failed to load ${table}, counting with the approximation: ${err}`);
+  }
+  encoders.set(table, encoder);
+  return encoder;
+}
+
+/**
+ * js-tiktoken merges a pre-token in quadratic time, so very long runs of
+ * letters, digits or symbols (minified code, base64) are approximated instead.
+ */
+const LONG_RUN_RE = /\p{L}{200,}|\p{N}{200,}|[^\s\p{L}\p{N}]{200,}/gu;
+
+function createBpeTokenizer(name: string, table: BpeTable): Tokenizer {
+  const approximate = createApproximateTokenizer({ ...PROFILES.cl100k, name });
+  return {
+    name,
+    count(text: string): number {
+      if (!text) return 0;
+      const encoder = loadEncoder(table);
+      if (!encoder) return approximate.count(text);
+      // Special-token strings in the text are counted as plain text, never rejected
+      const encode = (part: string) => part ? encoder.encode(part, [], []).length : 0;
+      let tokens = 0;
+      let last = 0;
+      for (const match of text.matchAll(LONG_RUN_RE)) {
+        tokens += encode(text.slice(last, match.index)) + approximate.count(match[0]);
+        last = match.index! + match[0].length;
+      }
+      return tokens + encode(text.slice(last));
+    }
+  };
+}
+
+const TOKENIZERS: Record<string, Tokenizer> = {
+  cl100k: createBpeTokenizer('cl100k', 'cl100k_base'),
+  o200k: createBpeTokenizer('o200k', 'o200k_base'),
+  llama3: createBpeTokenizer('llama3', 'cl100k_base'),
+  tekken: createApproximateTokenizer(PROFILES.tekken),
+  llama2: createApproximateTokenizer(PROFILES.llama2),
+  mistral: createApproximateTokenizer(PROFILES.mistral)
+};
+
+const DEFAULT_TOKENIZER = TOKENIZERS.cl100k;
+
+interface FamilyRule {
+  pattern: RegExp;
+  tokenizer: Tokenizer;
+}
+
+/** Model id patterns, checked in order */
+const BUILTIN_RULES: FamilyRule[] = [
+  { pattern: /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|(^|\/)o[1-9](-|$)/i, tokenizer: TOKENIZERS.o200k },
+  { pattern: /llama-?2|codellama/i, tokenizer: TOKENIZERS.llama2 },
+  { pattern: /llama-?[34]/i, tokenizer: TOKENIZERS.llama3 },
+  { pattern: /nemo|ministral|pixtral|devstral|magistral|mistral-(small|medium)-3|codestral-25/i, tokenizer: TOKENIZERS.tekken },
+  { pattern: /mistral|mixtral|codestral/i, tokenizer: TOKENIZERS.mistral }
+];
+
+/** Built-in rules plus registered ones (first) */
+let familyRules: FamilyRule[] = [...BUILTIN_RULES];
+
+/** Use `tokenizer` for models whose id matches `pattern` (takes priority over built-in families) */
+export function registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+  familyRules.unshift({ pattern, tokenizer });
+}
+
+/** Drop tokenizers added with registerTokenizer */
+export function resetTokenizers(): void {
+  familyRules = [...BUILTIN_RULES];
+}
+
+/** Tokenizer of the model's family; cl100k when the model is unknown */
+export function getTokenizer(model?: string): Tokenizer {
+  if (!model) return DEFAULT_TOKENIZER;
+  return familyRules.find(rule => rule.pattern.test(model))?.tokenizer ?? DEFAULT_TOKENIZER;
+}
+
+export function countTokens(text: string, model?: string): number {
+  return getTokenizer(model).count(text);
+}
+
+interface CachedCount {
+  tokenizer: Tokenizer;
+  content: string;
+  toolCalls: any[] | undefined;
+  tokens: number;
+}
+
+/**
+ * Counts per message object: the agent loop re-estimates the whole conversation
+ * every iteration, while only the tail changes. Content, tool_calls and the
+ * tokenizer are compared on lookup, so a message edited in place is recounted.
+ */
+const messageCache = new WeakMap<object, CachedCount>();
+
+export function countMessageTokens(msg: TokenizedMessage, model?: string): number {
+  const tokenizer = getTokenizer(model);
+  const content = typeof msg.content === 'string' ? msg.content : '';
+  const cached = messageCache.get(msg);
+  if (cached && cached.tokenizer === tokenizer && cached.content === content && cached.toolCalls === msg.tool_calls) {
+    return cached.tokens;
+  }
+
+  let tokens = MESSAGE_OVERHEAD_TOKENS + tokenizer.count(content);
+  if (msg.tool_calls) {
+    tokens += tokenizer.count(JSON.stringify(msg.tool_calls));
+  }
+  if (msg.role === 'tool') {
+    tokens += tokenizer.count(msg.tool_call_id || '') + tokenizer.count(msg.name || '');
+  }
+  messageCache.set(msg, { tokenizer, content, toolCalls: msg.tool_calls, tokens });
+  return tokens;
+}
+
+export function countMessagesTokens(messages: TokenizedMessage[], model?: string): number {
+  let total = 0;
+  for (const msg of messages) total += countMessageTokens(msg, model);
+  return total;
+}
+
+const WORD_END_RE = /[\p{L}\p{N}]/u;
+
+/**
+ * Token count of a streamed reply. Recounting the whole text on every chunk is
+ * quadratic, so text before the last whitespace is counted once; only the
+ * unfinished tail is recounted.
+ */
+export class StreamingTokenCounter {
+  private readonly tokenizer: Tokenizer;
+  private text = '';
+  private committedLength = 0;
+  private committedTokens = 0;
+
+  constructor(model?: string) {
+    this.tokenizer = getTokenizer(model);
+  }
+
+  /** Count for the full text streamed so far */
+  update(text: string): number {
+    if (!text.startsWith(this.text)) {
+      // Text was rewritten (e.g. inline tags stripped) — start over
+      this.committedLength = 0;
+      this.committedTokens = 0;
+    }
+    this.text = text;
+
+    // Cut before the last whitespace run that follows a letter or digit, so
+    // indentation and newlines are counted whole (BPE merges punctuation with
+    // the newlines after it, e.g. "{\n")
+    let boundary = text.length;
+    do {
+      boundary = Math.max(text.lastIndexOf(' ', boundary - 1), text.lastIndexOf('\n', boundary - 1));
+      while (boundary > 0 && /\s/.test(text[boundary - 1])) boundary--;
+    } while (boundary > this.committedLength && !WORD_END_RE.test(text[boundary - 1]));
+    if (boundary > this.committedLength) {
+      this.committedTokens += this.tokenizer.count(text.slice(this.committedLength, boundary));
+      this.committedLength = boundary;
+    }
+    return this.committedTokens + this.tokenizer.count(text.slice(this.committedLength));
+  }
+}
@@ -1,11 +1,32 @@
 import { logger } from '../logger';
 
+/** Error class from parseApiError — drives retry and provider fallback decisions */
+export type ApiErrorKind =
+  | 'rate_limit'
+  | 'bad_request'
+  | 'auth'
+  | 'not_found'
+  | 'no_endpoints'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+/**
+ * Errors that won't go away by retrying the same provider:
+ * persistent 5xx, rejected credentials, no endpoints serving the model.
+ * The agent loop switches to the next provider of the model's fallback chain on these.
+ */
+export function isProviderFallbackError(kind: ApiErrorKind): boolean {
+  return kind === 'server' || kind === 'auth' || kind === 'no_endpoints';
+}
+
 /**
  * Parse API error into a human-readable Russian message.
  * Extracts HTTP status from Error message format "... (STATUS): ..."
- * Returns { summary, details } where details is the raw error for expandable UI.
+ * Returns { summary, details, kind } where details is the raw error for expandable UI.
  */
-export function parseApiError(err: any): { summary: string; details: string } {
+export function parseApiError(err: any): { summary: string; details: string; kind: ApiErrorKind } {
   const msg = err?.message || String(err);
 
   const statusMatch = msg.match(/\((\d{3})\)/);
@@ -23,45 +44,60 @@ export function parseApiError(err: any): { summary: string; details: string } {
   }
 
   let summary: string;
+  let kind: ApiErrorKind = 'unknown';
   switch (status) {
     case 429:
       summary = '⏳ Превышен лимит запросов. Подождите 30-60 секунд.';
+      kind = 'rate_limit';
       break;
     case 400:
       summary = `Ошибка 400: ${innerMsg || 'Некорректные данные'}`;
+      kind = 'bad_request';
       break;
     case 401:
       summary = 'Ошибка 401: неверный API-ключ';
+      kind = 'auth';
       break;
     case 403:
       summary = 'Ошибка 403: нет доступа к модели';
+      kind = 'auth';
       break;
     case 404:
       summary = 'Ошибка 404: модель не найдена';
+      kind = /no endpoints/i.test(msg) ? 'no_endpoints' : 'not_found';
       break;
     case 500:
     case 502:
     case 503:
       summary = `Ошибка ${status}: сервер провайдера недоступен`;
+      kind = 'server';
       break;
     case 0:
       if (msg.includes('fetch') || msg.includes('ECONNREFUSED') || msg.includes('ENOTFOUND') || msg.includes('network')) {
         summary = 'Нет подключения к серверу';
+        kind = 'network';
         break;
       }
       if (msg.includes('timeout') || msg.includes('ETIMEDOUT')) {
         summary = 'Таймаут запроса';
+        kind = 'timeout';
         break;
       }
       summary = `Ошибка: ${msg.slice(0, 150)}`;
       break;
     default:
       summary = `Ошибка ${status}: ${innerMsg || msg.slice(0, 150)}`;
+      if (status >= 500) kind = 'server';
       break;
   }
 
+  // OpenRouter may report missing endpoints without a 404 status
+  if (kind === 'unknown' && /no endpoints found/i.test(msg)) {
+    kind = 'no_endpoints';
+  }
+
   const details = jsonBody || msg;
-  return { summary, details };
+  return { summary, details, kind };
 }
 
 /**
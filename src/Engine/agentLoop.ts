@@ -2,15 +2,21 @@ import * as vscode from 'vscode';
 import { tools as availableTools, executeTool, setToolPostMessage, setInteractivePromptHandler } from './toolCalling';
 import { resetTasks, applyTasksInlineUpdate } from './tools/tasksTool';
 import { getAgentSystemPrompt } from '../promptUtils';
-import { MessageAction, StorageManager } from '../Storage/storageManager';
+import { MessageAction, StorageManager, type ProviderSwitchRecord } from '../Storage/storageManager';
 import { logger } from '../logger';
-import { prepareMessagesForApi, estimateTokenCount } from './SystemContext/contextSummarizer';
+import { prepareMessagesForApi, estimateTokenCount, type SummarizerConnection } from './SystemContext/contextSummarizer';
+import { countTokens, StreamingTokenCounter } from './SystemContext/tokenizer';
 import { getFileTime } from './SystemContext/contextCache';
-import { parseApiError, tryRecoverJSON } from './agentErrors';
+import { parseApiError, isProviderFallbackError, tryRecoverJSON } from './agentErrors';
 import { fetchOpenRouterWithTools, type ChatResponse } from './fetchWithTools';
 import { resolveOpenRouterProvider, markProviderRateLimited, ProviderSelection } from './providerAutoSelect';
 import { CommitManager } from '../Storage/commitManager';
 import { executeAddCommit, executeGetCommit } from './tools/commitTool';
+import { ensureMcpServers, getMcpToolSpecs } from './Mcp/mcpRegistry';
+import { getToolDefinition, resolveToolAlias } from './toolRegistry';
+import { evaluateToolPolicy, suggestAllowRule, formatPolicyRule, addPolicyRule } from './toolPolicy';
+import type { ShellFinding } from './shellParser';
+import type { ProviderId } from '../Config/config';
 
 // Re-export parseApiError for consumers that import from agentLoop
 export { parseApiError } from './agentErrors';
@@ -61,10 +67,39 @@ const DEFAULT_CONTEXT_WINDOW = 32000;
  */
 const MAX_EFFECTIVE_CONTEXT = 128000;
 
+/** Resolved connection of one entry of the model's fallback chain */
+export interface ProviderFallbackTarget {
+  providerType?: ProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+  headers?: Record<string, string>;
+  /** Display name for the chat stream, e.g. "DeepSeek (deepseek-chat)" */
+  label: string;
+  /** Context window of this model; undefined = unknown (DEFAULT_CONTEXT_WINDOW is assumed) */
+  contextLength?: number;
+}
+
+/** Shown in the terminal confirmation dialog */
+export interface TerminalConfirmDetails {
+  /** Rule the "always allow" button would add to the policy */
+  rule?: string;
+  /** Risks found by the shell parser (destructive, network, privilege, write outside workspace) */
+  risks?: ShellFinding[];
+}
+
 interface AgentLoopOptions {
   baseUrl?: string;
   apiKey: string;
   model: string;
+  /** Provider of the selected model (routes native-API providers through their adapter) */
+  providerType?: ProviderId;
+  /** Auth + extra headers of a custom provider (replace the default Bearer auth) */
+  headers?: Record<string, string>;
+  /** Display name of the primary provider for the chat stream */
+  providerLabel?: string;
+  /** Ordered providers to replay the iteration on when the current one fails persistently */
+  fallbacks?: ProviderFallbackTarget[];
   providerMessages: any[];
   storageManager: StorageManager;
   addToHistory: (entry: { role: string; content: string; temporary?: boolean }) => string;
@@ -76,7 +111,7 @@ interface AgentLoopOptions {
   onReasoning?: (reasoning: string) => void;
   signal?: AbortSignal;
   /** Callback to request terminal command confirmation from user. Returns confirmed status and optionally edited command. */
-  requestTerminalConfirmation?: (command: string, workingDir: string) => Promise<{ confirmed: boolean; editedCommand?: string }>;
+  requestTerminalConfirmation?: (command: string, workingDir: string, details?: TerminalConfirmDetails) => Promise<{ confirmed: boolean; editedCommand?: string; alwaysAllow?: boolean }>;
   /** Returns a promise that resolves when the user clicks "Detach" during terminal execution. Allows agent to continue without waiting for command. */
   createDetachPromise?: () => Promise<void>;
   /** Callback to request continuation when iteration limit is reached. Returns true if user wants to continue. */
@@ -89,10 +124,12 @@ interface AgentLoopOptions {
   systemPromptOverride?: string;
   /** Context window size of the selected model (for dynamic compression thresholds) */
   contextLength?: number;
+  /** Model that summarizes older turns when the context passes the summarization threshold */
+  summarizer?: SummarizerConnection;
   /** Whether this is running in chat mode (read-only tools, auto tool choice) */
   isChat?: boolean;
-  /** Callback to request user approval before executing a tool in chat mode. Returns true if approved. */
-  requestToolApproval?: (toolName: string, args: any) => Promise<boolean>;
+  /** Callback to request user approval for tools the permission policy marks as "ask". 'always' = approved + add allow rule. */
+  requestToolApproval?: (toolName: string, args: any, rule?: string) => Promise<boolean | 'always'>;
   /** Callback to persist the full conversation (including tool calls) after loop ends */
   onConversationUpdate?: (messages: any[]) => void;
   /** Callback to show interactive terminal prompt to user and get model-suggested response. Returns response text or null to skip. */
@@ -101,6 +138,8 @@ interface AgentLoopOptions {
   requestUserQuestion?: (question: string, options: string[]) => Promise<string>;
   /** CommitManager instance for add_commit / get_commit tools. */
   commitManager?: CommitManager;
+  /** Called with the raw result of every executed tool call (headless CLI event stream). */
+  onToolResult?: (event: { name: string; args: any; result: any; durationMs: number }) => void;
 }
 
 /**
@@ -166,6 +205,10 @@ export async function runOpenRouterAgentLoop(opts: AgentLoopOptions): Promise<bo
     baseUrl = 'https://openrouter.ai/api/v1',
     apiKey,
     model,
+    providerType,
+    headers,
+    providerLabel,
+    fallbacks,
     providerMessages,
     storageManager,
     addToHistory,
@@ -182,14 +225,18 @@ export async function runOpenRouterAgentLoop(opts: AgentLoopOptions): Promise<bo
     toolOverrides,
     maxIterationsOverride,
     systemPromptOverride,
-    contextLength: modelContextLength,
+    contextLength: primaryContextLength,
+    summarizer,
     isChat,
     requestToolApproval,
     onConversationUpdate,
     requestTerminalInteractiveResponse,
     requestUserQuestion,
-    commitManager
+    commitManager,
+    onToolResult
   } = opts;
+  // Context window of the active model — replaced on a provider fallback
+  let modelContextLength = primaryContextLength;
 
   // Wire postMessage into tools that need UI updates (e.g. tasks panel)
   setToolPostMessage(postMessage);
@@ -207,7 +254,10 @@ export async function runOpenRouterAgentLoop(opts: AgentLoopOptions): Promise<bo
   let maxIterations = maxIterationsOverride ?? vsConfig.get<number>("agentIterations", 25);
   
   // Use overridden tools if provided (chat mode uses read-only subset)
-  const loopTools = toolOverrides || availableTools;
+  // plus the tools of connected MCP servers (namespaced mcp__<server>__<tool>)
+  const mcpFolders = vscode.workspace.workspaceFolders;
+  await ensureMcpServers(mcpFolders && mcpFolders.length > 0 ? mcpFolders[0].uri.fsPath : undefined);
+  const loopTools = [...(toolOverrides || availableTools), ...getMcpToolSpecs()];
   
   let conversationMessages = [...providerMessages];
 
@@ -248,16 +298,19 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
   }
 
   // Context Summarization: compress old messages if approaching token limit
-  const tokensBefore = estimateTokenCount(conversationMessages);
+  const tokensBefore = estimateTokenCount(conversationMessages, effectiveModel);
   logger.log(`[AGENT] Pre-prepare context: messages=${conversationMessages.length}, tokens=${tokensBefore}`);
-  conversationMessages = await prepareMessagesForApi(conversationMessages, apiKey, baseUrl, {
+  conversationMessages = await prepareMessagesForApi(conversationMessages, {
     onStatusChange: (status) => {
       // Notify WebView about summarization status for UI blocking
       postMessage({ type: 'summarizationStatus', status });
     },
-    contextLength: modelContextLength
+    contextLength: modelContextLength,
+    model: effectiveModel,
+    summarizer,
+    signal
   });
-  const tokensAfter = estimateTokenCount(conversationMessages);
+  const tokensAfter = estimateTokenCount(conversationMessages, effectiveModel);
   if (tokensBefore !== tokensAfter) {
     logger.log(`[AGENT] Context summarized: ${tokensBefore} -> ${tokensAfter} tokens`);
   } else {
@@ -272,6 +325,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
   const collectedActions: MessageAction[] = [];
   let accumulatedContent = '';
   let accumulatedReasoning = ''; // Track reasoning for UI updates
+  const streamedTokens = new StreamingTokenCounter(effectiveModel);
 
   // Session metrics tracking for UI dashboard — load persisted values
   const savedMetrics = await storageManager.loadSessionMetrics(currentSessionId);
@@ -282,6 +336,9 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
   let currentModelHasCache = false; // tracks if the CURRENT model returns cache data
   // Per-model cost accumulator — each model keeps its own running total for the session
   let sessionModelCosts: Record<string, number> = (savedMetrics as any).modelCosts || {};
+  // Provider switches along the fallback chain (persisted with session metrics)
+  const sessionProviderSwitches: ProviderSwitchRecord[] = savedMetrics.providerSwitches || [];
+  let lastSavedMetrics: any = savedMetrics;
   // Single source of truth for current context size.
   // Updated ONLY from API prompt_tokens (most accurate).
   // Used for all UI metrics to prevent saw-tooth display pattern.
@@ -318,6 +375,14 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
   let consecutiveRateLimitRetries = 0;
   const MAX_RATE_LIMIT_RETRIES = 3;
 
+  // 5xx retries against the same provider before it counts as persistently failing
+  let consecutiveServerErrorRetries = 0;
+  const MAX_SERVER_ERROR_RETRIES = 2;
+
+  // Active provider connection — moves along the fallback chain on persistent provider errors
+  let active: ProviderFallbackTarget = { providerType, model, baseUrl, apiKey, headers, label: providerLabel || model };
+  const pendingFallbacks = [...(fallbacks || [])];
+
   try {
   while (iteration < maxIterations) {
     logger.log(`[AGENT] Iteration ${iteration + 1}/${maxIterations}`);
@@ -358,23 +423,25 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
     let providerRouting: ProviderSelection | null = null;
     try {
       // Auto-select OpenRouter provider with caching support
-      providerRouting = await resolveOpenRouterProvider(model, apiKey, baseUrl);
+      providerRouting = await resolveOpenRouterProvider(active.model, active.apiKey, active.baseUrl);
 
       response = await fetchOpenRouterWithTools({
-        baseUrl,
-        apiKey,
-        model,
+        baseUrl: active.baseUrl,
+        apiKey: active.apiKey,
+        model: active.model,
         messages: conversationMessages,
         tools: loopTools,
         toolChoice: 'auto',
         reasoning,
         signal,
         provider: providerRouting,
+        providerType: active.providerType,
+        headers: active.headers,
         parallelToolCalls: !isChat,
         onChunk: (chunk) => {
           if (signal?.aborted) return;
           accumulatedContent += chunk;
-          const estTokens = Math.max(1, Math.ceil(accumulatedContent.length / 4));
+          const estTokens = Math.max(1, streamedTokens.update(accumulatedContent));
           postMessage({ type: 'streamResponse', content: accumulatedContent, reasoning: accumulatedReasoning, id: assistantPlaceholderId, tokenCount: estTokens, modelName: effectiveModel });
           // Sync partial content + actions to history so abort preserves them
           updateHistoryEntry(assistantPlaceholderId, accumulatedContent, true, collectedActions, effectiveModel);
@@ -382,14 +449,15 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
         onReasoning: (newReasoning) => {
           accumulatedReasoning = newReasoning;
           if (onReasoning) onReasoning(newReasoning);
-          const estTokens = Math.max(1, Math.ceil(accumulatedContent.length / 4));
+          const estTokens = Math.max(1, streamedTokens.update(accumulatedContent));
           postMessage({ type: 'streamResponse', content: accumulatedContent, reasoning: accumulatedReasoning, id: assistantPlaceholderId, tokenCount: estTokens, modelName: effectiveModel });
         }
       });
-      // Successful request — reset retry counter
+      // Successful request — reset retry counters
       consecutiveRateLimitRetries = 0;
+      consecutiveServerErrorRetries = 0;
     } catch (apiError: any) {
-      const { summary, details } = parseApiError(apiError);
+      const { summary, details, kind } = parseApiError(apiError);
       const rawMsg = apiError?.message || String(apiError);
 
       let rateLimitedProviderName: string | undefined;
@@ -414,7 +482,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
       // Check both parsed summary (Russian) and raw error message (contains HTTP status)
       const is429 = rawMsg.includes('(429)') || summary.includes('429') || summary.includes('лимит запросов') || summary.toLowerCase().includes('rate limit') || summary.toLowerCase().includes('too many requests');
       if (is429 && rateLimitedProviderName) {
-        markProviderRateLimited(model, rateLimitedProviderName);
+        markProviderRateLimited(active.model, rateLimitedProviderName);
       }
       if (is429 && consecutiveRateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
         consecutiveRateLimitRetries++;
@@ -426,13 +494,15 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
         continue; // Retry the same iteration
       }
 
-      // Auto-retry on 404 "No endpoints found" errors — blacklist the provider for 1h
+      // Auto-retry on 404 "No endpoints found" errors — blacklist the provider for 1h.
+      // With a fallback chain configured, "no endpoints" switches to the next provider right away.
       const is404 = rawMsg.includes('(404)') || summary.includes('404') ||
         rawMsg.toLowerCase().includes('no endpoints') || summary.toLowerCase().includes('no endpoints');
-      if (is404 && consecutiveRateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+      const fallBackNow = kind === 'no_endpoints' && pendingFallbacks.length > 0;
+      if (is404 && !fallBackNow && consecutiveRateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
         const failedProvider = rateLimitedProviderName || providerRouting?.only?.[0] || providerRouting?.order?.[0];
         if (failedProvider) {
-          markProviderRateLimited(model, failedProvider, 60 * 60 * 1000); // blacklist 1h
+          markProviderRateLimited(active.model, failedProvider, 60 * 60 * 1000); // blacklist 1h
           logger.log(`[AGENT] 404 "No endpoints" (provider=${failedProvider}) — blacklisted 1h, retrying`);
         }
         consecutiveRateLimitRetries++;
@@ -441,6 +511,42 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
         continue; // Retry with a different provider
       }
 
+      // 5xx — give the provider a couple of chances before treating the failure as persistent
+      if (kind === 'server' && consecutiveServerErrorRetries < MAX_SERVER_ERROR_RETRIES) {
+        consecutiveServerErrorRetries++;
+        const backoffMs = 2000 * consecutiveServerErrorRetries;
+        logger.log(`[AGENT] Server error (${active.label}) — retry ${consecutiveServerErrorRetries}/${MAX_SERVER_ERROR_RETRIES} after ${backoffMs}ms`);
+        postMessage({ type: 'streamResponse', content: accumulatedContent + `\n\n⏳ *Сервер провайдера недоступен — повтор через ${Math.round(backoffMs / 1000)}с...*`, id: assistantPlaceholderId, tokenCount: 0, modelName: effectiveModel });
+        await new Promise(resolve => setTimeout(resolve, backoffMs));
+        continue;
+      }
+
+      // Persistent provider failure — replay the iteration on the next provider of the chain
+      if (isProviderFallbackError(kind) && pendingFallbacks.length > 0) {
+        const next = pendingFallbacks.shift()!;
+        const record: ProviderSwitchRecord = { from: active.label, to: next.label, reason: summary, at: Date.now() };
+        sessionProviderSwitches.push(record);
+        logger.log(`[AGENT] Provider fallback (${kind}): ${active.label} → ${next.label}`);
+        active = next;
+        effectiveModel = next.model;
+        modelContextLength = next.contextLength;
+        consecutiveRateLimitRetries = 0;
+        consecutiveServerErrorRetries = 0;
+
+        const note = `↪️ *${record.from}: ${summary} — переключение на ${record.to}*`;
+        if (accumulatedContent && !accumulatedContent.endsWith('\n\n')) {
+          accumulatedContent += '\n\n';
+        }
+        accumulatedContent += note + '\n\n';
+        collectedActions.push({ type: 'text', content: note });
+        postMessage({ type: 'streamResponse', content: accumulatedContent, id: assistantPlaceholderId, tokenCount: 0, modelName: effectiveModel });
+        updateHistoryEntry(assistantPlaceholderId, accumulatedContent, true, collectedActions, effectiveModel);
+
+        lastSavedMetrics = { ...lastSavedMetrics, providerSwitches: [...sessionProviderSwitches] };
+        storageManager.saveSessionMetrics(currentSessionId, lastSavedMetrics).catch(() => {});
+        continue;
+      }
+
       const wrapped = new Error(summary) as any;
       wrapped.errorDetails = details;
       throw wrapped;
@@ -448,9 +554,9 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
 
     sessionApiCalls++;
     const realUsage = response.usage;
-    const estInputTokens = realUsage?.prompt_tokens || estimateTokenCount(conversationMessages);
-    const estOutputTokens = realUsage?.completion_tokens || (Math.ceil((response.content?.length || 0) / 4) 
-      + (response.tool_calls?.reduce((sum, tc) => sum + Math.ceil((tc.function.arguments?.length || 0) / 4), 0) || 0));
+    const estInputTokens = realUsage?.prompt_tokens || estimateTokenCount(conversationMessages, active.model);
+    const estOutputTokens = realUsage?.completion_tokens || (countTokens(response.content || '', active.model)
+      + (response.tool_calls?.reduce((sum, tc) => sum + countTokens(tc.function.arguments || '', active.model), 0) || 0));
     sessionInputTokens += estInputTokens;
     sessionOutputTokens += estOutputTokens;
     lastKnownContextTokens = estInputTokens;
@@ -463,7 +569,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
     // Accumulate cost for this specific model (OpenRouter returns cost in usage.cost)
     const iterCost: number = realUsage?.cost ?? 0;
     if (iterCost > 0) {
-      sessionModelCosts[model] = (sessionModelCosts[model] ?? 0) + iterCost;
+      sessionModelCosts[active.model] = (sessionModelCosts[active.model] ?? 0) + iterCost;
     }
 
     // Send metrics update to UI
@@ -474,8 +580,9 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
       currentContextTokens: estInputTokens,
       contextLimit: modelContextLength || DEFAULT_CONTEXT_WINDOW,
       cachedTokens: currentModelHasCache ? sessionCachedTokens : 0,
-      model: model,  // for webview model usage tracking
+      model: active.model,  // for webview model usage tracking
       modelCosts: Object.keys(sessionModelCosts).length > 0 ? { ...sessionModelCosts } : undefined,
+      providerSwitches: sessionProviderSwitches.length > 0 ? [...sessionProviderSwitches] : undefined,
     };
     postMessage({
       type: 'metricsUpdate',
@@ -484,6 +591,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
     });
 
     // Persist metrics to disk (fire-and-forget)
+    lastSavedMetrics = currentMetrics;
     storageManager.saveSessionMetrics(currentSessionId, currentMetrics).catch(() => {});
 
     if (response.content && response.content.trim()) {
@@ -539,6 +647,10 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
     if (response.reasoning) {
       assistantMsg.reasoning_content = response.reasoning;
     }
+    // Signed thinking (Anthropic, Gemini) must be replayed alongside tool_use; adapters drop it for other providers
+    if (response.reasoning_signature) {
+      assistantMsg.reasoning_signature = response.reasoning_signature;
+    }
     
     conversationMessages.push(assistantMsg);
 
@@ -555,98 +667,8 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
       // using the provided function definitions. We clean and remap them.
       // 1) Strip XML-like suffixes: "write_file</arg_value>" → "write_file"
       toolName = toolName.replace(/<[^>]*>.*$/s, '').trim();
-      // 2) Map known hallucinated names → real tool names
-      const TOOL_NAME_REMAP: Record<string, string> = {
-        // write/create variants → create_file
-        'write_file_content_to_path': 'create_file',
-        'write_file_content': 'create_file',
-        'write_file': 'create_file',
-        'save_file': 'create_file',
-        'write_to_file': 'create_file',
-        'new_file': 'create_file',
-        // edit/update/modify variants → edit_file
-        'update_file': 'edit_file',
-        'modify_file': 'edit_file',
-        'replace_in_file': 'edit_file',
-        'replace_string_in_file': 'edit_file',
-        'str_replace_editor': 'edit_file',
-        'patch_file': 'edit_file',
-        'apply_edit': 'edit_file',
-        // read variants → read_file
-        'read_file_content': 'read_file',
-        'get_file_content': 'read_file',
-        'view_file': 'read_file',
-        'open_file': 'read_file',
-        // terminal variants
-        'run_command': 'terminal',
-        'execute_command': 'terminal',
-        'run_terminal_command': 'terminal',
-        'shell': 'terminal',
-        'bash': 'terminal',
-        'exec': 'terminal',
-        // delete variants
-        'remove_file': 'delete_file',
-        // search variants
-        'find': 'search',
-        'grep': 'search',
-        'search_files': 'search',
-        'search_code': 'search',
-        // list variants
-        'list_directory': 'list_files',
-        'ls': 'list_files',
-        'dir': 'list_files',
-        // diagnose variants
-        'get_diagnostics': 'diagnose',
-        'check_errors': 'diagnose',
-        // fetch_url variants
-        'http_request': 'fetch_url',
-        'curl': 'fetch_url',
-        'wget': 'fetch_url',
-        'http_get': 'fetch_url',
-        'get_url': 'fetch_url',
-        'fetch': 'fetch_url',
-        // read_terminal_output variants
-        'get_terminal_output': 'read_terminal_output',
-        'check_terminal': 'read_terminal_output',
-        'terminal_output': 'read_terminal_output',
-        // write_to_terminal variants
-        'send_terminal_input': 'write_to_terminal',
-        'terminal_input': 'write_to_terminal',
-        'stdin': 'write_to_terminal',
-        'send_input': 'write_to_terminal',
-        // lsp variants
-        'go_to_definition': 'lsp',
-        'find_definition': 'lsp',
-        'get_definition': 'lsp',
-        'find_references': 'lsp',
-        'get_references': 'lsp',
-        'hover': 'lsp',
-        'get_hover': 'lsp',
-        'get_type': 'lsp',
-        'find_symbols': 'lsp',
-        'document_symbols': 'lsp',
-        'rename_symbol': 'lsp',
-        'find_implementations': 'lsp',
-        'get_implementations': 'lsp',
-        'lsp_hover': 'lsp',
-        'lsp_definitions': 'lsp',
-        'lsp_references': 'lsp',
-        'lsp_symbols': 'lsp',
-        'lsp_rename': 'lsp',
-        'lsp_bridge': 'lsp',
-        // product_check variants
-        'check_page': 'product_check',
-        'page_check': 'product_check',
-        'visual_check': 'product_check',
-        'ui_check': 'product_check',
-        'qa_check': 'product_check',
-        'audit_page': 'product_check',
-        'check_url': 'product_check',
-        'check_website': 'product_check',
-        'webpage_check': 'product_check',
-        'browser_check': 'product_check',
-      };
-      const remappedName = TOOL_NAME_REMAP[toolName];
+      // 2) Map known hallucinated names → real tool names (aliases declared in tool modules)
+      const remappedName = resolveToolAlias(toolName);
       if (remappedName) {
         logger.log(`[TOOL] Remapped hallucinated tool name "${toolName}" → "${remappedName}"`);
         toolName = remappedName;
@@ -771,28 +793,52 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
         }
       }
 
-      // Special handling for terminal run action - may require user confirmation
-      if (!result) {
+      // Permission policy: allow / ask / deny (re-read config each time to pick up live toggle changes)
       const terminalAction = (args?.action ?? 'run').toLowerCase();
       const isTerminalRun = (toolName === 'terminal' || toolName === 'run_terminal_command') && (terminalAction === 'run' || terminalAction === '');
+      const policy = !result ? evaluateToolPolicy(toolName, args, {
+        workspaceRoot,
+        isChat,
+        autoRunTerminal: vscode.workspace.getConfiguration("ashibaltAi").get<boolean>("autoRunTerminal", false)
+      }) : null;
+      const canAsk = isTerminalRun ? !!requestTerminalConfirmation : !!requestToolApproval;
+      if (policy && (policy.decision === 'deny' || (policy.decision === 'ask' && !canAsk))) {
+        const ruleText = policy.rule ? formatPolicyRule(policy.rule) : (policy.reason || 'подтверждение недоступно');
+        result = { error: `Действие запрещено политикой (${ruleText}).`, denied: true, success: false };
+        logger.log(`[POLICY] Denied ${toolName} (${policy.source}: ${ruleText}) subject=${policy.subject.slice(0, 120)}`);
+      }
+      // Writes to a policy file always ask — no "always allow" for them
+      const suggestedRule = policy?.policyFile ? '' : formatPolicyRule(suggestAllowRule(toolName, args, workspaceRoot));
+      const saveAllowRule = () => {
+        if (!suggestedRule) return;
+        try {
+          if (!addPolicyRule(suggestAllowRule(toolName, args, workspaceRoot))) {
+            vscode.window.showWarningMessage('Не удалось сохранить правило: файл политики ~/.Ashibalt/policy.json содержит ошибку.');
+          }
+        } catch (err: any) {
+          logger.log(`[POLICY] Failed to save rule: ${err?.message || err}`);
+        }
+      };
+
+      // Special handling for terminal run action - may require user confirmation
+      if (!result) {
       if (isTerminalRun) {
-        // Re-read config each time to pick up live toggle changes
-        const freshConfig = vscode.workspace.getConfiguration("ashibaltAi");
-        const autoRun = freshConfig.get<boolean>("autoRunTerminal", false);
         const command = args.command || '';
         const workingDir = args.working_directory || workspaceRoot || '';
 
-        if (!autoRun && requestTerminalConfirmation) {
+        if (policy?.decision === 'ask' && requestTerminalConfirmation) {
           // Show UI and wait for user confirmation
           postMessage({ 
             type: 'terminalConfirm', 
             id: assistantPlaceholderId, 
             command, 
-            workingDir 
+            workingDir,
+            rule: suggestedRule,
+            risks: policy.risks || []
           });
 
           try {
-            const confirmResult = await requestTerminalConfirmation(command, workingDir);
+            const confirmResult = await requestTerminalConfirmation(command, workingDir, { rule: suggestedRule, risks: policy.risks || [] });
             
             if (!confirmResult.confirmed) {
               // User rejected the command
@@ -814,6 +860,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
               
               // Update args with potentially edited command
               args.command = finalCommand;
+              if (confirmResult.alwaysAllow) saveAllowRule();
               
               // User confirmed - execute with loading state
               postMessage({ 
@@ -849,37 +896,15 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
             };
           }
         } else {
-          // Auto-run enabled or no confirmation callback - execute directly
+          // Allowed by policy (autoRunTerminal or an allow rule) - execute directly
           result = await executeTool(toolName, args, workspaceRoot);
         }
-
-        // Send terminal result to UI (if not already sent for rejection)
-        if (!result?.rejected && !result?.cancelled) {
-          postMessage({ 
-            type: 'terminalResult', 
-            id: assistantPlaceholderId, 
-            command,
-            output: result?.output || result?.stdout || '',
-            exitCode: result?.exit_code ?? result?.exitCode ?? 0,
-            success: !result?.error,
-            error: result?.error
-          });
-        }
-
-        // Persist terminal action for session restore
-        collectedActions.push({
-          type: 'terminal',
-          command: args.command || command,
-          exitCode: result?.exit_code ?? result?.exitCode,
-          success: !result?.error && !result?.rejected,
-          rejected: result?.rejected,
-          error: result?.error
-        });
       } else {
-        // Chat mode: ask user approval before executing read_file
-        if (isChat && requestToolApproval && toolName === 'read_file') {
+        // Policy says "ask": request user approval before executing
+        if (policy?.decision === 'ask' && requestToolApproval) {
           try {
-            const approved = await requestToolApproval(toolName, args);
+            const approved = await requestToolApproval(toolName, args, suggestedRule);
+            if (approved === 'always') saveAllowRule();
             if (!approved) {
               result = { error: 'Пользователь отклонил запрос на использование инструмента.' };
               // Push rejected tool result and continue to next tool_call
@@ -925,6 +950,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
       }
       } // end terminal/standard tool block
       const toolDuration = Date.now() - toolStart;
+      onToolResult?.({ name: toolName, args, result, durationMs: toolDuration });
 
       // Notify webview about tool usage for metrics tracking (all tools, one place)
       postMessage({ type: 'toolUsed', tool: toolName });
@@ -945,184 +971,16 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
         logger.log(`[TOOL] ${toolName} OK (${toolDuration}ms)`);
       }
 
-      // Create file action for read_file
-      if (toolName === 'read_file') {
-        // Use resolved path from result if available, otherwise fall back to args
-        const filePath = result?.file || args.file_path || '';
-        const fileName = filePath.split(/[/\\]/).pop() || filePath;
-
-        if (result && !result.error) {
-          const fileAction: MessageAction = {
-            type: 'read_file',
-            fileName,
-            filePath,
-            success: true,
-            startLine: result.start_line || args.start_line || 1,
-            endLine: result.end_line || args.end_line,
-            totalLines: result.total_lines,
-            truncated: result.truncated
-          };
-          collectedActions.push(fileAction);
-          // Show action indicator in webview
-          postMessage({ type: 'fileReadAction', id: assistantPlaceholderId, fileAction });
-        } else {
-          const fileAction: MessageAction = {
-            type: 'read_file',
-            fileName,
-            filePath,
-            success: false,
-            error: result?.error || 'Unknown error'
-          };
-          collectedActions.push(fileAction);
-          postMessage({ type: 'fileReadAction', id: assistantPlaceholderId, fileAction });
-        }
-      }
-
-      // Create file action for edit_file
-      if (toolName === 'edit_file') {
-        // Use resolved path from result if available, otherwise fall back to args
-        const filePath = result?.file || args.file_path || '';
-        const fileName = filePath.split(/[/\\]/).pop() || filePath;
-
-        const fileAction: MessageAction = {
-          type: 'edit_file',
-          fileName,
-          filePath,
-          success: result && !result.error,
-          error: result?.error,
-          linesAdded: result?.linesAdded,
-          linesRemoved: result?.linesRemoved,
-          startLine: result?.line
-        };
-        collectedActions.push(fileAction);
-        postMessage({ type: 'fileEditAction', id: assistantPlaceholderId, fileAction });
-      }
-
-      // Create file action for apply_patch (new patch-based editing)
-      if (toolName === 'apply_patch') {
-        // apply_patch can modify multiple files, create action for each
-        if (result && result.files_modified && Array.isArray(result.files_modified)) {
-          for (const filePath of result.files_modified) {
-            const fileName = filePath.split(/[/\\]/).pop() || filePath;
-            const fileAction: MessageAction = {
-              type: 'edit_file',  // Reuse edit_file type for UI compatibility
-              fileName,
-              filePath,
-              success: result.success,
-              error: result.errors?.join('; ')
-            };
-            collectedActions.push(fileAction);
-            postMessage({ type: 'fileEditAction', id: assistantPlaceholderId, fileAction });
-          }
-        } else if (result && !result.success) {
-          // Patch failed entirely
-          const fileAction: MessageAction = {
-            type: 'edit_file',
-            fileName: 'patch',
-            filePath: '',
-            success: false,
-            error: result.errors?.join('; ') || result.error || 'Patch failed'
-          };
-          collectedActions.push(fileAction);
-          postMessage({ type: 'fileEditAction', id: assistantPlaceholderId, fileAction });
-        }
-      }
-
-      // Create file action for create_file
-      if (toolName === 'create_file') {
-        // Use resolved path from result if available, otherwise fall back to args
-        const filePath = result?.file_path || args.file_path || '';
-        const fileName = filePath.split(/[/\\]/).pop() || filePath;
-
-        const fileAction: MessageAction = {
-          type: 'create_file',
-          fileName,
-          filePath,
-          success: result && !result.error,
-          error: result?.error
-        };
-        collectedActions.push(fileAction);
-        postMessage({ type: 'fileCreateAction', id: assistantPlaceholderId, fileAction });
-      }
-
-      // Create file action for delete_file
-      if (toolName === 'delete_file') {
-        const filePath = result?.file_path || args.file_path || '';
-        const fileName = filePath.split(/[/\\]/).pop() || filePath;
-
-        const fileAction: MessageAction = {
-          type: 'delete_file',
-          fileName,
-          filePath,
-          success: result && !result.error,
-          error: result?.error
-        };
-        collectedActions.push(fileAction);
-        postMessage({ type: 'fileDeleteAction', id: assistantPlaceholderId, fileAction });
-      }
-
-      // list_files, diagnose, run_tests, find_references, fetch_url — 
-      // these tools execute normally but do NOT show UI indicators or save actions.
-      // Only 8 tools get visible indicators: read_file, edit_file, create_file, delete_file, search, terminal, web_search, lsp
-
-      // Send search result for UI accordion
-      if (toolName === 'search') {
-        const results = result?.results || result?.matches || [];
-        const totalResults = result?.total_results || result?.total_matches || results.length;
-        postMessage({
-          type: 'searchResult',
-          id: assistantPlaceholderId,
-          success: !result?.error,
-          query: args.query || '',
-          mode: result?.mode || 'workspace',
-          results: results.slice(0, 20),
-          totalResults
-        });
-        collectedActions.push({
-          type: 'search',
-          query: args.query || '',
-          totalResults,
-          success: !result?.error
-        });
-      }
-
-      // Send web_search result for UI accordion
-      if (toolName === 'web_search') {
-        postMessage({
-          type: 'webSearchResult',
-          id: assistantPlaceholderId,
-          success: result?.success ?? false,
-          query: args.query || '',
-          results: result?.results || [],
-          resultsCount: result?.results_count || 0
-        });
-        collectedActions.push({
-          type: 'web_search',
-          query: args.query || '',
-          resultsCount: result?.results_count || 0,
-          success: result?.success ?? false
-        });
-      }
-
-      // Send LSP result for UI accordion
-      if (toolName === 'lsp') {
-        const lspSuccess = result?.success ?? false;
-        postMessage({
-          type: 'lspResult',
-          id: assistantPlaceholderId,
-          success: lspSuccess,
-          operation: args.operation || '',
-          filePath: args.file_path || '',
-          results: result?.results || '',
-          resultsCount: result?.results_count || 0
-        });
-        collectedActions.push({
-          type: 'lsp_bridge' as const,
-          operation: args.operation || '',
-          filePath: args.file_path || '',
-          resultsCount: result?.results_count || 0,
-          success: lspSuccess
-        });
+      // Tool-specific UI indicator + persisted action (renderAction in the tool module).
+      // Tools without a renderer (list_files, diagnose, fetch_url, ...) run silently.
+      const rendered = getToolDefinition(toolName)?.renderAction?.({
+        args,
+        result,
+        messageId: assistantPlaceholderId,
+        postMessage
+      });
+      if (rendered) {
+        collectedActions.push(...(Array.isArray(rendered) ? rendered : [rendered]));
       }
 
       // Add tool result to conversation (with token-saving truncation)
@@ -1308,8 +1166,8 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
       // when context exceeds 80% of the window, which rarely happens.
 
       const contextSize = lastKnownContextTokens > 0 && messagesAtLastApiCall > 0
-        ? lastKnownContextTokens + estimateTokenCount(conversationMessages.slice(messagesAtLastApiCall))
-        : estimateTokenCount(conversationMessages);
+        ? lastKnownContextTokens + estimateTokenCount(conversationMessages.slice(messagesAtLastApiCall), active.model)
+        : estimateTokenCount(conversationMessages, active.model);
       logger.log(`[CACHE] Context size check: ${contextSize} tokens (threshold=${MID_LOOP_COMPRESS_THRESHOLD})${lastKnownContextTokens > 0 ? ` [base=${lastKnownContextTokens} from API + ${contextSize - lastKnownContextTokens} delta]` : ' [estimate]'}`);
       if (contextSize > MID_LOOP_COMPRESS_THRESHOLD) {
         const dropTarget = Math.floor(MID_LOOP_COMPRESS_THRESHOLD * DROP_TARGET_RATIO);
@@ -1355,7 +1213,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
             groups.push({
               start: gStart,
               end: gi,
-              tokens: estimateTokenCount(conversationMessages.slice(gStart, gi)),
+              tokens: estimateTokenCount(conversationMessages.slice(gStart, gi), active.model),
               summary
             });
           } else {
@@ -1418,7 +1276,7 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
           }
           logger.log(`[CACHE] Recovery message injected (${finalRecoveryContent.split('\n').length} lines)`);
 
-          const afterSize = estimateTokenCount(conversationMessages);
+          const afterSize = estimateTokenCount(conversationMessages, active.model);
           logger.log(
             `[CACHE] Drop-compression at iter ${iteration}: ${contextSize} → ${afterSize} tokens ` +
             `(dropped ${numDrop} groups / ${droppedMsgCount} msgs, saved ~${saved} tok). ` +
@@ -1478,12 +1336,16 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
     // Use lastKnownContextTokens (from API prompt_tokens) as base.
     // Add estimated delta from tool results added since last API call.
     // This prevents saw-tooth pattern where metric jumps between API-reported
-    // and locally-estimated values.
+    // and locally-estimated values. The delta is counted with the model's
+    // tokenizer, so the next API-reported value lands close to it.
+    const liveContextTokens = lastKnownContextTokens > 0 && messagesAtLastApiCall > 0
+      ? lastKnownContextTokens + estimateTokenCount(conversationMessages.slice(messagesAtLastApiCall), active.model)
+      : estimateTokenCount(conversationMessages, active.model);
     const postToolMetrics: any = {
         inputTokens: sessionInputTokens,
         outputTokens: sessionOutputTokens,
         apiCalls: sessionApiCalls,
-        currentContextTokens: lastKnownContextTokens,
+        currentContextTokens: liveContextTokens,
         contextLimit: modelContextLength || DEFAULT_CONTEXT_WINDOW,
         cachedTokens: currentModelHasCache ? sessionCachedTokens : 0,
         modelCosts: Object.keys(sessionModelCosts).length > 0 ? { ...sessionModelCosts } : undefined,
@@ -1535,10 +1397,10 @@ Use reasoning ONLY for analysis. ALL tool invocations MUST go through the functi
   onConversationUpdate?.(conversationMessages);
 
   // Fetch OpenRouter account balance once per agent turn and push to UI
-  if (baseUrl.includes('openrouter.ai')) {
+  if (active.baseUrl.includes('openrouter.ai')) {
     try {
-      const balRes = await fetch(`${baseUrl.replace(/\/+$/, '')}/credits`, {
-        headers: { 'Authorization': `Bearer ${apiKey}` },
+      const balRes = await fetch(`${active.baseUrl.replace(/\/+$/, '')}/credits`, {
+        headers: { 'Authorization': `Bearer ${active.apiKey}` },
         signal: AbortSignal.timeout(5000),
       });
       if (balRes.ok) {
@@ -589,3 +589,21 @@ export async function checkSyntax(filePath: string): Promise<DiagnosticError[]>
   const content = await fs.readFile(filePath, 'utf-8');
   return analyzeWithTreeSitter(content, filePath);
 }
+
+/**
+ * Parse content with the tree-sitter grammar for filePath's extension.
+ * Returns null when tree-sitter or the grammar is unavailable (structural_edit).
+ */
+export async function parseSyntaxTree(content: string, filePath: string): Promise<any | null> {
+  if (!isSupported(filePath) || !(await loadTreeSitter())) return null;
+  const language = await loadLanguage(path.extname(filePath).toLowerCase());
+  if (!language) return null;
+  try {
+    const parser = new Parser();
+    parser.setLanguage(language);
+    return parser.parse(content);
+  } catch (e) {
+    logger.log(`[SYNTAX] Tree-sitter parse error: ${e}`);
+    return null;
+  }
+}
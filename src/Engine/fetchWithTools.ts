@@ -1,13 +1,17 @@
 
 import * as vscode from 'vscode';
 import { logger } from '../logger';
-import { parseSSEStream, type ReadableStreamLike } from './sseParser';
+import { parseSSEStream, type ReadableStreamLike, type ReasoningSignature } from './sseParser';
 import { buildModelParams } from './modelParams';
+import { getProviderAdapter } from './Providers/providerAdapter';
+import type { ProviderId } from '../Config/config';
 
 /** Structured API response from chat/completions */
 export interface ChatResponse {
   content: string;
   reasoning?: string;
+  /** Signed reasoning of the native Claude and Gemini adapters */
+  reasoning_signature?: ReasoningSignature;
   tool_calls?: {
     id: string;
     type: string;
@@ -23,11 +27,8 @@ export interface ChatResponse {
   };
 }
 
-/**
- * Send a streaming chat/completions request with tool definitions.
- * Handles provider-specific quirks (DeepSeek, Mistral, GLM, Ollama).
- */
-export async function fetchOpenRouterWithTools(opts: {
+/** Options for fetchOpenRouterWithTools (also consumed by native provider adapters) */
+export interface FetchWithToolsOptions {
   baseUrl: string;
   apiKey: string;
   model: string;
@@ -42,8 +43,43 @@ export async function fetchOpenRouterWithTools(opts: {
   provider?: { only?: string[]; order?: string[]; allow_fallbacks: boolean } | null;
   /** Explicitly enable parallel tool calls (agent mode) */
   parallelToolCalls?: boolean;
-}): Promise<ChatResponse> {
-  const { baseUrl, apiKey, model, messages, tools, toolChoice, reasoning, signal, onChunk, onReasoning, provider: providerRouting, parallelToolCalls } = opts;
+  /** Provider of the selected model. Providers with a native adapter bypass /chat/completions. */
+  providerType?: ProviderId;
+  /** Auth + extra headers of a custom provider. When set, replaces the default Bearer auth. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Send a streaming chat/completions request with tool definitions.
+ * Handles provider-specific quirks (DeepSeek, Mistral, GLM, Ollama).
+ * Providers with a native API (see Providers/providerAdapter) are routed through their adapter,
+ * which translates the request and stream back into the same ChatResponse shape.
+ */
+export async function fetchOpenRouterWithTools(opts: FetchWithToolsOptions): Promise<ChatResponse> {
+  const adapter = getProviderAdapter(opts.providerType);
+  if (adapter) {
+    const request = adapter.buildRequest(opts);
+    logger.log(`[FETCH] Native ${adapter.name} request: url=${request.url}, messages=${opts.messages.length}, tools=${opts.tools?.length || 0}`);
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+      signal: opts.signal
+    } as any);
+    if (!response.ok) {
+      throw new Error(`API request failed (${response.status}): ${await readErrorBody(response)}`);
+    }
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+    return adapter.parseStream(response.body as ReadableStreamLike, {
+      onChunk: opts.onChunk,
+      onReasoning: opts.onReasoning,
+      signal: opts.signal
+    });
+  }
+
+  const { baseUrl, apiKey, model, messages, tools, toolChoice, reasoning, signal, onChunk, onReasoning, provider: providerRouting, parallelToolCalls, headers: customHeaders } = opts;
 
   const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
 
@@ -136,7 +172,9 @@ export async function fetchOpenRouterWithTools(opts: {
     headers['X-Title'] = 'Ashibalt AI';
     headers['HTTP-Referer'] = 'https://github.com/Ashibalt/Ashibalt-AI';
   }
-  if (apiKey) {
+  if (customHeaders) {
+    Object.assign(headers, customHeaders);
+  } else if (apiKey) {
     headers['Authorization'] = `Bearer ${apiKey}`;
   } else {
     logger.error('[FETCH] No API key provided');
@@ -150,16 +188,7 @@ export async function fetchOpenRouterWithTools(opts: {
   } as any);
 
   if (!response.ok) {
-    let error = await response.text();
-    // Strip HTML from error responses (CloudFlare 503 pages etc.)
-    if (error.includes('<html') || error.includes('<!DOCTYPE') || error.includes('<HTML')) {
-      const titleMatch = error.match(/<title[^>]*>([^<]+)<\/title>/i);
-      const textOnly = error.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
-      error = titleMatch
-        ? `${titleMatch[1].trim()} — ${textOnly.substring(0, 200)}`
-        : textOnly.substring(0, 300);
-    }
-    throw new Error(`API request failed (${response.status}): ${error}`);
+    throw new Error(`API request failed (${response.status}): ${await readErrorBody(response)}`);
   }
 
   if (!response.body) {
@@ -168,3 +197,19 @@ export async function fetchOpenRouterWithTools(opts: {
 
   return parseSSEStream(response.body as ReadableStreamLike, { onChunk, onReasoning });
 }
+
+/**
+ * Read the body of a failed response for the error message.
+ * Strips HTML from error pages (CloudFlare 503 pages etc.).
+ */
+async function readErrorBody(response: Response): Promise<string> {
+  let error = await response.text();
+  if (error.includes('<html') || error.includes('<!DOCTYPE') || error.includes('<HTML')) {
+    const titleMatch = error.match(/<title[^>]*>([^<]+)<\/title>/i);
+    const textOnly = error.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    error = titleMatch
+      ? `${titleMatch[1].trim()} — ${textOnly.substring(0, 200)}`
+      : textOnly.substring(0, 300);
+  }
+  return error;
+}
@@ -0,0 +1,700 @@
+/**
+ * shellParser.ts — Shell-aware parsing and risk classification of terminal commands.
+ *
+ * The tokenizer understands the subset of POSIX sh syntax agents actually emit:
+ * quotes and escapes, pipelines (`|`, `|&`), chains (`&&`, `||`, `;`, `&`, newlines),
+ * subshells, command / process substitution (`$(...)`, backticks, `<(...)`),
+ * redirections (`>`, `>>`, `2>&1`, `&>`, heredocs) and comments.
+ *
+ * Every resulting segment (simple command) is classified on its own, after
+ * unwrapping `sudo`, `env`, `xargs`, `sh -c "..."` and similar wrappers:
+ *   - destructive              — deletes / overwrites files, kills processes, rewrites git history
+ *   - network                  — talks to the network (downloading and piping into a shell asks)
+ *   - privilege                — sudo / doas / su / runas
+ *   - write_outside_workspace  — redirections or file writes that land outside the workspace
+ * Catastrophic commands (`rm -rf /`, fork bombs, writes to block devices, mkfs) are blocked.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+
+export type ShellRiskCategory = 'destructive' | 'network' | 'privilege' | 'write_outside_workspace';
+export type ShellRiskSeverity = 'block' | 'ask' | 'info';
+
+export interface ShellRedirect {
+  /** Operator without the fd, e.g. ">", ">>", "<", "&>", ">&", "<<" */
+  op: string;
+  fd?: string;
+  target: string;
+}
+
+export interface ShellSegment {
+  argv: string[];
+  redirects: ShellRedirect[];
+  /** Source text of the segment */
+  text: string;
+  /** Receives stdout of the previous segment through a pipe */
+  pipedFrom?: number;
+  /** Index of the segment this one is nested in (command / process substitution) */
+  parent?: number;
+}
+
+export interface ParsedShellCommand {
+  segments: ShellSegment[];
+  /** Set when the command could not be parsed completely (e.g. unterminated quote) */
+  error?: string;
+}
+
+export interface ShellFinding {
+  category: ShellRiskCategory;
+  severity: ShellRiskSeverity;
+  /** Human-readable reason shown in the confirmation dialog */
+  reason: string;
+  /** Segment text the finding refers to */
+  segment: string;
+}
+
+export interface ShellAnalysis {
+  segments: ShellSegment[];
+  findings: ShellFinding[];
+  /** Highest severity among findings ('info' when nothing risky was found) */
+  severity: ShellRiskSeverity;
+  error?: string;
+}
+
+export interface ShellParseOptions {
+  /** Treat backslash as an escape character (false on Windows, where it is a path separator) */
+  posix?: boolean;
+}
+
+export interface ShellAnalyzeOptions extends ShellParseOptions {
+  workspaceRoot?: string;
+  /** Directory the command starts in (defaults to workspaceRoot) */
+  cwd?: string;
+  /** Other folders of a multi-root workspace; writes there are not "outside the workspace" */
+  extraRoots?: string[];
+}
+
+// ── Tokenizer ─────────────────────────────────────────────────────────────────
+
+type Token =
+  | { type: 'word'; value: string; start: number; end: number; subs: Array<{ text: string; offset: number }> }
+  | { type: 'op'; value: string; start: number; end: number }
+  | { type: 'redir'; op: string; fd?: string; start: number; end: number };
+
+const CONTROL_OPS = ['&&', '||', '|&', ';;', '|', '&', ';', '(', ')'];
+const REDIR_OPS = ['&>>', '<<<', '<<-', '&>', '>>', '>|', '>&', '<&', '<>', '<<', '>', '<'];
+
+/** Find the index just after the `)` closing a `$(` / `<(` opened before `start` */
+function findClosingParen(src: string, start: number, posix: boolean): number {
+  let depth = 1;
+  let i = start;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '\\' && posix) { i += 2; continue; }
+    if (ch === "'") {
+      const close = src.indexOf("'", i + 1);
+      if (close < 0) return -1;
+      i = close + 1;
+      continue;
+    }
+    if (ch === '"') {
+      i++;
+      while (i < src.length && src[i] !== '"') i += src[i] === '\\' && posix ? 2 : 1;
+      if (i >= src.length) return -1;
+      i++;
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')' && --depth === 0) return i + 1;
+    i++;
+  }
+  return -1;
+}
+
+function tokenize(src: string, posix: boolean): { tokens: Token[]; error?: string } {
+  const tokens: Token[] = [];
+  const pendingHeredocs: Array<{ delimiter: string; stripTabs: boolean }> = [];
+  let word: Extract<Token, { type: 'word' }> | null = null;
+  let i = 0;
+
+  const startWord = (at: number) => {
+    if (!word) word = { type: 'word', value: '', start: at, end: at, subs: [] };
+    return word;
+  };
+  const endWord = () => {
+    if (word) {
+      tokens.push(word);
+      word = null;
+    }
+  };
+  /** Record a `$(...)` / `<(...)` / backtick substitution as part of the current word */
+  const substitution = (open: number, innerStart: number, close: number, innerEnd: number) => {
+    const w = startWord(open);
+    w.value += src.slice(open, close);
+    w.subs.push({ text: src.slice(innerStart, innerEnd), offset: innerStart });
+    w.end = close;
+  };
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === '\n') {
+      endWord();
+      tokens.push({ type: 'op', value: ';', start: i, end: i + 1 });
+      i++;
+      // Skip heredoc bodies so their text is not parsed as commands
+      for (const hd of pendingHeredocs.splice(0)) {
+        while (i < src.length) {
+          const nl = src.indexOf('\n', i);
+          const lineEnd = nl < 0 ? src.length : nl;
+          const line = src.slice(i, lineEnd);
+          i = nl < 0 ? src.length : nl + 1;
+          if ((hd.stripTabs ? line.replace(/^\t+/, '') : line) === hd.delimiter) break;
+        }
+      }
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      endWord();
+      i++;
+      continue;
+    }
+    if (ch === '#' && !word) {
+      while (i < src.length && src[i] !== '\n') i++;
+      continue;
+    }
+    if (ch === '\\' && posix) {
+      const w = startWord(i);
+      if (src[i + 1] === '\n') { i += 2; continue; } // line continuation
+      w.value += src[i + 1] ?? '';
+      i += 2;
+      w.end = Math.min(i, src.length);
+      continue;
+    }
+    if (ch === "'") {
+      const close = src.indexOf("'", i + 1);
+      if (close < 0) return { tokens, error: 'незакрытая одинарная кавычка' };
+      const w = startWord(i);
+      w.value += src.slice(i + 1, close);
+      i = close + 1;
+      w.end = i;
+      continue;
+    }
+    if (ch === '"') {
+      const w = startWord(i);
+      i++;
+      while (i < src.length && src[i] !== '"') {
+        if (src[i] === '\\' && posix && '"\\$`\n'.includes(src[i + 1])) {
+          w.value += src[i + 1];
+          i += 2;
+        } else if (src.startsWith('$(', i) && !src.startsWith('$((', i)) {
+          const close = findClosingParen(src, i + 2, posix);
+          if (close < 0) return { tokens, error: 'незакрытая подстановка $(...)' };
+          substitution(i, i + 2, close, close - 1);
+          i = close;
+        } else if (src[i] === '`') {
+          const close = src.indexOf('`', i + 1);
+          if (close < 0) return { tokens, error: 'незакрытая обратная кавычка' };
+          substitution(i, i + 1, close + 1, close);
+          i = close + 1;
+        } else {
+          w.value += src[i++];
+        }
+      }
+      if (i >= src.length) return { tokens, error: 'незакрытая двойная кавычка' };
+      i++;
+      w.end = i;
+      continue;
+    }
+    if (src.startsWith('$((', i)) {
+      // Arithmetic expansion: keep literally
+      const close = src.indexOf('))', i + 3);
+      const end = close < 0 ? src.length : close + 2;
+      const w = startWord(i);
+      w.value += src.slice(i, end);
+      i = end;
+      w.end = i;
+      continue;
+    }
+    if (src.startsWith('$(', i) || ((ch === '<' || ch === '>') && src[i + 1] === '(')) {
+      const close = findClosingParen(src, i + 2, posix);
+      if (close < 0) return { tokens, error: 'незакрытая подстановка' };
+      substitution(i, i + 2, close, close - 1);
+      i = close;
+      continue;
+    }
+    if (ch === '`') {
+      const close = src.indexOf('`', i + 1);
+      if (close < 0) return { tokens, error: 'незакрытая обратная кавычка' };
+      substitution(i, i + 1, close + 1, close);
+      i = close + 1;
+      continue;
+    }
+
+    // Redirections, optionally prefixed by an fd number ("2>", "2>&1")
+    const redir = REDIR_OPS.find(op => src.startsWith(op, i));
+    if (redir) {
+      let fd: string | undefined;
+      const current = word as Extract<Token, { type: 'word' }> | null;
+      if (current && /^\d+$/.test(current.value) && current.end === i && src.slice(current.start, current.end) === current.value) {
+        fd = current.value;
+        word = null;
+      } else {
+        endWord();
+      }
+      tokens.push({ type: 'redir', op: redir, fd, start: fd ? i - fd.length : i, end: i + redir.length });
+      i += redir.length;
+      if (redir === '<<' || redir === '<<-') {
+        // Remember the heredoc delimiter (quotes removed) to skip its body later
+        const m = src.slice(i).match(/^\s*(['"]?)([^\s'";|&<>()]+)\1/);
+        if (m) pendingHeredocs.push({ delimiter: m[2], stripTabs: redir === '<<-' });
+      }
+      continue;
+    }
+
+    const op = CONTROL_OPS.find(o => src.startsWith(o, i));
+    if (op) {
+      endWord();
+      tokens.push({ type: 'op', value: op, start: i, end: i + op.length });
+      i += op.length;
+      continue;
+    }
+
+    const w = startWord(i);
+    w.value += ch;
+    i++;
+    w.end = i;
+  }
+  endWord();
+  return { tokens };
+}
+
+// ── Parser ────────────────────────────────────────────────────────────────────
+
+function parseInto(src: string, offset: number, posix: boolean, out: ShellSegment[], parent: number | undefined, fullSrc: string): string | undefined {
+  const { tokens, error } = tokenize(src, posix);
+  let current: { argv: string[]; redirects: ShellRedirect[]; start: number; end: number; pipedFrom?: number; subs: Array<{ text: string; offset: number }> } | null = null;
+  let pipeFrom: number | undefined;
+  let firstError = error;
+
+  /** Emit the pending segment; true when there was one (empty ones are dropped) */
+  const flush = (): boolean => {
+    if (!current) return false;
+    if (current.argv.length || current.redirects.length) {
+      const index = out.length;
+      out.push({
+        argv: current.argv,
+        redirects: current.redirects,
+        text: fullSrc.slice(offset + current.start, offset + current.end),
+        ...(current.pipedFrom !== undefined ? { pipedFrom: current.pipedFrom } : {}),
+        ...(parent !== undefined ? { parent } : {})
+      });
+      for (const sub of current.subs) {
+        const err = parseInto(sub.text, offset + sub.offset, posix, out, index, fullSrc);
+        firstError = firstError || err;
+      }
+      current = null;
+      return true;
+    }
+    current = null;
+    return false;
+  };
+  const ensure = (start: number) => {
+    if (!current) {
+      current = { argv: [], redirects: [], start, end: start, subs: [] };
+      if (pipeFrom !== undefined) current.pipedFrom = pipeFrom;
+      pipeFrom = undefined;
+    }
+    return current;
+  };
+
+  for (let t = 0; t < tokens.length; t++) {
+    const tok = tokens[t];
+    if (tok.type === 'word') {
+      const seg = ensure(tok.start);
+      seg.argv.push(tok.value);
+      seg.subs.push(...tok.subs);
+      seg.end = tok.end;
+    } else if (tok.type === 'redir') {
+      const seg = ensure(tok.start);
+      const next = tokens[t + 1];
+      const target = next?.type === 'word' ? next.value : '';
+      if (next?.type === 'word') {
+        seg.subs.push(...next.subs);
+        t++;
+      }
+      seg.redirects.push({ op: tok.op, ...(tok.fd ? { fd: tok.fd } : {}), target });
+      seg.end = next?.type === 'word' ? next.end : tok.end;
+    } else {
+      // A pipe after `)` reads from the subshell — approximated by its last command
+      const prev = tokens[t - 1];
+      const afterSubshell = prev?.type === 'op' && prev.value === ')';
+      const wasSegment = flush() || afterSubshell;
+      if ((tok.value === '|' || tok.value === '|&') && wasSegment && out.length) {
+        pipeFrom = out.length - 1;
+        // Nested segments of the writer were appended after it — point at the writer itself
+        while (pipeFrom > 0 && out[pipeFrom].parent !== parent) pipeFrom--;
+      }
+    }
+  }
+  flush();
+  return firstError;
+}
+
+/**
+ * Split a command line into simple-command segments (pipelines, chains,
+ * subshells and substitutions are flattened; nesting is kept in `parent`).
+ */
+export function parseShellCommand(command: string, options: ShellParseOptions = {}): ParsedShellCommand {
+  const posix = options.posix ?? process.platform !== 'win32';
+  const segments: ShellSegment[] = [];
+  const error = parseInto(command, 0, posix, segments, undefined, command);
+  return error ? { segments, error } : { segments };
+}
+
+// ── Classification ────────────────────────────────────────────────────────────
+
+const PRIVILEGE_COMMANDS = new Set(['sudo', 'doas', 'su', 'runas', 'pkexec', 'gsudo']);
+const SHELL_INTERPRETERS = new Set([
+  'sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'python', 'python3', 'perl', 'ruby', 'node',
+  'powershell', 'pwsh', 'cmd', 'iex', 'invoke-expression'
+]);
+const NETWORK_COMMANDS = new Set([
+  'curl', 'wget', 'nc', 'ncat', 'netcat', 'socat', 'ssh', 'scp', 'sftp', 'ftp', 'telnet', 'rsync',
+  'invoke-webrequest', 'iwr', 'invoke-restmethod', 'irm', 'aria2c'
+]);
+const DELETE_COMMANDS = new Set(['rm', 'rmdir', 'del', 'erase', 'rd', 'unlink', 'shred', 'remove-item', 'ri']);
+const PROCESS_KILL_COMMANDS = new Set(['kill', 'pkill', 'killall', 'taskkill', 'stop-process']);
+const POWER_COMMANDS = new Set(['shutdown', 'reboot', 'poweroff', 'halt', 'restart-computer', 'stop-computer']);
+const PERMISSION_COMMANDS = new Set(['chmod', 'chown', 'chgrp', 'icacls', 'takeown']);
+const DISK_BLOCKED_COMMANDS = new Set(['wipefs', 'diskpart']);
+const DISK_ASK_COMMANDS = new Set(['fdisk', 'parted', 'format', 'sfdisk']);
+/** Prefix commands that run their arguments as another command */
+const TRANSPARENT_WRAPPERS = new Set(['env', 'nohup', 'time', 'nice', 'ionice', 'command', 'builtin', 'exec', 'stdbuf', 'timeout', 'xargs', 'watch', 'strace']);
+const SHELL_KEYWORDS = new Set(['{', '}', '!', 'then', 'do', 'else', 'elif', 'if', 'while', 'until', 'fi', 'done']);
+const WRITE_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>', '<>']);
+const SAFE_DEVICES = /^\/dev\/(null|stdout|stderr|tty|fd\/\d+)$|^nul$/i;
+const BLOCK_DEVICE = /^\/dev\/(sd|hd|vd|xvd|nvme|mmcblk|disk|rdisk|dm-|md)\w*/i;
+
+function commandName(word: string): string {
+  return path.basename(word.replace(/\\/g, '/')).toLowerCase().replace(/\.(exe|cmd|bat)$/, '');
+}
+
+/** Name of the command a segment actually runs, wrappers excluded */
+function effectiveName(seg: ShellSegment): string {
+  const args = unwrap(seg.argv, seg.text, []);
+  return args.length ? commandName(args[0]) : '';
+}
+
+function shortText(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > 60 ? oneLine.slice(0, 57) + '...' : oneLine;
+}
+
+function isRecursiveFlag(arg: string): boolean {
+  return /^-[a-zA-Z]*[rR]/.test(arg) && !arg.startsWith('--') || arg === '--recursive' || /^\/s$/i.test(arg) || /^-recurse$/i.test(arg);
+}
+
+function isRootTarget(arg: string): boolean {
+  return /^(\/|\/\*|~\/?|~\/\*|\$HOME\/?|[a-zA-Z]:[\\/]?\*?|\/\.\*?)$/.test(arg);
+}
+
+interface ClassifyContext {
+  workspaceRoot?: string;
+  extraRoots?: string[];
+  cwd?: string;
+  posix: boolean;
+  depth: number;
+}
+
+/** Absolute target of a write, or null when it can't be resolved statically */
+function resolveTarget(target: string, ctx: ClassifyContext): string | null {
+  if (!target || /[$`*?]/.test(target) && !target.startsWith('~')) return null;
+  let p = target;
+  if (p === '~' || p.startsWith('~/')) p = path.join(os.homedir(), p.slice(1));
+  const base = ctx.cwd || ctx.workspaceRoot;
+  if (!path.isAbsolute(p) && !/^[a-zA-Z]:[\\/]/.test(p)) {
+    if (!base) return null;
+    p = path.resolve(base, p);
+  }
+  return path.resolve(p);
+}
+
+function isOutsideWorkspace(target: string, ctx: ClassifyContext): boolean {
+  if (!ctx.workspaceRoot || SAFE_DEVICES.test(target) || /^\d+$|^-$/.test(target)) return false;
+  const resolved = resolveTarget(target, ctx);
+  if (!resolved) return false;
+  return [ctx.workspaceRoot, ...(ctx.extraRoots || [])].every(root => {
+    const rel = path.relative(path.resolve(root), resolved);
+    return rel.startsWith('..') || path.isAbsolute(rel);
+  });
+}
+
+/**
+ * Strip wrappers like `VAR=1 sudo env nice -n 5 cmd` down to `cmd ...`.
+ * Privilege escalation found on the way is reported.
+ */
+function unwrap(argv: string[], text: string, findings: ShellFinding[]): string[] {
+  let args = argv;
+  for (let guard = 0; guard < 10 && args.length; guard++) {
+    const name = commandName(args[0]);
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(args[0]) || SHELL_KEYWORDS.has(args[0])) {
+      args = args.slice(1);
+      continue;
+    }
+    if (PRIVILEGE_COMMANDS.has(name)) {
+      findings.push({ category: 'privilege', severity: 'ask', reason: `повышение привилегий (${name})`, segment: text });
+      let i = 1;
+      const withValue = new Set(['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U', '--user', '--group']);
+      while (i < args.length && args[i].startsWith('-')) {
+        if (name === 'su' && args[i] === '-c') break;
+        i += withValue.has(args[i]) ? 2 : 1;
+      }
+      args = args.slice(i);
+      continue;
+    }
+    if (TRANSPARENT_WRAPPERS.has(name)) {
+      let i = 1;
+      while (i < args.length && (args[i].startsWith('-') || /^[A-Za-z_][A-Za-z0-9_]*=/.test(args[i]))) {
+        // Options with a separate value
+        i += ['-n', '-u', '-I', '-L', '-P', '-s', '-d', '-k', '-o', '-e', '-i', '-c', '--signal'].includes(args[i]) ? 2 : 1;
+      }
+      if (name === 'timeout' && i < args.length) i++; // duration
+      args = args.slice(i);
+      continue;
+    }
+    break;
+  }
+  return args;
+}
+
+/** Index of the git subcommand, skipping global options like `-C <dir>` */
+function gitSubcommandIndex(args: string[]): number {
+  let i = 1;
+  while (i < args.length && args[i].startsWith('-')) {
+    i += ['-C', '-c', '--git-dir', '--work-tree', '--namespace'].includes(args[i]) ? 2 : 1;
+  }
+  return i;
+}
+
+function classifyGit(args: string[]): string | null {
+  const i = gitSubcommandIndex(args);
+  const sub = args[i];
+  const rest = args.slice(i + 1);
+  switch (sub) {
+    case 'clean':
+      return 'удаление неотслеживаемых файлов (git clean)';
+    case 'reset':
+      return rest.includes('--hard') ? 'сброс изменений (git reset --hard)' : null;
+    case 'push':
+      return rest.some(a => /^(-f|--force|--force-with-lease|--force-if-includes|--delete|-d)$/.test(a) || /^\+|^:/.test(a))
+        ? 'перезапись удалённой истории (git push --force)'
+        : null;
+    case 'rm':
+    case 'mv':
+      return `изменение файлов репозитория (git ${sub})`;
+    case 'checkout':
+      return rest.includes('--') || rest.includes('.') || rest.includes('-f') ? 'отмена изменений (git checkout)' : null;
+    case 'restore':
+      return 'отмена изменений (git restore)';
+    case 'branch':
+      return rest.some(a => /^(-D|-d|--delete)$/.test(a)) ? 'удаление ветки (git branch -D)' : null;
+    case 'stash':
+      return rest[0] === 'drop' || rest[0] === 'clear' ? `удаление stash (git stash ${rest[0]})` : null;
+    case 'filter-branch':
+    case 'filter-repo':
+      return `перезапись истории (git ${sub})`;
+    default:
+      return null;
+  }
+}
+
+/** Classify one segment; nested command strings (sh -c, su -c, find -exec) are analyzed recursively */
+function classifySegment(seg: ShellSegment, ctx: ClassifyContext, findings: ShellFinding[]): void {
+  const text = shortText(seg.text);
+  const push = (category: ShellRiskCategory, severity: ShellRiskSeverity, reason: string) =>
+    findings.push({ category, severity, reason, segment: text });
+
+  for (const r of seg.redirects) {
+    if (!WRITE_REDIRECTS.has(r.op)) continue;
+    if (BLOCK_DEVICE.test(r.target)) {
+      push('destructive', 'block', `запись на блочное устройство (${r.target})`);
+    } else if (isOutsideWorkspace(r.target, ctx)) {
+      push('write_outside_workspace', 'ask', `запись вне рабочей области (${r.op} ${r.target})`);
+    }
+  }
+
+  const args = unwrap(seg.argv, text, findings);
+  if (!args.length) return;
+  const name = commandName(args[0]);
+  const operands = args.slice(1).filter(a => !a.startsWith('-') || a === '-');
+  const outside = (targets: string[], what: string) => {
+    const hit = targets.find(t => isOutsideWorkspace(t, ctx));
+    if (hit) push('write_outside_workspace', 'ask', `${what} вне рабочей области (${hit})`);
+  };
+
+  // Nested command strings
+  if (ctx.depth < 3) {
+    const dashC = args.findIndex(a => a === '-c' || /^-[a-z]*c$/.test(a) || /^(-command|\/c)$/i.test(a));
+    const nestedSource =
+      (SHELL_INTERPRETERS.has(name) || name === 'su') && dashC > 0 && args[dashC + 1] !== undefined ? args.slice(dashC + 1).join(' ')
+      : name === 'eval' ? args.slice(1).join(' ')
+      : null;
+    if (nestedSource && !['python', 'python3', 'perl', 'ruby', 'node'].includes(name)) {
+      analyzeInto(nestedSource, { ...ctx, depth: ctx.depth + 1 }, findings);
+    }
+  }
+
+  if (DELETE_COMMANDS.has(name)) {
+    const recursive = args.some(isRecursiveFlag);
+    if ((recursive || name === 'rmdir' || name === 'rd') && (operands.some(isRootTarget) || args.includes('--no-preserve-root'))) {
+      push('destructive', 'block', `рекурсивное удаление корня или домашнего каталога (${text})`);
+    } else {
+      push('destructive', 'ask', recursive ? `рекурсивное удаление (${name})` : `удаление файлов (${name})`);
+      outside(operands, 'удаление');
+    }
+    return;
+  }
+  if (name === 'mv' || name === 'move' || name === 'move-item') {
+    push('destructive', 'ask', `перемещение с возможной перезаписью (${name})`);
+    outside(operands, 'перемещение');
+    return;
+  }
+  if (name === 'cp' || name === 'copy' || name === 'install' || name === 'ln' || name === 'copy-item') {
+    if (operands.length >= 2) outside([operands[operands.length - 1]], 'запись');
+    return;
+  }
+  if (name === 'tee' || name === 'touch' || name === 'mkdir' || name === 'set-content' || name === 'out-file') {
+    outside(operands, 'запись');
+    return;
+  }
+  if (name === 'truncate') {
+    push('destructive', 'ask', 'обрезка файлов (truncate)');
+    outside(operands, 'запись');
+    return;
+  }
+  if (name === 'dd') {
+    const of = args.find(a => a.startsWith('of='))?.slice(3) || '';
+    if (BLOCK_DEVICE.test(of)) {
+      push('destructive', 'block', `запись на блочное устройство (dd of=${of})`);
+    } else {
+      push('destructive', 'ask', 'низкоуровневое копирование (dd)');
+      if (of) outside([of], 'запись');
+    }
+    return;
+  }
+  if (name.startsWith('mkfs') || DISK_BLOCKED_COMMANDS.has(name)) {
+    push('destructive', 'block', `форматирование диска (${name})`);
+    return;
+  }
+  if (DISK_ASK_COMMANDS.has(name)) {
+    push('destructive', 'ask', `работа с разделами диска (${name})`);
+    return;
+  }
+  if (PERMISSION_COMMANDS.has(name)) {
+    if (args.some(isRecursiveFlag) && operands.some(isRootTarget)) {
+      push('destructive', 'block', `рекурсивная смена прав на корне (${text})`);
+    } else {
+      push('destructive', 'ask', `изменение прав доступа (${name})`);
+    }
+    return;
+  }
+  if (PROCESS_KILL_COMMANDS.has(name)) {
+    push('destructive', 'ask', `завершение процессов (${name})`);
+    return;
+  }
+  if (POWER_COMMANDS.has(name) || (name === 'systemctl' && /^(poweroff|reboot|halt|suspend)$/.test(args[1] || ''))) {
+    push('destructive', 'ask', `выключение или перезагрузка системы (${name})`);
+    return;
+  }
+  if (name === 'find') {
+    const exec = args.findIndex(a => a === '-exec' || a === '-execdir' || a === '-ok');
+    if (args.includes('-delete')) push('destructive', 'ask', 'удаление файлов (find -delete)');
+    if (exec > 0) {
+      const end = args.findIndex((a, idx) => idx > exec && (a === ';' || a === '+'));
+      const inner = args.slice(exec + 1, end > 0 ? end : undefined);
+      classifySegment({ argv: inner, redirects: [], text: inner.join(' ') }, ctx, findings);
+    }
+    return;
+  }
+  if (name === 'git') {
+    const reason = classifyGit(args);
+    if (reason) push('destructive', 'ask', reason);
+    // Publishing leaves the machine: ask even when terminal auto-run is on
+    else if (args[gitSubcommandIndex(args)] === 'push') push('network', 'ask', 'публикация в удалённый репозиторий (git push)');
+    return;
+  }
+  if (NETWORK_COMMANDS.has(name)) {
+    push('network', 'info', `сетевой доступ (${name})`);
+  }
+}
+
+function analyzeInto(command: string, ctx: ClassifyContext, findings: ShellFinding[]): ParsedShellCommand {
+  // Fork bomb: a function that pipes into itself in the background, e.g. :(){ :|:& };:
+  const fnDef = /([^\s(){};|&]+)\s*\(\s*\)\s*\{([^}]*)\}/g;
+  for (const m of command.matchAll(fnDef)) {
+    const name = m[1].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`${name}\\s*\\|\\s*${name}\\s*&`).test(m[2])) {
+      findings.push({ category: 'destructive', severity: 'block', reason: 'fork-бомба', segment: shortText(m[0]) });
+    }
+  }
+
+  const parsed = parseShellCommand(command, { posix: ctx.posix });
+  let cwd = ctx.cwd;
+  parsed.segments.forEach((seg, index) => {
+    const segCtx = { ...ctx, cwd };
+    classifySegment(seg, segCtx, findings);
+
+    const name = effectiveName(seg);
+    // Track `cd dir && ...` so relative write targets resolve correctly
+    if (name === 'cd' && seg.parent === undefined) {
+      const target = unwrap(seg.argv, seg.text, [])[1];
+      const resolved = target ? resolveTarget(target, segCtx) : null;
+      cwd = resolved || (target ? undefined : os.homedir());
+    }
+    // Downloaded content executed by an interpreter: curl ... | sh, bash <(curl ...)
+    if (SHELL_INTERPRETERS.has(name)) {
+      const isNetwork = (s?: ShellSegment) => !!s && NETWORK_COMMANDS.has(effectiveName(s));
+      const source = seg.pipedFrom !== undefined ? parsed.segments[seg.pipedFrom] : undefined;
+      const nested = parsed.segments.filter(s => s.parent === index);
+      if (isNetwork(source) || nested.some(s => isNetwork(s))) {
+        const from = source && isNetwork(source) ? source : nested.find(s => isNetwork(s))!;
+        findings.push({
+          category: 'network',
+          severity: 'ask',
+          reason: `выполнение загруженного кода (${effectiveName(from)} | ${name})`,
+          segment: shortText(seg.text)
+        });
+      }
+    }
+  });
+  if (parsed.error) {
+    findings.push({ category: 'destructive', severity: 'ask', reason: `не удалось разобрать команду: ${parsed.error}`, segment: shortText(command) });
+  }
+  return parsed;
+}
+
+/**
+ * Parse a terminal command and classify every segment.
+ */
+export function analyzeShellCommand(command: string, options: ShellAnalyzeOptions = {}): ShellAnalysis {
+  const findings: ShellFinding[] = [];
+  const posix = options.posix ?? process.platform !== 'win32';
+  const workspaceRoot = options.workspaceRoot;
+  const cwd = options.cwd ? (workspaceRoot ? path.resolve(workspaceRoot, options.cwd) : options.cwd) : workspaceRoot;
+  const { segments, error } = analyzeInto(command, { workspaceRoot, extraRoots: options.extraRoots, cwd, posix, depth: 0 }, findings);
+
+  // Deduplicate identical reasons (e.g. `rm a; rm b`)
+  const seen = new Set<string>();
+  const unique = findings.filter(f => {
+    const key = `${f.severity}|${f.reason}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const severity: ShellRiskSeverity = unique.some(f => f.severity === 'block') ? 'block'
+    : unique.some(f => f.severity === 'ask') ? 'ask'
+    : 'info';
+  return { segments, findings: unique, severity, ...(error ? { error } : {}) };
+}
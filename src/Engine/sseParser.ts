@@ -1,6 +1,7 @@
 /**
  * Shared SSE (Server-Sent Events) stream parser.
- * Used by both agentLoop and openRouterClient to avoid code duplication.
+ * Used by agentLoop, openRouterClient and the native provider adapters
+ * (Engine/Providers) to avoid code duplication.
  */
 
 import { logger } from '../logger';
@@ -23,9 +24,24 @@ export interface SSEUsageInfo {
   cost?: number;
 }
 
+/** One Anthropic thinking block: text with its signature, or the encrypted data of a redacted block */
+export type ThinkingBlock = { thinking: string; signature: string } | { data: string };
+
+/**
+ * Provider-signed reasoning that must be replayed to the provider that produced it.
+ * Tagged with that provider: after a fallback to another provider it is dropped,
+ * since no other provider can verify the signature.
+ */
+export type ReasoningSignature =
+  /** Anthropic: every thinking block with its own signature, in order */
+  | { provider: 'claude'; blocks: ThinkingBlock[] }
+  /** Gemini: thought signature of the turn's first function call */
+  | { provider: 'gemini'; signature: string };
+
 export interface SSEParseResult {
   content: string;
   reasoning?: string;
+  reasoning_signature?: ReasoningSignature;
   finish_reason?: string;
   tool_calls?: SSEToolCall[];
   usage?: SSEUsageInfo;
@@ -37,6 +53,50 @@ export interface SSEParseOptions {
   signal?: AbortSignal;
 }
 
+/**
+ * Read an SSE stream and yield the raw `data:` payloads one by one.
+ * Shared by the OpenAI-compatible parser below and the native provider
+ * adapters (Engine/Providers) — they only differ in how payloads are interpreted.
+ * Stops at `[DONE]` or end of stream; throws "Aborted" when the signal fires.
+ */
+export async function* readSSEPayloads(
+  body: ReadableStreamLike,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new Error("Aborted");
+      }
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex >= 0) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf("\n");
+
+        if (!line || !line.startsWith("data:")) continue;
+
+        const payload = line.replace(/^data:\s*/, "");
+        if (payload === "[DONE]") continue;
+
+        yield payload;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 /**
  * Parse an SSE stream from an OpenAI-compatible chat endpoint.
  *
@@ -52,9 +112,6 @@ export async function parseSSEStream(
   opts: SSEParseOptions
 ): Promise<SSEParseResult> {
   const { onChunk, onReasoning, signal } = opts;
-  const reader = body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
   let content = "";
   let reasoningAccumulated = "";
   let finishReason = "";
@@ -71,138 +128,113 @@ export async function parseSSEStream(
 
   logger.log('[SSE] Stream parse started');
 
-  try {
-    while (true) {
-      if (signal?.aborted) {
-        throw new Error("Aborted");
-      }
-
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-
-      let newlineIndex = buffer.indexOf("\n");
-      while (newlineIndex >= 0) {
-        const line = buffer.slice(0, newlineIndex).trim();
-        buffer = buffer.slice(newlineIndex + 1);
-        newlineIndex = buffer.indexOf("\n");
-
-        if (!line || !line.startsWith("data:")) continue;
-
-        const payload = line.replace(/^data:\s*/, "");
-        if (payload === "[DONE]") break;
+  for await (const payload of readSSEPayloads(body, signal)) {
+    try {
+      const json = JSON.parse(payload);
+      eventsParsed++;
+      const choice = json.choices?.[0];
+      const delta = choice?.delta;
 
-        try {
-          const json = JSON.parse(payload);
-          eventsParsed++;
-          const choice = json.choices?.[0];
-          const delta = choice?.delta;
-
-          // Track finish_reason (will be 'length' if max_tokens hit)
-          if (choice?.finish_reason) {
-            finishReason = choice.finish_reason;
-          }
-
-          // Track usage info (typically in the last chunk)
-          if (json.usage) {
-            usage = {
-              prompt_tokens: json.usage.prompt_tokens,
-              completion_tokens: json.usage.completion_tokens,
-              total_tokens: json.usage.total_tokens,
-              // OpenRouter: usage.prompt_tokens_details.cached_tokens
-              // Mistral: usage.prompt_cache_hit_tokens
-              cached_tokens: json.usage.prompt_tokens_details?.cached_tokens
-                ?? json.usage.prompt_cache_hit_tokens
-                ?? json.usage.cache_read_input_tokens
-                ?? undefined,
-              // OpenRouter returns cost in the final SSE chunk
-              cost: json.usage.cost ?? undefined,
-            };
-          }
+      // Track finish_reason (will be 'length' if max_tokens hit)
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
 
-          if (delta?.content) {
-            content += delta.content;
-            contentChunks++;
-            onChunk(delta.content);
-          }
+      // Track usage info (typically in the last chunk)
+      if (json.usage) {
+        usage = {
+          prompt_tokens: json.usage.prompt_tokens,
+          completion_tokens: json.usage.completion_tokens,
+          total_tokens: json.usage.total_tokens,
+          // OpenRouter: usage.prompt_tokens_details.cached_tokens
+          // Mistral: usage.prompt_cache_hit_tokens
+          cached_tokens: json.usage.prompt_tokens_details?.cached_tokens
+            ?? json.usage.prompt_cache_hit_tokens
+            ?? json.usage.cache_read_input_tokens
+            ?? undefined,
+          // OpenRouter returns cost in the final SSE chunk
+          cost: json.usage.cost ?? undefined,
+        };
+      }
 
-          // --- Reasoning (4 formats) ---
+      if (delta?.content) {
+        content += delta.content;
+        contentChunks++;
+        onChunk(delta.content);
+      }
 
-          // Format 1: reasoning_details array (OpenRouter extended thinking)
-          const reasoningDetails = delta?.reasoning_details;
-          if (
-            reasoningDetails &&
-            Array.isArray(reasoningDetails) &&
-            onReasoning
-          ) {
-            for (const detail of reasoningDetails) {
-              if (detail.type === "reasoning.text" && detail.text) {
-                reasoningAccumulated += detail.text;
-                reasoningChunks++;
-                onReasoning(reasoningAccumulated);
-              } else if (
-                detail.type === "reasoning.summary" &&
-                detail.summary
-              ) {
-                reasoningAccumulated += detail.summary;
-                reasoningChunks++;
-                onReasoning(reasoningAccumulated);
-              }
-            }
-          }
+      // --- Reasoning (4 formats) ---
 
-          // Format 2: reasoning_content (Claude, some models)
-          if (delta?.reasoning_content && onReasoning) {
-            reasoningAccumulated += delta.reasoning_content;
+      // Format 1: reasoning_details array (OpenRouter extended thinking)
+      const reasoningDetails = delta?.reasoning_details;
+      if (
+        reasoningDetails &&
+        Array.isArray(reasoningDetails) &&
+        onReasoning
+      ) {
+        for (const detail of reasoningDetails) {
+          if (detail.type === "reasoning.text" && detail.text) {
+            reasoningAccumulated += detail.text;
             reasoningChunks++;
             onReasoning(reasoningAccumulated);
-          }
-
-          // Format 3: reasoning field directly
-          if (delta?.reasoning && onReasoning) {
-            reasoningAccumulated += delta.reasoning;
+          } else if (
+            detail.type === "reasoning.summary" &&
+            detail.summary
+          ) {
+            reasoningAccumulated += detail.summary;
             reasoningChunks++;
             onReasoning(reasoningAccumulated);
           }
+        }
+      }
 
-          // Format 4: thinking field (some models)
-          if (delta?.thinking && onReasoning) {
-            reasoningAccumulated += delta.thinking;
-            reasoningChunks++;
-            onReasoning(reasoningAccumulated);
-          }
+      // Format 2: reasoning_content (Claude, some models)
+      if (delta?.reasoning_content && onReasoning) {
+        reasoningAccumulated += delta.reasoning_content;
+        reasoningChunks++;
+        onReasoning(reasoningAccumulated);
+      }
 
-          // --- Tool calls ---
-          if (delta?.tool_calls) {
-            toolCallDeltas += delta.tool_calls.length;
-            for (const tc of delta.tool_calls) {
-              const idx = tc.index ?? 0;
-              if (!toolCallsMap.has(idx)) {
-                toolCallsMap.set(idx, {
-                  id: tc.id || "",
-                  type: tc.type || "function",
-                  function: { name: "", arguments: "" },
-                });
-              }
-              const existing = toolCallsMap.get(idx)!;
-              if (tc.id) existing.id = tc.id;
-              if (tc.function?.name) existing.function.name += tc.function.name;
-              if (tc.function?.arguments)
-                existing.function.arguments += tc.function.arguments;
-            }
-          }
-        } catch (e: any) {
-          parseErrors++;
-          if (parseErrors <= 3) {
-            logger.log(`[SSE] Event parse error (${parseErrors}): ${(e?.message || String(e)).slice(0, 120)}`);
+      // Format 3: reasoning field directly
+      if (delta?.reasoning && onReasoning) {
+        reasoningAccumulated += delta.reasoning;
+        reasoningChunks++;
+        onReasoning(reasoningAccumulated);
+      }
+
+      // Format 4: thinking field (some models)
+      if (delta?.thinking && onReasoning) {
+        reasoningAccumulated += delta.thinking;
+        reasoningChunks++;
+        onReasoning(reasoningAccumulated);
+      }
+
+      // --- Tool calls ---
+      if (delta?.tool_calls) {
+        toolCallDeltas += delta.tool_calls.length;
+        for (const tc of delta.tool_calls) {
+          const idx = tc.index ?? 0;
+          if (!toolCallsMap.has(idx)) {
+            toolCallsMap.set(idx, {
+              id: tc.id || "",
+              type: tc.type || "function",
+              function: { name: "", arguments: "" },
+            });
           }
-          // ignore parse errors in individual SSE events
+          const existing = toolCallsMap.get(idx)!;
+          if (tc.id) existing.id = tc.id;
+          if (tc.function?.name) existing.function.name += tc.function.name;
+          if (tc.function?.arguments)
+            existing.function.arguments += tc.function.arguments;
         }
       }
+    } catch (e: any) {
+      parseErrors++;
+      if (parseErrors <= 3) {
+        logger.log(`[SSE] Event parse error (${parseErrors}): ${(e?.message || String(e)).slice(0, 120)}`);
+      }
+      // ignore parse errors in individual SSE events
     }
-  } finally {
-    reader.releaseLock();
   }
 
   const toolCalls =
@@ -0,0 +1,438 @@
+/**
+ * toolPolicy.ts — Declarative allow / ask / deny permission policy for tools.
+ *
+ * Rules come from two JSON files (same format):
+ *   - workspace: `.vscode/ashibalt-policy.json`
+ *   - global:    `~/.Ashibalt/policy.json`
+ *
+ * The workspace file ships with the repository and can be written by the agent,
+ * so it is not trusted to grant anything: its `allow` rules are ignored and it
+ * may only deny or ask. "Always allow" rules are saved to the global file,
+ * limited to the workspace they were approved in (`"workspace": "<root>"`).
+ * Writes to either policy file always ask, whatever the rules say.
+ *
+ *   {
+ *     "rules": [
+ *       "terminal: \"npm test*\" allow",
+ *       { "tool": "edit_file", "pattern": "src/generated/**", "action": "deny" },
+ *       "fetch_url: \"http://localhost:*\" allow"
+ *     ]
+ *   }
+ *
+ * A rule matches a tool name (glob, e.g. "mcp__github__*") and optionally a
+ * pattern applied to the tool "subject": the command for terminal, the
+ * workspace-relative path for file tools, the URL for fetch_url, the query for
+ * searches. For paths `*` stays inside one directory and `**` crosses them;
+ * for everything else `*` matches any text; `\*` is a literal asterisk.
+ * Matching is case-insensitive.
+ *
+ * Terminal commands are parsed by shellParser: user rules are matched against the
+ * whole command and each segment of a chain (an allow rule must cover every
+ * segment), and the parser's risk classification acts as built-in rules.
+ *
+ * Precedence: deny (user rules, built-in blocks) > policy file writes (ask) > user allow >
+ * user ask > built-in ask > default.
+ * Defaults keep the historical behaviour (terminal asks unless autoRunTerminal,
+ * delete_file and file-deleting patches ask, Chat mode asks before read_file and MCP tools,
+ * everything else runs). fetch_url requests other than GET/HEAD ask unless they go to a
+ * local dev server (always in Chat mode).
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getToolDefinition } from './toolRegistry';
+import { isMcpToolName } from './Mcp/mcpRegistry';
+import { analyzeShellCommand, type ShellFinding } from './shellParser';
+import { resolveFilePath, findWorkspaceRoot, getWorkspaceRoots, toWorkspacePath } from './tools/toolUtils';
+import { logger } from '../logger';
+
+export type PolicyDecision = 'allow' | 'ask' | 'deny';
+
+export interface PolicyRule {
+  tool: string;
+  /** Subject pattern; omitted = any subject */
+  pattern?: string;
+  action: PolicyDecision;
+  /** Workspace root the rule is limited to (rules saved by "always allow") */
+  workspace?: string;
+}
+
+export type PolicySource = 'workspace' | 'global' | 'builtin' | 'default';
+
+export interface PolicyEvaluation {
+  decision: PolicyDecision;
+  source: PolicySource;
+  rule?: PolicyRule;
+  /** Normalized subject the rules were matched against */
+  subject: string;
+  /** Why a built-in check denied / asks (terminal command analysis) */
+  reason?: string;
+  risks?: ShellFinding[];
+  /** Policy file the call would write; such calls always ask and cannot be allowed permanently */
+  policyFile?: string;
+}
+
+export interface PolicyContext {
+  workspaceRoot?: string;
+  isChat?: boolean;
+  autoRunTerminal?: boolean;
+}
+
+/** What a rule pattern is matched against */
+export interface PolicySubject {
+  value: string;
+  kind: 'path' | 'text';
+}
+
+export const WORKSPACE_POLICY_FILE = path.join('.vscode', 'ashibalt-policy.json');
+
+export function globalPolicyPath(): string {
+  return path.join(os.homedir(), '.Ashibalt', 'policy.json');
+}
+
+const RULE_STRING_RE = /^\s*([^\s:]+)\s*(?::\s*(?:"((?:[^"\\]|\\.)*)"|([^\s"]+)))?\s+(allow|ask|deny)\s*$/i;
+
+/**
+ * Parse a rule entry: either an object or the compact string form
+ * `tool: "pattern" action` / `tool: pattern action` / `tool action`.
+ */
+export function parsePolicyRule(entry: unknown): PolicyRule | null {
+  if (typeof entry === 'string') {
+    const m = entry.match(RULE_STRING_RE);
+    if (!m) return null;
+    const pattern = m[2] !== undefined ? m[2].replace(/\\(.)/g, '$1') : m[3];
+    return { tool: m[1], ...(pattern ? { pattern } : {}), action: m[4].toLowerCase() as PolicyDecision };
+  }
+  if (entry && typeof entry === 'object') {
+    const { tool, pattern, action, workspace } = entry as any;
+    if (typeof tool !== 'string' || !['allow', 'ask', 'deny'].includes(action)) return null;
+    return {
+      tool,
+      ...(typeof pattern === 'string' && pattern ? { pattern } : {}),
+      action,
+      ...(typeof workspace === 'string' && workspace ? { workspace } : {})
+    };
+  }
+  return null;
+}
+
+/** Compact string form used in the policy file and the approval UI (without the workspace limit) */
+export function formatPolicyRule(rule: PolicyRule): string {
+  return rule.pattern !== undefined
+    ? `${rule.tool}: ${JSON.stringify(rule.pattern)} ${rule.action}`
+    : `${rule.tool} ${rule.action}`;
+}
+
+const fileCache = new Map<string, { mtimeMs: number; rules: PolicyRule[] }>();
+
+/** @param trusted false for the workspace file — its allow rules are dropped */
+function loadPolicyFile(file: string, trusted = true): PolicyRule[] {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(file);
+  } catch {
+    fileCache.delete(file);
+    return [];
+  }
+  const cached = fileCache.get(file);
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.rules;
+
+  let rules: PolicyRule[] = [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    for (const entry of Array.isArray(parsed?.rules) ? parsed.rules : []) {
+      const rule = parsePolicyRule(entry);
+      if (rule && rule.action === 'allow' && !trusted) {
+        logger.log(`[POLICY] Ignoring allow rule in ${file} (workspace policy may only deny or ask): ${JSON.stringify(entry)}`);
+      } else if (rule) {
+        rules.push(rule);
+      } else {
+        logger.log(`[POLICY] Ignoring invalid rule in ${file}: ${JSON.stringify(entry)}`);
+      }
+    }
+  } catch (err: any) {
+    logger.log(`[POLICY] Failed to parse ${file}: ${err?.message || err}`);
+    rules = [];
+  }
+  fileCache.set(file, { mtimeMs: stat.mtimeMs, rules });
+  return rules;
+}
+
+function globToRegExp(glob: string, kind: PolicySubject['kind']): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '\\' && i + 1 < glob.length) {
+      re += glob[++i].replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+    } else if (ch === '*') {
+      if (kind === 'path' && glob[i + 1] === '*') {
+        // "**/" also matches zero directories
+        if (glob[i + 2] === '/') {
+          re += '(?:.*/)?';
+          i += 2;
+        } else {
+          re += '.*';
+          i += 1;
+        }
+      } else {
+        re += kind === 'path' ? '[^/]*' : '.*';
+      }
+    } else {
+      re += ch.replace(/[.+?^${}()|[\]\\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`, 'is');
+}
+
+export function matchesPolicyPattern(pattern: string, subject: PolicySubject): boolean {
+  return globToRegExp(pattern, subject.kind).test(subject.value);
+}
+
+/** Pattern matching exactly `value`: wildcards and escapes in it are escaped */
+export function escapePolicyPattern(value: string): string {
+  return value.replace(/[\\*]/g, '\\$&');
+}
+
+function hasWildcard(pattern: string): boolean {
+  return pattern.replace(/\\./g, '').includes('*');
+}
+
+function toPolicyPath(rawPath: string, workspaceRoot?: string): string {
+  const absolute = path.resolve(resolveFilePath(rawPath, workspaceRoot));
+  const rel = workspaceRoot ? path.relative(workspaceRoot, absolute) : '';
+  if (rel && !rel.startsWith('..') && !path.isAbsolute(rel)) return rel.replace(/\\/g, '/');
+  // Other folders of a multi-root workspace are matched as "backend:src/app.ts"
+  return findWorkspaceRoot(absolute) ? toWorkspacePath(absolute) : absolute.replace(/\\/g, '/');
+}
+
+/** Every file a multi-file tool writes (writeTargets), as workspace-relative path subjects */
+function getTargetSubjects(toolName: string, args: any, workspaceRoot?: string): PolicySubject[] {
+  const targets = getToolDefinition(toolName)?.writeTargets?.(args || {}) || [];
+  return targets.map(target => ({ value: toPolicyPath(target, workspaceRoot), kind: 'path' as const }));
+}
+
+/**
+ * Subject a tool call is matched against (tool modules may override via policySubject).
+ * Several write targets are shown as one space-separated list; evaluateToolPolicy
+ * matches each of them separately.
+ */
+export function getPolicySubject(toolName: string, args: any, workspaceRoot?: string): PolicySubject {
+  const custom = getToolDefinition(toolName)?.policySubject;
+  if (custom) return custom(args || {}, workspaceRoot);
+
+  const targets = getTargetSubjects(toolName, args, workspaceRoot);
+  if (targets.length === 1) return targets[0];
+  if (targets.length > 1) return { value: targets.map(t => t.value).join(' '), kind: 'text' };
+
+  const a = args || {};
+  const filePath = [a.file_path, a.path, a.file].find(v => typeof v === 'string' && v);
+  if (filePath) return { value: toPolicyPath(filePath, workspaceRoot), kind: 'path' };
+  if (typeof a.command === 'string') return { value: a.command.trim(), kind: 'text' };
+  if (typeof a.url === 'string') return { value: a.url, kind: 'text' };
+  if (typeof a.query === 'string') return { value: a.query, kind: 'text' };
+  if (Array.isArray(a.query)) return { value: a.query.join(' '), kind: 'text' };
+  return { value: '', kind: 'text' };
+}
+
+function samePath(a: string, b: string): boolean {
+  const norm = (p: string) => process.platform === 'win32' ? path.resolve(p).toLowerCase() : path.resolve(p);
+  return norm(a) === norm(b);
+}
+
+/** Policy files of all open workspace folders and the global one */
+function policyFiles(workspaceRoot?: string): string[] {
+  const roots = new Set([...(workspaceRoot ? [workspaceRoot] : []), ...getWorkspaceRoots().map(r => r.path)]);
+  return [globalPolicyPath(), ...[...roots].map(root => path.join(root, WORKSPACE_POLICY_FILE))];
+}
+
+/** Policy file a tool call would write, if any */
+function findPolicyFileWrite(toolName: string, args: any, workspaceRoot?: string): string | undefined {
+  const files = policyFiles(workspaceRoot);
+  if (isTerminalRun(toolName, args)) {
+    // Commands are not resolved to the files they touch; any mention of a policy file asks
+    const command = String(args?.command || '');
+    return files.find(file => command.includes(path.basename(file)) && (command.includes(path.basename(path.dirname(file))) || command.includes(file)));
+  }
+  const def = getToolDefinition(toolName);
+  if (!def?.destructive) return undefined;
+  const a = args || {};
+  const targets = def.writeTargets
+    ? def.writeTargets(a)
+    : [a.file_path, a.path, a.file].filter((v): v is string => typeof v === 'string' && !!v);
+  for (const target of targets) {
+    const absolute = path.resolve(resolveFilePath(target, workspaceRoot));
+    const file = files.find(f => samePath(f, absolute));
+    if (file) return file;
+  }
+  return undefined;
+}
+
+function findMatch(rules: PolicyRule[], toolName: string, subject: PolicySubject, action: PolicyDecision): PolicyRule | undefined {
+  return rules.find(r =>
+    r.action === action &&
+    matchesPolicyPattern(r.tool, { value: toolName, kind: 'text' }) &&
+    (r.pattern === undefined || matchesPolicyPattern(r.pattern, subject))
+  );
+}
+
+function defaultDecision(toolName: string, args: any, ctx: PolicyContext): PolicyDecision {
+  if (toolName === 'terminal') {
+    return isTerminalRun(toolName, args) && !ctx.autoRunTerminal ? 'ask' : 'allow';
+  }
+  if (toolName === 'delete_file') return 'ask';
+  // A patch deleting files asks like delete_file does ("+++ /dev/null" header)
+  if (toolName === 'apply_patch' && typeof args?.patch === 'string' && /^\+\+\+ \/dev\/null/m.test(args.patch)) return 'ask';
+  // git: publishing and history rewrites need explicit approval (an ask, or a user allow rule)
+  if (toolName === 'git' && (String(args?.operation).toLowerCase() === 'push' || args?.force === true || args?.amend === true)) return 'ask';
+  if (toolName === 'fetch_url' && !isSafeFetch(args, ctx)) return 'ask';
+  if (ctx.isChat && (toolName === 'read_file' || isMcpToolName(toolName))) return 'ask';
+  return 'allow';
+}
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', '0.0.0.0']);
+
+/** GET/HEAD/OPTIONS anywhere, other methods only against local dev servers outside Chat mode */
+function isSafeFetch(args: any, ctx: PolicyContext): boolean {
+  const hasBody = (args?.json !== undefined && args?.json !== null) || typeof args?.body === 'string';
+  const method = String(args?.method || (hasBody ? 'POST' : 'GET')).toUpperCase();
+  if (['GET', 'HEAD', 'OPTIONS'].includes(method)) return true;
+  if (ctx.isChat) return false;
+  try {
+    const host = new URL(String(args?.url)).hostname.toLowerCase();
+    return LOCAL_HOSTS.has(host) || host.endsWith('.localhost');
+  } catch {
+    return false;
+  }
+}
+
+function isTerminalRun(toolName: string, args: any): boolean {
+  return toolName === 'terminal' && ['run', ''].includes((args?.action ?? 'run').toLowerCase());
+}
+
+/**
+ * Decide whether a tool call may run, must be confirmed by the user, or is denied.
+ */
+export function evaluateToolPolicy(toolName: string, args: any, ctx: PolicyContext = {}): PolicyEvaluation {
+  const subject = getPolicySubject(toolName, args, ctx.workspaceRoot);
+  const sources: Array<[PolicySource, PolicyRule[]]> = [
+    ['workspace', ctx.workspaceRoot ? loadPolicyFile(path.join(ctx.workspaceRoot, WORKSPACE_POLICY_FILE), false) : []],
+    ['global', loadPolicyFile(globalPolicyPath()).filter(r => !r.workspace || (!!ctx.workspaceRoot && samePath(r.workspace, ctx.workspaceRoot)))],
+  ];
+  const result = (decision: PolicyDecision, source: PolicySource, rule?: PolicyRule, extra?: Partial<PolicyEvaluation>): PolicyEvaluation =>
+    ({ decision, source, ...(rule ? { rule } : {}), subject: subject.value, ...extra });
+
+  // Terminal commands are parsed: rules see every segment of a chain, built-in checks classify them
+  const analysis = isTerminalRun(toolName, args) && subject.value
+    ? analyzeShellCommand(subject.value, {
+        workspaceRoot: ctx.workspaceRoot,
+        cwd: typeof args?.cwd === 'string' && args.cwd ? resolveFilePath(args.cwd, ctx.workspaceRoot) : undefined,
+        extraRoots: getWorkspaceRoots().map(r => r.path)
+      })
+    : undefined;
+  // Files of a multi-file tool are matched one by one, never as the joined list
+  const targets = getTargetSubjects(toolName, args, ctx.workspaceRoot);
+  const targetParts = !analysis && targets.length > 1 ? targets : [];
+  const parts: PolicySubject[] = analysis && analysis.segments.length > 1
+    ? analysis.segments.map(seg => ({ value: seg.text.trim(), kind: 'text' as const }))
+    : targetParts;
+  const checked = targetParts.length ? parts : [subject, ...parts];
+  const risks = analysis?.findings.filter(f => f.severity !== 'info') || [];
+  const builtin = (severity: 'block' | 'ask') => {
+    const found = risks.filter(f => f.severity === severity);
+    return found.length ? { reason: found.map(f => f.reason).join('; '), risks: found } : null;
+  };
+
+  // 1. deny — a user rule matching the command or any of its segments (any file), then built-in blocks
+  for (const [source, rules] of sources) {
+    const rule = checked.map(subj => findMatch(rules, toolName, subj, 'deny')).find(Boolean);
+    if (rule) return result('deny', source, rule);
+  }
+  const blocked = builtin('block');
+  if (blocked) return result('deny', 'builtin', undefined, blocked);
+
+  // Policy files: the agent must not be able to grant itself permissions
+  const policyFile = findPolicyFileWrite(toolName, args, ctx.workspaceRoot);
+  if (policyFile) {
+    return result('ask', 'builtin', undefined, { reason: `изменение файла политики разрешений (${policyFile})`, policyFile });
+  }
+
+  // 2. allow — for chains every segment (every file) must be allowed, or the exact call was approved
+  for (const [source, rules] of sources) {
+    const rule = parts.length
+      ? rules.find(r => r.action === 'allow' && r.pattern !== undefined && !hasWildcard(r.pattern) &&
+          matchesPolicyPattern(r.tool, { value: toolName, kind: 'text' }) && matchesPolicyPattern(r.pattern, subject))
+      : findMatch(rules, toolName, subject, 'allow');
+    if (rule) return result('allow', source, rule);
+  }
+  if (parts.length) {
+    const allRules = sources.flatMap(([, rules]) => rules);
+    const perPart = parts.map(part => findMatch(allRules, toolName, part, 'allow'));
+    if (perPart.every(Boolean)) {
+      const rule = perPart[0]!;
+      return result('allow', sources.find(([, rules]) => rules.includes(rule))![0], rule);
+    }
+  }
+
+  // 3. ask — user rules, then risks found by the shell parser
+  for (const [source, rules] of sources) {
+    const rule = checked.map(subj => findMatch(rules, toolName, subj, 'ask')).find(Boolean);
+    if (rule) return result('ask', source, rule);
+  }
+  const risky = builtin('ask');
+  if (risky) return result('ask', 'builtin', undefined, risky);
+
+  return result(defaultDecision(toolName, args, ctx), 'default');
+}
+
+/**
+ * Rule written by the "always allow" button: the exact subject (wildcards in it
+ * escaped), or the URL origin for fetches. Limited to the workspace when one is open.
+ */
+export function suggestAllowRule(toolName: string, args: any, workspaceRoot?: string): PolicyRule {
+  const subject = getPolicySubject(toolName, args, workspaceRoot);
+  const scope = workspaceRoot ? { workspace: workspaceRoot } : {};
+  if (!subject.value) return { tool: toolName, action: 'allow', ...scope };
+  if (subject.kind === 'text' && /^https?:\/\//i.test(subject.value)) {
+    try {
+      return { tool: toolName, pattern: `${escapePolicyPattern(new URL(subject.value).origin)}/*`, action: 'allow', ...scope };
+    } catch {}
+  }
+  return { tool: toolName, pattern: escapePolicyPattern(subject.value), action: 'allow', ...scope };
+}
+
+/**
+ * Append a rule to the global policy (the workspace file is not trusted with
+ * allow rules, see above). Returns the file that was written, or null when the
+ * existing file is not valid JSON — it is left untouched and the error is logged.
+ */
+export function addPolicyRule(rule: PolicyRule): string | null {
+  const file = globalPolicyPath();
+  let data: any = { rules: [] };
+  if (fs.existsSync(file)) {
+    try {
+      data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (err: any) {
+      logger.log(`[POLICY] Failed to parse ${file}, rule not saved: ${err?.message || err}`);
+      return null;
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      logger.log(`[POLICY] ${file} is not a policy object, rule not saved`);
+      return null;
+    }
+    if (!Array.isArray(data.rules)) data.rules = [];
+  }
+  const formatted = formatPolicyRule(rule);
+  const exists = data.rules.some((r: unknown) => {
+    const parsed = parsePolicyRule(r);
+    return parsed && formatPolicyRule(parsed) === formatted && (parsed.workspace || '') === (rule.workspace || '');
+  });
+  if (!exists) {
+    data.rules.push(rule.workspace ? { ...rule } : formatted);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n', 'utf8');
+    fileCache.delete(file);
+    logger.log(`[POLICY] Added rule to ${file}: ${formatted}`);
+  }
+  return file;
+}
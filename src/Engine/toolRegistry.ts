@@ -0,0 +1,199 @@
+/**
+ * toolRegistry.ts — Pluggable tool registry.
+ *
+ * Every tool module registers a single ToolDefinition holding everything the
+ * agent needs to know about the tool:
+ *   - spec          — name, description and JSON-schema parameters sent to the model
+ *   - readOnly      — tool is safe for Chat mode (chatTools are derived from this flag)
+ *   - destructive   — tool modifies the workspace or runs commands
+ *   - aliases       — hallucinated names the agent loop remaps to this tool
+ *   - validate      — extra semantic checks on top of the schema validation
+ *   - summarizeArgs — compact args summary for [TOOL_DISPATCH] logs
+ *   - execute       — the implementation (omitted for tools the agent loop runs itself)
+ *   - renderAction  — UI indicator + persisted MessageAction for the tool result
+ *   - policySubject — value permission policy rules are matched against (toolPolicy.ts)
+ *   - writeTargets  — files a call writes, when they are not in a path argument (toolPolicy.ts)
+ *
+ * Argument validation is generated from the parameters schema (required, type,
+ * enum, minLength, items, ...) so tools no longer need hand-written validators.
+ */
+
+import type { MessageAction } from '../Storage/storageManager';
+
+export type ToolSpec = {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: any;
+  };
+};
+
+/** Context passed to a tool executor */
+export interface ToolExecutionContext {
+  workspaceRoot?: string;
+  /** Webview postMessage for tools that push UI updates (e.g. tasks) */
+  postMessage?: (msg: any) => void;
+}
+
+/** Context passed to a tool action renderer after execution */
+export interface ToolActionContext {
+  args: any;
+  result: any;
+  /** Assistant placeholder message the indicator belongs to */
+  messageId: string;
+  postMessage: (msg: any) => void;
+}
+
+export interface ToolDefinition {
+  spec: ToolSpec['function'];
+  readOnly?: boolean;
+  destructive?: boolean;
+  aliases?: string[];
+  /** Schema used for validation when the executor accepts more than the advertised spec */
+  validationSchema?: any;
+  /** Semantic checks the schema cannot express. Returns error message or null. */
+  validate?: (args: any) => string | null;
+  /** Omitted for tools executed by the agent loop itself (ask_user, commits) */
+  execute?: (args: any, ctx: ToolExecutionContext) => Promise<any>;
+  /** Compact args summary for [TOOL_DISPATCH] logs (default: common path/query fields) */
+  summarizeArgs?: (args: any) => Record<string, any>;
+  /** Post the UI indicator and return the action(s) to persist with the message */
+  renderAction?: (ctx: ToolActionContext) => MessageAction | MessageAction[] | void;
+  /** Value permission policy patterns are matched against (default: path/command/url/query arg) */
+  policySubject?: (args: any, workspaceRoot?: string) => { value: string; kind: 'path' | 'text' };
+  /** Files a destructive call writes (default: the file_path/path/file argument) */
+  writeTargets?: (args: any) => string[];
+}
+
+const definitions = new Map<string, ToolDefinition>();
+const aliases = new Map<string, string>();
+
+/**
+ * Register a tool. Registration order defines the order of the tool list
+ * sent to the model.
+ */
+export function registerTool(def: ToolDefinition): void {
+  const name = def.spec.name;
+  if (definitions.has(name)) {
+    throw new Error(`Tool already registered: ${name}`);
+  }
+  definitions.set(name, def);
+  for (const alias of def.aliases || []) {
+    aliases.set(alias, name);
+  }
+}
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return definitions.get(name);
+}
+
+export function getRegisteredTools(): ToolDefinition[] {
+  return [...definitions.values()];
+}
+
+export function toToolSpec(def: ToolDefinition): ToolSpec {
+  return { type: 'function', function: def.spec };
+}
+
+/** Map a hallucinated tool name (e.g. "write_file") to the registered tool, if any */
+export function resolveToolAlias(name: string): string | undefined {
+  return definitions.has(name) ? undefined : aliases.get(name);
+}
+
+// ── Schema-driven validation ──────────────────────────────────────────────────
+
+function typeMatches(type: string, value: any): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function describeSchemaType(schema: any): string {
+  if (schema?.enum) return `one of: ${schema.enum.join(', ')}`;
+  const variants = schema?.oneOf || schema?.anyOf;
+  if (variants) return variants.map(describeSchemaType).join(' or ');
+  if (schema?.type === 'array' && schema.items?.type) return `array of ${schema.items.type}`;
+  return Array.isArray(schema?.type) ? schema.type.join(' | ') : (schema?.type || 'value');
+}
+
+/**
+ * Validate a value against the JSON-schema subset used by tool specs.
+ * Returns the first problem found or null.
+ */
+export function validateSchemaValue(schema: any, value: any, path: string): string | null {
+  if (!schema || typeof schema !== 'object') return null;
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (variants) {
+    const ok = variants.some((v: any) => validateSchemaValue(v, value, path) === null);
+    return ok ? null : `${path} must be ${describeSchemaType(schema)}`;
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => typeMatches(t, value))) {
+      return `${path} must be ${describeSchemaType(schema)}`;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${path} must be ${describeSchemaType(schema)}`;
+  }
+
+  if (typeof value === 'string' && typeof schema.minLength === 'number' && value.length < schema.minLength) {
+    return `${path} must not be empty`;
+  }
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) return `${path} must be >= ${schema.minimum}`;
+    if (typeof schema.maximum === 'number' && value > schema.maximum) return `${path} must be <= ${schema.maximum}`;
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) return `${path} must have at least ${schema.minItems} items`;
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) return `${path} must have at most ${schema.maxItems} items`;
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        const err = validateSchemaValue(schema.items, value[i], `${path}[${i}]`);
+        if (err) return err;
+      }
+    }
+  }
+
+  if (schema.properties && value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        return `${path ? path + '.' : ''}${key} is required (${describeSchemaType(schema.properties[key])})`;
+      }
+    }
+    for (const [key, propSchema] of Object.entries<any>(schema.properties)) {
+      if (value[key] === undefined) continue;
+      const err = validateSchemaValue(propSchema, value[key], path ? `${path}.${key}` : key);
+      if (err) return err;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate tool arguments: schema first, then the tool's own semantic checks.
+ * Returns error message if validation fails, null if valid.
+ */
+export function validateToolArgs(def: ToolDefinition, args: any): string | null {
+  const name = def.spec.name;
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return `${name} requires an arguments object`;
+  }
+  const schemaError = validateSchemaValue(def.validationSchema || def.spec.parameters, args, '');
+  if (schemaError) {
+    return `${name}: ${schemaError}`;
+  }
+  return def.validate ? def.validate(args) : null;
+}
@@ -0,0 +1,520 @@
+/**
+ * applyPatchTool.ts — Atomic multi-file patch (apply_patch).
+ *
+ * Takes a unified diff (`patch`) or a structured list of hunks (`hunks`) spanning
+ * any number of files. Every hunk is located with the edit_file fuzzy matcher
+ * (findStringWithStrategies) against the in-memory file, so nothing touches the
+ * disk until the whole patch resolves. The files are then written together
+ * (already written ones are restored if a write fails), recorded in
+ * SnapshotManager under one change set id and syntax-checked with tree-sitter.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getSnapshotManager } from '../../Storage/snapshotManager';
+import { applySnapshotDecorations } from '../../Storage/snapshotDecorations';
+import { logger } from '../../logger';
+import { getContextCache, getFileTime } from '../SystemContext/contextCache';
+import { checkSyntax } from '../diagnosticsEngine';
+import { findStringWithStrategies } from '../stringMatcher';
+import { registerTool } from '../toolRegistry';
+import { resolveFilePath, checkPathSecurity, getChangedRegion, countChangedLines, LineHintMap } from './toolUtils';
+import type { MessageAction } from '../../Storage/storageManager';
+
+export interface PatchHunk {
+  oldText: string;
+  newText: string;
+  /** 1-based line of oldText in the original file (hint for the matcher) */
+  startLine?: number;
+}
+
+export interface FilePatch {
+  path: string;
+  kind: 'update' | 'create' | 'delete';
+  hunks: PatchHunk[];
+}
+
+interface PlannedFile {
+  rawPath: string;
+  resolved: string;
+  kind: FilePatch['kind'];
+  /** Content before the patch (null for created files) */
+  original: string | null;
+  /** Content after the patch (null for deleted files) */
+  content: string | null;
+  hunks: number;
+  strategies: string[];
+}
+
+// ============================================================================
+// Unified diff parsing
+// ============================================================================
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function isFileHeader(lines: string[], i: number): boolean {
+  return lines[i].startsWith('--- ') && (lines[i + 1] ?? '').startsWith('+++ ');
+}
+
+/** Path from a ---/+++ header line; null for /dev/null */
+function headerPath(raw: string): string | null {
+  let p = raw.split('\t')[0].trim();
+  if (p.startsWith('"') && p.endsWith('"')) p = p.slice(1, -1);
+  return p === '/dev/null' ? null : p;
+}
+
+/**
+ * Parse a unified diff into per-file hunks. Accepts git diffs (a/ b/ prefixes,
+ * /dev/null for created and deleted files) and bare `@@` hunk headers without
+ * line numbers, which models often produce.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const lines = diff.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+  const files: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  let i = 0;
+
+  while (i < lines.length) {
+    if (isFileHeader(lines, i)) {
+      let oldPath = headerPath(lines[i].slice(4));
+      let newPath = headerPath(lines[i + 1].slice(4));
+      // git prefixes: a/ on the old side, b/ on the new side
+      if ((oldPath === null || oldPath.startsWith('a/')) && (newPath === null || newPath.startsWith('b/'))) {
+        oldPath = oldPath && oldPath.slice(2);
+        newPath = newPath && newPath.slice(2);
+      }
+      const filePath = newPath ?? oldPath;
+      if (!filePath) throw new Error(`Invalid file header at line ${i + 1}: both sides are /dev/null`);
+      current = { path: filePath, kind: oldPath === null ? 'create' : newPath === null ? 'delete' : 'update', hunks: [] };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    if (!lines[i].startsWith('@@')) {
+      // diff --git, index, mode lines, "\ No newline at end of file", commentary
+      i++;
+      continue;
+    }
+    if (!current) throw new Error(`Hunk at line ${i + 1} has no "--- / +++" file header`);
+
+    const header = lines[i].match(HUNK_HEADER);
+    let oldRemaining = header ? (header[2] === undefined ? 1 : Number(header[2])) : Infinity;
+    let newRemaining = header ? (header[4] === undefined ? 1 : Number(header[4])) : Infinity;
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    i++;
+
+    while (i < lines.length && (oldRemaining > 0 || newRemaining > 0)) {
+      const line = lines[i];
+      if (!header && (line.startsWith('@@') || isFileHeader(lines, i) || line.startsWith('diff --git '))) break;
+      if (line.startsWith('\\')) {
+        i++;
+        continue;
+      }
+      const tag = line[0];
+      if (tag === ' ' || line === '') {
+        // Some generators drop the leading space of blank context lines
+        oldLines.push(line.slice(1));
+        newLines.push(line.slice(1));
+        oldRemaining--;
+        newRemaining--;
+      } else if (tag === '-') {
+        oldLines.push(line.slice(1));
+        oldRemaining--;
+      } else if (tag === '+') {
+        newLines.push(line.slice(1));
+        newRemaining--;
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const hunk: PatchHunk = { oldText: oldLines.join('\n'), newText: newLines.join('\n') };
+    if (header) {
+      // For pure insertions (-N,0) the old start is the line the text goes after
+      hunk.startLine = oldLines.length === 0 ? Number(header[1]) + 1 : Number(header[1]);
+    }
+    current.hunks.push(hunk);
+  }
+
+  if (files.length === 0) {
+    throw new Error('No files found in patch. Expected a unified diff with "--- a/<path>" / "+++ b/<path>" headers and @@ hunks');
+  }
+  return files;
+}
+
+/** Structured `hunks` argument → per-file patches (file order preserved) */
+function groupStructuredHunks(hunks: any[]): FilePatch[] {
+  const byPath = new Map<string, FilePatch>();
+  for (const h of hunks) {
+    let file = byPath.get(h.file_path);
+    if (!file) {
+      file = { path: h.file_path, kind: 'update', hunks: [] };
+      byPath.set(h.file_path, file);
+    }
+    file.hunks.push({
+      oldText: h.old_string,
+      newText: h.new_string,
+      ...(typeof h.start_line === 'number' ? { startLine: h.start_line } : {})
+    });
+  }
+  return Array.from(byPath.values());
+}
+
+/** Files a patch touches (for policy matching and logs); empty if it does not parse */
+export function getPatchTargets(args: any): string[] {
+  try {
+    if (typeof args?.patch === 'string') return parseUnifiedDiff(args.patch).map(f => f.path);
+    if (Array.isArray(args?.hunks)) return groupStructuredHunks(args.hunks).map(f => f.path);
+  } catch {
+    // Reported by the tool itself
+  }
+  return [];
+}
+
+// ============================================================================
+// Planning (in memory) and applying
+// ============================================================================
+
+/** Apply one hunk to the in-memory content. hints maps its start line onto the text after earlier hunks */
+function applyHunk(content: string, hunk: PatchHunk, hints: LineHintMap):
+  { content: string; line: number; oldLines: number; newLines: number; strategy: string } | { error: string; details?: any } {
+  const hint = hunk.startLine !== undefined ? hints.toCurrent(hunk.startLine) : undefined;
+
+  if (hunk.oldText === '') {
+    if (content.trim() === '') {
+      return { content: hunk.newText, line: 1, oldLines: content.split('\n').length, newLines: hunk.newText.split('\n').length, strategy: 'empty_file' };
+    }
+    if (hint === undefined) {
+      return { error: 'old_string is empty. Provide the text you want to replace (with 2-3 lines of context).' };
+    }
+    // Pure insertion before line `hint`
+    const lines = content.split('\n');
+    const at = Math.min(hint - 1, lines.length);
+    const inserted = hunk.newText.split('\n');
+    lines.splice(at, 0, ...inserted);
+    return { content: lines.join('\n'), line: at + 1, oldLines: 0, newLines: inserted.length, strategy: 'insertion' };
+  }
+
+  const match = findStringWithStrategies(content, hunk.oldText, hunk.newText, hint);
+  if (!match.found) {
+    return { error: match.error, details: match.details };
+  }
+  if (match.matchCount > 1 && hint === undefined) {
+    return {
+      error: `old text matches ${match.matchCount} locations. Add start_line or include more context to make it unique.`
+    };
+  }
+  const updated = match.normalizedContent.slice(0, match.position) +
+    match.matchedNew +
+    match.normalizedContent.slice(match.position + match.matchedOld.length);
+  return {
+    content: updated,
+    line: match.matchLine,
+    oldLines: match.matchedOld.split('\n').length,
+    newLines: match.matchedNew.split('\n').length,
+    strategy: match.strategy
+  };
+}
+
+async function readText(uri: vscode.Uri): Promise<string | null> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/** Resolve every hunk of every file without writing anything */
+async function planPatch(patches: FilePatch[], workspaceRoot?: string): Promise<PlannedFile[] | { error: string; file?: string; hunk?: number; details?: any }> {
+  const planned = new Map<string, PlannedFile>();
+  const fileTime = getFileTime();
+
+  for (const patch of patches) {
+    const resolved = resolveFilePath(patch.path, workspaceRoot);
+    let file = planned.get(resolved);
+
+    if (!file) {
+      const existing = await readText(vscode.Uri.file(resolved));
+      let kind = patch.kind;
+      // Structured hunks with empty old text on a missing file create it
+      if (kind === 'update' && existing === null && patch.hunks.every(h => h.oldText === '')) kind = 'create';
+
+      if (kind === 'create' && existing !== null) {
+        return { error: `File already exists: ${patch.path}. Patch it with context lines instead of creating it.`, file: patch.path };
+      }
+      if (kind !== 'create') {
+        if (existing === null) {
+          return { error: `File not found: ${patch.path}`, file: patch.path };
+        }
+        const notRead = fileTime.assert(resolved);
+        if (notRead) {
+          return { error: notRead, file: patch.path, details: { hint: `Call read_file({ "file_path": "${patch.path}" }) first, then retry the patch.` } };
+        }
+      }
+      await checkPathSecurity(resolved, workspaceRoot, kind === 'delete' ? 'удаление' : 'изменение');
+
+      file = {
+        rawPath: patch.path,
+        resolved,
+        kind,
+        original: kind === 'create' ? null : existing,
+        content: kind === 'create' ? '' : existing,
+        hunks: 0,
+        strategies: []
+      };
+      planned.set(resolved, file);
+    } else if (file.kind !== 'update' || patch.kind !== 'update') {
+      return { error: `File appears more than once in the patch with conflicting operations: ${patch.path}`, file: patch.path };
+    }
+
+    if (file.kind === 'delete') {
+      file.content = null;
+      continue;
+    }
+
+    if (file.kind === 'create') {
+      // New file: the added lines are the content (unified diffs end files with a newline)
+      file.content = patch.hunks.map(h => h.newText).join('\n');
+      if (patch.kind === 'create' && file.content && !file.content.endsWith('\n')) file.content += '\n';
+      file.hunks = patch.hunks.length;
+      continue;
+    }
+
+    const hints = new LineHintMap();
+    for (let h = 0; h < patch.hunks.length; h++) {
+      const applied = applyHunk(file.content!, patch.hunks[h], hints);
+      if ('error' in applied) {
+        return { error: `Hunk ${h + 1} of ${patch.path}: ${applied.error}`, file: patch.path, hunk: h + 1, details: applied.details };
+      }
+      file.content = applied.content;
+      hints.record(applied.line, applied.oldLines, applied.newLines);
+      file.hunks++;
+      file.strategies.push(applied.strategy);
+    }
+  }
+
+  return Array.from(planned.values());
+}
+
+export async function applyPatchTool(args: any, workspaceRoot?: string): Promise<any> {
+  let patches: FilePatch[];
+  try {
+    if (typeof args?.patch === 'string' && args.patch.trim()) {
+      patches = parseUnifiedDiff(args.patch);
+    } else if (Array.isArray(args?.hunks) && args.hunks.length > 0) {
+      patches = groupStructuredHunks(args.hunks);
+    } else {
+      return { success: false, error: 'apply_patch requires either patch (unified diff) or hunks' };
+    }
+  } catch (e: any) {
+    return { success: false, error: `Invalid patch: ${e?.message || e}` };
+  }
+
+  const plan = await planPatch(patches, workspaceRoot);
+  if (!Array.isArray(plan)) {
+    logger.log(`[apply_patch] Rejected: ${plan.error}`);
+    return {
+      success: false,
+      error: plan.error,
+      ...(plan.file ? { file: plan.file } : {}),
+      ...(plan.hunk ? { hunk: plan.hunk } : {}),
+      ...(plan.details || {}),
+      note: 'Nothing was applied — the patch is all-or-nothing. Fix the failing hunk and resend the whole patch.'
+    };
+  }
+
+  // Write every file; on failure restore the ones already written
+  const written: PlannedFile[] = [];
+  for (const file of plan) {
+    const uri = vscode.Uri.file(file.resolved);
+    try {
+      if (file.content === null) {
+        await vscode.workspace.fs.delete(uri);
+      } else {
+        if (file.original === null) {
+          await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(file.resolved)));
+        }
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(file.content, 'utf8'));
+      }
+      written.push(file);
+    } catch (e: any) {
+      for (const done of written.reverse()) {
+        const doneUri = vscode.Uri.file(done.resolved);
+        try {
+          if (done.original === null) await vscode.workspace.fs.delete(doneUri);
+          else await vscode.workspace.fs.writeFile(doneUri, Buffer.from(done.original, 'utf8'));
+        } catch (restoreErr) {
+          logger.error(`[apply_patch] Failed to restore ${done.resolved}`, restoreErr);
+        }
+      }
+      return {
+        success: false,
+        error: `Failed to write ${file.rawPath}: ${e?.message || e}`,
+        note: 'Files written before the failure were restored — nothing was applied.'
+      };
+    }
+  }
+
+  // One change set for the whole patch
+  const changeSetId = `patch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const snapshotManager = getSnapshotManager();
+  const cache = getContextCache();
+  const files: any[] = [];
+  const syntaxErrors: Record<string, { line: number; message: string }[]> = {};
+
+  for (const file of plan) {
+    cache.invalidate(file.resolved);
+    let stats = { added: 0, removed: 0 };
+
+    if (file.content === null) {
+      const lineCount = file.original!.split('\n').length;
+      await snapshotManager.createSnapshot(file.resolved, 'delete_file', file.original, '', 1, lineCount, changeSetId);
+      stats = { added: 0, removed: lineCount };
+    } else if (file.original === null) {
+      const lineCount = file.content.split('\n').length;
+      const snapshot = await snapshotManager.createSnapshot(file.resolved, 'create_file', null, file.content, 1, lineCount, changeSetId);
+      applySnapshotDecorations(snapshot);
+      stats = { added: lineCount, removed: 0 };
+    } else {
+      const region = getChangedRegion(file.original, file.content);
+      const snapshot = await snapshotManager.createSnapshot(
+        file.resolved, 'edit_file', region.oldText, region.newText, region.startLine, region.endLineNew, changeSetId
+      );
+      applySnapshotDecorations(snapshot);
+      stats = countChangedLines(region.oldText, region.newText);
+    }
+
+    if (file.content !== null) {
+      try {
+        const errors = await checkSyntax(file.resolved);
+        if (errors.length > 0) {
+          syntaxErrors[file.rawPath] = errors.map(e => ({ line: e.line, message: e.message }));
+        }
+      } catch (e) {
+        logger.log(`[apply_patch] Syntax check failed for ${file.rawPath}: ${e}`);
+      }
+    }
+
+    files.push({
+      file: file.rawPath,
+      file_path: file.resolved,
+      action: file.content === null ? 'deleted' : file.original === null ? 'created' : 'updated',
+      hunks: file.hunks,
+      linesAdded: stats.added,
+      linesRemoved: stats.removed,
+      ...(file.strategies.some(s => s !== 'exact') ? { strategies: file.strategies } : {})
+    });
+  }
+
+  const hunkCount = plan.reduce((sum, f) => sum + f.hunks, 0);
+  logger.log(`[apply_patch] Applied ${hunkCount} hunk(s) to ${plan.length} file(s), change set ${changeSetId}`);
+
+  const result: any = {
+    success: true,
+    message: `Patch applied: ${hunkCount} hunk(s) in ${plan.length} file(s)`,
+    change_set: changeSetId,
+    files,
+    files_modified: plan.map(f => f.rawPath)
+  };
+  const broken = Object.keys(syntaxErrors);
+  if (broken.length > 0) {
+    result.syntax_errors = syntaxErrors;
+    result.warning = `⚠️ Patch applied but syntax errors detected in ${broken.join(', ')}. Fix them before continuing.`;
+  }
+  return result;
+}
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'apply_patch',
+    description: `Apply changes to several files at once, all-or-nothing.
+
+Usage:
+- Pass either "patch" (a unified diff) or "hunks" (a list of old_string/new_string replacements, each with its file_path).
+- Use it for cross-file refactors instead of many edit_file calls. For a single edit, edit_file is simpler.
+- Files being changed or deleted MUST be read with read_file first.
+- Unified diff: "--- a/<path>" / "+++ b/<path>" headers, @@ hunks with 2-3 context lines. "--- /dev/null" creates a file, "+++ /dev/null" deletes one.
+- Hunks are matched like edit_file old_string (tolerant to whitespace/indentation drift). If ANY hunk fails, NOTHING is applied — fix that hunk and resend the whole patch.
+- Every changed file is syntax-checked; errors are reported in the result.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        patch: { type: 'string', description: 'Unified diff covering one or more files' },
+        hunks: {
+          type: 'array',
+          description: 'Alternative to patch: replacements across files, applied in order',
+          items: {
+            type: 'object',
+            properties: {
+              file_path: { type: 'string', minLength: 1, description: 'Path to the file' },
+              old_string: { type: 'string', description: 'Exact text to replace (empty + missing file = create it with new_string)' },
+              new_string: { type: 'string', description: 'Replacement text' },
+              start_line: { type: 'integer', description: 'Optional hint: approximate line of old_string' }
+            },
+            required: ['file_path', 'old_string', 'new_string']
+          }
+        }
+      },
+      required: []
+    }
+  },
+  aliases: [
+    'apply_diff', 'multi_edit', 'patch_files'
+  ],
+  destructive: true,
+  validate: (args) => {
+    const hasPatch = typeof args.patch === 'string' && args.patch.trim() !== '';
+    const hasHunks = Array.isArray(args.hunks) && args.hunks.length > 0;
+    if (hasPatch === hasHunks) {
+      return 'apply_patch requires exactly one of: patch (unified diff string) or hunks (array of { file_path, old_string, new_string })';
+    }
+    return null;
+  },
+  summarizeArgs: (args) => ({ files: getPatchTargets(args), patch_len: args.patch?.length, hunks: args.hunks?.length }),
+  // Rules match every touched file as a path, e.g. "apply_patch: \"src/generated/**\" deny"
+  writeTargets: getPatchTargets,
+  execute: (args, ctx) => applyPatchTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    if (!result?.success) {
+      const filePath = result?.file || getPatchTargets(args)[0] || 'patch';
+      const fileAction: MessageAction = {
+        type: 'edit_file',
+        fileName: filePath.split(/[/\\]/).pop() || filePath,
+        filePath,
+        success: false,
+        error: result?.error
+      };
+      postMessage({ type: 'fileEditAction', id: messageId, fileAction });
+      return fileAction;
+    }
+
+    return (result.files as any[]).map(f => {
+      const fileName = f.file_path.split(/[/\\]/).pop() || f.file_path;
+      if (f.action === 'created') {
+        const fileAction: MessageAction = { type: 'create_file', fileName, filePath: f.file_path, success: true };
+        postMessage({ type: 'fileCreateAction', id: messageId, fileAction });
+        return fileAction;
+      }
+      if (f.action === 'deleted') {
+        const fileAction: MessageAction = { type: 'delete_file', fileName, filePath: f.file_path, success: true };
+        postMessage({ type: 'fileDeleteAction', id: messageId, fileAction });
+        return fileAction;
+      }
+      const fileAction: MessageAction = {
+        type: 'edit_file',
+        fileName,
+        filePath: f.file_path,
+        success: true,
+        linesAdded: f.linesAdded,
+        linesRemoved: f.linesRemoved
+      };
+      postMessage({ type: 'fileEditAction', id: messageId, fileAction });
+      return fileAction;
+    });
+  }
+});
@@ -0,0 +1,46 @@
+/**
+ * askUserTool.ts — ask_user tool spec.
+ *
+ * The tool pauses the agent loop until the user answers in the chat UI, so it
+ * is executed directly in agentLoop.ts (requestUserQuestion callback).
+ */
+
+import { registerTool } from '../toolRegistry';
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'ask_user',
+    description: `Ask the user a clarifying question and wait for their answer before continuing.
+
+Use this when:
+- The task is ambiguous and proceeding without clarification could waste effort or produce the wrong result.
+- The user needs to choose between two or more approaches.
+- You need a preference, value, or confirmation you cannot infer from context.
+
+Guidelines:
+- Keep the question concise and direct.
+- Provide 2-3 short option labels that cover the most likely answers.
+- The user can also type a custom answer — options are suggestions, not a forced choice.
+- Do NOT use this for trivial decisions you can make yourself.
+- Do NOT ask more than one question per call.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        question: {
+          type: 'string',
+          description: 'The question to ask. Be concise and specific.'
+        },
+        options: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 2,
+          maxItems: 3,
+          description: '2-3 short suggested answers the user can click. They may also type a custom response.'
+        }
+      },
+      required: ['question', 'options']
+    }
+  },
+});
@@ -6,7 +6,21 @@
  * generic executeTool dispatcher.
  */
 
-import { CommitManager, CommitMeta } from '../../Storage/commitManager';
+import { CommitManager, CommitMeta, CommitFileDiff } from '../../Storage/commitManager';
+import { registerTool } from '../toolRegistry';
+
+/** Changed file as returned by get_commit diff (rendered by the webview card) */
+export type CommitDiffFile = Pick<CommitFileDiff, 'file' | 'status' | 'added' | 'removed' | 'oldPath' | 'newPath'>;
+
+/** Total diff text returned to the model; remaining files are listed by name only */
+const MAX_DIFF_OUTPUT_CHARS = 30000;
+
+const STATUS_LETTERS: Record<CommitFileDiff['status'], string> = {
+  unchanged: ' ',
+  modified: 'M',
+  new: 'A',
+  deleted: 'D',
+};
 
 function formatSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
@@ -83,19 +97,23 @@ export async function executeAddCommit(
 // ── get_commit ──────────────────────────────────────────────────────────────
 
 export async function executeGetCommit(
-  args: { action: 'list' | 'restore' | 'delete' | 'diff'; commitId?: string },
+  args: { action: 'list' | 'restore' | 'delete' | 'diff'; commitId?: string; compareTo?: string; files?: string[] },
   workspaceRoot: string,
   sessionId: string,
   commitManager: CommitManager
-): Promise<{ success: boolean; message: string }> {
+): Promise<{ success: boolean; message: string; files?: CommitDiffFile[] }> {
   const action = (args.action || 'list').toLowerCase() as typeof args.action;
 
   if (action === 'list') {
     try {
       const commits = await commitManager.listCommits(sessionId);
+      const usage = await commitManager.getStorageUsage();
       return {
         success: true,
-        message: `Session commits (${commits.length} total):\n\n${renderCommitList(commits)}`
+        message:
+          `Session commits (${commits.length} total):\n\n${renderCommitList(commits)}\n\n` +
+          `Checkpoint storage (all sessions): ${usage.commits} commits, ${formatSize(usage.diskSize)} on disk ` +
+          `(${formatSize(usage.logicalSize)} without deduplication)`
       };
     } catch (err: any) {
       return { success: false, message: `ERROR listing commits: ${err.message}` };
@@ -112,11 +130,11 @@ export async function executeGetCommit(
       return { success: false, message: 'ERROR: No workspace folder open' };
     }
     try {
-      const restored = await commitManager.restoreCommit(sessionId, args.commitId, workspaceRoot);
+      const restored = await commitManager.restoreCommit(sessionId, args.commitId, workspaceRoot, args.files);
       return {
         success: true,
         message:
-          `✓ Restored ${restored.length} files from commit "${args.commitId}".\n` +
+          `✓ Restored ${restored.length} ${args.files?.length ? 'selected ' : ''}files from commit "${args.commitId}".\n` +
           `Restored files:\n` +
           restored.slice(0, 30).map(f => `  • ${f}`).join('\n') +
           (restored.length > 30 ? `\n  … and ${restored.length - 30} more` : '')
@@ -141,27 +159,40 @@ export async function executeGetCommit(
   }
 
   if (action === 'diff') {
-    if (!workspaceRoot) {
+    if (!workspaceRoot && !args.compareTo) {
       return { success: false, message: 'ERROR: No workspace folder open' };
     }
     try {
-      const diffs = await commitManager.diffCommit(sessionId, args.commitId, workspaceRoot);
-      const modified = diffs.filter(d => d.status === 'modified');
-      const deleted = diffs.filter(d => d.status === 'deleted');
-      const unchanged = diffs.filter(d => d.status === 'unchanged');
-
-      let out = `Diff for commit "${args.commitId}":\n\n`;
-      out += `  ${modified.length} modified, ${deleted.length} deleted, ${unchanged.length} unchanged\n\n`;
-      if (modified.length) {
-        out += `Modified:\n` + modified.map(d => `  M  ${d.file}`).join('\n') + '\n\n';
+      const diffs = await commitManager.diffCommit(sessionId, args.commitId, workspaceRoot, { against: args.compareTo });
+      const changed = diffs.filter(d => d.status !== 'unchanged');
+      const count = (status: CommitFileDiff['status']) => diffs.filter(d => d.status === status).length;
+      const target = args.compareTo ? `commit "${args.compareTo}"` : 'workspace';
+
+      let out = `Diff for commit "${args.commitId}" vs ${target}:\n\n`;
+      out += `  ${count('modified')} modified, ${count('new')} new, ${count('deleted')} deleted, ${count('unchanged')} unchanged\n\n`;
+      if (!changed.length) {
+        out += args.compareTo ? 'Both commits contain the same files.' : 'All files match the commit snapshot.';
+        return { success: true, message: out.trim(), files: [] };
       }
-      if (deleted.length) {
-        out += `Deleted (from workspace):\n` + deleted.map(d => `  D  ${d.file}`).join('\n') + '\n\n';
+
+      out += changed.map(d => `  ${STATUS_LETTERS[d.status]}  ${d.file} (+${d.added} -${d.removed})`).join('\n') + '\n\n';
+      const omitted: string[] = [];
+      for (const d of changed) {
+        if (out.length + d.diff.length > MAX_DIFF_OUTPUT_CHARS) {
+          omitted.push(d.file);
+          continue;
+        }
+        out += d.diff + (d.truncated ? '\n… diff truncated' : '') + '\n\n';
       }
-      if (!modified.length && !deleted.length) {
-        out += 'All files match the commit snapshot.';
+      if (omitted.length) {
+        out += `Diff output limit reached; not shown: ${omitted.join(', ')}. Use read_file to inspect them.`;
       }
-      return { success: true, message: out.trim() };
+
+      return {
+        success: true,
+        message: out.trim(),
+        files: changed.map(({ file, status, added, removed, oldPath, newPath }) => ({ file, status, added, removed, oldPath, newPath }))
+      };
     } catch (err: any) {
       return { success: false, message: `ERROR diffing: ${err.message}` };
     }
@@ -172,3 +203,88 @@ export async function executeGetCommit(
     message: `ERROR: Unknown action "${action}". Valid actions: list, restore, delete, diff`
   };
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'add_commit',
+    description: `Create a checkpoint by backing up the current state of files in the workspace.
+
+Use this BEFORE large refactoring or destructive changes so you can restore a known-good state later.
+Think of it like "git commit" — but without requiring git; backups are stored in a deduplicated store, so unchanged files cost no extra space.
+
+After creating a commit you can restore it with: get_commit(action="restore", commitId="<id>")`,
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Short descriptive name for this checkpoint, e.g. "Before refactoring agent loop"'
+        },
+        scope: {
+          type: 'string',
+          description: 'Path relative to workspace root to back up. Use "." for the entire workspace, or a subfolder like "src/Engine". Directories like node_modules and .git are always skipped.'
+        }
+      },
+      required: ['name', 'scope']
+    }
+  },
+  // Executed by agentLoop (needs sessionId + CommitManager)
+});
+
+registerTool({
+  spec: {
+    name: 'get_commit',
+    description: `Manage session commits (checkpoints). Supports four actions:
+
+- "list"    — Show all commits for the current session (id, name, scope, date, file count).
+- "restore" — Overwrite workspace files with the contents from a commit. Requires commitId. Pass files to restore only some files or folders.
+- "delete"  — Permanently delete a commit to free space. Requires commitId.
+- "diff"    — Show git-style line diffs between a commit and the current workspace (including files created since the commit), or between two commits with compareTo. Requires commitId.
+
+Always call get_commit(action="list") first to see available commit IDs.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'restore', 'delete', 'diff'],
+          description: 'Operation to perform'
+        },
+        commitId: {
+          type: 'string',
+          description: 'Commit ID (required for restore, delete, diff). Get IDs via action="list".'
+        },
+        files: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'For action="restore": workspace-relative files or folders to restore (default: the whole commit).'
+        },
+        compareTo: {
+          type: 'string',
+          description: 'For action="diff": second commit ID to compare against instead of the workspace (shows changes from commitId to compareTo).'
+        }
+      },
+      required: ['action']
+    }
+  },
+  destructive: true,
+  // Executed by agentLoop (needs sessionId + CommitManager)
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    if ((args.action || '').toLowerCase() !== 'diff' || !result?.success) return;
+    postMessage({
+      type: 'commitDiffResult',
+      id: messageId,
+      commitId: args.commitId,
+      compareTo: args.compareTo || '',
+      files: result.files || []
+    });
+    return {
+      type: 'tool',
+      name: 'get_commit',
+      success: true,
+      summary: `diff ${args.commitId}: ${(result.files || []).length} changed`
+    };
+  }
+});
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { logger } from '../../logger';
 import { diagnose, formatDiagnosticResult } from '../diagnosticsEngine';
+import { registerTool } from '../toolRegistry';
+import { resolveFilePath } from './toolUtils';
 
 /**
  * Fast diagnostics tool — check file for errors.
@@ -12,17 +13,7 @@ export async function diagnoseTool(args: any, workspaceRoot?: string): Promise<a
   }
   
   // Resolve path
-  let filePath = args.file;
-  if (!path.isAbsolute(filePath)) {
-    if (workspaceRoot) {
-      filePath = path.join(workspaceRoot, filePath);
-    } else {
-      const folders = vscode.workspace.workspaceFolders;
-      if (folders && folders.length > 0) {
-        filePath = path.resolve(folders[0].uri.fsPath, filePath);
-      }
-    }
-  }
+  const filePath = resolveFilePath(args.file, workspaceRoot);
   logger.log(`[DIAGNOSE] Resolved path: ${filePath}`);
   
   // Check file exists
@@ -58,3 +49,24 @@ export async function diagnoseTool(args: any, workspaceRoot?: string): Promise<a
     errors: result.errors
   };
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'diagnose',
+    description: `Check file for errors. Returns errors with ±5 lines of code context. Use after editing to verify changes.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', minLength: 1, description: 'Path to file to check' }
+      },
+      required: ['file']
+    }
+  },
+  aliases: [
+    'get_diagnostics', 'check_errors'
+  ],
+  readOnly: true,
+  execute: (args, ctx) => diagnoseTool(args, ctx.workspaceRoot)
+});
@@ -1,17 +1,19 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { getSnapshotManager } from '../../Storage/snapshotManager';
 import { applySnapshotDecorations } from '../../Storage/snapshotDecorations';
 import { logger } from '../../logger';
 import { getContextCache, getFileTime } from '../SystemContext/contextCache';
 import { diagnose, formatDiagnosticResult } from '../diagnosticsEngine';
 import { findStringWithStrategies, fixEscapeSequences } from '../stringMatcher';
+import { registerTool } from '../toolRegistry';
+import { resolveFilePath, getChangedRegion, LineHintMap } from './toolUtils';
+import type { MessageAction } from '../../Storage/storageManager';
 
 // ============================================================================
 // edit_file - Simple and reliable file editing
 // ============================================================================
 
-interface EditResult {
+export interface EditResult {
   line: number;       // Actual line where edit was applied
   old_text: string;
   new_text: string;
@@ -27,19 +29,7 @@ export async function editFileTool(args: any, workspaceRoot?: string) {
   
   // Resolve file path
   const rawPath = args.file_path;
-  let resolvedPath: string;
-  if (path.isAbsolute(rawPath)) {
-    resolvedPath = rawPath;
-  } else if (workspaceRoot) {
-    resolvedPath = path.resolve(workspaceRoot, rawPath);
-  } else {
-    const folders = vscode.workspace.workspaceFolders;
-    if (folders && folders.length > 0) {
-      resolvedPath = path.resolve(folders[0].uri.fsPath, rawPath);
-    } else {
-      resolvedPath = rawPath;
-    }
-  }
+  const resolvedPath = resolveFilePath(rawPath, workspaceRoot);
   
   const uri = vscode.Uri.file(resolvedPath);
   
@@ -71,6 +61,11 @@ export async function editFileTool(args: any, workspaceRoot?: string) {
   const originalContent = fileContent;
   const startLineHint = typeof args.start_line === 'number' ? args.start_line : undefined;
   
+  // BATCH: several old_string/new_string edits written once
+  if (Array.isArray(args.edits)) {
+    return await applyBatchEdits(resolvedPath, rawPath, originalContent, args.edits, uri);
+  }
+
   // PRIMARY: old_string/new_string format (with optional start_line hint)
   const oldStr = args.old_string ?? args.oldString;
   const newStr = args.new_string ?? args.newString;
@@ -85,7 +80,7 @@ export async function editFileTool(args: any, workspaceRoot?: string) {
   
   return { 
     success: false, 
-    error: 'edit_file requires: file_path, old_string, new_string',
+    error: 'edit_file requires: file_path, old_string, new_string (or edits)',
     hint: 'Use: edit_file({ file_path: "...", old_string: "text to find", new_string: "replacement text" })'
   };
 }
@@ -360,11 +355,118 @@ async function applyReplaceString(
   }
 }
 
+/**
+ * Apply several old_string/new_string edits in order, each against the content
+ * produced by the previous ones. All-or-nothing: the file is written once
+ * (one snapshot, one diagnostics pass) only if every edit matched.
+ */
+async function applyBatchEdits(
+  resolvedPath: string,
+  rawPath: string,
+  originalContent: string,
+  edits: any[],
+  uri: vscode.Uri
+): Promise<any> {
+  if (edits.length === 0) {
+    return { success: false, error: 'edits must contain at least one { old_string, new_string } item' };
+  }
+  logger.log(`[edit_file] Batch mode: ${edits.length} edit(s)`);
+
+  const totalFileLines = originalContent.split('\n').length;
+  const applied: { edit: number; line: number; strategy: string; note?: string }[] = [];
+  const editResults: EditResult[] = [];
+  let content = originalContent;
+  const hints = new LineHintMap(); // start_line hints point at the original text
+
+  for (let i = 0; i < edits.length; i++) {
+    const edit = edits[i] ?? {};
+    const oldString = edit.old_string ?? edit.oldString;
+    const newString = edit.new_string ?? edit.newString;
+    const fail = (error: string, details?: any) => {
+      logger.log(`[edit_file] Batch rejected at edit ${i + 1}/${edits.length}: ${error}`);
+      return {
+        success: false,
+        error: `Edit ${i + 1} of ${edits.length}: ${error}`,
+        failed_edit: i + 1,
+        ...details,
+        note: 'Nothing was written — batched edits are all-or-nothing. Fix the failing edit and resend the whole batch.'
+      };
+    };
+
+    if (typeof oldString !== 'string' || typeof newString !== 'string') {
+      return fail('old_string and new_string must be strings');
+    }
+    if (totalFileLines > 100 &&
+        (oldString.split('\n').length / totalFileLines >= 0.9 || newString.split('\n').length / totalFileLines >= 0.9)) {
+      return fail('replaces nearly the entire file. Make targeted edits of 20-80 lines each.');
+    }
+
+    if (oldString === '') {
+      if (content.trim() !== '') {
+        return fail('old_string is empty. Provide the text you want to replace (with 2-3 lines of context).');
+      }
+      hints.record(1, content.split('\n').length, newString.split('\n').length);
+      editResults.push({ line: 1, old_text: content, new_text: newString, success: true });
+      applied.push({ edit: i + 1, line: 1, strategy: 'empty_file' });
+      content = newString;
+      continue;
+    }
+
+    const hint = typeof edit.start_line === 'number' ? hints.toCurrent(edit.start_line) : undefined;
+    const match = findStringWithStrategies(content, oldString, newString, hint);
+    if (!match.found) {
+      return fail(match.error, match.details);
+    }
+    if (match.matchCount > 1 && hint === undefined) {
+      return fail(`old_string matches ${match.matchCount} locations. Add start_line hint or include more context to make it unique.`);
+    }
+
+    // Splice at the matched position — a hint may have picked a later occurrence
+    content = match.normalizedContent.slice(0, match.position) +
+      match.matchedNew +
+      match.normalizedContent.slice(match.position + match.matchedOld.length);
+    hints.record(match.matchLine, match.matchedOld.split('\n').length, match.matchedNew.split('\n').length);
+    editResults.push({ line: match.matchLine, old_text: match.matchedOld, new_text: match.matchedNew, success: true });
+    applied.push({
+      edit: i + 1,
+      line: match.matchLine,
+      strategy: match.strategy,
+      ...(match.matchCount > 1 ? { note: `${match.matchCount} matches found, picked closest to hint line ${hint}` } : {})
+    });
+  }
+
+  logger.log(`[edit_file] Batch matched: ${applied.map(a => `#${a.edit}@L${a.line}(${a.strategy})`).join(', ')}`);
+
+  try {
+    const stats = await writeFileAndNotify(resolvedPath, rawPath, originalContent, content, uri, editResults);
+
+    const result: any = {
+      success: true,
+      message: `Applied ${applied.length} edit(s) (strategies: ${Array.from(new Set(applied.map(a => a.strategy))).join(', ')})`,
+      file: rawPath,
+      line: Math.min(...applied.map(a => a.line)),
+      edits: applied,
+      linesAdded: stats.linesAdded,
+      linesRemoved: stats.linesRemoved
+    };
+
+    if (stats.diagnostics?.has_errors) {
+      result.diagnostics = stats.diagnostics;
+      result.warning = `⚠️ Edits applied but ${stats.diagnostics.error_count} error(s) detected! Fix them before continuing.`;
+    }
+
+    return result;
+  } catch (e: any) {
+    return { success: false, error: `Failed to write file: ${e?.message || e}` };
+  }
+}
+
 /**
  * Write file, create snapshot, invalidate cache, run diagnostics
- * Returns statistics about the edit (linesAdded, linesRemoved) + diagnostics
+ * Returns statistics about the edit (linesAdded, linesRemoved) + diagnostics.
+ * Shared with structural_edit so both tools go through the same pipeline.
  */
-async function writeFileAndNotify(
+export async function writeFileAndNotify(
   resolvedPath: string,
   rawPath: string,
   originalContent: string,
@@ -381,40 +483,7 @@ async function writeFileAndNotify(
   const successfulEdits = editResults.filter(e => e.success);
   
   // Calculate the actual changed region by comparing original and new content
-  const originalLines = originalContent.split(/\r?\n/);
-  const newLines = newContent.split(/\r?\n/);
-  
-  // Find the actual start and end of changes by comparing lines
-  let startLine = 1;
-  let endLineOld = originalLines.length;
-  let endLineNew = newLines.length;
-  
-  // Find first different line
-  for (let i = 0; i < Math.min(originalLines.length, newLines.length); i++) {
-    if (originalLines[i] !== newLines[i]) {
-      startLine = i + 1; // 1-based
-      break;
-    }
-  }
-  
-  // Find last different line (from end)
-  let diffFromEnd = 0;
-  for (let i = 0; i < Math.min(originalLines.length, newLines.length); i++) {
-    const oldIdx = originalLines.length - 1 - i;
-    const newIdx = newLines.length - 1 - i;
-    if (oldIdx < startLine - 1 || newIdx < startLine - 1) break;
-    if (originalLines[oldIdx] !== newLines[newIdx]) {
-      break;
-    }
-    diffFromEnd = i + 1;
-  }
-  
-  endLineOld = originalLines.length - diffFromEnd;
-  endLineNew = newLines.length - diffFromEnd;
-  
-  // Extract changed regions
-  const oldChangedLines = originalLines.slice(startLine - 1, endLineOld).join('\n');
-  const newChangedLines = newLines.slice(startLine - 1, endLineNew).join('\n');
+  const { startLine, endLineNew, oldText: oldChangedLines, newText: newChangedLines } = getChangedRegion(originalContent, newContent);
   
   // Calculate line statistics
   const oldLineCount = oldChangedLines.split('\n').length;
@@ -493,3 +562,90 @@ async function writeFileAndNotify(
     diagnostics: diagnosticsResult
   };
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'edit_file',
+    description: `Performs exact string replacement in an existing file.
+
+Usage:
+- You MUST use read_file at least once before editing. This tool will error if you haven't read the file first.
+- When using text from read_file output, preserve exact indentation. The line number prefix format is "N: content" — never include the line number prefix in old_string or new_string.
+- ALWAYS prefer editing existing files. NEVER create new files unless explicitly required.
+- old_string must match exactly in the file. Include 2-3 surrounding lines for unique matching.
+- The edit will FAIL if old_string is not found ("old_string not found in content").
+- The edit will FAIL if old_string matches multiple locations. Provide more surrounding context to make it unique, or add start_line hint.
+- Keep each edit focused: change only the specific lines that need changing.
+- To make several changes in one file, pass edits: [{ old_string, new_string, start_line? }, ...] instead of old_string/new_string. Edits apply in order, each to the result of the previous ones; if any edit fails, nothing is written.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', minLength: 1, description: 'Path to existing file' },
+        old_string: { type: 'string', description: 'Exact text to find and replace. Include surrounding context for uniqueness.' },
+        new_string: { type: 'string', description: 'Replacement text. Use empty string to delete.' },
+        start_line: { type: 'integer', description: 'Optional hint: approximate line number where old_string is located. Helps if multiple matches.' },
+        edits: {
+          type: 'array',
+          description: 'Several replacements in this file, applied in order (use instead of old_string/new_string).',
+          items: {
+            type: 'object',
+            properties: {
+              old_string: { type: 'string', description: 'Exact text to find (in the file as changed by the previous edits).' },
+              new_string: { type: 'string', description: 'Replacement text.' },
+              start_line: { type: 'integer', description: 'Optional line hint in the file as you read it.' }
+            },
+            required: ['old_string', 'new_string']
+          }
+        }
+      },
+      required: ['file_path']
+    }
+  },
+  aliases: [
+    'update_file', 'modify_file', 'replace_in_file', 'replace_string_in_file',
+    'str_replace_editor', 'patch_file', 'apply_edit'
+  ],
+  destructive: true,
+  // The executor also accepts camelCase keys and the legacy line-range format
+  // (start_line + end_line + content), so only file_path is schema-required.
+  validationSchema: {
+    type: 'object',
+    properties: {
+      file_path: { type: 'string', minLength: 1 },
+      start_line: { type: 'integer' },
+      edits: { type: 'array', minItems: 1, items: { type: 'object' } }
+    },
+    required: ['file_path']
+  },
+  validate: (args) => {
+    const hasOldNew = typeof (args.old_string ?? args.oldString) === 'string' && typeof (args.new_string ?? args.newString) === 'string';
+    const hasLineRange = typeof args.start_line === 'number' && typeof args.end_line === 'number' && typeof args.content === 'string';
+    if (Array.isArray(args.edits)) {
+      return hasOldNew ? 'edit_file accepts either edits or old_string + new_string, not both' : null;
+    }
+    if (!hasOldNew && !hasLineRange) {
+      return 'edit_file requires (old_string + new_string) or edits. Use read_file to see the file first, then provide exact text in old_string and replacement in new_string.';
+    }
+    return null;
+  },
+  execute: (args, ctx) => editFileTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    // Use resolved path from result if available, otherwise fall back to args
+    const filePath = result?.file || args.file_path || '';
+    const fileName = filePath.split(/[/\\]/).pop() || filePath;
+    const fileAction: MessageAction = {
+      type: 'edit_file',
+      fileName,
+      filePath,
+      success: result && !result.error,
+      error: result?.error,
+      linesAdded: result?.linesAdded,
+      linesRemoved: result?.linesRemoved,
+      startLine: result?.line
+    };
+    postMessage({ type: 'fileEditAction', id: messageId, fileAction });
+    return fileAction;
+  }
+});
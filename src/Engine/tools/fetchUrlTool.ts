@@ -1,43 +1,113 @@
 import * as https from 'https';
 import * as http from 'http';
 import { URL } from 'url';
+import { registerTool } from '../toolRegistry';
+import { extractReadableContent } from './htmlToMarkdown';
 
-/**
- * Fetch a URL via HTTP/HTTPS GET. Returns status code, headers, and body.
- * Useful for checking if a dev server is running, debugging web apps, etc.
- */
-export async function fetchUrlTool(args: any): Promise<any> {
-  if (!args || typeof args.url !== 'string') {
-    return { error: 'fetch_url requires url (string)' };
+export type FetchFormat = 'markdown' | 'text' | 'raw';
+
+const FETCH_FORMATS: FetchFormat[] = ['markdown', 'text', 'raw'];
+const DEFAULT_MAX_CHARS = 20000;
+const MAX_CHARS_LIMIT = 100000;
+const MAX_DOWNLOAD_BYTES = 5 * 1024 * 1024; // 5MB, paginated with offset/max_chars
+const TEXT_CONTENT_TYPE = /^text\/|json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql|yaml|toml|csv/i;
+
+interface RawResponse {
+  statusCode?: number;
+  statusMessage?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+  downloadTruncated: boolean;
+}
+
+// ── JSONPath ─────────────────────────────────────────────────────────────────
+
+type JsonPathStep =
+  | { kind: 'key'; key: string; deep: boolean }
+  | { kind: 'index'; index: number; deep: boolean }
+  | { kind: 'slice'; start?: number; end?: number; deep: boolean }
+  | { kind: 'wildcard'; deep: boolean };
+
+function parseJsonPath(path: string): JsonPathStep[] {
+  let rest = path.trim().replace(/^\$/, '');
+  const steps: JsonPathStep[] = [];
+  while (rest) {
+    const dot = rest.match(/^(\.\.?)(\*|[A-Za-z_$][\w$-]*)/);
+    if (dot) {
+      const deep = dot[1] === '..';
+      steps.push(dot[2] === '*' ? { kind: 'wildcard', deep } : { kind: 'key', key: dot[2], deep });
+      rest = rest.slice(dot[0].length);
+      continue;
+    }
+    const bracket = rest.match(/^(\.\.)?\[\s*(?:(\*)|(-?\d+)|(-?\d*)\s*:\s*(-?\d*)|'([^']*)'|"([^"]*)")\s*\]/);
+    if (!bracket) throw new Error(`Invalid JSONPath near "${rest}" (supported: $.key, $['key'], [0], [-1], [1:3], [*], .*, ..key)`);
+    const deep = !!bracket[1];
+    if (bracket[2]) steps.push({ kind: 'wildcard', deep });
+    else if (bracket[3] !== undefined) steps.push({ kind: 'index', index: parseInt(bracket[3], 10), deep });
+    else if (bracket[6] !== undefined || bracket[7] !== undefined) steps.push({ kind: 'key', key: (bracket[6] ?? bracket[7])!, deep });
+    else steps.push({ kind: 'slice', start: bracket[4] ? parseInt(bracket[4], 10) : undefined, end: bracket[5] ? parseInt(bracket[5], 10) : undefined, deep });
+    rest = rest.slice(bracket[0].length);
   }
+  return steps;
+}
 
-  const urlStr = args.url;
-  let parsedUrl: URL;
-  try {
-    parsedUrl = new URL(urlStr);
-  } catch {
-    return { error: `Invalid URL: ${urlStr}` };
+function descendants(value: any, out: any[] = []): any[] {
+  out.push(value);
+  if (value && typeof value === 'object') {
+    for (const child of Array.isArray(value) ? value : Object.values(value)) descendants(child, out);
   }
+  return out;
+}
 
-  if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-    return { error: `Only HTTP and HTTPS URLs are supported. Got: ${parsedUrl.protocol}` };
+function applyStep(value: any, step: JsonPathStep): any[] {
+  if (!value || typeof value !== 'object') return [];
+  switch (step.kind) {
+    case 'key':
+      return Object.prototype.hasOwnProperty.call(value, step.key) ? [value[step.key]] : [];
+    case 'wildcard':
+      return Array.isArray(value) ? value : Object.values(value);
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const i = step.index < 0 ? value.length + step.index : step.index;
+      return i >= 0 && i < value.length ? [value[i]] : [];
+    }
+    case 'slice':
+      return Array.isArray(value) ? value.slice(step.start, step.end) : [];
   }
+}
 
-  const method = ((args.method as string) || 'GET').toUpperCase();
-  const timeoutMs = Math.min(args.timeout_ms || 10000, 30000);
-  const maxBodySize = 50000; // 50KB max
+/**
+ * Select values from parsed JSON with a JSONPath subset.
+ * A definite path (only keys and indexes) yields a single value, otherwise a list.
+ */
+export function selectJsonPath(data: any, path: string): { matches: any[]; definite: boolean } {
+  const steps = parseJsonPath(path);
+  let current = [data];
+  for (const step of steps) {
+    current = current.flatMap(value => (step.deep ? descendants(value) : [value]).flatMap(v => applyStep(v, step)));
+  }
+  const definite = steps.every(s => !s.deep && (s.kind === 'key' || s.kind === 'index'));
+  return { matches: current, definite };
+}
 
-  return new Promise<any>((resolve) => {
+// ── Content processing ───────────────────────────────────────────────────────
+
+/** Page of long content; the cut is moved back to a line break when one is close */
+export function paginate(content: string, offset: number, maxChars: number): { text: string; nextOffset: number | null } {
+  const start = Math.min(Math.max(0, offset), content.length);
+  let end = Math.min(start + maxChars, content.length);
+  if (end < content.length) {
+    const lineBreak = content.lastIndexOf('\n', end);
+    if (lineBreak > start + maxChars * 0.8) end = lineBreak + 1;
+  }
+  return { text: content.slice(start, end), nextOffset: end < content.length ? end : null };
+}
+
+function sendRequest(parsedUrl: URL, method: string, headers: Record<string, string>, body: string | undefined, timeoutMs: number): Promise<RawResponse> {
+  return new Promise<RawResponse>((resolve, reject) => {
     const client = parsedUrl.protocol === 'https:' ? https : http;
 
-    const reqOptions: http.RequestOptions = {
-      method,
-      timeout: timeoutMs,
-      headers: {
-        'User-Agent': 'Ashibalt-AI/1.0',
-        'Accept': 'text/html,application/json,text/plain,*/*'
-      }
-    };
+    const reqOptions: http.RequestOptions = { method, timeout: timeoutMs, headers };
 
     // Allow self-signed certs for localhost dev servers
     if (parsedUrl.protocol === 'https:' && (parsedUrl.hostname === 'localhost' || parsedUrl.hostname === '127.0.0.1')) {
@@ -45,61 +115,216 @@ export async function fetchUrlTool(args: any): Promise<any> {
     }
 
     const req = client.request(parsedUrl, reqOptions, (res) => {
-      let body = '';
-      let truncated = false;
-
-      res.setEncoding('utf8');
-      res.on('data', (chunk: string) => {
-        if (body.length < maxBodySize) {
-          body += chunk;
-          if (body.length > maxBodySize) {
-            body = body.slice(0, maxBodySize);
-            truncated = true;
-          }
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let downloadTruncated = false;
+
+      res.on('data', (chunk: Buffer) => {
+        if (size >= MAX_DOWNLOAD_BYTES) {
+          downloadTruncated = true;
+          return;
         }
+        chunks.push(chunk);
+        size += chunk.length;
       });
 
       res.on('end', () => {
-        // Extract important headers
-        const headers: Record<string, string> = {};
-        const importantHeaders = ['content-type', 'content-length', 'server', 'location', 'x-powered-by'];
-        for (const h of importantHeaders) {
-          if (res.headers[h]) {
-            headers[h] = Array.isArray(res.headers[h]) ? (res.headers[h] as string[]).join('; ') : String(res.headers[h]);
-          }
+        let data = Buffer.concat(chunks);
+        if (data.length > MAX_DOWNLOAD_BYTES) {
+          data = data.subarray(0, MAX_DOWNLOAD_BYTES);
+          downloadTruncated = true;
         }
-
-        resolve({
-          success: true,
-          status_code: res.statusCode,
-          status_message: res.statusMessage,
-          headers,
-          body,
-          truncated,
-          body_length: body.length,
-          url: urlStr
-        });
-      });
-    });
-
-    req.on('error', (err) => {
-      resolve({
-        success: false,
-        error: err.message,
-        url: urlStr,
-        hint: 'Connection failed. Is the server running? Check the URL and port.'
+        resolve({ statusCode: res.statusCode, statusMessage: res.statusMessage, headers: res.headers, body: data, downloadTruncated });
       });
     });
 
+    req.on('error', reject);
     req.on('timeout', () => {
       req.destroy();
-      resolve({
-        success: false,
-        error: `Request timed out after ${timeoutMs}ms`,
-        url: urlStr
-      });
+      reject(new Error(`Request timed out after ${timeoutMs}ms`));
     });
 
+    if (body !== undefined) req.write(body);
     req.end();
   });
 }
+
+/**
+ * Fetch a URL via HTTP/HTTPS. Returns status code, headers, and the body —
+ * readable Markdown/text for HTML pages, pretty-printed (optionally
+ * JSONPath-selected) JSON, paginated with offset/max_chars.
+ * Useful for checking if a dev server is running, debugging web apps, calling API endpoints.
+ */
+export async function fetchUrlTool(args: any): Promise<any> {
+  if (!args || typeof args.url !== 'string') {
+    return { error: 'fetch_url requires url (string)' };
+  }
+
+  const urlStr = args.url;
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(urlStr);
+  } catch {
+    return { error: `Invalid URL: ${urlStr}` };
+  }
+
+  if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+    return { error: `Only HTTP and HTTPS URLs are supported. Got: ${parsedUrl.protocol}` };
+  }
+
+  const format = ((args.format as string) || 'markdown').toLowerCase() as FetchFormat;
+  if (!FETCH_FORMATS.includes(format)) {
+    return { error: `Unknown format "${args.format}". Use one of: ${FETCH_FORMATS.join(', ')}` };
+  }
+
+  // Request body: `json` is serialized, `body` is sent as is
+  const hasJson = args.json !== undefined && args.json !== null;
+  const body: string | undefined = hasJson ? JSON.stringify(args.json) : (typeof args.body === 'string' ? args.body : undefined);
+  const method = ((args.method as string) || (body !== undefined ? 'POST' : 'GET')).toUpperCase();
+  const timeoutMs = Math.min(args.timeout_ms || 10000, 30000);
+  const offset = Math.max(0, Math.floor(args.offset || 0));
+  const maxChars = Math.min(Math.max(500, Math.floor(args.max_chars || DEFAULT_MAX_CHARS)), MAX_CHARS_LIMIT);
+
+  const headers: Record<string, string> = {
+    'User-Agent': 'Ashibalt-AI/1.0',
+    'Accept': 'text/html,application/json,text/plain,*/*'
+  };
+  if (args.headers && typeof args.headers === 'object') {
+    for (const [name, value] of Object.entries(args.headers)) {
+      // Header names are case-insensitive — a custom one replaces the default
+      for (const existing of Object.keys(headers)) {
+        if (existing.toLowerCase() === name.toLowerCase()) delete headers[existing];
+      }
+      headers[name] = String(value);
+    }
+  }
+  if (body !== undefined) {
+    if (!Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = hasJson ? 'application/json' : 'text/plain; charset=utf-8';
+    }
+    headers['Content-Length'] = String(Buffer.byteLength(body));
+  }
+
+  let response: RawResponse;
+  try {
+    response = await sendRequest(parsedUrl, method, headers, body, timeoutMs);
+  } catch (err: any) {
+    const timedOut = /timed out/.test(err?.message || '');
+    return {
+      success: false,
+      error: err?.message || String(err),
+      url: urlStr,
+      ...(timedOut ? {} : { hint: 'Connection failed. Is the server running? Check the URL and port.' })
+    };
+  }
+
+  // Extract important headers
+  const resHeaders: Record<string, string> = {};
+  const importantHeaders = ['content-type', 'content-length', 'server', 'location', 'x-powered-by'];
+  for (const h of importantHeaders) {
+    if (response.headers[h]) {
+      resHeaders[h] = Array.isArray(response.headers[h]) ? (response.headers[h] as string[]).join('; ') : String(response.headers[h]);
+    }
+  }
+
+  const contentType = String(response.headers['content-type'] || '').toLowerCase();
+  const raw = response.body.toString('utf8');
+  const result: any = {
+    success: true,
+    status_code: response.statusCode,
+    status_message: response.statusMessage,
+    headers: resHeaders,
+    url: urlStr
+  };
+
+  let content: string;
+  let contentFormat: string = format;
+  const looksLikeJson = /json/.test(contentType) || (!contentType && /^\s*[[{]/.test(raw));
+  const looksLikeHtml = /html/.test(contentType) || (!contentType && /^\s*(<!doctype html|<html)/i.test(raw));
+
+  if (contentType && !TEXT_CONTENT_TYPE.test(contentType) && !/html/.test(contentType)) {
+    content = `[binary content: ${contentType}, ${response.body.length} bytes]`;
+    contentFormat = 'binary';
+  } else if (args.json_path) {
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return { ...result, success: false, error: 'Response is not valid JSON — json_path needs a JSON body', body: raw.slice(0, 500) };
+    }
+    try {
+      const { matches, definite } = selectJsonPath(data, String(args.json_path));
+      result.json_path = String(args.json_path);
+      result.json_path_matches = matches.length;
+      content = JSON.stringify(definite && matches.length === 1 ? matches[0] : matches, null, 2) ?? 'null';
+      contentFormat = 'json';
+    } catch (err: any) {
+      return { ...result, success: false, error: err.message };
+    }
+  } else if (format !== 'raw' && looksLikeJson) {
+    try {
+      content = JSON.stringify(JSON.parse(raw), null, 2);
+      contentFormat = 'json';
+    } catch {
+      content = raw;
+      contentFormat = 'raw';
+    }
+  } else if (format !== 'raw' && looksLikeHtml) {
+    const readable = extractReadableContent(raw, { plain: format === 'text', baseUrl: urlStr });
+    if (readable.title) result.title = readable.title;
+    content = readable.content;
+  } else {
+    content = raw;
+    if (format !== 'raw') contentFormat = 'raw';
+  }
+
+  const page = paginate(content, offset, maxChars);
+  result.format = contentFormat;
+  result.body = page.text;
+  result.offset = Math.min(offset, content.length);
+  result.total_chars = content.length;
+  result.truncated = page.nextOffset !== null || response.downloadTruncated;
+  if (page.nextOffset !== null) {
+    result.next_offset = page.nextOffset;
+    result.hint = `Showing characters ${result.offset}-${page.nextOffset} of ${content.length}. Call fetch_url again with offset: ${page.nextOffset} to read more.`;
+  }
+  if (response.downloadTruncated) {
+    result.download_truncated = true;
+  }
+  return result;
+}
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'fetch_url',
+    description: `Fetch a URL via HTTP/HTTPS. Useful for checking if a dev server is running, debugging web apps, seeing error pages, reading documentation, calling API endpoints.
+
+HTML pages are returned as readable Markdown by default (navigation, scripts and page chrome removed); format "text" strips formatting, "raw" returns the response as is. JSON is pretty-printed; json_path selects part of it.
+Long responses are paginated: the result has total_chars and next_offset — call again with offset to continue.
+Send a request body with json (object, sent as application/json) or body (string); custom headers with headers. Requests other than GET to non-local hosts need user approval.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', minLength: 1, description: 'Full URL (e.g. http://localhost:3000)' },
+        method: { type: 'string', description: 'HTTP method (default: GET, or POST when a body is given)' },
+        format: { type: 'string', enum: FETCH_FORMATS, description: 'How to return HTML: markdown (default), text, raw' },
+        json_path: { type: 'string', description: 'JSONPath to select from a JSON response, e.g. "$.data.items[*].id", "$..name", "$.users[0]"' },
+        offset: { type: 'integer', minimum: 0, description: 'Character offset to start reading from (default: 0)' },
+        max_chars: { type: 'integer', description: `Maximum characters to return (default: ${DEFAULT_MAX_CHARS}, max: ${MAX_CHARS_LIMIT})` },
+        headers: { type: 'object', description: 'Request headers, e.g. {"Authorization": "Bearer dev-token"}' },
+        json: { type: 'object', description: 'JSON request body (sets Content-Type: application/json)' },
+        body: { type: 'string', description: 'Raw request body (form data, text, XML)' },
+        timeout_ms: { type: 'integer', description: 'Timeout in ms (default: 10000, max: 30000)' }
+      },
+      required: ['url']
+    }
+  },
+  aliases: [
+    'http_request', 'curl', 'wget', 'http_get', 'get_url', 'fetch'
+  ],
+  readOnly: true,
+  summarizeArgs: (args) => ({ url: args.url, method: args.method, format: args.format, offset: args.offset }),
+  execute: (args) => fetchUrlTool(args)
+});
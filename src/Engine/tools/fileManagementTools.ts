@@ -3,6 +3,8 @@ import * as path from 'path';
 import { resolveFilePath, checkPathSecurity } from './toolUtils';
 import { getSnapshotManager } from '../../Storage/snapshotManager';
 import { applySnapshotDecorations } from '../../Storage/snapshotDecorations';
+import { registerTool } from '../toolRegistry';
+import type { MessageAction } from '../../Storage/storageManager';
 
 /**
  * Create a new file with content.
@@ -91,7 +93,7 @@ export async function createFileTool(args: any, workspaceRoot?: string) {
 }
 
 /**
- * Delete a file with user confirmation.
+ * Delete a file (confirmation comes from the permission policy).
  */
 export async function deleteFileTool(args: any, workspaceRoot?: string): Promise<any> {
   if (!args || typeof args.file_path !== 'string') {
@@ -115,21 +117,7 @@ export async function deleteFileTool(args: any, workspaceRoot?: string): Promise
   // Security check
   await checkPathSecurity(resolved, workspaceRoot, 'удаление');
 
-  // Ask user confirmation
-  const choice = await vscode.window.showWarningMessage(
-    `Удалить файл "${fileName}"?\n\nПуть: ${resolved}`,
-    { modal: true },
-    'Удалить',
-    'Отмена'
-  );
-
-  if (choice !== 'Удалить') {
-    return {
-      success: false,
-      error: 'Deletion cancelled by user',
-      file_path: resolved
-    };
-  }
+  // User confirmation is requested by the agent loop (permission policy: delete_file → ask)
 
   // Delete the file
   try {
@@ -172,3 +160,80 @@ export async function deleteFileTool(args: any, workspaceRoot?: string): Promise
     };
   }
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'create_file',
+    description: `Create a new file. Fails if file already exists — use edit_file instead.
+
+Usage:
+- ALWAYS prefer editing existing files. NEVER write new files unless explicitly required.
+- If the file already exists, you MUST use edit_file to modify it.
+- If edit_file failed, it means your old_string didn't match — re-read the file instead of creating a new one.
+- "content" must be actual file text (HTML, CSS, JS, etc.), NOT JSON representation.
+- Before creating, verify the target directory fits the existing project structure.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', minLength: 1, description: 'Path to new file' },
+        content: { type: 'string', description: 'Raw file text (actual code/markup, NOT JSON representation)' }
+      },
+      required: ['file_path', 'content']
+    }
+  },
+  aliases: [
+    'write_file_content_to_path', 'write_file_content', 'write_file', 'save_file', 'write_to_file',
+    'new_file'
+  ],
+  destructive: true,
+  summarizeArgs: (args) => ({ file_path: args.file_path, content_len: args.content?.length }),
+  execute: (args, ctx) => createFileTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    // Use resolved path from result if available, otherwise fall back to args
+    const filePath = result?.file_path || args.file_path || '';
+    const fileName = filePath.split(/[/\\]/).pop() || filePath;
+    const fileAction: MessageAction = {
+      type: 'create_file',
+      fileName,
+      filePath,
+      success: result && !result.error,
+      error: result?.error
+    };
+    postMessage({ type: 'fileCreateAction', id: messageId, fileAction });
+    return fileAction;
+  }
+});
+
+registerTool({
+  spec: {
+    name: 'delete_file',
+    description: 'Delete a file. Requires user confirmation. Avoid deleting and recreating files — use edit_file instead.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', minLength: 1, description: 'Path to file to delete' }
+      },
+      required: ['file_path']
+    }
+  },
+  aliases: [
+    'remove_file'
+  ],
+  destructive: true,
+  execute: (args, ctx) => deleteFileTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    const filePath = result?.file_path || args.file_path || '';
+    const fileName = filePath.split(/[/\\]/).pop() || filePath;
+    const fileAction: MessageAction = {
+      type: 'delete_file',
+      fileName,
+      filePath,
+      success: result && !result.error,
+      error: result?.error
+    };
+    postMessage({ type: 'fileDeleteAction', id: messageId, fileAction });
+    return fileAction;
+  }
+});
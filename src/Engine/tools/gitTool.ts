@@ -0,0 +1,505 @@
+import { execFile } from 'child_process';
+import { logger } from '../../logger';
+import { registerTool } from '../toolRegistry';
+import { resolveFilePath, checkPathSecurity } from './toolUtils';
+
+/**
+ * git tool — structured git operations with parsed JSON results.
+ *
+ * Runs the git CLI (execFile, no shell) in the workspace repository.
+ * Publishing and history-rewriting calls (push, force, amend) are gated by
+ * the permission policy: they ask for confirmation by default (toolPolicy.ts).
+ */
+
+const GIT_TIMEOUT_MS = 15_000;
+const GIT_PUSH_TIMEOUT_MS = 60_000;
+/** Diff lines returned to the model; hunks beyond this are listed without lines */
+const MAX_DIFF_LINES = 2000;
+
+export type GitOperation = 'status' | 'diff' | 'log' | 'blame' | 'stage' | 'branch' | 'commit' | 'push';
+
+interface GitRun {
+  stdout: string;
+  stderr: string;
+  code: number;
+}
+
+function runGit(cwd: string, args: string[], options: { input?: string; timeout?: number } = {}): Promise<GitRun> {
+  return new Promise(resolve => {
+    const child = execFile('git', ['-c', 'core.quotepath=false', '-c', 'color.ui=false', ...args], {
+      cwd,
+      timeout: options.timeout ?? GIT_TIMEOUT_MS,
+      maxBuffer: 16 * 1024 * 1024,
+      // Never block on credential prompts or pagers
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_PAGER: 'cat', LC_ALL: 'C' }
+    }, (err: any, stdout, stderr) => {
+      const code = err ? (typeof err.code === 'number' ? err.code : 1) : 0;
+      const spawnFailed = err && typeof err.code !== 'number';
+      resolve({ stdout: String(stdout), stderr: spawnFailed && !stderr ? String(err.message) : String(stderr), code });
+    });
+    if (options.input !== undefined) child.stdin?.end(options.input);
+  });
+}
+
+/** Error text of a failed git call (git prints some failures, e.g. "nothing to commit", to stdout) */
+function gitError(run: GitRun): string {
+  return (run.stderr.trim() || run.stdout.trim() || `git exited with code ${run.code}`).split('\n').slice(0, 20).join('\n');
+}
+
+// ── Parsers ─────────────────────────────────────────────────────────────────
+
+export interface GitStatusEntry {
+  path: string;
+  status: string;
+  /** Original path of a rename/copy */
+  from?: string;
+}
+
+export interface GitStatus {
+  branch: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitStatusEntry[];
+  unstaged: GitStatusEntry[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+const STATUS_NAMES: Record<string, string> = {
+  M: 'modified', A: 'added', D: 'deleted', R: 'renamed', C: 'copied', T: 'type_changed'
+};
+
+/** Parse `git status --porcelain=v1 -b -z` */
+export function parseGitStatus(out: string): GitStatus {
+  const status: GitStatus = { branch: null, upstream: null, ahead: 0, behind: 0, staged: [], unstaged: [], untracked: [], conflicted: [] };
+  const entries = out.split('\0');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+    if (entry.startsWith('## ')) {
+      const header = entry.slice(3).match(/^(?:No commits yet on |Initial commit on )?(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/);
+      if (header) {
+        status.branch = header[1] === 'HEAD (no branch)' ? null : header[1];
+        status.upstream = header[2] || null;
+        status.ahead = Number(header[3]?.match(/ahead (\d+)/)?.[1] ?? 0);
+        status.behind = Number(header[3]?.match(/behind (\d+)/)?.[1] ?? 0);
+      }
+      continue;
+    }
+    const x = entry[0];
+    const y = entry[1];
+    const file = entry.slice(3);
+    const from = x === 'R' || x === 'C' ? entries[++i] : undefined;
+    if (x === '?') {
+      status.untracked.push(file);
+    } else if (x === '!') {
+      continue;
+    } else if (x === 'U' || y === 'U' || (x === 'A' && y === 'A') || (x === 'D' && y === 'D')) {
+      status.conflicted.push(file);
+    } else {
+      if (x !== ' ') status.staged.push({ path: file, status: STATUS_NAMES[x] || x, ...(from ? { from } : {}) });
+      if (y !== ' ') status.unstaged.push({ path: file, status: STATUS_NAMES[y] || y });
+    }
+  }
+  return status;
+}
+
+export interface GitDiffHunk {
+  /** Full "@@ -a,b +c,d @@ context" line */
+  header: string;
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  lines: string[];
+}
+
+export interface GitDiffFile {
+  path: string;
+  old_path?: string;
+  status: 'modified' | 'added' | 'deleted' | 'renamed';
+  binary: boolean;
+  added: number;
+  removed: number;
+  hunks: GitDiffHunk[];
+}
+
+/** Parse `git diff` output (default a/ b/ prefixes) into files and hunks */
+export function parseGitDiff(text: string): GitDiffFile[] {
+  const files: GitDiffFile[] = [];
+  let file: GitDiffFile | null = null;
+  let hunk: GitDiffHunk | null = null;
+  const stripPrefix = (p: string) => p.replace(/^"|"$/g, '').replace(/^[ab]\//, '');
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const paths = line.slice('diff --git '.length);
+      const split = paths.lastIndexOf(' b/');
+      const newPath = split >= 0 ? paths.slice(split + 1) : paths;
+      file = { path: stripPrefix(newPath), status: 'modified', binary: false, added: 0, removed: 0, hunks: [] };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkHeader) {
+      hunk = {
+        header: line,
+        old_start: Number(hunkHeader[1]),
+        old_lines: hunkHeader[2] === undefined ? 1 : Number(hunkHeader[2]),
+        new_start: Number(hunkHeader[3]),
+        new_lines: hunkHeader[4] === undefined ? 1 : Number(hunkHeader[4]),
+        lines: []
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+    if (hunk && /^[ +\-\\]/.test(line)) {
+      hunk.lines.push(line);
+      if (line[0] === '+') file.added++;
+      if (line[0] === '-') file.removed++;
+      continue;
+    }
+
+    if (line.startsWith('new file mode')) file.status = 'added';
+    else if (line.startsWith('deleted file mode')) file.status = 'deleted';
+    else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.old_path = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) file.path = line.slice('rename to '.length);
+    else if (line.startsWith('+++ ') && !line.startsWith('+++ /dev/null')) file.path = stripPrefix(line.slice(4));
+    else if (line.startsWith('--- ') && !line.startsWith('--- /dev/null') && file.status === 'deleted') file.path = stripPrefix(line.slice(4));
+    else if (line.startsWith('Binary files ') || line === 'GIT binary patch') file.binary = true;
+  }
+  return files;
+}
+
+export interface GitBlameLine {
+  line: number;
+  hash: string;
+  author: string;
+  date: string;
+  summary: string;
+  content: string;
+}
+
+/** Parse `git blame --porcelain` (commit headers appear only on first use of a commit) */
+export function parseGitBlame(out: string): GitBlameLine[] {
+  const commits = new Map<string, { author: string; time: number; summary: string }>();
+  const result: GitBlameLine[] = [];
+  let current: { hash: string; line: number } | null = null;
+
+  for (const line of out.split('\n')) {
+    if (line.startsWith('\t')) {
+      if (!current) continue;
+      const info = commits.get(current.hash)!;
+      result.push({
+        line: current.line,
+        hash: current.hash.slice(0, 12),
+        author: info.author,
+        date: info.time ? new Date(info.time * 1000).toISOString() : '',
+        summary: info.summary,
+        content: line.slice(1)
+      });
+      continue;
+    }
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      current = { hash: header[1], line: Number(header[2]) };
+      if (!commits.has(current.hash)) commits.set(current.hash, { author: '', time: 0, summary: '' });
+      continue;
+    }
+    if (!current) continue;
+    const info = commits.get(current.hash)!;
+    const space = line.indexOf(' ');
+    const key = space > 0 ? line.slice(0, space) : line;
+    const value = space > 0 ? line.slice(space + 1) : '';
+    if (key === 'author') info.author = value;
+    else if (key === 'author-time') info.time = Number(value);
+    else if (key === 'summary') info.summary = value;
+  }
+  return result;
+}
+
+/** Parse `git diff-tree --numstat` / `git diff --numstat` ("-" counts for binary files) */
+function parseNumstat(out: string): Array<{ path: string; added: number; removed: number }> {
+  return out.split('\n').filter(Boolean).map(line => {
+    const [added, removed, ...rest] = line.split('\t');
+    return { path: rest.join('\t'), added: Number(added) || 0, removed: Number(removed) || 0 };
+  });
+}
+
+// ── Operations ──────────────────────────────────────────────────────────────
+
+async function currentBranch(repo: string): Promise<string | null> {
+  const run = await runGit(repo, ['symbolic-ref', '--quiet', '--short', 'HEAD']);
+  return run.code === 0 ? run.stdout.trim() : null;
+}
+
+async function headCommit(repo: string): Promise<{ hash: string; subject: string } | null> {
+  const run = await runGit(repo, ['log', '-1', '--format=%H%x1f%s']);
+  if (run.code !== 0 || !run.stdout.trim()) return null;
+  const [hash, subject] = run.stdout.trim().split('\x1f');
+  return { hash, subject };
+}
+
+/** Truncate hunk lines across files so the result stays within MAX_DIFF_LINES */
+function capDiff(files: GitDiffFile[]): boolean {
+  let budget = MAX_DIFF_LINES;
+  let truncated = false;
+  for (const file of files) {
+    for (const hunk of file.hunks) {
+      if (hunk.lines.length > budget) {
+        hunk.lines = hunk.lines.slice(0, budget);
+        truncated = true;
+      }
+      budget -= hunk.lines.length;
+    }
+  }
+  return truncated;
+}
+
+/**
+ * Refs, branch names and remotes go into argv before any "--", so a value like
+ * "--output=/tmp/x" would be parsed as an option. Push refspecs additionally
+ * must not force ("+main") or delete (":main") behind the approval prompt.
+ */
+export function validateGitRefArgs(args: any): string | null {
+  const op = String(args?.operation || 'status').toLowerCase();
+  for (const key of ['ref', 'name', 'start_point', 'remote', 'branch']) {
+    const value = args?.[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string') return `"${key}" must be a string`;
+    if (value.startsWith('-')) return `"${key}" must not start with "-": ${value}`;
+    if (op === 'push' && (key === 'branch' || key === 'remote') && /^[+:]/.test(value)) {
+      return `"${key}" must not start with "${value[0]}" (use force: true to force-push): ${value}`;
+    }
+  }
+  return null;
+}
+
+export async function gitTool(args: any, workspaceRoot?: string): Promise<any> {
+  const operation = String(args?.operation || 'status').toLowerCase() as GitOperation;
+  const invalid = validateGitRefArgs(args);
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+  const repo = args?.repo ? resolveFilePath(args.repo, workspaceRoot) : workspaceRoot;
+  if (!repo) {
+    return { success: false, error: 'No workspace folder open' };
+  }
+  const toPath = (p: string) => resolveFilePath(p, workspaceRoot);
+  const pathspec = (paths: string[]) => paths.length ? ['--', ...paths.map(toPath)] : [];
+
+  // An explicit repo and the files stage/commit write may lie outside the workspace — the user decides
+  if (args?.repo) await checkPathSecurity(repo, workspaceRoot, 'использование');
+  if ((operation === 'stage' || operation === 'commit') && Array.isArray(args?.paths)) {
+    for (const p of args.paths) await checkPathSecurity(toPath(p), workspaceRoot, operation === 'stage' ? 'индексацию' : 'коммит');
+  }
+
+  const inRepo = await runGit(repo, ['rev-parse', '--show-toplevel']);
+  if (inRepo.code !== 0) {
+    return { success: false, error: `Not a git repository: ${repo}` };
+  }
+  const topLevel = inRepo.stdout.trim();
+  logger.log(`[GIT] ${operation} in ${topLevel}`);
+
+  switch (operation) {
+    case 'status': {
+      const run = await runGit(repo, ['status', '--porcelain=v1', '-b', '-z', '--untracked-files=all']);
+      if (run.code !== 0) return { success: false, error: gitError(run) };
+      const status = parseGitStatus(run.stdout);
+      return { success: true, ...status, clean: !status.staged.length && !status.unstaged.length && !status.untracked.length && !status.conflicted.length };
+    }
+
+    case 'diff': {
+      const ref = args.unstaged ? 'INDEX' : args.ref || 'HEAD';
+      const diffArgs = ['diff', '--no-ext-diff', '-M', ...(args.staged ? ['--cached'] : []), ...(args.unstaged ? [] : [ref]),
+        ...pathspec(args.path ? [args.path] : [])];
+      const run = await runGit(repo, diffArgs);
+      if (run.code !== 0) return { success: false, error: gitError(run) };
+      const files = parseGitDiff(run.stdout);
+      const truncated = capDiff(files);
+      return {
+        success: true,
+        ref,
+        staged: !!args.staged,
+        files_changed: files.length,
+        added: files.reduce((n, f) => n + f.added, 0),
+        removed: files.reduce((n, f) => n + f.removed, 0),
+        files,
+        ...(truncated ? { truncated: true, note: `Diff lines capped at ${MAX_DIFF_LINES}; pass path to see one file.` } : {})
+      };
+    }
+
+    case 'log': {
+      const maxCount = Math.min(Math.max(Number(args.max_count) || 20, 1), 200);
+      const logArgs = ['log', `--max-count=${maxCount}`, '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e', ...(args.ref ? [args.ref] : []),
+        ...pathspec(args.path ? [args.path] : [])];
+      const run = await runGit(repo, logArgs);
+      if (run.code !== 0) return { success: false, error: gitError(run) };
+      const commits = run.stdout.split('\x1e').map(r => r.trim()).filter(Boolean).map(record => {
+        const [hash, author, email, date, subject] = record.split('\x1f');
+        return { hash, short: hash.slice(0, 7), author, email, date, subject };
+      });
+      return { success: true, path: args.path, count: commits.length, commits };
+    }
+
+    case 'blame': {
+      if (!args.path) return { success: false, error: 'blame requires "path"' };
+      const start = Math.max(1, Number(args.start_line) || 1);
+      const range = args.end_line ? `${start},${Math.max(start, Number(args.end_line))}` : `${start},+50`;
+      const run = await runGit(repo, ['blame', '--porcelain', '-L', range, ...(args.ref ? [args.ref] : []), '--', toPath(args.path)]);
+      if (run.code !== 0) return { success: false, error: gitError(run) };
+      return { success: true, path: args.path, lines: parseGitBlame(run.stdout) };
+    }
+
+    case 'stage': {
+      const paths: string[] = args.paths || [];
+      if (!paths.length) return { success: false, error: 'stage requires "paths"' };
+      if (!args.hunks?.length) {
+        const run = await runGit(repo, ['add', ...pathspec(paths)]);
+        if (run.code !== 0) return { success: false, error: gitError(run) };
+      } else {
+        // Build a patch from the selected unstaged hunks and apply it to the index only
+        const diff = await runGit(repo, ['diff', '--no-ext-diff', ...pathspec(paths)]);
+        if (diff.code !== 0) return { success: false, error: gitError(diff) };
+        const [file] = parseGitDiff(diff.stdout);
+        if (!file || !file.hunks.length) {
+          return { success: false, error: `No unstaged hunks in ${paths[0]} (untracked files can only be staged whole)` };
+        }
+        const invalid = (args.hunks as number[]).filter(n => n < 1 || n > file.hunks.length);
+        if (invalid.length) {
+          return { success: false, error: `Hunk numbers out of range: ${invalid.join(', ')} (file has ${file.hunks.length} hunks)` };
+        }
+        const selected = (args.hunks as number[]).map(n => file.hunks[n - 1]);
+        const patch = [`diff --git a/${file.path} b/${file.path}`, `--- a/${file.path}`, `+++ b/${file.path}`,
+          ...selected.flatMap(h => [h.header, ...h.lines])].join('\n') + '\n';
+        // Patch paths are relative to the top level, so apply from there
+        const run = await runGit(topLevel, ['apply', '--cached', '--recount', '-'], { input: patch });
+        if (run.code !== 0) return { success: false, error: gitError(run) };
+      }
+      const status = await runGit(repo, ['status', '--porcelain=v1', '-z']);
+      return { success: true, staged: parseGitStatus(status.stdout).staged, hunks: args.hunks };
+    }
+
+    case 'branch': {
+      if (!args.name) return { success: false, error: 'branch requires "name"' };
+      const checkout = args.checkout !== false;
+      const branchArgs = checkout
+        ? ['switch', args.force ? '-C' : '-c', args.name, ...(args.start_point ? [args.start_point] : [])]
+        : ['branch', ...(args.force ? ['-f'] : []), args.name, ...(args.start_point ? [args.start_point] : [])];
+      const run = await runGit(repo, branchArgs);
+      if (run.code !== 0) return { success: false, error: gitError(run) };
+      return { success: true, branch: args.name, checked_out: checkout, current_branch: await currentBranch(repo) };
+    }
+
+    case 'commit': {
+      if (!args.message && !args.amend) return { success: false, error: 'commit requires "message"' };
+      const commitArgs = ['commit', ...(args.amend ? ['--amend'] : []), ...(args.all ? ['-a'] : []),
+        ...(args.message ? ['-m', args.message] : ['--no-edit']), ...pathspec(args.paths || [])];
+      const run = await runGit(repo, commitArgs);
+      if (run.code !== 0) return { success: false, error: gitError(run) };
+      const head = await headCommit(repo);
+      const stat = await runGit(repo, ['diff-tree', '--root', '--no-commit-id', '--numstat', '-r', 'HEAD']);
+      return {
+        success: true,
+        hash: head?.hash,
+        short: head?.hash.slice(0, 7),
+        subject: head?.subject,
+        branch: await currentBranch(repo),
+        amended: !!args.amend,
+        files: parseNumstat(stat.stdout)
+      };
+    }
+
+    case 'push': {
+      const remote = args.remote || 'origin';
+      const branch = args.branch || await currentBranch(repo);
+      if (!branch) return { success: false, error: 'Detached HEAD: pass "branch" to push' };
+      const pushArgs = ['push', '--porcelain', ...(args.force ? ['--force-with-lease'] : []), ...(args.set_upstream ? ['-u'] : []), remote, branch];
+      const run = await runGit(repo, pushArgs, { timeout: GIT_PUSH_TIMEOUT_MS });
+      if (run.code !== 0) return { success: false, error: gitError(run) };
+      return { success: true, remote, branch, forced: !!args.force, output: run.stdout.trim() };
+    }
+
+    default:
+      return { success: false, error: `Unknown operation "${operation}". Valid: status, diff, log, blame, stage, branch, commit, push` };
+  }
+}
+
+/** Equivalent git command line — what policy rules match, e.g. `git: "push *" allow` */
+export function describeGitCall(args: any): string {
+  const op = String(args?.operation || 'status').toLowerCase();
+  const parts: string[] = [op];
+  if (op === 'push') parts.push(args.remote || 'origin', ...(args.branch ? [args.branch] : []));
+  if (op === 'branch' && args.name) parts.push(args.name);
+  if (op === 'commit' && args.amend) parts.push('--amend');
+  if (args?.force) parts.push('--force');
+  return parts.join(' ');
+}
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'git',
+    description: `Structured git operations on the workspace repository. Returns parsed JSON — prefer this over running git in the terminal.
+
+Operations:
+- status — branch, upstream, ahead/behind, staged/unstaged/untracked/conflicted files
+- diff   — changes against a ref (default HEAD, i.e. staged + unstaged); staged=true compares the index, unstaged=true shows only unstaged changes. Optional path
+- log    — recent commits (optional path, ref, max_count)
+- blame  — author/commit per line for path, start_line..end_line
+- stage  — stage whole paths, or only some hunks of one file (hunk numbers as listed by diff with unstaged=true)
+- branch — create a branch (name, start_point) and switch to it unless checkout=false
+- commit — commit staged changes with message (all=true stages tracked changes first; paths commits only those files)
+- push   — push a branch to a remote. Requires user approval, as do force and amend.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['status', 'diff', 'log', 'blame', 'stage', 'branch', 'commit', 'push'],
+          description: 'Git operation'
+        },
+        path: { type: 'string', description: 'File or folder for diff/log/blame' },
+        paths: { type: 'array', items: { type: 'string' }, description: 'Files for stage/commit' },
+        ref: { type: 'string', description: 'diff: ref to compare with (default HEAD); log/blame: revision to start from' },
+        staged: { type: 'boolean', description: 'diff: compare the index with ref instead of the working tree' },
+        unstaged: { type: 'boolean', description: 'diff: working tree vs index (hunk numbers used by stage)' },
+        max_count: { type: 'integer', minimum: 1, description: 'log: number of commits (default 20)' },
+        start_line: { type: 'integer', minimum: 1, description: 'blame: first line (1-based)' },
+        end_line: { type: 'integer', minimum: 1, description: 'blame: last line (default start_line + 49)' },
+        hunks: { type: 'array', items: { type: 'integer', minimum: 1 }, description: 'stage: 1-based hunk numbers of the unstaged diff of the single file in paths' },
+        name: { type: 'string', description: 'branch: new branch name' },
+        start_point: { type: 'string', description: 'branch: commit/branch to start from (default HEAD)' },
+        checkout: { type: 'boolean', description: 'branch: switch to the new branch (default true)' },
+        message: { type: 'string', description: 'commit: commit message' },
+        all: { type: 'boolean', description: 'commit: stage all tracked modifications first (-a)' },
+        amend: { type: 'boolean', description: 'commit: amend the last commit (rewrites history, needs approval)' },
+        remote: { type: 'string', description: 'push: remote name (default origin)' },
+        branch: { type: 'string', description: 'push: branch (default current)' },
+        set_upstream: { type: 'boolean', description: 'push: set upstream (-u)' },
+        force: { type: 'boolean', description: 'push: --force-with-lease; branch: reset an existing branch. Needs approval' },
+        repo: { type: 'string', description: 'Repository folder (default: workspace root)' }
+      },
+      required: ['operation']
+    }
+  },
+  aliases: [
+    'git_status', 'git_diff', 'git_log', 'git_commit'
+  ],
+  destructive: true,
+  validate: (args) => {
+    if (args.hunks?.length && args.paths?.length !== 1) return 'hunks can only be used with exactly one file in paths';
+    if (args.staged && args.unstaged) return 'Use either staged or unstaged, not both';
+    return validateGitRefArgs(args);
+  },
+  summarizeArgs: (args) => ({ operation: args.operation, path: args.path, paths: args.paths, ref: args.ref, name: args.name, force: args.force }),
+  policySubject: (args) => ({ value: describeGitCall(args), kind: 'text' }),
+  execute: (args, ctx) => gitTool(args, ctx.workspaceRoot)
+});
@@ -0,0 +1,419 @@
+/**
+ * htmlToMarkdown.ts — Readable content of an HTML page for fetch_url.
+ *
+ * A tolerant HTML parser (no DOM dependency), a readability pass that drops
+ * page chrome (scripts, navigation, footers, cookie banners, hidden blocks) and
+ * picks the element holding the main text, and a renderer to Markdown or plain
+ * text. Good enough for documentation pages, articles and dev-server error
+ * pages; not a spec-compliant HTML5 parser.
+ */
+
+export interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | string;
+
+export interface ReadableContent {
+  title: string;
+  content: string;
+}
+
+// ── Entities ─────────────────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', laquo: '«', raquo: '»', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™', times: '×', rarr: '→', larr: '←'
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────────
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+/** Opening the key closes an open element of these tags (up to a list/table boundary) */
+const IMPLIED_END: Record<string, string[]> = {
+  p: ['p'], li: ['li'], dt: ['dt', 'dd'], dd: ['dt', 'dd'], option: ['option'],
+  tr: ['tr', 'td', 'th'], td: ['td', 'th'], th: ['td', 'th'], thead: ['tbody'], tbody: ['thead', 'tbody']
+};
+const SCOPE_TAGS = new Set(['ul', 'ol', 'dl', 'table', 'select', 'body', 'html']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'ul', 'body', 'html', 'dt', 'dd', 'li', 'tr', 'caption'
+]);
+
+const START_TAG = /<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const END_TAG = /<\/([a-zA-Z][\w:-]*)\s*>/y;
+const ATTR = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseAttrs(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of text.matchAll(ATTR)) {
+    attrs[m[1].toLowerCase()] = decodeHtmlEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attrs;
+}
+
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [], parent: null };
+  const stack: HtmlElement[] = [root];
+  const top = () => stack[stack.length - 1];
+  const addText = (text: string) => {
+    if (!text) return;
+    const children = top().children;
+    const last = children[children.length - 1];
+    if (typeof last === 'string') children[children.length - 1] = last + text;
+    else children.push(text);
+  };
+  const closeTo = (index: number) => { stack.length = index; };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      addText(decodeHtmlEntities(html.slice(pos)));
+      break;
+    }
+    if (lt > pos) addText(decodeHtmlEntities(html.slice(pos, lt)));
+    pos = lt;
+
+    if (html.startsWith('<!--', pos)) {
+      const end = html.indexOf('-->', pos + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[pos + 1] === '!' || html[pos + 1] === '?') {
+      const end = html.indexOf('>', pos);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    END_TAG.lastIndex = pos;
+    const end = END_TAG.exec(html);
+    if (end) {
+      const tag = end[1].toLowerCase();
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          closeTo(i);
+          break;
+        }
+      }
+      pos = END_TAG.lastIndex;
+      continue;
+    }
+
+    START_TAG.lastIndex = pos;
+    const start = START_TAG.exec(html);
+    if (!start) {
+      addText('<');
+      pos++;
+      continue;
+    }
+    pos = START_TAG.lastIndex;
+    const tag = start[1].toLowerCase();
+
+    const implied = IMPLIED_END[tag];
+    if (implied) {
+      for (let i = stack.length - 1; i > 0 && !SCOPE_TAGS.has(stack[i].tag); i--) {
+        if (implied.includes(stack[i].tag)) {
+          closeTo(i);
+          break;
+        }
+      }
+    } else if (BLOCK_TAGS.has(tag) && top().tag === 'p') {
+      stack.pop();
+    }
+
+    const el: HtmlElement = { tag, attrs: parseAttrs(start[2]), children: [], parent: top() };
+    top().children.push(el);
+    if (VOID_TAGS.has(tag) || start[3]) continue;
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const close = html.toLowerCase().indexOf(`</${tag}`, pos);
+      const raw = html.slice(pos, close === -1 ? html.length : close);
+      if (raw) el.children.push(tag === 'script' || tag === 'style' ? raw : decodeHtmlEntities(raw));
+      pos = close === -1 ? html.length : html.indexOf('>', close) + 1 || html.length;
+      continue;
+    }
+    stack.push(el);
+  }
+  return root;
+}
+
+// ── Tree helpers ─────────────────────────────────────────────────────────────
+
+const isElement = (node: HtmlNode): node is HtmlElement => typeof node !== 'string';
+
+export function textContent(node: HtmlNode): string {
+  if (!isElement(node)) return node;
+  return node.children.map(textContent).join('');
+}
+
+function findAll(node: HtmlElement, predicate: (el: HtmlElement) => boolean, out: HtmlElement[] = []): HtmlElement[] {
+  for (const child of node.children) {
+    if (!isElement(child)) continue;
+    if (predicate(child)) out.push(child);
+    findAll(child, predicate, out);
+  }
+  return out;
+}
+
+function findFirst(node: HtmlElement, tag: string): HtmlElement | null {
+  return findAll(node, el => el.tag === tag)[0] ?? null;
+}
+
+const visibleLength = (node: HtmlNode) => textContent(node).replace(/\s+/g, ' ').trim().length;
+
+// ── Readability ──────────────────────────────────────────────────────────────
+
+const REMOVED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'nav', 'aside', 'footer', 'dialog', 'button', 'select', 'input', 'textarea', 'head', 'link', 'meta'
+]);
+const UNLIKELY = /(^|[\s_-])(comments?|sidebar|footer|nav|navbar|navigation|contentinfo|complementary|menu|cookies?|consent|banner|advert|ads?|sponsor|promo|share|social|popup|modal|breadcrumbs?|related|newsletter|subscribe|skip|masthead)($|[\s_-])/i;
+const LIKELY = /article|content|main|post|entry|story|markdown|prose|documentation/i;
+
+function isHidden(el: HtmlElement): boolean {
+  return 'hidden' in el.attrs
+    || el.attrs['aria-hidden'] === 'true'
+    || /display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.attrs.style || '');
+}
+
+/** Remove page chrome in place */
+function prune(node: HtmlElement, inContent: boolean): void {
+  node.children = node.children.filter(child => {
+    if (!isElement(child)) return true;
+    if (REMOVED_TAGS.has(child.tag) || isHidden(child)) return false;
+    // A page header is chrome, an article header usually holds the title
+    if (child.tag === 'header' && !inContent) return false;
+    const marker = `${child.attrs.class || ''} ${child.attrs.id || ''} ${child.attrs.role || ''}`;
+    if (UNLIKELY.test(marker) && !LIKELY.test(marker) && !['article', 'main'].includes(child.tag)
+      && !findAll(child, el => el.tag === 'article' || el.tag === 'main').length) {
+      return false;
+    }
+    prune(child, inContent || child.tag === 'article' || child.tag === 'main');
+    return true;
+  });
+}
+
+function linkDensity(el: HtmlElement): number {
+  const total = visibleLength(el);
+  if (!total) return 0;
+  const linked = findAll(el, a => a.tag === 'a').reduce((sum, a) => sum + visibleLength(a), 0);
+  return Math.min(1, linked / total);
+}
+
+/** Element holding the main text: <main>/<article> when present, else the best-scored container */
+function pickContentRoot(body: HtmlElement): HtmlElement {
+  const explicit = findAll(body, el => el.tag === 'main' || el.attrs.role === 'main');
+  const main = explicit.sort((a, b) => visibleLength(b) - visibleLength(a))[0];
+  if (main && visibleLength(main) >= 200) return main;
+  const articles = findAll(body, el => el.tag === 'article').filter(el => visibleLength(el) >= 200);
+  if (articles.length === 1) return articles[0];
+
+  const scores = new Map<HtmlElement, number>();
+  for (const p of findAll(body, el => ['p', 'pre', 'td', 'blockquote'].includes(el.tag))) {
+    const text = textContent(p).replace(/\s+/g, ' ').trim();
+    if (text.length < 25) continue;
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = p.parent;
+    if (parent && parent !== body.parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    const grand = parent?.parent;
+    if (grand && grand !== body.parent) scores.set(grand, (scores.get(grand) || 0) + score / 2);
+  }
+
+  let best: HtmlElement | null = null;
+  let bestScore = 0;
+  for (const [el, raw] of scores) {
+    const marker = `${el.attrs.class || ''} ${el.attrs.id || ''}`;
+    const score = (raw + (LIKELY.test(marker) ? 25 : 0)) * (1 - linkDensity(el));
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  // Several articles (a blog index) — keep their common container
+  if (!best && articles.length > 1) return articles[0].parent || body;
+  return best ?? body;
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+// Indentation of nested list lines survives the per-line trim as this marker
+const INDENT = '\u0001';
+const CODE_MARK = '\u0002';
+
+interface RenderContext {
+  plain: boolean;
+  baseUrl?: string;
+  code: string[];
+}
+
+/** Trim lines and collapse blank lines (indent markers are kept) */
+function tidy(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^[ \t]+/, '').replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+function wrapInline(inner: string, mark: string): string {
+  const m = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return m[2] ? `${m[1]}${mark}${m[2]}${mark}${m[3]}` : inner;
+}
+
+const block = (text: string) => `\n\n${text}\n\n`;
+
+function renderChildren(el: HtmlElement, ctx: RenderContext): string {
+  return el.children.map(child => render(child, ctx)).join('');
+}
+
+function renderList(el: HtmlElement, ctx: RenderContext): string {
+  const ordered = el.tag === 'ol';
+  let n = ordered ? parseInt(el.attrs.start || '1', 10) || 1 : 0;
+  const items: string[] = [];
+  for (const child of el.children) {
+    if (!isElement(child)) continue;
+    const body = tidy(child.tag === 'li' ? renderChildren(child, ctx) : render(child, ctx)).replace(/\n\n+/g, '\n');
+    if (!body) continue;
+    if (child.tag !== 'li') {
+      items.push(body);
+      continue;
+    }
+    const marker = ordered ? `${n++}. ` : '- ';
+    const [first, ...rest] = body.split('\n');
+    items.push([marker + first, ...rest.map(line => INDENT.repeat(marker.length) + line)].join('\n'));
+  }
+  return items.length ? block(items.join('\n')) : '';
+}
+
+function renderTable(el: HtmlElement, ctx: RenderContext): string {
+  const rows = findAll(el, r => r.tag === 'tr')
+    .map(tr => tr.children.filter(isElement).filter(c => c.tag === 'td' || c.tag === 'th')
+      .map(cell => tidy(renderChildren(cell, ctx)).replace(/\s*\n+\s*/g, ' ').replace(/\|/g, '\\|')))
+    .filter(cells => cells.length > 0);
+  if (rows.length === 0) return '';
+  if (ctx.plain) return block(rows.map(cells => cells.join(' | ')).join('\n'));
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return block([line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n'));
+}
+
+function renderPre(el: HtmlElement, ctx: RenderContext): string {
+  const code = textContent(el).replace(/^\n/, '').replace(/\s+$/, '');
+  if (!code) return '';
+  const classes = `${el.attrs.class || ''} ${findFirst(el, 'code')?.attrs.class || ''}`;
+  const lang = classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] || '';
+  ctx.code.push(ctx.plain ? code : `\`\`\`${lang}\n${code}\n\`\`\``);
+  return block(`${CODE_MARK}${ctx.code.length - 1}${CODE_MARK}`);
+}
+
+function render(node: HtmlNode, ctx: RenderContext): string {
+  if (!isElement(node)) return node.replace(/\s+/g, ' ');
+  const { plain } = ctx;
+  switch (node.tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = tidy(renderChildren(node, ctx)).replace(/\s*\n+\s*/g, ' ');
+      if (!text) return '';
+      return block(plain ? text : `${'#'.repeat(Number(node.tag[1]))} ${text}`);
+    }
+    case 'br':
+      return '\n';
+    case 'hr':
+      return plain ? block('') : block('---');
+    case 'pre':
+      return renderPre(node, ctx);
+    case 'ul': case 'ol':
+      return renderList(node, ctx);
+    case 'table':
+      return renderTable(node, ctx);
+    case 'blockquote': {
+      const inner = tidy(renderChildren(node, ctx));
+      if (!inner) return '';
+      return block(plain ? inner : inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'));
+    }
+    case 'a': {
+      const inner = renderChildren(node, ctx);
+      const href = (node.attrs.href || '').trim();
+      if (plain || !inner.trim() || !href || /^(javascript:|#)/i.test(href)) return inner;
+      const m = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      return `${m[1]}[${m[2]}](${resolveUrl(href, ctx.baseUrl)})${m[3]}`;
+    }
+    case 'img': {
+      const alt = (node.attrs.alt || '').replace(/\s+/g, ' ').trim();
+      if (plain || !alt || !node.attrs.src || node.attrs.src.startsWith('data:')) return plain ? '' : alt;
+      return `![${alt}](${resolveUrl(node.attrs.src, ctx.baseUrl)})`;
+    }
+    case 'strong': case 'b':
+      return plain ? renderChildren(node, ctx) : wrapInline(renderChildren(node, ctx), '**');
+    case 'em': case 'i':
+      return plain ? renderChildren(node, ctx) : wrapInline(renderChildren(node, ctx), '_');
+    case 'del': case 's':
+      return plain ? renderChildren(node, ctx) : wrapInline(renderChildren(node, ctx), '~~');
+    case 'code': case 'kbd': case 'samp': {
+      const text = textContent(node).replace(/\s+/g, ' ');
+      return plain || !text.trim() ? text : wrapInline(text, '`');
+    }
+    case 'title': case 'head':
+      return '';
+    default: {
+      const inner = renderChildren(node, ctx);
+      return BLOCK_TAGS.has(node.tag) ? block(inner) : inner;
+    }
+  }
+}
+
+/** Render an element (or a whole document) as Markdown or plain text */
+export function renderHtml(node: HtmlElement, options: { plain?: boolean; baseUrl?: string } = {}): string {
+  const ctx: RenderContext = { plain: !!options.plain, baseUrl: options.baseUrl, code: [] };
+  return tidy(render(node, ctx))
+    .replace(new RegExp(INDENT, 'g'), ' ')
+    .replace(new RegExp(`${CODE_MARK}(\\d+)${CODE_MARK}`, 'g'), (_, i: string) => ctx.code[Number(i)]);
+}
+
+/**
+ * Main content of an HTML page as Markdown (or plain text), without navigation,
+ * scripts and other page chrome.
+ */
+export function extractReadableContent(html: string, options: { plain?: boolean; baseUrl?: string } = {}): ReadableContent {
+  const doc = parseHtml(html);
+  const titleEl = findFirst(doc, 'title');
+  const ogTitle = findAll(doc, el => el.tag === 'meta' && el.attrs.property === 'og:title')[0]?.attrs.content;
+  const baseHref = findFirst(doc, 'base')?.attrs.href;
+  const baseUrl = baseHref ? resolveUrl(baseHref, options.baseUrl) : options.baseUrl;
+
+  const body = findFirst(doc, 'body') || doc;
+  prune(body, false);
+  const root = pickContentRoot(body);
+  let content = renderHtml(root, { plain: options.plain, baseUrl });
+  // A scored pick holding little of the page text is likely a wrong guess — keep the whole body
+  if (visibleLength(root) < visibleLength(body) * 0.25) content = renderHtml(body, { plain: options.plain, baseUrl });
+
+  const h1 = findFirst(body, 'h1');
+  const title = (titleEl ? textContent(titleEl) : '') || ogTitle || (h1 ? textContent(h1) : '');
+  return { title: title.replace(/\s+/g, ' ').trim(), content };
+}
@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { logger } from '../../logger';
+import { getSnapshotManager } from '../../Storage/snapshotManager';
+import { applySnapshotDecorations } from '../../Storage/snapshotDecorations';
+import { getContextCache } from '../SystemContext/contextCache';
+import { registerTool } from '../toolRegistry';
+import { resolveFilePath, toWorkspacePath, getChangedRegion, countChangedLines } from './toolUtils';
+import type { MessageAction } from '../../Storage/storageManager';
 
 // ============================================================================
 // LSP Bridge Tool — IDE intelligence as agent capabilities
@@ -12,6 +18,7 @@ import { logger } from '../../logger';
 //   - Type definition
 //   - Implementations
 //   - Rename preview (dry-run)
+// lsp_refactor applies renames and code actions through the snapshot system.
 // ============================================================================
 
 const VALID_OPERATIONS = [
@@ -21,19 +28,6 @@ const VALID_OPERATIONS = [
 
 type LspOperation = typeof VALID_OPERATIONS[number];
 
-/**
- * Resolve file path relative to workspace
- */
-function resolveFilePath(filePath: string, workspaceRoot?: string): string {
-  if (path.isAbsolute(filePath)) return filePath;
-  if (workspaceRoot) return path.join(workspaceRoot, filePath);
-  const folders = vscode.workspace.workspaceFolders;
-  if (folders && folders.length > 0) {
-    return path.resolve(folders[0].uri.fsPath, filePath);
-  }
-  return filePath;
-}
-
 /**
  * Open document and wait briefly for Language Server to activate.
  * Matches pattern from diagnosticsEngine.ts
@@ -119,11 +113,7 @@ async function getPosition(
  * Format a vscode.Location to a readable string "path:line:col"
  */
 function formatLocation(location: vscode.Location, workspaceRoot?: string): string {
-  let filePath = location.uri.fsPath;
-  if (workspaceRoot) {
-    const rel = path.relative(workspaceRoot, filePath);
-    if (!rel.startsWith('..')) filePath = rel.replace(/\\/g, '/');
-  }
+  const filePath = toWorkspacePath(location.uri.fsPath, workspaceRoot);
   const line = location.range.start.line + 1;
   const col = location.range.start.character + 1;
   return `${filePath}:${line}:${col}`;
@@ -199,11 +189,7 @@ async function lspReferences(
   // Group by file for readability
   const byFile = new Map<string, { line: number; col: number }[]>();
   for (const loc of locations) {
-    let filePath = loc.uri.fsPath;
-    if (workspaceRoot) {
-      const rel = path.relative(workspaceRoot, filePath);
-      if (!rel.startsWith('..')) filePath = rel.replace(/\\/g, '/');
-    }
+    const filePath = toWorkspacePath(loc.uri.fsPath, workspaceRoot);
     if (!byFile.has(filePath)) byFile.set(filePath, []);
     byFile.get(filePath)!.push({
       line: loc.range.start.line + 1,
@@ -324,11 +310,7 @@ async function lspRenamePreview(
   let totalEdits = 0;
   const lines: string[] = [];
   for (const [entryUri, edits] of entries) {
-    let filePath = entryUri.fsPath;
-    if (workspaceRoot) {
-      const rel = path.relative(workspaceRoot, filePath);
-      if (!rel.startsWith('..')) filePath = rel.replace(/\\/g, '/');
-    }
+    const filePath = toWorkspacePath(entryUri.fsPath, workspaceRoot);
     totalEdits += edits.length;
     lines.push(`${filePath}: ${edits.length} change(s)`);
     for (const e of edits) {
@@ -344,6 +326,295 @@ async function lspRenamePreview(
   };
 }
 
+// ============================================================================
+// Refactoring (lsp_refactor) — applied as one snapshot change set
+// ============================================================================
+
+const REFACTOR_OPERATIONS = ['rename', 'code_action'] as const;
+
+type RefactorOperation = typeof REFACTOR_OPERATIONS[number];
+
+export interface RefactoredFile {
+  file: string;
+  file_path: string;
+  edits: number;
+  linesAdded: number;
+  linesRemoved: number;
+  startLine: number;
+  /** Set when the refactoring created or deleted the file (a rename does both) */
+  kind?: 'created' | 'deleted';
+}
+
+/** Original and new text of one file touched by a refactoring (null = the file does not exist) */
+interface FileRewrite {
+  filePath: string;
+  original: string | null;
+  updated: string | null;
+  edits: number;
+}
+
+async function readDiskText(filePath: string): Promise<string | null> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run an action that changes the workspace through VS Code (workspace.applyEdit or a
+ * code action command) and collect the original and new text of every file it touched.
+ * Text edits land in documents, which are saved so the snapshots match disk; created,
+ * renamed and deleted files are seen through the file operation events.
+ */
+async function trackChanges(action: () => Promise<unknown>): Promise<FileRewrite[]> {
+  const before = new Map<string, string | null>();
+  for (const doc of vscode.workspace.textDocuments) {
+    if (doc.uri.scheme === 'file') before.set(doc.uri.fsPath, doc.getText());
+  }
+
+  const touched = new Map<string, { doc?: vscode.TextDocument; changes: number }>();
+  const touch = (filePath: string, changes: number, doc?: vscode.TextDocument) => {
+    const entry = touched.get(filePath) ?? { changes: 0 };
+    entry.changes += changes;
+    if (doc) entry.doc = doc;
+    touched.set(filePath, entry);
+  };
+  const removed = new Set<string>();
+  // Files a file operation is about to change: read them while the old content is still on disk
+  const capture = (uris: readonly vscode.Uri[]) => Promise.all(uris.map(async uri => {
+    if (!before.has(uri.fsPath)) before.set(uri.fsPath, await readDiskText(uri.fsPath));
+  }));
+
+  const subscriptions = [
+    vscode.workspace.onDidChangeTextDocument(e => {
+      if (e.contentChanges.length === 0 || e.document.uri.scheme !== 'file') return;
+      touch(e.document.uri.fsPath, e.contentChanges.length, e.document);
+    }),
+    vscode.workspace.onWillCreateFiles(e => e.waitUntil(capture(e.files))),
+    vscode.workspace.onWillDeleteFiles(e => e.waitUntil(capture(e.files))),
+    vscode.workspace.onWillRenameFiles(e => e.waitUntil(capture(e.files.flatMap(f => [f.oldUri, f.newUri])))),
+    vscode.workspace.onDidCreateFiles(e => e.files.forEach(uri => touch(uri.fsPath, 1))),
+    vscode.workspace.onDidDeleteFiles(e => e.files.forEach(uri => { removed.add(uri.fsPath); touch(uri.fsPath, 1); })),
+    vscode.workspace.onDidRenameFiles(e => e.files.forEach(f => {
+      removed.add(f.oldUri.fsPath);
+      touch(f.oldUri.fsPath, 1);
+      touch(f.newUri.fsPath, 1);
+    }))
+  ];
+  try {
+    await action();
+  } finally {
+    subscriptions.forEach(d => d.dispose());
+  }
+
+  const rewrites: FileRewrite[] = [];
+  for (const [filePath, { doc, changes }] of touched) {
+    // Documents that were not open: disk still holds the text from before the action
+    const original = before.has(filePath) ? before.get(filePath)! : await readDiskText(filePath);
+    if (!removed.has(filePath)) {
+      const open = doc ?? vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath);
+      if (open) await open.save();
+    }
+    const updated = await readDiskText(filePath);
+    if (updated !== original) rewrites.push({ filePath, original, updated, edits: changes });
+  }
+  return rewrites;
+}
+
+/** Apply a WorkspaceEdit (text edits and file operations); throws when VS Code rejects it */
+async function applyWorkspaceEdit(edit: vscode.WorkspaceEdit): Promise<void> {
+  if (!await vscode.workspace.applyEdit(edit)) {
+    throw new Error('VS Code could not apply the edit (a target file may be missing or changed). Re-read the files and try again.');
+  }
+}
+
+/** Record already-written rewrites as one change set (accept/reject CodeLens per file) */
+async function recordChangeSet(rewrites: FileRewrite[], workspaceRoot?: string): Promise<{ changeSetId: string; files: RefactoredFile[] }> {
+  const changeSetId = `lsp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const snapshotManager = getSnapshotManager();
+  const cache = getContextCache();
+  const files: RefactoredFile[] = [];
+
+  for (const { filePath, original, updated, edits } of rewrites) {
+    cache.invalidate(filePath);
+    let region: { oldText: string; newText: string; startLine: number };
+    let snapshot;
+    if (original === null || updated === null) {
+      // Created or deleted file (a rename is both): the whole file is the change
+      region = { oldText: original ?? '', newText: updated ?? '', startLine: 1 };
+      const lineCount = (updated ?? original ?? '').split('\n').length;
+      snapshot = updated === null
+        ? await snapshotManager.createSnapshot(filePath, 'delete_file', original, '', 1, lineCount, changeSetId)
+        : await snapshotManager.createSnapshot(filePath, 'create_file', null, updated, 1, lineCount, changeSetId);
+    } else {
+      const changed = getChangedRegion(original, updated);
+      region = changed;
+      snapshot = await snapshotManager.createSnapshot(
+        filePath, 'edit_file', changed.oldText, changed.newText, changed.startLine, changed.endLineNew, changeSetId
+      );
+    }
+    if (snapshot && updated !== null) applySnapshotDecorations(snapshot);
+
+    const lines = countChangedLines(region.oldText, region.newText);
+    files.push({
+      file: toWorkspacePath(filePath, workspaceRoot),
+      file_path: filePath,
+      edits,
+      linesAdded: lines.added,
+      linesRemoved: lines.removed,
+      startLine: region.startLine,
+      ...(original === null ? { kind: 'created' as const } : updated === null ? { kind: 'deleted' as const } : {})
+    });
+  }
+  return { changeSetId, files };
+}
+
+function describeChangeSet(title: string, files: RefactoredFile[]): string {
+  const total = files.reduce((n, f) => n + f.edits, 0);
+  return [`${title}: ${total} edit(s) across ${files.length} file(s)`, ...files.map(f => f.kind ? `  ${f.file}: ${f.kind}` : `  ${f.file}: ${f.edits} change(s) from line ${f.startLine}`)].join('\n');
+}
+
+function documentRange(doc: vscode.TextDocument): vscode.Range {
+  const last = doc.lineAt(doc.lineCount - 1);
+  return new vscode.Range(new vscode.Position(0, 0), last.range.end);
+}
+
+/** Range for code actions: line[..end_line], symbol position, or the whole document */
+async function getActionRange(uri: vscode.Uri, doc: vscode.TextDocument, args: any): Promise<vscode.Range> {
+  if (typeof args.line !== 'number' && typeof args.symbol_name !== 'string') {
+    return documentRange(doc);
+  }
+  const start = await getPosition(uri, doc, args);
+  if (typeof args.end_line === 'number') {
+    const endLine = Math.min(doc.lineCount - 1, Math.max(start.line, args.end_line - 1));
+    const endChar = typeof args.end_character === 'number' ? args.end_character : doc.lineAt(endLine).text.length;
+    return new vscode.Range(start, new vscode.Position(endLine, endChar));
+  }
+  return new vscode.Range(start, typeof args.line === 'number' && typeof args.character !== 'number'
+    ? doc.lineAt(start.line).range.end
+    : start);
+}
+
+type AvailableAction = { title: string; kind?: string; edit?: vscode.WorkspaceEdit; command?: vscode.Command };
+
+function normalizeActions(items: Array<vscode.CodeAction | vscode.Command>): AvailableAction[] {
+  return items
+    .filter(item => !(item as vscode.CodeAction).disabled)
+    .map(item => typeof (item as vscode.Command).command === 'string'
+      ? { title: item.title, command: item as vscode.Command }
+      : {
+          title: item.title,
+          kind: (item as vscode.CodeAction).kind?.value,
+          edit: (item as vscode.CodeAction).edit,
+          command: (item as vscode.CodeAction).command
+        });
+}
+
+/** Pick the action named by args.action (exact title, then substring); a single kind match is implicit */
+function selectAction(actions: AvailableAction[], args: any): AvailableAction | AvailableAction[] {
+  if (typeof args.action !== 'string' || !args.action.trim()) {
+    return actions.length === 1 && typeof args.kind === 'string' ? actions[0] : actions;
+  }
+  const wanted = args.action.trim().toLowerCase();
+  const exact = actions.filter(a => a.title.toLowerCase() === wanted);
+  if (exact.length === 1) return exact[0];
+  const partial = actions.filter(a => a.title.toLowerCase().includes(wanted));
+  return partial.length === 1 ? partial[0] : partial;
+}
+
+export async function lspRefactorTool(args: any, workspaceRoot?: string): Promise<any> {
+  const operation = args.operation as RefactorOperation;
+  if (!REFACTOR_OPERATIONS.includes(operation)) {
+    return { success: false, error: `Invalid operation "${operation}". Valid: ${REFACTOR_OPERATIONS.join(', ')}` };
+  }
+
+  const filePath = resolveFilePath(args.file_path, workspaceRoot);
+  const uri = vscode.Uri.file(filePath);
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    return { success: false, error: `File not found: ${filePath}`, hint: 'Check the file path.' };
+  }
+  logger.log(`[LSP] ${operation} on ${filePath}`);
+
+  try {
+    const doc = await ensureDocumentLoaded(uri);
+    let title: string;
+    let rewrites: FileRewrite[];
+
+    if (operation === 'rename') {
+      const position = await getPosition(uri, doc, args);
+      const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit>(
+        'vscode.executeDocumentRenameProvider', uri, position, args.new_name
+      );
+      if (!edit || edit.size === 0) {
+        return { success: false, operation, error: 'Rename not available at this position.', hint: 'Point line/character or symbol_name at the identifier to rename.' };
+      }
+      title = `Renamed to "${args.new_name}"`;
+      rewrites = await trackChanges(() => applyWorkspaceEdit(edit));
+    } else {
+      const range = await getActionRange(uri, doc, args);
+      const items = await vscode.commands.executeCommand<Array<vscode.CodeAction | vscode.Command>>(
+        'vscode.executeCodeActionProvider', uri, range, typeof args.kind === 'string' ? args.kind : undefined, 50
+      ) ?? [];
+      const actions = normalizeActions(items);
+      const selected = selectAction(actions, args);
+
+      if (Array.isArray(selected)) {
+        const listed = selected.length > 0 ? selected : actions;
+        const heading = listed.length === 0
+          ? 'No code actions available for this range.'
+          : args.action
+            ? `"${args.action}" matches ${selected.length} code actions. Pass the exact title as action.`
+            : 'Available code actions (pass one title as action to apply it):';
+        return {
+          success: listed.length > 0,
+          operation,
+          file: args.file_path,
+          applied: false,
+          results_count: listed.length,
+          results: [heading, ...listed.map((a, i) => `${i + 1}. ${a.title}${a.kind ? ` [${a.kind}]` : ''}`)].join('\n'),
+          actions: listed.map(a => ({ title: a.title, ...(a.kind ? { kind: a.kind } : {}) }))
+        };
+      }
+
+      title = `Applied "${selected.title}"`;
+      // The edit is applied first, then the command (as the editor does); both are tracked together
+      const { edit, command } = selected;
+      rewrites = await trackChanges(async () => {
+        if (edit) await applyWorkspaceEdit(edit);
+        if (command) await vscode.commands.executeCommand(command.command, ...(command.arguments ?? []));
+      });
+    }
+
+    rewrites = rewrites.filter(r => r.updated !== r.original);
+    if (rewrites.length === 0) {
+      return { success: false, operation, file: args.file_path, error: `${title} made no changes.` };
+    }
+
+    const { changeSetId, files } = await recordChangeSet(rewrites, workspaceRoot);
+    const results = describeChangeSet(title, files);
+    logger.log(`[LSP] ${operation} applied: ${files.length} file(s), change set ${changeSetId}`);
+
+    return {
+      success: true,
+      operation,
+      file: args.file_path,
+      applied: true,
+      change_set: changeSetId,
+      files,
+      files_modified: files.map(f => f.file),
+      results_count: files.reduce((n, f) => n + f.edits, 0),
+      results,
+      message: `${results.split('\n')[0]}. Each file can be accepted or rejected; re-read files before further edits.`
+    };
+  } catch (e: any) {
+    logger.log(`[LSP] ${operation} error: ${e.message}`);
+    return { success: false, operation, file: args.file_path, error: e.message };
+  }
+}
+
 // ============================================================================
 // Main entry point
 // ============================================================================
@@ -462,3 +733,173 @@ export async function lspBridgeTool(args: any, workspaceRoot?: string): Promise<
     };
   }
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'lsp',
+    description: `Query the IDE Language Server for code intelligence. This gives you precise, compiler-level information about code — far more accurate than text search.
+
+Operations:
+- "definitions" — Go to definition of symbol at position. Returns file path + line.
+- "references" — Find ALL usages of a symbol across the entire project. Essential before renaming or refactoring.
+- "hover" — Get type signature and documentation for a symbol.
+- "symbols" — List all symbols (functions, classes, variables, types) in a file with their line numbers. Does NOT require line/symbol_name.
+- "type_definition" — Go to the type definition (e.g., interface/class that defines the type).
+- "implementations" — Find all implementations of an interface or abstract class.
+- "rename_preview" — Preview what a rename would change (files + positions). Does NOT apply the rename (use lsp_refactor for that). Requires "new_name".
+
+Position can be specified by line+character OR by symbol_name (auto-resolved via document symbols).`,
+    parameters: {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['definitions', 'references', 'hover', 'symbols', 'type_definition', 'implementations', 'rename_preview'],
+          description: 'The LSP operation to perform'
+        },
+        file_path: {
+          type: 'string',
+          minLength: 1,
+          description: 'Path to the file (absolute, relative to workspace, or folder-qualified like "backend:src/app.ts")'
+        },
+        line: {
+          type: 'number',
+          description: '1-indexed line number. Required for all operations except "symbols" (unless symbol_name is provided)'
+        },
+        character: {
+          type: 'number',
+          description: '0-indexed character offset within the line. Defaults to 0 if omitted.'
+        },
+        symbol_name: {
+          type: 'string',
+          description: 'Name of the symbol to find. Alternative to line+character — the position is auto-resolved by searching document symbols.'
+        },
+        new_name: {
+          type: 'string',
+          description: 'New name for rename_preview operation'
+        }
+      },
+      required: ['operation', 'file_path']
+    }
+  },
+  aliases: [
+    'go_to_definition', 'find_definition', 'get_definition', 'find_references', 'get_references',
+    'hover', 'get_hover', 'get_type', 'find_symbols', 'document_symbols', 'rename_symbol',
+    'find_implementations', 'get_implementations', 'lsp_hover', 'lsp_definitions',
+    'lsp_references', 'lsp_symbols', 'lsp_rename', 'lsp_bridge'
+  ],
+  readOnly: true,
+  validate: (args) => {
+    if (args.operation !== 'symbols' && typeof args.line !== 'number' && typeof args.symbol_name !== 'string') {
+      return `lsp operation "${args.operation}" requires either "line" (number) or "symbol_name" (string)`;
+    }
+    if (args.operation === 'rename_preview' && (!args.new_name || typeof args.new_name !== 'string')) {
+      return 'lsp rename_preview requires new_name (string)';
+    }
+    return null;
+  },
+  execute: (args, ctx) => lspBridgeTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    const lspSuccess = result?.success ?? false;
+    postMessage({
+      type: 'lspResult',
+      id: messageId,
+      success: lspSuccess,
+      operation: args.operation || '',
+      filePath: args.file_path || '',
+      results: result?.results || '',
+      resultsCount: result?.results_count || 0
+    });
+    return {
+      type: 'lsp_bridge',
+      operation: args.operation || '',
+      filePath: args.file_path || '',
+      resultsCount: result?.results_count || 0,
+      success: lspSuccess
+    };
+  }
+});
+
+registerTool({
+  spec: {
+    name: 'lsp_refactor',
+    description: `Apply Language Server refactorings. Changes are written immediately and shown for review (accept/reject per file, undo as one change set).
+
+Operations:
+- "rename" — Rename the symbol at the position everywhere in the project. Requires "new_name". Position by line+character or symbol_name.
+- "code_action" — Quick fixes and refactorings (organize imports, extract function, add missing import, ...).
+  Without "action" it lists the available actions for the range; pass one title as "action" to apply it.
+  "kind" filters by action kind, e.g. "source.organizeImports", "refactor.extract", "quickfix" — with a single match it is applied directly.
+  Range: line[..end_line] (whole lines unless character is given), symbol_name, or the whole file when neither is given.
+
+After applying, re-read the changed files before editing them further.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        operation: { type: 'string', enum: [...REFACTOR_OPERATIONS], description: 'The refactoring to apply' },
+        file_path: {
+          type: 'string',
+          minLength: 1,
+          description: 'Path to the file (absolute, relative to workspace, or folder-qualified like "backend:src/app.ts")'
+        },
+        line: { type: 'number', description: '1-indexed line number' },
+        character: { type: 'number', description: '0-indexed character offset within the line' },
+        end_line: { type: 'number', description: 'code_action: last line of the range (1-indexed)' },
+        end_character: { type: 'number', description: 'code_action: 0-indexed end character on end_line' },
+        symbol_name: { type: 'string', description: 'Name of the symbol — alternative to line+character' },
+        new_name: { type: 'string', description: 'rename: the new name' },
+        kind: { type: 'string', description: 'code_action: kind filter, e.g. "source.organizeImports", "refactor.extract", "quickfix"' },
+        action: { type: 'string', description: 'code_action: title of the action to apply (from the listing)' }
+      },
+      required: ['operation', 'file_path']
+    }
+  },
+  aliases: ['apply_rename', 'code_action', 'apply_code_action', 'quick_fix', 'organize_imports'],
+  destructive: true,
+  validate: (args) => {
+    if (args.operation === 'rename') {
+      if (!args.new_name || typeof args.new_name !== 'string') return 'lsp_refactor rename requires new_name (string)';
+      if (typeof args.line !== 'number' && typeof args.symbol_name !== 'string') {
+        return 'lsp_refactor rename requires either "line" (number) or "symbol_name" (string)';
+      }
+    }
+    return null;
+  },
+  execute: (args, ctx) => lspRefactorTool(args, ctx.workspaceRoot),
+  summarizeArgs: (args) => ({ operation: args.operation, file_path: args.file_path, new_name: args.new_name, action: args.action ?? args.kind }),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    if (!result?.applied) {
+      postMessage({
+        type: 'lspResult',
+        id: messageId,
+        success: result?.success ?? false,
+        operation: args.operation || '',
+        filePath: args.file_path || '',
+        results: result?.results || result?.error || '',
+        resultsCount: result?.results_count || 0
+      });
+      return {
+        type: 'lsp_bridge',
+        operation: args.operation || '',
+        filePath: args.file_path || '',
+        resultsCount: result?.results_count || 0,
+        success: result?.success ?? false
+      };
+    }
+    return (result.files as RefactoredFile[]).map(f => {
+      const fileAction: MessageAction = {
+        type: 'edit_file',
+        fileName: f.file_path.split(/[/\\]/).pop() || f.file,
+        filePath: f.file_path,
+        success: true,
+        linesAdded: f.linesAdded,
+        linesRemoved: f.linesRemoved,
+        startLine: f.startLine
+      };
+      postMessage({ type: 'fileEditAction', id: messageId, fileAction });
+      return fileAction;
+    });
+  }
+});
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { logger } from '../../logger';
+import { registerTool } from '../toolRegistry';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -735,3 +736,59 @@ const TYPE_LABELS: Record<string, string> = {
   fixed_out_of_viewport: 'Fixed Element Out of Viewport',
   empty_link: 'Empty Link',
 };
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'product_check',
+    description: `Run automated QA checks on a live web page to detect visual, layout, and interaction bugs.
+
+This tool launches a headless browser, navigates to the given URL, and performs comprehensive checks:
+- Viewport overflow (elements causing horizontal scroll)
+- Sibling overlap (layout bugs where elements cover each other)
+- Covered interactive elements (buttons/links blocked by overlaying elements)
+- Broken images and missing alt text
+- Dead interactions (buttons with pointer-events:none, empty buttons)
+- Alignment and sizing consistency in grid/flex containers
+- Text clipping (overflow:hidden without ellipsis)
+- Accessibility issues (missing labels, heading hierarchy, small tap targets)
+- Console JavaScript errors
+- Failed network requests (4xx/5xx responses)
+
+All output is plain text — no screenshots or vision model required.
+
+Use "responsive" viewport to check at mobile (375px), tablet (768px), and desktop (1440px) simultaneously.
+
+Requires Chrome, Edge, or Chromium installed on the user's machine, and puppeteer-core npm package.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          minLength: 1,
+          description: 'Full URL to check (http:// or https://). Typically a local dev server like http://localhost:3000'
+        },
+        viewport: {
+          type: 'string',
+          description: 'Viewport to test. "mobile" (375px), "tablet" (768px), "desktop" (1440px, default), "responsive" (all three), or custom "WxH" like "1920x1080".'
+        },
+        checks: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: specific checks to run. Values: "viewport", "overlap", "interactions", "alignment", "images", "accessibility". Default: all.'
+        },
+        wait_ms: {
+          type: 'number',
+          description: 'Milliseconds to wait after page load before running checks (for SPA hydration). Default: 2000, max: 15000.'
+        }
+      },
+      required: ['url']
+    }
+  },
+  aliases: [
+    'check_page', 'page_check', 'visual_check', 'ui_check', 'qa_check', 'audit_page', 'check_url',
+    'check_website', 'webpage_check', 'browser_check'
+  ],
+  execute: (args) => productCheckTool(args)
+});
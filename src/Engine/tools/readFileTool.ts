@@ -2,6 +2,9 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { logger } from '../../logger';
 import { getContextCache, getFileTime } from '../SystemContext/contextCache';
+import { registerTool } from '../toolRegistry';
+import { resolveFilePath, checkPathSecurity } from './toolUtils';
+import type { MessageAction } from '../../Storage/storageManager';
 
 /**
  * Read file tool — read content, search within file, or get file symbols.
@@ -12,22 +15,8 @@ export async function readFileTool(args: any, workspaceRoot?: string) {
   }
 
   const rawPath = args.file_path;
-  // Resolve relative to workspaceRoot when provided
-  let resolved: string;
-  if (path.isAbsolute(rawPath)) {
-    resolved = rawPath;
-  } else if (workspaceRoot) {
-    resolved = path.resolve(workspaceRoot, rawPath);
-  } else {
-    // fallback to workspace folders first entry
-    const folders = vscode.workspace.workspaceFolders;
-    if (folders && folders.length > 0) {
-      resolved = path.resolve(folders[0].uri.fsPath, rawPath);
-    } else {
-      // last resort: treat as absolute
-      resolved = rawPath;
-    }
-  }
+  // Folder-qualified ("backend:src/app.ts"), workspace-relative or absolute
+  const resolved = resolveFilePath(rawPath, workspaceRoot);
 
   // SYMBOLS MODE: Return file structure without content
   if (args.symbols === true) {
@@ -47,27 +36,8 @@ export async function readFileTool(args: any, workspaceRoot?: string) {
     return processFileContent(cachedFile.content, resolved, args);
   }
 
-  // If resolved path is outside workspace root, ask user for permission before reading
-  const folders = vscode.workspace.workspaceFolders;
-  const rootCandidate = workspaceRoot || (folders && folders.length > 0 ? folders[0].uri.fsPath : undefined);
-  if (rootCandidate) {
-    const rel = path.relative(rootCandidate, resolved);
-    if (rel.startsWith('..') || path.isAbsolute(rel) && rel.indexOf('..') === 0) {
-      // Ask user for explicit permission
-      const msg = `Запрошенный файл находится вне рабочего каталога: ${resolved}. Разрешить чтение этого файла?`;
-      const choice = await vscode.window.showWarningMessage(msg, { modal: true }, 'Разрешить', 'Отклонить');
-      if (choice !== 'Разрешить') {
-        throw new Error('User denied reading file outside workspace');
-      }
-    }
-  } else {
-    // No workspace root available — require explicit permission for any non-absolute-safe access
-    const msg2 = `Нет открытого рабочего каталога. Разрешить чтение файла: ${resolved}?`;
-    const choice2 = await vscode.window.showWarningMessage(msg2, { modal: true }, 'Разрешить', 'Отклонить');
-    if (choice2 !== 'Разрешить') {
-      throw new Error('User denied reading file without workspace root');
-    }
-  }
+  // If resolved path is outside the workspace folders, ask user for permission before reading
+  await checkPathSecurity(resolved, workspaceRoot, 'чтение');
 
   const uri = vscode.Uri.file(resolved);
 
@@ -352,3 +322,61 @@ async function getFileSymbols(resolved: string, rawPath: string): Promise<any> {
     hint: 'Use read_file to read the file content. You can read up to 800 lines at once — prefer reading large ranges instead of many small chunks.'
   };
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'read_file',
+    description: `Read a file from the workspace. Returns content with each line prefixed by its line number as "N: content".
+
+Usage:
+- By default returns up to 800 lines from start of file.
+- Use start_line/end_line to read a specific range.
+- Use search parameter to find specific text (returns matching lines with ±3 lines context).
+- Use symbols=true to get file structure (functions, classes, imports with line numbers) without content.
+- Avoid tiny repeated slices. If you need more context, read a larger window (200-800 lines).
+- Call this tool BEFORE using edit_file. The edit will FAIL if you haven't read the file first.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', minLength: 1, description: 'Absolute, workspace-relative or folder-qualified ("backend:src/app.ts") path to the file' },
+        symbols: { type: 'boolean', description: 'If true, return only file structure (functions, classes, imports with line numbers) without file content' },
+        search: { type: 'string', description: 'Optional: search for this text, return only matching lines with ±3 lines context' },
+        start_line: { type: 'integer', minimum: 1, description: 'Optional: 1-based start line' },
+        end_line: { type: 'integer', minimum: 1, description: 'Optional: 1-based end line' }
+      },
+      required: ['file_path']
+    }
+  },
+  aliases: [
+    'read_file_content', 'get_file_content', 'view_file', 'open_file'
+  ],
+  readOnly: true,
+  execute: (args, ctx) => readFileTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    // Use resolved path from result if available, otherwise fall back to args
+    const filePath = result?.file || args.file_path || '';
+    const fileName = filePath.split(/[/\\]/).pop() || filePath;
+    const fileAction: MessageAction = result && !result.error
+      ? {
+          type: 'read_file',
+          fileName,
+          filePath,
+          success: true,
+          startLine: result.start_line || args.start_line || 1,
+          endLine: result.end_line || args.end_line,
+          totalLines: result.total_lines,
+          truncated: result.truncated
+        }
+      : {
+          type: 'read_file',
+          fileName,
+          filePath,
+          success: false,
+          error: result?.error || 'Unknown error'
+        };
+    postMessage({ type: 'fileReadAction', id: messageId, fileAction });
+    return fileAction;
+  }
+});
@@ -0,0 +1,69 @@
+/**
+ * rememberTool.ts — Save durable project facts across sessions.
+ *
+ * Facts are appended to .ashibalt/memory.md in the workspace (see
+ * SystemContext/projectMemory.ts) and included in the system prompt of every
+ * later session. The user reviews and edits them in Settings → Память.
+ */
+
+import { registerTool } from '../toolRegistry';
+import { addMemoryFact, MAX_FACT_LENGTH } from '../SystemContext/projectMemory';
+
+export async function rememberTool(args: any, workspaceRoot?: string): Promise<any> {
+  try {
+    const result = addMemoryFact(String(args.fact), args.category, workspaceRoot);
+    return {
+      success: true,
+      ...result,
+      message: result.duplicate
+        ? 'This fact is already in project memory.'
+        : `Saved to ${result.file} under "${result.category}".`
+    };
+  } catch (err: any) {
+    return { success: false, error: err?.message || String(err) };
+  }
+}
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'remember',
+    description: `Save a durable project fact to the workspace memory file (.ashibalt/memory.md). Saved facts are shown to you in <PROJECT_MEMORY> in every future session, and the user can review and edit them.
+
+Use for facts that stay true across tasks: build/test/lint commands, code conventions, where key modules live, environment quirks, pitfalls you hit and how to avoid them.
+Do NOT use for task progress, temporary state, secrets, or facts already listed in <PROJECT_MEMORY>.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        fact: { type: 'string', minLength: 1, description: 'One short, self-contained fact (one line), e.g. "Run unit tests with npm test -- --run"' },
+        category: { type: 'string', description: 'Section heading, e.g. "Build", "Conventions", "Architecture" (default "General")' }
+      },
+      required: ['fact']
+    }
+  },
+  aliases: ['save_memory', 'add_memory', 'memorize'],
+  destructive: true,
+  validate: (args) => String(args.fact).length > MAX_FACT_LENGTH
+    ? `fact is too long (max ${MAX_FACT_LENGTH} characters) — save one short fact per call`
+    : null,
+  summarizeArgs: (args) => ({ category: args.category, fact: String(args.fact || '').slice(0, 80) }),
+  policySubject: (args) => ({ value: String(args.fact || ''), kind: 'text' }),
+  execute: (args, ctx) => rememberTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    if (!result?.success) return;
+    postMessage({
+      type: 'memoryFactSaved',
+      id: messageId,
+      fact: args.fact,
+      category: result.category,
+      duplicate: !!result.duplicate
+    });
+    return {
+      type: 'tool',
+      name: 'remember',
+      success: true,
+      summary: args.fact
+    };
+  }
+});
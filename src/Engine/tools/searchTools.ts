@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { IGNORED_DIRS, IGNORED_FILES } from '../../constants';
-import { resolveFilePath } from './toolUtils';
+import { resolveFilePath, parseRootQualifiedPath, findWorkspaceRoot, getWorkspaceRoots, toWorkspacePath } from './toolUtils';
+import { registerTool } from '../toolRegistry';
 
 /**
  * Build a glob exclude pattern from IGNORED_DIRS for findFiles.
@@ -25,19 +26,30 @@ export async function searchTool(args: any, workspaceRoot?: string): Promise<any
   const rootPath = workspaceRoot || folders[0].uri.fsPath;
   let includePattern = args?.include || '**/*';
   
+  // Folder-qualified include ("backend:src/**") limits the search to that workspace folder
+  const qualified = typeof includePattern === 'string' ? parseRootQualifiedPath(includePattern) : undefined;
+  if (qualified) includePattern = qualified.relPath || '**/*';
+  
   // Normalize include pattern: convert folder paths to globs
   // Models often pass "src/WebView/" or "src/WebView" instead of "src/WebView/**"
+  let includeRoot = qualified?.root.path;
   if (includePattern && !includePattern.includes('*')) {
     let cleaned = includePattern.replace(/[/\\]+$/, ''); // strip trailing slashes
     // Strip absolute workspace prefix if model passed full path (e.g. "C:\Users\...\src\WebView")
     if (path.isAbsolute(cleaned)) {
-      const rel = path.relative(rootPath, cleaned);
+      const owner = findWorkspaceRoot(cleaned);
+      const base = owner?.path || rootPath;
+      const rel = path.relative(base, cleaned);
       if (!rel.startsWith('..')) {
         cleaned = rel.replace(/\\/g, '/');
+        if (owner && owner.path !== rootPath) includeRoot = owner.path;
       }
     }
-    includePattern = `${cleaned}/**`;
+    includePattern = cleaned ? `${cleaned}/**` : '**/*';
   }
+  const include: string | vscode.RelativePattern = includeRoot
+    ? new vscode.RelativePattern(vscode.Uri.file(includeRoot), includePattern)
+    : includePattern;
   
   // Parse query: support string or array of strings (up to 15)
   let queries: string[];
@@ -57,7 +69,7 @@ export async function searchTool(args: any, workspaceRoot?: string): Promise<any
     const allResults: Record<string, string[]> = {};
     for (const query of queries) {
       const files = await vscode.workspace.findFiles(query, excludePattern, 100);
-      allResults[query] = files.map(f => path.relative(rootPath, f.fsPath));
+      allResults[query] = files.map(f => toWorkspacePath(f.fsPath, rootPath));
     }
     return queries.length === 1
       ? { query: queries[0], mode: 'files', results: allResults[queries[0]] }
@@ -121,7 +133,7 @@ export async function searchTool(args: any, workspaceRoot?: string): Promise<any
   
   // Mode 3: Search across workspace (multi-query — single file pass for efficiency)
   const excludePattern = buildExcludePattern();
-  const files = await vscode.workspace.findFiles(includePattern, excludePattern, 200);
+  const files = await vscode.workspace.findFiles(include, excludePattern, 200);
   const allResults: Record<string, any[]> = {};
   for (const q of queries) allResults[q] = [];
   const queriesLower = queries.map(q => caseSensitive ? q : q.toLowerCase());
@@ -135,7 +147,7 @@ export async function searchTool(args: any, workspaceRoot?: string): Promise<any
       const bytes = await vscode.workspace.fs.readFile(fileUri);
       const content = Buffer.from(bytes).toString('utf8');
       const lines = content.split('\n');
-      const relPath = path.relative(rootPath, fileUri.fsPath);
+      const relPath = toWorkspacePath(fileUri.fsPath, rootPath);
       
       for (let i = 0; i < lines.length; i++) {
         const lineLower = caseSensitive ? lines[i] : lines[i].toLowerCase();
@@ -195,10 +207,27 @@ export async function getProjectTreeTool(args: any, workspaceRoot?: string): Pro
     return { error: 'No workspace folder open' };
   }
 
-  const rootPath = workspaceRoot || folders[0].uri.fsPath;
-  const subPath = args?.path ? path.resolve(rootPath, args.path) : rootPath;
   const maxDepth = Math.min(args?.max_depth ?? 4, 10);
 
+  // Multi-root workspace without a path: one tree per workspace folder
+  const roots = getWorkspaceRoots();
+  if (!args?.path && roots.length > 1) {
+    const trees = [];
+    for (const root of roots) {
+      const tree = await buildTree(vscode.Uri.file(root.path), 0, maxDepth);
+      trees.push({ root: root.name, path: root.path, tree: treeToString(tree, '') });
+    }
+    return {
+      roots: trees,
+      max_depth: maxDepth,
+      hint: `Address files in other folders as "<folder>:<path>", e.g. "${roots[1].name}:src"`
+    };
+  }
+
+  const defaultRoot = workspaceRoot || folders[0].uri.fsPath;
+  const subPath = args?.path ? resolveFilePath(args.path, defaultRoot) : defaultRoot;
+  const rootPath = findWorkspaceRoot(subPath)?.path || defaultRoot;
+
   // Security check
   const rel = path.relative(rootPath, subPath);
   if (rel.startsWith('..')) {
@@ -222,7 +251,7 @@ export async function getProjectTreeTool(args: any, workspaceRoot?: string): Pro
   const treeString = treeToString(tree, '');
   
   return {
-    root: path.basename(subPath),
+    root: roots.length > 1 ? toWorkspacePath(subPath) : path.basename(subPath),
     tree: treeString,
     max_depth: maxDepth
   };
@@ -287,3 +316,74 @@ function treeToString(node: TreeNode, prefix: string): string {
   
   return result;
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'list_files',
+    description: 'List files in directory. Returns tree structure with file sizes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Directory path (default: workspace root; every folder in multi-root workspaces)' },
+        max_depth: { type: 'integer', description: 'Max depth (default: 4)' }
+      },
+      required: []
+    }
+  },
+  aliases: [
+    'list_directory', 'ls', 'dir'
+  ],
+  readOnly: true,
+  execute: (args, ctx) => getProjectTreeTool(args, ctx.workspaceRoot)
+});
+
+registerTool({
+  spec: {
+    name: 'search',
+    description: `Search for text or files in workspace. Supports searching for up to 15 words/phrases at once by passing an array.
+Set files_only=true to search by filename. Set file to search within a specific file.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { 
+          oneOf: [
+            { type: 'string', minLength: 1, description: 'Single text/pattern to search for' },
+            { type: 'array', items: { type: 'string' }, maxItems: 15, description: 'Array of up to 15 texts/patterns to search for simultaneously' }
+          ],
+          description: 'Text/pattern(s) to search for. String or array of strings (max 15).'
+        },
+        file: { type: 'string', description: 'Optional: search only in this file' },
+        files_only: { type: 'boolean', description: 'Optional: search for file names only' },
+        include: { type: 'string', description: 'Optional: glob pattern (e.g. "**/*.ts"; "backend:src/**" for one folder of a multi-root workspace)' },
+        case_sensitive: { type: 'boolean', description: 'Optional: when true, search is case-sensitive (default: false)' }
+      },
+      required: ['query']
+    }
+  },
+  aliases: [
+    'find', 'grep', 'search_files', 'search_code'
+  ],
+  readOnly: true,
+  execute: (args, ctx) => searchTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    const results = result?.results || result?.matches || [];
+    const totalResults = result?.total_results || result?.total_matches || results.length;
+    postMessage({
+      type: 'searchResult',
+      id: messageId,
+      success: !result?.error,
+      query: args.query || '',
+      mode: result?.mode || 'workspace',
+      results: results.slice(0, 20),
+      totalResults
+    });
+    return {
+      type: 'search',
+      query: args.query || '',
+      totalResults,
+      success: !result?.error
+    };
+  }
+});
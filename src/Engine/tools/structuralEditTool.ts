@@ -0,0 +1,498 @@
+/**
+ * structural_edit — AST-aware edits built on the tree-sitter grammars of diagnosticsEngine.
+ *
+ * Targets a declaration by symbol path instead of by its exact old text:
+ *   "class ChatViewProvider > method loadHistory", "ChatViewProvider.loadHistory", "function main"
+ * Each segment is an optional kind (class, interface, function, method, variable, ...) plus a name;
+ * segments are matched in nesting order, so outer containers (namespaces, modules) may be skipped.
+ *
+ * Operations: replace, replace_body, insert_before, insert_after, delete, wrap.
+ * The result is written through edit_file's pipeline (snapshot, decorations, syntax check).
+ */
+
+import * as vscode from 'vscode';
+import { logger } from '../../logger';
+import { getFileTime } from '../SystemContext/contextCache';
+import { parseSyntaxTree } from '../diagnosticsEngine';
+import { registerTool } from '../toolRegistry';
+import { resolveFilePath } from './toolUtils';
+import { writeFileAndNotify } from './editFileTool';
+import type { MessageAction } from '../../Storage/storageManager';
+
+export type StructuralOperation = 'replace' | 'replace_body' | 'insert_before' | 'insert_after' | 'delete' | 'wrap';
+
+const OPERATIONS: StructuralOperation[] = ['replace', 'replace_body', 'insert_before', 'insert_after', 'delete', 'wrap'];
+
+/** Placeholder for the original node text in wrap content */
+const NODE_PLACEHOLDER = '$NODE';
+
+type SymbolCategory = 'container' | 'function' | 'variable';
+
+export interface SymbolSegment {
+  kind?: string;
+  name: string;
+}
+
+export interface SyntaxSymbol {
+  name: string;
+  category: SymbolCategory;
+  node: any;
+  /** Enclosing symbols, outermost first */
+  parents: SyntaxSymbol[];
+}
+
+// ============================================================================
+// Symbol path parsing and symbol collection
+// ============================================================================
+
+const CONTAINER_TYPE = /(^|_)(class|interface|enum|struct|trait|impl|module|namespace|object)(_|$)/;
+const CONTAINER_EXCLUDE = /body|heritage|clause|list|member|constant|variant/;
+const FUNCTION_TYPE = /(^|_)(function|method|fn|constructor|singleton_method)(_|$)/;
+const FUNCTION_EXCLUDE = /call|type|parameter|body|expression|argument|reference|modifier/;
+const VARIABLE_TYPES = new Set([
+  'variable_declarator', 'public_field_definition', 'field_definition', 'property_signature',
+  'const_item', 'static_item', 'const_spec', 'var_spec', 'type_alias_declaration', 'type_item'
+]);
+
+const CATEGORY_KINDS = new Map<string, SymbolCategory>([
+  ...['class', 'interface', 'enum', 'struct', 'trait', 'impl', 'module', 'namespace', 'object'].map(k => [k, 'container'] as const),
+  ...['function', 'method', 'def', 'fn', 'func', 'constructor'].map(k => [k, 'function'] as const),
+  ...['variable', 'var', 'let', 'const', 'field', 'property', 'type'].map(k => [k, 'variable'] as const)
+]);
+
+/**
+ * Parse "class A > method b", "A.b", "A::b" or "A > b" into segments.
+ */
+export function parseSymbolPath(symbolPath: string): SymbolSegment[] {
+  return symbolPath
+    .split(/\s*(?:>|::|\/)\s*|\.(?=[A-Za-z_$])/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const words = part.split(/\s+/);
+      const name = words[words.length - 1];
+      const kind = words.length > 1 ? words[words.length - 2].toLowerCase() : undefined;
+      return kind && CATEGORY_KINDS.has(kind) ? { kind, name } : { name };
+    });
+}
+
+function symbolCategory(node: any): SymbolCategory | null {
+  const type: string = node.type;
+  if (VARIABLE_TYPES.has(type)) {
+    const value = node.childForFieldName?.('value');
+    return value && /arrow_function|function/.test(value.type) ? 'function' : 'variable';
+  }
+  if (FUNCTION_TYPE.test(type) && !FUNCTION_EXCLUDE.test(type)) return 'function';
+  if (CONTAINER_TYPE.test(type) && !CONTAINER_EXCLUDE.test(type)) return 'container';
+  return null;
+}
+
+function symbolName(node: any): string | null {
+  const named = node.childForFieldName('name') ?? (node.type === 'impl_item' ? node.childForFieldName('type') : null);
+  if (named) return named.text;
+  // C/C++ functions: declarator chain ends in the identifier
+  let declarator = node.childForFieldName('declarator');
+  while (declarator) {
+    const inner = declarator.childForFieldName('declarator');
+    if (!inner) return /identifier$/.test(declarator.type) ? declarator.text : null;
+    declarator = inner;
+  }
+  return null;
+}
+
+/** Every named declaration in the tree with its enclosing declarations */
+export function collectSymbols(root: any): SyntaxSymbol[] {
+  const symbols: SyntaxSymbol[] = [];
+  const walk = (node: any, parents: SyntaxSymbol[]) => {
+    let next = parents;
+    const category = symbolCategory(node);
+    if (category) {
+      const name = symbolName(node);
+      if (name) {
+        const symbol: SyntaxSymbol = { name, category, node, parents };
+        symbols.push(symbol);
+        next = [...parents, symbol];
+      }
+    }
+    for (let i = 0; i < node.namedChildCount; i++) {
+      walk(node.namedChild(i), next);
+    }
+  };
+  walk(root, []);
+  return symbols;
+}
+
+function segmentMatches(segment: SymbolSegment, symbol: SyntaxSymbol): boolean {
+  if (segment.name !== symbol.name) return false;
+  if (!segment.kind) return true;
+  if (CATEGORY_KINDS.get(segment.kind) !== symbol.category) return false;
+  // "interface Foo" must not pick "class Foo"; plain "class" covers every container
+  if (symbol.category === 'container' && segment.kind !== 'class') {
+    return symbol.node.type.includes(segment.kind);
+  }
+  return true;
+}
+
+/** Symbols whose chain ends with the last segment and contains the others in order */
+export function findSymbols(symbols: SyntaxSymbol[], segments: SymbolSegment[]): SyntaxSymbol[] {
+  if (segments.length === 0) return [];
+  const last = segments[segments.length - 1];
+  return symbols.filter(symbol => {
+    if (!segmentMatches(last, symbol)) return false;
+    let s = segments.length - 2;
+    for (let p = symbol.parents.length - 1; p >= 0 && s >= 0; p--) {
+      if (segmentMatches(segments[s], symbol.parents[p])) s--;
+    }
+    return s < 0;
+  });
+}
+
+/** Human-readable label, e.g. "class ChatViewProvider > method loadHistory" */
+export function describeSymbol(symbol: SyntaxSymbol): string {
+  const label = (s: SyntaxSymbol) => {
+    if (s.category === 'container') {
+      const word = s.node.type.match(CONTAINER_TYPE)?.[2] || 'class';
+      return `${word} ${s.name}`;
+    }
+    if (s.category === 'function') {
+      return `${s.parents.some(p => p.category === 'container') ? 'method' : 'function'} ${s.name}`;
+    }
+    return `${s.parents.some(p => p.category === 'container') ? 'field' : 'variable'} ${s.name}`;
+  };
+  return [...symbol.parents, symbol].map(label).join(' > ');
+}
+
+// ============================================================================
+// Text helpers
+// ============================================================================
+
+function lineStart(content: string, index: number): number {
+  return content.lastIndexOf('\n', index - 1) + 1;
+}
+
+function lineIndent(content: string, index: number): string {
+  const start = lineStart(content, index);
+  return content.slice(start).match(/^[ \t]*/)![0];
+}
+
+/** Remove the common leading indentation (blank lines ignored) */
+function dedent(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').replace(/^\n+|\s+$/g, '').split('\n');
+  const indents = lines.filter(l => l.trim()).map(l => l.match(/^[ \t]*/)![0].length);
+  const min = indents.length ? Math.min(...indents) : 0;
+  return lines.map(l => l.slice(Math.min(min, l.match(/^[ \t]*/)![0].length)));
+}
+
+function indentLines(lines: string[], indent: string, skipFirst = false): string {
+  return lines.map((l, i) => (skipFirst && i === 0) || !l.trim() ? l : indent + l).join('\n');
+}
+
+/** Most common indentation step in the file (fallback: 2 spaces, 4 for Python) */
+function detectIndentUnit(content: string, filePath: string): string {
+  if (/^\t/m.test(content) && !/^ {2}/m.test(content)) return '\t';
+  const counts = new Map<number, number>();
+  let prev = 0;
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    const width = line.match(/^ */)![0].length;
+    const step = width - prev;
+    if (step > 0) counts.set(step, (counts.get(step) || 0) + 1);
+    prev = width;
+  }
+  const best = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return ' '.repeat(best ? best[0] : filePath.endsWith('.py') ? 4 : 2);
+}
+
+/** Declaration node including wrappers that belong to it (export, decorators, const ... ;) */
+function outerNode(node: any): any {
+  let outer = node;
+  for (;;) {
+    const parent = outer.parent;
+    if (!parent) return outer;
+    const single = parent.namedChildren.filter((c: any) => c.type === outer.type).length === 1;
+    if (parent.type === 'export_statement' || parent.type === 'decorated_definition' ||
+        (/^(lexical|variable)_declaration$/.test(parent.type) && single)) {
+      outer = parent;
+    } else {
+      return outer;
+    }
+  }
+}
+
+/** Start of the declaration including directly attached comments above it */
+function leadingStart(content: string, node: any): number {
+  let start = node;
+  let prev = start.previousNamedSibling;
+  while (prev && prev.type.includes('comment') && prev.endPosition.row === start.startPosition.row - 1) {
+    start = prev;
+    prev = start.previousNamedSibling;
+  }
+  return lineStart(content, start.startIndex);
+}
+
+function bodyNode(symbol: SyntaxSymbol): any {
+  const body = symbol.node.childForFieldName('body');
+  if (body) return body;
+  const value = symbol.node.childForFieldName('value');
+  return value?.childForFieldName('body') ?? null;
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Compute the new file content for one structural operation.
+ * Returns the edited content and the 1-based line where the change starts.
+ */
+export function applyStructuralOperation(
+  content: string,
+  symbol: SyntaxSymbol,
+  operation: StructuralOperation,
+  newText: string,
+  filePath: string
+): { content: string; line: number } | { error: string } {
+  const outer = outerNode(symbol.node);
+  const indent = lineIndent(content, outer.startIndex);
+  const multiline = outer.endPosition.row > outer.startPosition.row;
+  const separator = multiline ? '\n\n' : '\n';
+  const splice = (start: number, end: number, text: string) => ({
+    content: content.slice(0, start) + text + content.slice(end),
+    line: content.slice(0, start).split('\n').length
+  });
+
+  switch (operation) {
+    case 'replace':
+      return splice(outer.startIndex, outer.endIndex, indentLines(dedent(newText), indent, true));
+
+    case 'replace_body': {
+      const body = bodyNode(symbol);
+      if (!body) {
+        return { error: `${describeSymbol(symbol)} has no body. Use operation "replace" instead.` };
+      }
+      const lines = dedent(newText);
+      const isBlock = body.text.startsWith('{') && body.text.endsWith('}');
+      if (isBlock) {
+        const closingIndent = lineIndent(content, body.endIndex - 1);
+        const firstInner = body.namedChildren.find((c: any) => c.startPosition.row > body.startPosition.row);
+        const innerIndent = firstInner
+          ? lineIndent(content, firstInner.startIndex)
+          : closingIndent + detectIndentUnit(content, filePath);
+        const inner = lines.some(l => l.trim()) ? `\n${indentLines(lines, innerIndent)}\n${closingIndent}` : '';
+        const result = splice(body.startIndex, body.endIndex, `{${inner}}`);
+        return { ...result, line: body.startPosition.row + 1 };
+      }
+      // Indentation-delimited bodies (Python blocks) start at their first statement
+      if (!lines.some(l => l.trim())) {
+        return { error: 'New body is empty. Use operation "delete" to remove the declaration.' };
+      }
+      return splice(body.startIndex, body.endIndex, indentLines(lines, lineIndent(content, body.startIndex), true));
+    }
+
+    case 'insert_before': {
+      const at = leadingStart(content, outer);
+      return splice(at, at, indentLines(dedent(newText), indent) + separator);
+    }
+
+    case 'insert_after':
+      return { ...splice(outer.endIndex, outer.endIndex, separator + indentLines(dedent(newText), indent)), line: outer.endPosition.row + 2 + (multiline ? 1 : 0) };
+
+    case 'delete': {
+      let start = leadingStart(content, outer);
+      let end = outer.endIndex;
+      const rest = content.slice(end);
+      // Take the rest of the line if nothing but whitespace follows the node
+      const eol = rest.match(/^[ \t]*(\r?\n|$)/);
+      if (eol) end += eol[0].length;
+      // Do not leave two blank lines where the declaration was
+      const before = content.slice(0, start);
+      if (/(^|\n)[ \t]*\r?\n$/.test(before)) {
+        const blankAfter = content.slice(end).match(/^[ \t]*\r?\n/);
+        if (blankAfter) end += blankAfter[0].length;
+        else if (end >= content.length) start = before.replace(/\s+$/, '').length + 1;
+      }
+      return splice(Math.min(start, content.length), end, '');
+    }
+
+    case 'wrap': {
+      const lines = dedent(newText);
+      const slot = lines.findIndex(l => l.includes(NODE_PLACEHOLDER));
+      if (slot === -1) {
+        return { error: `wrap content must contain ${NODE_PLACEHOLDER} where the original declaration goes` };
+      }
+      const slotIndent = lines[slot].match(/^[ \t]*/)![0];
+      const original = outer.text.split('\n').map((l: string, i: number) => i > 0 && l.startsWith(indent) ? l.slice(indent.length) : l);
+      lines[slot] = lines[slot].replace(NODE_PLACEHOLDER, () => indentLines(original, slotIndent, true));
+      return splice(outer.startIndex, outer.endIndex, indentLines(lines.join('\n').split('\n'), indent, true));
+    }
+  }
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+export async function structuralEditTool(args: any, workspaceRoot?: string): Promise<any> {
+  const rawPath = args.file_path;
+  const resolvedPath = resolveFilePath(rawPath, workspaceRoot);
+  const operation: StructuralOperation = args.operation;
+  const newText = typeof args.content === 'string' ? args.content : '';
+
+  const uri = vscode.Uri.file(resolvedPath);
+  let content: string;
+  try {
+    content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch {
+    return { success: false, error: `File not found: ${rawPath}` };
+  }
+
+  const fileTimeError = getFileTime().assert(resolvedPath);
+  if (fileTimeError) {
+    logger.log(`[structural_edit] FileTime BLOCKED: ${rawPath} was not read first`);
+    return { success: false, error: fileTimeError, hint: `Call read_file({ "file_path": "${rawPath}" }) first.` };
+  }
+
+  const tree = await parseSyntaxTree(content, resolvedPath);
+  if (!tree) {
+    return {
+      success: false,
+      error: `No tree-sitter grammar available for ${rawPath}`,
+      hint: 'Use edit_file with old_string/new_string for this file.'
+    };
+  }
+
+  const symbols = collectSymbols(tree.rootNode);
+  const segments = parseSymbolPath(String(args.symbol || ''));
+  let matches = findSymbols(symbols, segments);
+
+  if (matches.length === 0) {
+    const last = segments[segments.length - 1]?.name;
+    const similar = symbols.filter(s => last && s.name.toLowerCase().includes(last.toLowerCase()));
+    const listed = (similar.length > 0 ? similar : symbols).slice(0, 30)
+      .map(s => `${describeSymbol(s)} (L${s.node.startPosition.row + 1})`);
+    return {
+      success: false,
+      error: `Symbol not found: ${args.symbol}`,
+      [similar.length > 0 ? 'similar_symbols' : 'available_symbols']: listed
+    };
+  }
+
+  if (matches.length > 1) {
+    const hint = typeof args.start_line === 'number' ? args.start_line : undefined;
+    if (hint === undefined) {
+      return {
+        success: false,
+        error: `Symbol path "${args.symbol}" matches ${matches.length} declarations. Qualify it with the enclosing class or add start_line.`,
+        matches: matches.map(s => `${describeSymbol(s)} (L${s.node.startPosition.row + 1})`)
+      };
+    }
+    const distance = (s: SyntaxSymbol) => Math.abs(s.node.startPosition.row + 1 - hint);
+    matches = [matches.reduce((best, s) => distance(s) < distance(best) ? s : best)];
+  }
+
+  const symbol = matches[0];
+  const edited = applyStructuralOperation(content, symbol, operation, newText, resolvedPath);
+  if ('error' in edited) {
+    return { success: false, error: edited.error };
+  }
+
+  const target = describeSymbol(symbol);
+  logger.log(`[structural_edit] ${operation} ${target} in ${rawPath} (L${edited.line})`);
+
+  try {
+    const stats = await writeFileAndNotify(resolvedPath, rawPath, content, edited.content, uri, [{
+      line: edited.line,
+      old_text: symbol.node.text,
+      new_text: newText,
+      success: true
+    }]);
+
+    const newLines = edited.content.split('\n');
+    const shown = Math.min(newLines.length, edited.line - 1 + Math.max(1, newText.split('\n').length) + 3);
+    const ctxStart = Math.max(0, edited.line - 1 - 3);
+    const result: any = {
+      success: true,
+      message: `${operation} applied to ${target}`,
+      file: rawPath,
+      symbol: target,
+      node_type: symbol.node.type,
+      operation,
+      line: edited.line,
+      linesAdded: stats.linesAdded,
+      linesRemoved: stats.linesRemoved,
+      verification_context: newLines.slice(ctxStart, Math.min(shown, ctxStart + 60))
+        .map((l, i) => `L${ctxStart + i + 1}: ${l}`)
+        .join('\n')
+    };
+
+    if (stats.diagnostics?.has_errors) {
+      result.diagnostics = stats.diagnostics;
+      result.warning = `⚠️ Edit applied but ${stats.diagnostics.error_count} error(s) detected! Fix them before continuing.`;
+    }
+
+    return result;
+  } catch (e: any) {
+    return { success: false, error: `Failed to write file: ${e?.message || e}` };
+  }
+}
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'structural_edit',
+    description: `Edit a declaration (class, function, method, field) by its symbol path, using the file's syntax tree.
+
+Usage:
+- You MUST use read_file before editing.
+- symbol: "class ChatViewProvider > method loadHistory", "ChatViewProvider.loadHistory" or "function main". Kind words are optional.
+- operation:
+  - replace: replace the whole declaration with content
+  - replace_body: replace only the body (content = the statements inside, without the braces)
+  - insert_before / insert_after: add content (e.g. a new method) next to the declaration
+  - delete: remove the declaration together with its doc comment (content ignored)
+  - wrap: content contains ${NODE_PLACEHOLDER} where the original declaration goes
+- Indentation of content is adjusted to the target automatically.
+- Prefer this over edit_file when rewriting a whole function — the old text does not need to be reproduced.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', minLength: 1, description: 'Path to existing file' },
+        symbol: { type: 'string', minLength: 1, description: 'Symbol path, e.g. "class Foo > method bar"' },
+        operation: { type: 'string', enum: OPERATIONS, description: 'What to do with the declaration' },
+        content: { type: 'string', description: 'New code (not needed for delete)' },
+        start_line: { type: 'integer', description: 'Optional hint when the symbol path matches several declarations' }
+      },
+      required: ['file_path', 'symbol', 'operation']
+    }
+  },
+  aliases: ['ast_edit', 'edit_symbol', 'replace_function', 'replace_symbol'],
+  destructive: true,
+  validate: (args) => {
+    if (args.operation !== 'delete' && typeof args.content !== 'string') {
+      return `structural_edit operation "${args.operation}" requires content`;
+    }
+    if (args.operation === 'wrap' && !args.content.includes(NODE_PLACEHOLDER)) {
+      return `wrap content must contain ${NODE_PLACEHOLDER}`;
+    }
+    return null;
+  },
+  execute: (args, ctx) => structuralEditTool(args, ctx.workspaceRoot),
+  summarizeArgs: (args) => ({ file_path: args.file_path, symbol: args.symbol, operation: args.operation }),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    const filePath = result?.file || args.file_path || '';
+    const fileName = filePath.split(/[/\\]/).pop() || filePath;
+    const fileAction: MessageAction = {
+      type: 'edit_file',
+      fileName,
+      filePath,
+      success: result && !result.error,
+      error: result?.error,
+      linesAdded: result?.linesAdded,
+      linesRemoved: result?.linesRemoved,
+      startLine: result?.line
+    };
+    postMessage({ type: 'fileEditAction', id: messageId, fileAction });
+    return fileAction;
+  }
+});
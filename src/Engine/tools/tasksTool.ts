@@ -12,6 +12,8 @@
  *   clear  — remove all tasks
  */
 
+import { registerTool } from '../toolRegistry';
+
 export interface Task {
   text: string;
   done: boolean;
@@ -189,3 +191,34 @@ export function applyTasksInlineUpdate(
     postMessage({ type: 'tasksUpdate', tasks: currentTasks });
   }
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'tasks',
+    description: `Manage a visible task checklist displayed in the chat UI. Use this to show your plan to the user and track progress step-by-step.
+
+Actions (use this tool ONLY for):
+- "set" — replace the full list. Requires: tasks (array of strings)
+- "add" — append task(s). Requires: task (string) OR tasks (array of strings)
+
+ZERO-COST STATUS UPDATES — to mark tasks done, change text, or clear the list,
+DO NOT call this tool. Instead, append this tag at the END of your text response:
+  <tasks>{"done":[0,1,2]}</tasks>
+  <tasks>{"done":[0], "update":[{"index":1,"text":"new description","done":true}]}</tasks>
+  <tasks>{"clear":true}</tasks>
+Fields: done (number[] of 0-based indexes), update ({index,text?,done?}[]), clear (boolean).
+The system processes and strips this tag automatically — it costs zero input tokens.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['set', 'add'], description: 'Action to perform: "set" replaces the full list, "add" appends tasks' },
+        tasks: { type: 'array', items: { type: 'string' }, description: '[set/add] Array of task strings' },
+        task: { type: 'string', description: '[add] Single task string to append' }
+      },
+      required: ['action']
+    }
+  },
+  execute: (args, ctx) => tasksTool(args, ctx.postMessage)
+});
@@ -0,0 +1,469 @@
+/**
+ * terminalSandbox.ts — Sandboxed execution of agent terminal commands (Linux).
+ *
+ * When `ashibaltAi.terminalSandbox` is enabled, `terminal` run commands do not
+ * touch the workspace directly. They run in an unprivileged user + network
+ * namespace (`unshare --user --map-root-user --mount --net`) on top of:
+ *   - overlay — a copy-on-write overlayfs mounted over the workspace path, so the
+ *               command sees the usual absolute paths and writes land in an upper dir
+ *   - copy    — a temporary copy of the workspace bind-mounted over the workspace
+ *               path, used when overlayfs is not available in user namespaces.
+ *               `.git` and `node_modules` are not copied: the real ones are
+ *               bind-mounted into the copy read-only
+ * In both modes the real workspace is hidden from the command, so absolute
+ * paths and `cd ..` lead into the sandboxed view as well. Other workspace
+ * folders can't be hidden the same way, so multi-root workspaces are refused
+ * unless every other folder lies inside the command's one.
+ *
+ * Afterwards the resulting file changes are applied to the workspace and
+ * registered in SnapshotManager, so they show up as pending agent edits the
+ * user can accept or roll back. `.git` and `node_modules` changes, binary files
+ * and very large files are not transferred. Writes outside the workspace
+ * (e.g. ~/.npm) are not isolated — only the network is cut off.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { getSnapshotManager } from '../../Storage/snapshotManager';
+import { applySnapshotDecorations } from '../../Storage/snapshotDecorations';
+import { logger } from '../../logger';
+import { getWorkspaceRoots } from './toolUtils';
+
+export type SandboxMode = 'overlay' | 'copy';
+
+/** One file-level change produced by a sandboxed command */
+export interface SandboxChange {
+  /** Path relative to the workspace root, forward slashes */
+  relPath: string;
+  kind: 'created' | 'modified' | 'deleted';
+}
+
+export interface SandboxSkipped {
+  relPath: string;
+  reason: string;
+}
+
+/** Runs a shell command string; matches runCommandWithChildProcess */
+export type SandboxRunner = (command: string, cwd: string, env: Record<string, string>) => Promise<any>;
+
+/** Directories whose changes are never transferred back */
+const EXCLUDED_DIRS = new Set(['.git', 'node_modules']);
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_APPLIED_FILES = 50;
+const SETUP_FAILED_MARKER = '__ASHIBALT_SANDBOX_SETUP_FAILED__';
+
+export function isSandboxEnabled(): boolean {
+  return vscode.workspace.getConfiguration('ashibaltAi').get<boolean>('terminalSandbox', false) === true;
+}
+
+let probedMode: Promise<SandboxMode | null> | null = null;
+
+/**
+ * Detect which sandbox mode works on this machine (cached).
+ * null = user namespaces are unavailable, commands must not run unsandboxed.
+ */
+export function detectSandboxMode(): Promise<SandboxMode | null> {
+  if (!probedMode) {
+    probedMode = (async () => {
+      if (process.platform !== 'linux') return null;
+      const base = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ashibalt-probe-'));
+      try {
+        for (const d of ['lower', 'upper', 'work']) await fs.promises.mkdir(path.join(base, d));
+        const overlay = spawnSync('unshare', ['--user', '--map-root-user', '--mount', '--net', '--', '/bin/sh', '-c',
+          `mount -t overlay overlay -o "lowerdir=${base}/lower,upperdir=${base}/upper,workdir=${base}/work,userxattr" "${base}/lower"`],
+          { timeout: 10_000 });
+        if (overlay.status === 0) return 'overlay';
+        // Copy mode needs a bind mount to hide the real workspace
+        const bind = spawnSync('unshare', ['--user', '--map-root-user', '--mount', '--net', '--', '/bin/sh', '-c',
+          `mount --bind "${base}/upper" "${base}/lower"`], { timeout: 10_000 });
+        return bind.status === 0 ? 'copy' : null;
+      } catch {
+        return null;
+      } finally {
+        await removeTree(base);
+      }
+    })();
+  }
+  return probedMode;
+}
+
+/** rm -rf that also handles the mode-000 "work" dir overlayfs leaves behind */
+async function removeTree(dir: string): Promise<void> {
+  try {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  } catch {
+    spawnSync('chmod', ['-R', 'u+rwx', dir], { timeout: 30_000 });
+    await fs.promises.rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+function toRel(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+function isExcluded(relPath: string): boolean {
+  return relPath.split('/').some(part => EXCLUDED_DIRS.has(part));
+}
+
+function isWithin(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel !== '..' && !rel.startsWith('..' + path.sep) && !path.isAbsolute(rel);
+}
+
+/** Excluded entries anywhere under dir (relative paths); `.git` may also be a file */
+async function listExcluded(root: string, rel = ''): Promise<Array<{ relPath: string; isDir: boolean }>> {
+  const out: Array<{ relPath: string; isDir: boolean }> = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(path.join(root, rel), { withFileTypes: true });
+  } catch {
+    return out;
+  }
+  for (const e of entries) {
+    const childRel = rel ? `${rel}/${e.name}` : e.name;
+    if (EXCLUDED_DIRS.has(e.name)) out.push({ relPath: childRel, isDir: e.isDirectory() });
+    else if (e.isDirectory()) out.push(...await listExcluded(root, childRel));
+  }
+  return out;
+}
+
+/**
+ * Copy the workspace without `.git` / `node_modules` (tar keeps modes and exact mtimes,
+ * which collectCopyChanges relies on). Returns the skipped entries, recreated as empty
+ * mount points for the read-only binds. Throws with the tar error on failure.
+ */
+async function copyWorkspace(workspaceRoot: string, copy: string): Promise<string[]> {
+  await fs.promises.mkdir(copy);
+  const tar = spawnSync('/bin/bash', ['-o', 'pipefail', '-c',
+    'tar -C "$ASB_SRC" --exclude=.git --exclude=node_modules --format=posix -cf - . | tar -C "$ASB_DST" -xpf -'],
+    { env: { ...process.env, ASB_SRC: workspaceRoot, ASB_DST: copy }, timeout: 5 * 60_000 });
+  if (tar.status !== 0) throw new Error(String(tar.stderr || tar.error || '').slice(0, 300));
+
+  const excluded = await listExcluded(workspaceRoot);
+  for (const e of excluded) {
+    const target = path.join(copy, e.relPath);
+    if (e.isDir) await fs.promises.mkdir(target, { recursive: true });
+    else await fs.promises.writeFile(target, '');
+  }
+  return excluded.map(e => e.relPath);
+}
+
+/** All regular files under dir (relative paths), excluded dirs skipped */
+async function listFiles(root: string, rel = ''): Promise<string[]> {
+  const out: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(path.join(root, rel), { withFileTypes: true });
+  } catch {
+    return out;
+  }
+  for (const e of entries) {
+    const childRel = rel ? `${rel}/${e.name}` : e.name;
+    if (EXCLUDED_DIRS.has(e.name)) continue;
+    if (e.isDirectory()) out.push(...await listFiles(root, childRel));
+    else if (e.isFile()) out.push(childRel);
+  }
+  return out;
+}
+
+async function sameContent(a: string, b: string): Promise<boolean> {
+  const [sa, sb] = await Promise.all([fs.promises.stat(a), fs.promises.stat(b)]);
+  if (sa.size !== sb.size) return false;
+  const [ca, cb] = await Promise.all([fs.promises.readFile(a), fs.promises.readFile(b)]);
+  return ca.equals(cb);
+}
+
+/**
+ * Changes recorded in an overlay upper dir. `manifest` lists every path of the
+ * merged view after the command (as printed by `find .`), which reveals
+ * deletions through whiteouts and opaque directories. Without a manifest only
+ * created and modified files are reported.
+ */
+export async function collectOverlayChanges(lower: string, upper: string, manifest: Set<string> | null): Promise<SandboxChange[]> {
+  const changes: SandboxChange[] = [];
+  const seenDeleted = new Set<string>();
+
+  const walk = async (rel: string): Promise<void> => {
+    const entries = await fs.promises.readdir(path.join(upper, rel), { withFileTypes: true });
+    for (const e of entries) {
+      const childRel = rel ? `${rel}/${e.name}` : e.name;
+      if (EXCLUDED_DIRS.has(e.name)) continue;
+      if (e.isDirectory()) {
+        await walk(childRel);
+      } else if (e.isFile()) {
+        const lowerPath = path.join(lower, childRel);
+        if (!fs.existsSync(lowerPath)) {
+          changes.push({ relPath: childRel, kind: 'created' });
+        } else if (!await sameContent(lowerPath, path.join(upper, childRel))) {
+          changes.push({ relPath: childRel, kind: 'modified' });
+        }
+      }
+      // Character devices are whiteouts — handled through the manifest below
+    }
+
+    // Lower entries of this directory that are gone from the merged view were deleted.
+    // Directories untouched by the command have no upper dir, so only these can lose entries.
+    if (!manifest) return;
+    let lowerEntries: fs.Dirent[] = [];
+    try {
+      lowerEntries = await fs.promises.readdir(path.join(lower, rel), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const e of lowerEntries) {
+      const childRel = rel ? `${rel}/${e.name}` : e.name;
+      if (EXCLUDED_DIRS.has(e.name) || manifest.has(childRel)) continue;
+      const files = e.isDirectory() ? (await listFiles(lower, childRel)) : e.isFile() ? [childRel] : [];
+      for (const f of files) {
+        if (!seenDeleted.has(f)) {
+          seenDeleted.add(f);
+          changes.push({ relPath: f, kind: 'deleted' });
+        }
+      }
+    }
+  };
+
+  await walk('');
+  return changes.sort((a, b) => a.relPath.localeCompare(b.relPath));
+}
+
+/** Changes between the workspace and a sandbox copy of it */
+export async function collectCopyChanges(original: string, copy: string): Promise<SandboxChange[]> {
+  const [before, after] = await Promise.all([listFiles(original), listFiles(copy)]);
+  const afterSet = new Set(after);
+  const changes: SandboxChange[] = [];
+  for (const rel of after) {
+    const origPath = path.join(original, rel);
+    if (!fs.existsSync(origPath)) {
+      changes.push({ relPath: rel, kind: 'created' });
+      continue;
+    }
+    const [so, sc] = await Promise.all([fs.promises.stat(origPath), fs.promises.stat(path.join(copy, rel))]);
+    // cp -a keeps mtimes: same size + mtime means untouched
+    if (so.size === sc.size && so.mtimeMs === sc.mtimeMs) continue;
+    if (!await sameContent(origPath, path.join(copy, rel))) {
+      changes.push({ relPath: rel, kind: 'modified' });
+    }
+  }
+  for (const rel of before) {
+    if (!afterSet.has(rel)) changes.push({ relPath: rel, kind: 'deleted' });
+  }
+  return changes.sort((a, b) => a.relPath.localeCompare(b.relPath));
+}
+
+/** Smallest line range that differs, so the snapshot shows a focused change */
+function changedHunk(oldText: string, newText: string): { start: number; oldPart: string; newPart: string } {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+  // A hunk of only empty lines joins to "" and would be counted as zero lines — use the whole file
+  const ambiguous = (lines: string[]) => lines.length > 0 && lines.join('\n') === '';
+  if (ambiguous(oldLines) || ambiguous(newLines)) {
+    return { start: 1, oldPart: oldText, newPart: newText };
+  }
+  return { start: prefix + 1, oldPart: oldLines.join('\n'), newPart: newLines.join('\n') };
+}
+
+function isBinary(buf: Buffer): boolean {
+  return buf.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Apply sandbox changes to the workspace and register them as pending agent edits.
+ * `resultRoot` holds the new file contents (overlay upper dir or sandbox copy).
+ */
+export async function applySandboxChanges(
+  changes: SandboxChange[],
+  workspaceRoot: string,
+  resultRoot: string
+): Promise<{ applied: SandboxChange[]; skipped: SandboxSkipped[] }> {
+  const snapshotManager = getSnapshotManager();
+  const applied: SandboxChange[] = [];
+  const skipped: SandboxSkipped[] = [];
+
+  for (const change of changes) {
+    if (isExcluded(change.relPath)) continue;
+    if (applied.length >= MAX_APPLIED_FILES) {
+      skipped.push({ relPath: change.relPath, reason: `more than ${MAX_APPLIED_FILES} changed files` });
+      continue;
+    }
+    const target = path.join(workspaceRoot, change.relPath);
+    const uri = vscode.Uri.file(target);
+    try {
+      const oldBuf = change.kind === 'created' ? null : await fs.promises.readFile(target);
+      const newBuf = change.kind === 'deleted' ? null : await fs.promises.readFile(path.join(resultRoot, change.relPath));
+      if ((oldBuf && oldBuf.length > MAX_FILE_BYTES) || (newBuf && newBuf.length > MAX_FILE_BYTES)) {
+        skipped.push({ relPath: change.relPath, reason: 'file larger than 1 MB' });
+        continue;
+      }
+      if ((oldBuf && isBinary(oldBuf)) || (newBuf && isBinary(newBuf))) {
+        skipped.push({ relPath: change.relPath, reason: 'binary file' });
+        continue;
+      }
+      const oldText = oldBuf?.toString('utf8') ?? null;
+      const newText = newBuf?.toString('utf8') ?? '';
+
+      let snapshot;
+      if (change.kind === 'deleted') {
+        await vscode.workspace.fs.delete(uri);
+        snapshot = await snapshotManager.createSnapshot(target, 'delete_file', oldText, '', 1, oldText!.split('\n').length);
+      } else if (change.kind === 'created') {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target)));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(newText, 'utf8'));
+        snapshot = await snapshotManager.createSnapshot(target, 'create_file', null, newText, 1, newText.split('\n').length);
+      } else {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(newText, 'utf8'));
+        const hunk = changedHunk(oldText!, newText);
+        snapshot = await snapshotManager.createSnapshot(
+          target, 'edit_file', hunk.oldPart, hunk.newPart, hunk.start, hunk.start + Math.max(0, hunk.newPart.split('\n').length - 1)
+        );
+      }
+      if (snapshot && change.kind !== 'deleted') applySnapshotDecorations(snapshot);
+      applied.push(change);
+    } catch (err: any) {
+      skipped.push({ relPath: change.relPath, reason: err?.message || String(err) });
+    }
+  }
+  return { applied, skipped };
+}
+
+function sandboxNote(mode: SandboxMode, applied: SandboxChange[], skipped: SandboxSkipped[]): string {
+  const lines = [
+    `[sandbox:${mode}] The command ran in an isolated ${mode} of the workspace, mounted at the workspace path, with network disabled.`
+  ];
+  if (applied.length) {
+    lines.push(`${applied.length} file change(s) were applied as pending edits the user can accept or discard:`);
+    for (const c of applied) lines.push(`  ${c.kind === 'created' ? 'A' : c.kind === 'deleted' ? 'D' : 'M'} ${c.relPath}`);
+  } else {
+    lines.push('No workspace files were changed.');
+  }
+  if (skipped.length) {
+    lines.push(`${skipped.length} change(s) were NOT applied:`);
+    for (const s of skipped.slice(0, 20)) lines.push(`  ${s.relPath} (${s.reason})`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Run a command in the sandbox and transfer its file changes to the workspace.
+ */
+export async function runSandboxedCommand(command: string, workspaceRoot: string, cwd: string, run: SandboxRunner): Promise<any> {
+  let mode = await detectSandboxMode();
+  if (!mode) {
+    return {
+      success: false,
+      command,
+      cwd,
+      error: 'Terminal sandbox is enabled but unavailable: it requires Linux with unprivileged user namespaces (unshare). ' +
+        'The command was NOT run. Ask the user to disable "ashibaltAi.terminalSandbox" or enable user namespaces.'
+    };
+  }
+  // Only the command's folder is mounted over — any other folder would be written for real
+  const uncovered = getWorkspaceRoots().map(r => r.path).filter(r => !isWithin(workspaceRoot, r));
+  if (uncovered.length) {
+    return {
+      success: false,
+      command,
+      cwd,
+      error: `Terminal sandbox supports a single workspace folder, but other folders are open (${uncovered.join(', ')}). ` +
+        'The command was NOT run. Ask the user to close the other folders or disable "ashibaltAi.terminalSandbox".'
+    };
+  }
+  // overlayfs mount options can't carry commas / colons in paths
+  if (mode === 'overlay' && /[,:]/.test(workspaceRoot)) mode = 'copy';
+
+  const base = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ashibalt-sandbox-'));
+  try {
+    let script: string;
+    let resultRoot: string;
+    const env: Record<string, string> = { ASB_CMD: command, ASB_CWD: cwd };
+
+    if (mode === 'overlay') {
+      const upper = path.join(base, 'upper');
+      const work = path.join(base, 'work');
+      await fs.promises.mkdir(upper);
+      await fs.promises.mkdir(work);
+      Object.assign(env, {
+        ASB_LOWER: workspaceRoot,
+        ASB_UPPER: upper,
+        ASB_WORK: work,
+        ASB_MANIFEST: path.join(base, 'manifest.txt')
+      });
+      resultRoot = upper;
+      script = [
+        `mount -t overlay overlay -o "lowerdir=$ASB_LOWER,upperdir=$ASB_UPPER,workdir=$ASB_WORK,userxattr" "$ASB_LOWER" || { echo ${SETUP_FAILED_MARKER} >&2; exit 1; }`,
+        'cd "$ASB_CWD" || exit 1',
+        '/bin/bash -c "$ASB_CMD"',
+        'rc=$?',
+        'cd "$ASB_LOWER" && find . \\( -name .git -o -name node_modules \\) -prune -o -print > "$ASB_MANIFEST"',
+        'exit $rc'
+      ].join('\n');
+    } else {
+      const copy = path.join(base, 'ws');
+      let readOnly: string[];
+      try {
+        readOnly = await copyWorkspace(workspaceRoot, copy);
+      } catch (err: any) {
+        return { success: false, command, cwd, error: `Sandbox: failed to copy the workspace: ${err?.message || String(err)}` };
+      }
+      const readOnlyList = path.join(base, 'readonly.txt');
+      await fs.promises.writeFile(readOnlyList, readOnly.map(p => p + '\0').join(''));
+      Object.assign(env, { ASB_ROOT: workspaceRoot, ASB_COPY: copy, ASB_READONLY: readOnlyList });
+      resultRoot = copy;
+      // .git / node_modules stay usable but unwritable; then the copy replaces the workspace
+      // path (rbind keeps those binds), so absolute paths never reach the real files
+      script = [
+        'while IFS= read -r -d \'\' p; do',
+        `  { mount --bind "$ASB_ROOT/$p" "$ASB_COPY/$p" && mount -o remount,bind,ro "$ASB_COPY/$p"; } || { echo ${SETUP_FAILED_MARKER} >&2; exit 1; }`,
+        'done < "$ASB_READONLY"',
+        `mount --rbind "$ASB_COPY" "$ASB_ROOT" || { echo ${SETUP_FAILED_MARKER} >&2; exit 1; }`,
+        'cd "$ASB_CWD" || exit 1',
+        '/bin/bash -c "$ASB_CMD"'
+      ].join('\n');
+    }
+    env.ASB_SCRIPT = script;
+
+    logger.log(`[SANDBOX] ${mode}: ${command.slice(0, 200)} (cwd=${cwd})`);
+    // Started outside the workspace: a cwd inside it would keep pointing at the real files after the mount
+    const result = await run('unshare --user --map-root-user --mount --net -- /bin/bash -c "$ASB_SCRIPT"', base, env);
+
+    if (typeof result?.output === 'string' && result.output.includes(SETUP_FAILED_MARKER)) {
+      return { success: false, command, cwd, error: `Sandbox: failed to mount the workspace ${mode}. The command was NOT run.`, output: result.output };
+    }
+
+    let changes: SandboxChange[];
+    if (mode === 'overlay') {
+      const manifestText = await fs.promises.readFile(env.ASB_MANIFEST, 'utf8').catch(() => null);
+      // No manifest = the command was cut short before it was written: deletions are unknown
+      const manifest = manifestText === null
+        ? null
+        : new Set(manifestText.split('\n').filter(Boolean).map(p => p.replace(/^\.\/?/, '')));
+      changes = await collectOverlayChanges(workspaceRoot, resultRoot, manifest);
+    } else {
+      changes = await collectCopyChanges(workspaceRoot, resultRoot);
+    }
+
+    const { applied, skipped } = await applySandboxChanges(changes, workspaceRoot, resultRoot);
+    const note = sandboxNote(mode, applied, skipped);
+    const output = typeof result?.output === 'string' ? result.output : '';
+    return {
+      ...result,
+      command,
+      cwd,
+      method: `sandbox_${mode}`,
+      output: `${output}\n\n${note}`,
+      sandbox: { mode, applied, skipped }
+    };
+  } finally {
+    await removeTree(base);
+  }
+}
+
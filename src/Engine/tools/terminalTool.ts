@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { stripAnsi } from './toolUtils';
+import { stripAnsi, resolveFilePath, findWorkspaceRoot } from './toolUtils';
+import { registerTool } from '../toolRegistry';
+import { isSandboxEnabled, runSandboxedCommand } from './terminalSandbox';
 
 // ── Interactive prompt detection ────────────────────────────────────
 
@@ -66,35 +68,17 @@ export function setInteractivePromptHandler(handler: InteractivePromptCallback |
   _onInteractivePrompt = handler;
 }
 
+// ── Terminal backend: VS Code terminals (extension) or plain child processes (headless CLI) ──
+export type TerminalBackend = 'vscode' | 'child_process';
+let _terminalBackend: TerminalBackend = 'vscode';
+
+export function setTerminalBackend(backend: TerminalBackend): void {
+  _terminalBackend = backend;
+}
+
 // ── Idle after output — how long to wait before checking for interactive prompt ──
 const INTERACTIVE_DETECT_MS = 2500; // 2.5s of silence after output → check for prompt
 
-// Dangerous commands that require user confirmation
-const DANGEROUS_COMMANDS = [
-  'rm ', 'rm -', 'rmdir', 'del ', 'rd ',
-  'sudo ', 'su ',
-  'format ', 'mkfs',
-  '> ', '>> ', // redirects that could overwrite files
-  'chmod ', 'chown ',
-  'kill ', 'pkill ', 'killall ',
-  'shutdown', 'reboot', 'poweroff',
-  'dd ',
-  'mv ', // can overwrite files
-  ':(){:|:&};:', // fork bomb
-  'curl | sh', 'wget | sh', 'curl | bash', 'wget | bash' // remote code execution
-];
-
-// Commands that are blocked entirely
-const BLOCKED_COMMANDS = [
-  ':(){:|:&};:', // fork bomb
-  'rm -rf /',
-  'rm -rf /*',
-  'dd if=/dev/zero',
-  'mkfs.ext',
-  '> /dev/sda',
-  'chmod -R 777 /'
-];
-
 // Reusable terminal instance for agent commands
 let agentTerminal: vscode.Terminal | null = null;
 // Secondary terminal for running commands while primary is busy (e.g., running a server)
@@ -217,33 +201,7 @@ export async function runTerminalCommandTool(args: any, workspaceRoot?: string):
   // We keep only the 1h total safety cap.
   const idleTimeoutMs = 0; // Disabled
 
-  // Check for blocked commands
-  for (const blocked of BLOCKED_COMMANDS) {
-    if (command.includes(blocked)) {
-      return { 
-        error: `Command blocked for safety: contains "${blocked}"`,
-        success: false 
-      };
-    }
-  }
-
-  // Check for dangerous commands - ask user confirmation
-  const isDangerous = DANGEROUS_COMMANDS.some(d => command.toLowerCase().includes(d.toLowerCase()));
-  if (isDangerous) {
-    const choice = await vscode.window.showWarningMessage(
-      `⚠️ Потенциально опасная команда:\n\n${command}\n\nВыполнить?`,
-      { modal: true },
-      'Выполнить',
-      'Отмена'
-    );
-    if (choice !== 'Выполнить') {
-      return { 
-        error: 'Command cancelled by user',
-        success: false,
-        command 
-      };
-    }
-  }
+  // Blocked / dangerous commands are handled by the permission policy (toolPolicy.ts)
 
   // Determine working directory
   const folders = vscode.workspace.workspaceFolders;
@@ -251,14 +209,19 @@ export async function runTerminalCommandTool(args: any, workspaceRoot?: string):
     return { error: 'No workspace folder open' };
   }
   
-  const rootPath = workspaceRoot || folders[0].uri.fsPath;
+  let rootPath = workspaceRoot || folders[0].uri.fsPath;
   let cwd = rootPath;
   
   if (args.cwd) {
-    const resolved = path.resolve(rootPath, args.cwd);
+    // Relative to the default root, or inside another workspace folder ("backend:" / "backend:src")
+    const resolved = resolveFilePath(args.cwd, rootPath);
     const rel = path.relative(rootPath, resolved);
     if (rel.startsWith('..')) {
-      return { error: 'Working directory must be within workspace' };
+      const owner = findWorkspaceRoot(resolved);
+      if (!owner) {
+        return { error: 'Working directory must be within workspace' };
+      }
+      rootPath = owner.path;
     }
     cwd = resolved;
   }
@@ -289,14 +252,30 @@ export async function runTerminalCommandTool(args: any, workspaceRoot?: string):
   ];
   const isServerCommand = SERVER_PATTERNS.some(p => p.test(finalCommand));
 
+  // ── Sandbox mode ─────────────────────────────────────────────────
+  // Commands run isolated (overlay / copy, no network); file changes come back as snapshots.
+  if (isSandboxEnabled()) {
+    if (args.background === true || (isServerCommand && args.background !== false)) {
+      return { error: 'Background commands are not supported in terminal sandbox mode. Run the command with background=false or ask the user to disable the sandbox.' };
+    }
+    return await runSandboxedCommand(finalCommand, rootPath, cwd,
+      (cmd, runCwd, env) => runCommandWithChildProcess(cmd, runCwd, idleTimeoutMs, env));
+  }
+
   // ── Background mode ──────────────────────────────────────────────
   // When background=true, start the command and return immediately.
   // Output is collected in backgroundOutputBuffer for later reading via read_terminal_output.
   if (args.background === true || (isServerCommand && args.background !== false)) {
-    return await startBackgroundCommand(finalCommand, cwd, command);
+    return _terminalBackend === 'child_process'
+      ? await startBackgroundChildProcess(finalCommand, cwd, command)
+      : await startBackgroundCommand(finalCommand, cwd, command);
   }
   // ─────────────────────────────────────────────────────────────────
 
+  if (_terminalBackend === 'child_process') {
+    return await runCommandWithChildProcess(finalCommand, cwd, idleTimeoutMs);
+  }
+
   // Ensure VS Code shell execution event listeners are registered
   initShellExecutionEvents();
 
@@ -552,9 +531,9 @@ export async function runTerminalCommandTool(args: any, workspaceRoot?: string):
 
 /**
  * Fallback: run command with child_process.
- * Also used by run_tests tool.
+ * Also used by run_tests tool and the terminal sandbox (extra `env` variables).
  */
-export async function runCommandWithChildProcess(command: string, cwd: string, idleTimeoutMs: number): Promise<any> {
+export async function runCommandWithChildProcess(command: string, cwd: string, idleTimeoutMs: number, env?: Record<string, string>): Promise<any> {
   const cp = await import('child_process');
 
   // Helper for reliable cross-platform process kill
@@ -576,7 +555,7 @@ export async function runCommandWithChildProcess(command: string, cwd: string, i
       cwd,
       shell: process.platform === 'win32' ? 'cmd.exe' : '/bin/bash',
       windowsHide: true,
-      env: process.env
+      env: env ? { ...process.env, ...env } : process.env
     });
 
     let output = '';
@@ -673,19 +652,8 @@ export async function runCommandWithChildProcess(command: string, cwd: string, i
  * Runs the command in a VISIBLE VS Code terminal so the user can see it.
  */
 async function startBackgroundCommand(finalCommand: string, cwd: string, originalCommand: string): Promise<any> {
-  const cp = await import('child_process');
-
   // Kill previous background process if any
-  if (backgroundProcess && !backgroundProcess.killed) {
-    try {
-      if (process.platform === 'win32' && backgroundProcess.pid) {
-        cp.exec(`taskkill /pid ${backgroundProcess.pid} /T /F`, { windowsHide: true });
-      } else {
-        backgroundProcess.kill('SIGKILL');
-      }
-    } catch { /* ignore */ }
-    backgroundProcess = null;
-  }
+  stopBackgroundProcess();
 
   backgroundOutputBuffer = '';
   backgroundCommand = originalCommand;
@@ -721,6 +689,66 @@ async function startBackgroundCommand(finalCommand: string, cwd: string, origina
   };
 }
 
+/**
+ * Start a command in background mode without a VS Code terminal (headless CLI).
+ * Output is collected into the background buffer for action="read"; stdin stays open for action="write".
+ */
+async function startBackgroundChildProcess(finalCommand: string, cwd: string, originalCommand: string): Promise<any> {
+  const cp = await import('child_process');
+  stopBackgroundProcess();
+
+  backgroundOutputBuffer = '';
+  backgroundCommand = originalCommand;
+  const child = cp.spawn(finalCommand, {
+    cwd,
+    shell: process.platform === 'win32' ? 'cmd.exe' : '/bin/bash',
+    windowsHide: true,
+    env: process.env
+  });
+  backgroundProcess = child;
+  const push = (chunk: any) => {
+    backgroundOutputBuffer += stripAnsi(String(chunk ?? ''));
+    // Keep the tail — read returns the first 10k chars and clears the buffer
+    if (backgroundOutputBuffer.length > 100000) {
+      backgroundOutputBuffer = backgroundOutputBuffer.substring(backgroundOutputBuffer.length - 50000);
+    }
+  };
+  child.stdout?.on('data', push);
+  child.stderr?.on('data', push);
+  child.on('close', (code: number | null) => {
+    backgroundOutputBuffer += `\n[process exited with code ${code}]\n`;
+    if (backgroundProcess === child) backgroundProcess = null;
+  });
+
+  // Wait briefly (3s) for initial output
+  await new Promise(resolve => setTimeout(resolve, 3000));
+
+  return {
+    success: true,
+    command: originalCommand,
+    cwd,
+    background: true,
+    output: backgroundOutputBuffer.substring(0, 5000) || '(no output yet)',
+    message: 'Command started in the background. Use action="read" to get its output.',
+    method: 'child_process'
+  };
+}
+
+/**
+ * Kill the background process, if any (used on restart and when the headless CLI exits).
+ */
+export function stopBackgroundProcess(): void {
+  if (!backgroundProcess || backgroundProcess.killed) return;
+  try {
+    if (process.platform === 'win32' && backgroundProcess.pid) {
+      require('child_process').exec(`taskkill /pid ${backgroundProcess.pid} /T /F`, { windowsHide: true });
+    } else {
+      backgroundProcess.kill('SIGKILL');
+    }
+  } catch { /* ignore */ }
+  backgroundProcess = null;
+}
+
 /**
  * Write input to the active terminal (stdin).
  * Sends text to the VS Code terminal (e.g. answering prompts like "y\n").
@@ -836,3 +864,89 @@ export async function terminalTool(args: any, workspaceRoot?: string): Promise<a
       };
   }
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'terminal',
+    description: `Unified terminal tool. Use action to choose mode.
+
+action="run" (default) — run a shell command. Returns cleaned output.
+  - command: shell command (required)
+  - cwd: working directory relative to workspace
+  - timeout_ms: timeout in ms (default 30000, max 120000)
+  - background: true for servers/watchers (non-blocking)
+
+action="write" — send stdin text to the active terminal or background process.
+  - input: text to send (include \\n for Enter); e.g. "y\\n" to confirm a prompt
+
+action="read" — read accumulated output from the background process started with background=true.
+  - clear_buffer: clear buffer after reading (default: true)
+
+Do NOT prepend "cd" to commands — use the cwd parameter instead.
+Output is cleaned of ANSI escape codes.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['run', 'write', 'read'], description: 'Mode: "run" (default), "write" (send stdin), "read" (read background output)' },
+        command: { type: 'string', description: '[run] Shell command to execute' },
+        cwd: { type: 'string', description: '[run] Working directory relative to workspace (optional)' },
+        timeout_ms: { type: 'integer', description: '[run] Timeout in milliseconds (default: 30000, max: 120000)' },
+        background: { type: 'boolean', description: '[run] Run in background (non-blocking). Use for servers, watchers, long-running processes.' },
+        input: { type: 'string', description: '[write] Text to send to terminal stdin (include \\n for Enter)' },
+        clear_buffer: { type: 'boolean', description: '[read] Clear output buffer after reading (default: true)' }
+      },
+      required: []
+    }
+  },
+  aliases: [
+    'run_command', 'execute_command', 'run_terminal_command', 'shell', 'bash', 'exec'
+  ],
+  destructive: true,
+  validate: (args) => {
+    const termAction = (args.action ?? 'run').toLowerCase();
+    if (termAction === 'run' || termAction === '') {
+      if (!args.command || typeof args.command !== 'string') {
+        return 'terminal action="run" requires command (string)';
+      }
+    } else if (termAction === 'write') {
+      if (!args.input || typeof args.input !== 'string') {
+        return 'terminal action="write" requires input (string)';
+      }
+    } else if (termAction !== 'read') {
+      return `terminal: unknown action "${termAction}". Use "run", "write", or "read".`;
+    }
+    return null;
+  },
+  execute: (args, ctx) => terminalTool(args, ctx.workspaceRoot),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    // Only "run" gets an indicator; write/read are silent helpers
+    const termAction = (args?.action ?? 'run').toLowerCase();
+    if (termAction !== 'run' && termAction !== '') return;
+    const command = args.command || '';
+
+    // Rejection / cancellation is already shown by the confirmation flow
+    if (!result?.rejected && !result?.cancelled) {
+      postMessage({
+        type: 'terminalResult',
+        id: messageId,
+        command,
+        output: result?.output || result?.stdout || '',
+        exitCode: result?.exit_code ?? result?.exitCode ?? 0,
+        success: !result?.error,
+        error: result?.error
+      });
+    }
+
+    // Persist terminal action for session restore
+    return {
+      type: 'terminal',
+      command,
+      exitCode: result?.exit_code ?? result?.exitCode,
+      success: !result?.error && !result?.rejected,
+      rejected: result?.rejected,
+      error: result?.error
+    };
+  }
+});
@@ -24,14 +24,81 @@ export function stripAnsi(str: string): string {
     .replace(/^\s*\n/gm, '');
 }
 
+export interface WorkspaceRootInfo {
+  /** Workspace folder name — the prefix of folder-qualified paths ("backend:src/app.ts") */
+  name: string;
+  path: string;
+}
+
+/** All workspace folders; the first one is the default root for relative paths */
+export function getWorkspaceRoots(): WorkspaceRootInfo[] {
+  return (vscode.workspace.workspaceFolders || []).map(f => ({
+    name: f.name || path.basename(f.uri.fsPath),
+    path: f.uri.fsPath
+  }));
+}
+
+function isWithinRoot(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel !== '..' && !rel.startsWith('..' + path.sep) && !path.isAbsolute(rel);
+}
+
+/**
+ * Split a folder-qualified path ("backend:src/app.ts") into its workspace folder and
+ * the path inside it. Returns undefined when the prefix is not a workspace folder name.
+ */
+export function parseRootQualifiedPath(rawPath: string): { root: WorkspaceRootInfo; relPath: string } | undefined {
+  if (path.isAbsolute(rawPath)) return undefined;
+  const sep = rawPath.indexOf(':');
+  if (sep <= 0) return undefined;
+  const name = rawPath.slice(0, sep);
+  const roots = getWorkspaceRoots();
+  const root = roots.find(r => r.name === name) || roots.find(r => r.name.toLowerCase() === name.toLowerCase());
+  if (!root) return undefined;
+  return { root, relPath: rawPath.slice(sep + 1).replace(/^[/\\]+/, '') };
+}
+
+/** Innermost workspace folder containing an absolute path */
+export function findWorkspaceRoot(absPath: string): WorkspaceRootInfo | undefined {
+  let best: WorkspaceRootInfo | undefined;
+  for (const root of getWorkspaceRoots()) {
+    if (isWithinRoot(root.path, absPath) && (!best || root.path.length > best.path.length)) {
+      best = root;
+    }
+  }
+  return best;
+}
+
+/**
+ * Path as shown to the model: workspace-relative with forward slashes.
+ * In multi-root workspaces it is qualified with the folder name ("backend:src/app.ts")
+ * so it can be passed back to any tool as is.
+ */
+export function toWorkspacePath(absPath: string, workspaceRoot?: string): string {
+  const roots = getWorkspaceRoots();
+  if (roots.length > 1) {
+    const root = findWorkspaceRoot(absPath);
+    if (root) return `${root.name}:${path.relative(root.path, absPath).replace(/\\/g, '/')}`;
+  } else {
+    const base = workspaceRoot || roots[0]?.path;
+    if (base && isWithinRoot(base, absPath)) return path.relative(base, absPath).replace(/\\/g, '/');
+  }
+  return absPath.replace(/\\/g, '/');
+}
+
 /**
  * Resolve a raw file path to an absolute path.
- * Uses workspaceRoot if provided, otherwise falls back to first workspace folder.
+ * Folder-qualified paths ("backend:src/app.ts") resolve inside that workspace folder;
+ * other relative paths use workspaceRoot if provided, otherwise the first workspace folder.
  */
 export function resolveFilePath(rawPath: string, workspaceRoot?: string): string {
   if (path.isAbsolute(rawPath)) {
     return rawPath;
   }
+  const qualified = parseRootQualifiedPath(rawPath);
+  if (qualified) {
+    return path.resolve(qualified.root.path, qualified.relPath);
+  }
   if (workspaceRoot) {
     return path.resolve(workspaceRoot, rawPath);
   }
@@ -43,15 +110,14 @@ export function resolveFilePath(rawPath: string, workspaceRoot?: string): string
 }
 
 /**
- * Security check: ensure path is within workspace or ask user for permission.
+ * Security check: ensure path is within a workspace folder or ask user for permission.
  */
 export async function checkPathSecurity(resolved: string, workspaceRoot?: string, action: string = 'доступ к'): Promise<void> {
-  const folders = vscode.workspace.workspaceFolders;
-  const rootCandidate = workspaceRoot || (folders && folders.length > 0 ? folders[0].uri.fsPath : undefined);
+  const roots = getWorkspaceRoots().map(r => r.path);
+  if (workspaceRoot && !roots.includes(workspaceRoot)) roots.unshift(workspaceRoot);
   
-  if (rootCandidate) {
-    const rel = path.relative(rootCandidate, resolved);
-    if (rel.startsWith('..') || (path.isAbsolute(rel) && rel.indexOf('..') === 0)) {
+  if (roots.length > 0) {
+    if (!roots.some(root => isWithinRoot(root, resolved))) {
       const msg = `Запрошенный файл находится вне рабочего каталога: ${resolved}. Разрешить ${action} этого файла?`;
       const choice = await vscode.window.showWarningMessage(msg, { modal: true }, 'Разрешить', 'Отклонить');
       if (choice !== 'Разрешить') {
@@ -66,3 +132,91 @@ export async function checkPathSecurity(resolved: string, workspaceRoot?: string
     }
   }
 }
+
+/**
+ * Changed region between two versions of a file: first through last differing line.
+ * Lines are 1-based; endLineNew is the last changed line in the new content.
+ */
+export function getChangedRegion(originalContent: string, newContent: string): {
+  startLine: number; endLineNew: number; oldText: string; newText: string;
+} {
+  const originalLines = originalContent.split(/\r?\n/);
+  const newLines = newContent.split(/\r?\n/);
+  
+  // Find first different line
+  let startLine = 1;
+  for (let i = 0; i < Math.min(originalLines.length, newLines.length); i++) {
+    if (originalLines[i] !== newLines[i]) {
+      startLine = i + 1; // 1-based
+      break;
+    }
+  }
+  
+  // Find last different line (from end)
+  let diffFromEnd = 0;
+  for (let i = 0; i < Math.min(originalLines.length, newLines.length); i++) {
+    const oldIdx = originalLines.length - 1 - i;
+    const newIdx = newLines.length - 1 - i;
+    if (oldIdx < startLine - 1 || newIdx < startLine - 1) break;
+    if (originalLines[oldIdx] !== newLines[newIdx]) {
+      break;
+    }
+    diffFromEnd = i + 1;
+  }
+  
+  const endLineOld = originalLines.length - diffFromEnd;
+  const endLineNew = newLines.length - diffFromEnd;
+  return {
+    startLine,
+    endLineNew,
+    oldText: originalLines.slice(startLine - 1, endLineOld).join('\n'),
+    newText: newLines.slice(startLine - 1, endLineNew).join('\n')
+  };
+}
+
+/** Lines only in one side of a changed region */
+export function countChangedLines(oldText: string, newText: string): { added: number; removed: number } {
+  const oldLines = oldText ? oldText.split('\n') : [];
+  const newLines = newText ? newText.split('\n') : [];
+  const remaining = new Map<string, number>();
+  for (const line of oldLines) remaining.set(line, (remaining.get(line) || 0) + 1);
+  let common = 0;
+  for (const line of newLines) {
+    const n = remaining.get(line) || 0;
+    if (n > 0) {
+      remaining.set(line, n - 1);
+      common++;
+    }
+  }
+  return { added: newLines.length - common, removed: oldLines.length - common };
+}
+
+/**
+ * Maps start_line hints of a batch (lines of the original file) onto the text
+ * produced by earlier edits: only edits that end above the hinted line move it.
+ */
+export class LineHintMap {
+  /** Last line of each edit: of its new text in the current text, of its old text in the original */
+  private edits: { current: number; original: number; delta: number }[] = [];
+
+  /** Line in the current text of `line` of the original text */
+  toCurrent(line: number): number {
+    let shift = 0;
+    for (const e of this.edits) {
+      if (e.original < line) shift += e.delta;
+    }
+    return Math.max(1, line + shift);
+  }
+
+  /** Record an edit that replaced `oldLines` lines (0 for an insertion) at `line` of the current text with `newLines` lines */
+  record(line: number, oldLines: number, newLines: number): void {
+    const oldEnd = line + oldLines - 1;
+    const delta = newLines - oldLines;
+    let shift = 0;
+    for (const e of this.edits) {
+      if (e.current < line) shift += e.delta;
+      else if (e.current > oldEnd) e.current += delta;
+    }
+    this.edits.push({ current: oldEnd + delta, original: oldEnd - shift, delta });
+  }
+}
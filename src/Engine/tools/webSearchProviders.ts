@@ -0,0 +1,282 @@
+/**
+ * webSearchProviders.ts — Search backends for the web_search tool.
+ *
+ * Each backend turns a query into the same normalized shape
+ * ({ title, url, content, score? }); the tool applies domain filters and the
+ * per-session cache on top. Selected in Settings → Основное → Веб-поиск
+ * (ashibaltAi.webSearchProvider). API keys live in SecretStorage (a workspace
+ * key overrides the global one), with environment variables as a fallback for
+ * the headless CLI.
+ */
+
+import { workspace } from 'vscode';
+import { resolveSecret } from '../../Config/secrets';
+import { decodeHtmlEntities } from './htmlToMarkdown';
+
+export type WebSearchProviderId = 'tavily' | 'brave' | 'searxng' | 'kagi' | 'duckduckgo';
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  content: string;
+  score?: number;
+}
+
+export interface WebSearchResponse {
+  results: WebSearchResult[];
+  /** Short answer generated by the backend (Tavily only) */
+  answer?: string | null;
+}
+
+export interface WebSearchRequest {
+  query: string;
+  maxResults: number;
+  apiKey?: string;
+  /** SearXNG instance URL */
+  baseUrl?: string;
+  includeDomains: string[];
+  excludeDomains: string[];
+}
+
+interface WebSearchProvider {
+  label: string;
+  requiresKey: boolean;
+  /** Environment variable read when no key is in SecretStorage */
+  envKey?: string;
+  search(req: WebSearchRequest): Promise<WebSearchResponse>;
+}
+
+export interface WebSearchSettings {
+  provider: WebSearchProviderId;
+  searxngUrl: string;
+  allowedDomains: string[];
+  blockedDomains: string[];
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; Ashibalt-AI/1.0)';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Plain text of an HTML fragment (snippets often carry <strong>/<b> highlights) */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+async function request(url: string, init: RequestInit, label: string): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`${label} API error: ${response.status} - ${errorText.slice(0, 200)}`);
+    }
+    return response;
+  } catch (err: any) {
+    if (err?.name === 'AbortError') throw new Error(`${label} did not respond in ${REQUEST_TIMEOUT_MS / 1000}s`);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ── Domain filters ───────────────────────────────────────────────────────────
+
+/** "https://www.Example.com/x", "*.example.com" → "example.com" */
+export function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^\*\./, '')
+    .replace(/^www\./, '')
+    .replace(/[/:].*$/, '');
+}
+
+/** True when the URL's host is one of the domains or their subdomain */
+export function matchesDomain(url: string, domains: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return domains.some(d => {
+    const domain = normalizeDomain(d);
+    return !!domain && (host === domain || host.endsWith('.' + domain));
+  });
+}
+
+export function filterResultsByDomain(results: WebSearchResult[], allowed: string[], blocked: string[]): WebSearchResult[] {
+  return results.filter(r =>
+    (allowed.length === 0 || matchesDomain(r.url, allowed)) &&
+    !(blocked.length > 0 && matchesDomain(r.url, blocked))
+  );
+}
+
+/** Clean titles/snippets, drop results without a URL and duplicate URLs */
+export function normalizeResults(results: WebSearchResult[]): WebSearchResult[] {
+  const seen = new Set<string>();
+  const out: WebSearchResult[] = [];
+  for (const r of results) {
+    const url = (r.url || '').trim();
+    if (!/^https?:\/\//i.test(url) || seen.has(url)) continue;
+    seen.add(url);
+    out.push({
+      title: htmlToText(r.title || '') || 'No title',
+      url,
+      content: htmlToText(r.content || ''),
+      ...(typeof r.score === 'number' ? { score: r.score } : {})
+    });
+  }
+  return out;
+}
+
+// ── Backends ─────────────────────────────────────────────────────────────────
+
+async function searchTavily(req: WebSearchRequest): Promise<WebSearchResponse> {
+  const response = await request('https://api.tavily.com/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      api_key: req.apiKey,
+      query: req.query,
+      search_depth: 'basic',
+      include_answer: true,
+      include_raw_content: false,
+      max_results: req.maxResults,
+      include_domains: req.includeDomains,
+      exclude_domains: req.excludeDomains
+    })
+  }, 'Tavily');
+  const data: any = await response.json();
+  return {
+    answer: data.answer || null,
+    results: (data.results || []).map((r: any) => ({ title: r.title, url: r.url, content: r.content || r.snippet || '', score: r.score }))
+  };
+}
+
+async function searchBrave(req: WebSearchRequest): Promise<WebSearchResponse> {
+  const params = new URLSearchParams({ q: req.query, count: String(req.maxResults) });
+  const response = await request(`https://api.search.brave.com/res/v1/web/search?${params}`, {
+    headers: { 'Accept': 'application/json', 'X-Subscription-Token': req.apiKey || '' }
+  }, 'Brave Search');
+  const data: any = await response.json();
+  return {
+    results: (data.web?.results || []).map((r: any) => ({
+      title: r.title,
+      url: r.url,
+      content: [r.description, ...(r.extra_snippets || [])].filter(Boolean).join(' ')
+    }))
+  };
+}
+
+async function searchSearxng(req: WebSearchRequest): Promise<WebSearchResponse> {
+  const base = (req.baseUrl || '').trim().replace(/\/+$/, '');
+  if (!base) throw new Error('SearXNG instance URL is not configured (Settings → Основное → Веб-поиск)');
+  const params = new URLSearchParams({ q: req.query, format: 'json' });
+  const headers: Record<string, string> = { 'Accept': 'application/json', 'User-Agent': USER_AGENT };
+  if (req.apiKey) headers['Authorization'] = `Bearer ${req.apiKey}`;
+  const response = await request(`${base}/search?${params}`, { headers }, 'SearXNG');
+  const data: any = await response.json().catch(() => {
+    throw new Error('SearXNG returned non-JSON output — enable the "json" format in the instance settings (search.formats)');
+  });
+  return {
+    answer: Array.isArray(data.answers) && typeof data.answers[0] === 'string' ? data.answers[0] : null,
+    results: (data.results || []).map((r: any) => ({ title: r.title, url: r.url, content: r.content || '', score: r.score }))
+  };
+}
+
+async function searchKagi(req: WebSearchRequest): Promise<WebSearchResponse> {
+  const params = new URLSearchParams({ q: req.query, limit: String(req.maxResults) });
+  const response = await request(`https://kagi.com/api/v0/search?${params}`, {
+    headers: { 'Accept': 'application/json', 'Authorization': `Bot ${req.apiKey}` }
+  }, 'Kagi');
+  const data: any = await response.json();
+  return {
+    // t: 0 — search result, t: 1 — related searches
+    results: (data.data || []).filter((r: any) => r.t === 0).map((r: any) => ({ title: r.title, url: r.url, content: r.snippet || '' }))
+  };
+}
+
+/** DuckDuckGo wraps result links as //duckduckgo.com/l/?uddg=<encoded target> */
+function unwrapDuckDuckGoUrl(href: string): string {
+  const url = decodeHtmlEntities(href);
+  const match = url.match(/[?&]uddg=([^&]+)/);
+  if (match) {
+    try {
+      return decodeURIComponent(match[1]);
+    } catch {
+      return '';
+    }
+  }
+  return url.startsWith('//') ? 'https:' + url : url;
+}
+
+/** Results of the DuckDuckGo HTML endpoint (ads are skipped) */
+export function parseDuckDuckGoHtml(html: string): WebSearchResult[] {
+  const results: WebSearchResult[] = [];
+  const blocks = html.split(/<div[^>]+class="[^"]*?\bresult\b/).slice(1);
+  for (const block of blocks) {
+    if (/^[^"]*result--ad\b/.test(block)) continue;
+    const link = block.match(/<a[^>]+class="[^"]*\bresult__a\b[^"]*"[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/)
+      || block.match(/<a[^>]+href="([^"]+)"[^>]*class="[^"]*\bresult__a\b[^"]*"[^>]*>([\s\S]*?)<\/a>/);
+    if (!link) continue;
+    const snippet = block.match(/class="[^"]*\bresult__snippet\b[^"]*"[^>]*>([\s\S]*?)<\/(?:a|div|td)>/);
+    results.push({ title: link[2], url: unwrapDuckDuckGoUrl(link[1]), content: snippet ? snippet[1] : '' });
+  }
+  return results;
+}
+
+async function searchDuckDuckGo(req: WebSearchRequest): Promise<WebSearchResponse> {
+  const response = await request('https://html.duckduckgo.com/html/', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'User-Agent': USER_AGENT },
+    body: new URLSearchParams({ q: req.query }).toString()
+  }, 'DuckDuckGo');
+  const html = await response.text();
+  const results = parseDuckDuckGoHtml(html);
+  if (results.length === 0 && /anomaly|captcha/i.test(html)) {
+    throw new Error('DuckDuckGo rejected the request (bot check). Try again later or choose another search provider');
+  }
+  return { results };
+}
+
+export const WEB_SEARCH_PROVIDERS: Record<WebSearchProviderId, WebSearchProvider> = {
+  tavily:     { label: 'Tavily', requiresKey: true, envKey: 'TAVILY_API_KEY', search: searchTavily },
+  brave:      { label: 'Brave Search', requiresKey: true, envKey: 'BRAVE_API_KEY', search: searchBrave },
+  searxng:    { label: 'SearXNG', requiresKey: false, envKey: 'SEARXNG_API_KEY', search: searchSearxng },
+  kagi:       { label: 'Kagi', requiresKey: true, envKey: 'KAGI_API_KEY', search: searchKagi },
+  duckduckgo: { label: 'DuckDuckGo', requiresKey: false, search: searchDuckDuckGo }
+};
+
+export function isWebSearchProvider(id: unknown): id is WebSearchProviderId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(WEB_SEARCH_PROVIDERS, id);
+}
+
+// ── Settings ─────────────────────────────────────────────────────────────────
+
+function domainList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+  return items.map(d => normalizeDomain(String(d))).filter(Boolean);
+}
+
+export function getWebSearchSettings(): WebSearchSettings {
+  const cfg = workspace.getConfiguration('ashibaltAi');
+  const provider = cfg.get<string>('webSearchProvider', 'duckduckgo');
+  return {
+    provider: isWebSearchProvider(provider) ? provider : 'duckduckgo',
+    searxngUrl: cfg.get<string>('searxngUrl', '') || process.env.SEARXNG_URL || '',
+    allowedDomains: domainList(cfg.get<string[]>('webSearchAllowedDomains', [])),
+    blockedDomains: domainList(cfg.get<string[]>('webSearchBlockedDomains', []))
+  };
+}
+
+/** SecretStorage key of a search provider's API key */
+export function webSearchSecretKey(provider: WebSearchProviderId): string {
+  return `ashibaltAi.webSearch.${provider}.apiKey`;
+}
+
+export async function resolveWebSearchKey(provider: WebSearchProviderId): Promise<string | undefined> {
+  const envKey = WEB_SEARCH_PROVIDERS[provider].envKey;
+  return (await resolveSecret(webSearchSecretKey(provider)))?.value || (envKey ? process.env[envKey] : undefined) || undefined;
+}
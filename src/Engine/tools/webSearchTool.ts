@@ -1,90 +1,113 @@
-
 import { logger } from '../../logger';
+import { registerTool } from '../toolRegistry';
+import {
+  WEB_SEARCH_PROVIDERS,
+  filterResultsByDomain,
+  getWebSearchSettings,
+  normalizeResults,
+  resolveWebSearchKey,
+  type WebSearchResult
+} from './webSearchProviders';
+
+// Results of this chat session, keyed by provider + filters + query.
+// Repeated queries in one session are answered without another API call.
+const searchCache = new Map<string, any>();
+const MAX_CACHE_ENTRIES = 100;
 
 /**
- * Web search using Tavily API.
+ * Reset the search cache (call when starting or switching a chat session).
+ */
+export function resetWebSearchCache(): void {
+  searchCache.clear();
+}
+
+function formatResults(query: string, providerLabel: string, answer: string | null, results: WebSearchResult[]): string {
+  let formatted = `Web search results for: "${query}" (${providerLabel})\n\n`;
+
+  // Include AI-generated answer if available
+  if (answer) {
+    formatted += `## AI Summary\n${answer}\n\n`;
+  }
+
+  formatted += `## Search Results (${results.length})\n\n`;
+
+  results.forEach((r, i) => {
+    formatted += `### ${i + 1}. ${r.title}\n`;
+    formatted += `URL: ${r.url}\n`;
+    if (r.content) {
+      const content = r.content.length > 500 ? r.content.slice(0, 500) + '...' : r.content;
+      formatted += `${content}\n`;
+    }
+    formatted += '\n';
+  });
+
+  return formatted;
+}
+
+/**
+ * Web search through the backend selected in settings (see webSearchProviders.ts).
  */
 export async function webSearchTool(args: any): Promise<any> {
   if (!args?.query) {
     throw new Error('web_search requires "query" parameter');
   }
-  
-  // Get a free API key at https://tavily.com
-  const apiKey = '';
-  
-  const query = args.query;
+
+  const query = String(args.query).trim();
   const maxResults = Math.min(Math.max(1, args.max_results || 5), 10);
-  
-  logger.log(`[WEB_SEARCH] Searching for: "${query}", max_results: ${maxResults}`);
-  
+  const settings = getWebSearchSettings();
+  const provider = WEB_SEARCH_PROVIDERS[settings.provider];
+
+  const cacheKey = JSON.stringify([settings.provider, settings.searxngUrl, settings.allowedDomains, settings.blockedDomains, maxResults, query.toLowerCase()]);
+  const cached = searchCache.get(cacheKey);
+  if (cached) {
+    logger.log(`[WEB_SEARCH] Cache hit for: "${query}"`);
+    return { ...cached, cached: true };
+  }
+
+  const apiKey = await resolveWebSearchKey(settings.provider);
+  if (provider.requiresKey && !apiKey) {
+    return {
+      success: false,
+      error: `${provider.label} API key is not set. Ask the user to add it in Settings → Основное → Веб-поиск, or to choose a provider that needs no key (DuckDuckGo, SearXNG).`,
+      results: []
+    };
+  }
+
+  const filtering = settings.allowedDomains.length > 0 || settings.blockedDomains.length > 0;
+  logger.log(`[WEB_SEARCH] ${provider.label}: "${query}", max_results: ${maxResults}`);
+
   try {
-    const response = await fetch('https://api.tavily.com/search', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        api_key: apiKey,
-        query: query,
-        search_depth: 'basic',
-        include_answer: true,
-        include_raw_content: false,
-        max_results: maxResults,
-        include_domains: [],
-        exclude_domains: []
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.log(`[WEB_SEARCH] API error: ${response.status} - ${errorText}`);
-      return {
-        success: false,
-        error: `Tavily API error: ${response.status} - ${errorText.slice(0, 200)}`,
-        results: []
-      };
-    }
-    
-    const data: any = await response.json();
-    logger.log(`[WEB_SEARCH] Got ${data.results?.length || 0} results`);
-    
-    // Format results for the model
-    const results = (data.results || []).map((r: any) => ({
-      title: r.title || 'No title',
-      url: r.url,
-      content: r.content || r.snippet || '',
-      score: r.score
-    }));
-    
-    // Build formatted output
-    let formatted = `Web search results for: "${query}"\n\n`;
-    
-    // Include AI-generated answer if available
-    if (data.answer) {
-      formatted += `## AI Summary\n${data.answer}\n\n`;
-    }
-    
-    formatted += `## Search Results (${results.length})\n\n`;
-    
-    results.forEach((r: any, i: number) => {
-      formatted += `### ${i + 1}. ${r.title}\n`;
-      formatted += `URL: ${r.url}\n`;
-      if (r.content) {
-        const content = r.content.length > 500 ? r.content.slice(0, 500) + '...' : r.content;
-        formatted += `${content}\n`;
-      }
-      formatted += '\n';
+    const response = await provider.search({
+      query,
+      // Ask for extra results when domain filters may drop some of them
+      maxResults: filtering ? Math.min(maxResults * 2, 20) : maxResults,
+      apiKey,
+      baseUrl: settings.searxngUrl,
+      includeDomains: settings.allowedDomains,
+      excludeDomains: settings.blockedDomains
     });
-    
-    return {
+
+    const normalized = normalizeResults(response.results);
+    const results = filterResultsByDomain(normalized, settings.allowedDomains, settings.blockedDomains).slice(0, maxResults);
+    logger.log(`[WEB_SEARCH] Got ${normalized.length} results, ${results.length} after filters`);
+
+    const result = {
       success: true,
       query,
-      answer: data.answer || null,
+      provider: settings.provider,
+      answer: response.answer || null,
       results_count: results.length,
+      ...(normalized.length > results.length ? { filtered_out: normalized.length - results.length } : {}),
       results,
-      formatted
+      formatted: formatResults(query, provider.label, response.answer || null, results)
     };
-    
+
+    if (searchCache.size >= MAX_CACHE_ENTRIES) {
+      searchCache.delete(searchCache.keys().next().value!);
+    }
+    searchCache.set(cacheKey, result);
+    return result;
+
   } catch (err: any) {
     logger.log(`[WEB_SEARCH] Error: ${err.message}`);
     return {
@@ -94,3 +117,40 @@ export async function webSearchTool(args: any): Promise<any> {
     };
   }
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'web_search',
+    description: `Search the web. Use for questions about current events, documentation, APIs, or anything not in the codebase.
+
+Returns search results with titles, URLs, and content snippets. May include an AI-generated summary. Repeating the same query in one session returns the cached results — rephrase the query to get new ones.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search query' },
+        max_results: { type: 'integer', description: 'Maximum results (1-10, default: 5)' }
+      },
+      required: ['query']
+    }
+  },
+  readOnly: true,
+  execute: (args) => webSearchTool(args),
+  renderAction: ({ args, result, messageId, postMessage }) => {
+    postMessage({
+      type: 'webSearchResult',
+      id: messageId,
+      success: result?.success ?? false,
+      query: args.query || '',
+      results: result?.results || [],
+      resultsCount: result?.results_count || 0
+    });
+    return {
+      type: 'web_search',
+      query: args.query || '',
+      resultsCount: result?.results_count || 0,
+      success: result?.success ?? false
+    };
+  }
+});
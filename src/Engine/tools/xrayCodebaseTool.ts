@@ -13,7 +13,8 @@
  */
 
 import * as vscode from 'vscode';
-import * as path from 'path';
+import { registerTool } from '../toolRegistry';
+import { toWorkspacePath } from './toolUtils';
 
 // VS Code SymbolKind numeric values → human-readable names
 const SYMBOL_KIND_NAMES: Record<number, string> = {
@@ -172,16 +173,13 @@ export async function xrayCodebaseTool(args: any, workspaceRoot?: string): Promi
     });
 
     // Group by file URI
-    const ws = workspaceRoot ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
     const byUri = new Map<string, { relativePath: string; uri: vscode.Uri; symbols: { sym: vscode.SymbolInformation; kindNum: number }[] }>();
 
     for (const sym of filteredSymbols) {
       const uriKey = sym.location.uri.toString();
       if (!byUri.has(uriKey)) {
-        const fsPath = sym.location.uri.fsPath;
-        const relativePath = ws
-          ? path.relative(ws, fsPath).replace(/\\/g, '/')
-          : fsPath.replace(/\\/g, '/');
+        // Labelled by workspace folder in multi-root workspaces ("backend:src/app.ts")
+        const relativePath = toWorkspacePath(sym.location.uri.fsPath, workspaceRoot);
         byUri.set(uriKey, { relativePath, uri: sym.location.uri, symbols: [] });
       }
       byUri.get(uriKey)!.symbols.push({ sym, kindNum: sym.kind as unknown as number });
@@ -261,3 +259,32 @@ export async function xrayCodebaseTool(args: any, workspaceRoot?: string): Promi
     };
   }
 }
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+registerTool({
+  spec: {
+    name: 'xray_codebase',
+    description: `Get a full symbol map of the entire codebase — all functions, classes, interfaces, methods, enums, constructors, variables, and constants with file paths, line numbers, and signatures.
+
+Grouped by file, sorted by line. Includes function signatures (parameters + return types), class inheritance, and variable types when available. Use at the start of large refactoring tasks or when you need to understand project structure without reading every file.
+
+Optionally filter by name substring (query) or symbol kinds. Set signatures=false for faster/smaller output.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Optional: filter symbols whose name contains this substring (case-insensitive). Omit for all symbols.' },
+        kinds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: filter by symbol kinds. Valid values: class, method, function, interface, enum, constructor, property, module, namespace, struct, variable, constant. Omit for all important kinds.'
+        },
+        max_files: { type: 'integer', description: 'Max number of files to include in result (default: 500, max: 1000)' },
+        signatures: { type: 'boolean', description: 'Include function/method signatures extracted from source (default: true). Set false for faster output.' }
+      },
+      required: []
+    }
+  },
+  readOnly: true,
+  execute: (args, ctx) => xrayCodebaseTool(args, ctx.workspaceRoot)
+});
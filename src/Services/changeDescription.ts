@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import { logger } from '../logger';
+import { unifiedDiff } from '../Storage/lineDiff';
+import type { FileSnapshot } from '../Storage/snapshotManager';
+import { toWorkspacePath } from '../Engine/tools/toolUtils';
+import { fetchOpenRouterWithTools } from '../Engine/fetchWithTools';
+import type { ProviderId } from '../Config/config';
+
+/**
+ * Commit messages and PR descriptions for the agent's changes.
+ *
+ * Snapshots hold the content of each file before the agent touched it, so the
+ * diff against the file on disk covers every edit of the run. The diff is
+ * compacted to a character budget before it is sent to the selected model.
+ */
+
+export type ChangeDescriptionKind = 'commit' | 'pr';
+
+export interface ChangedFile {
+  /** Workspace-relative path, forward slashes */
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  added: number;
+  removed: number;
+  /** Unified diff body (hunks only) */
+  diff: string;
+}
+
+export interface GenerateChangeDescriptionOptions {
+  kind: ChangeDescriptionKind;
+  files: ChangedFile[];
+  /** Extra context from the user, e.g. "/commit_message fixes #42" */
+  hint?: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  providerType?: ProviderId;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/** Character budget of the diff sent to the model */
+export const MAX_DESCRIPTION_DIFF_CHARS = 24000;
+/** Per-file share of the budget before a file's diff is cut */
+const MAX_FILE_DIFF_CHARS = 6000;
+
+/**
+ * Diff every snapshot against the current file content.
+ * Files whose content is back to the baseline are skipped.
+ */
+export function collectChangedFiles(snapshots: FileSnapshot[]): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  for (const snapshot of snapshots) {
+    let current: string | null = null;
+    try {
+      current = fs.readFileSync(snapshot.filePath, 'utf8');
+    } catch {
+      // Deleted after the snapshot was taken
+    }
+    if (current === null && snapshot.baselineContent === null) continue;
+
+    const diff = unifiedDiff(snapshot.baselineContent ?? '', current ?? '');
+    if (!diff.text) continue;
+    files.push({
+      path: toWorkspacePath(snapshot.filePath),
+      status: snapshot.baselineContent === null ? 'added' : current === null ? 'deleted' : 'modified',
+      added: diff.added,
+      removed: diff.removed,
+      diff: diff.text
+    });
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * git-style diff of the changed files that fits in `maxChars`.
+ * Large files are cut first; files that no longer fit are listed with their stats only.
+ */
+export function buildCompactDiff(files: ChangedFile[], maxChars = MAX_DESCRIPTION_DIFF_CHARS): string {
+  const parts: string[] = [];
+  const omitted: ChangedFile[] = [];
+  let used = 0;
+
+  for (const file of files) {
+    const header = file.status === 'added'
+      ? `--- /dev/null\n+++ b/${file.path}`
+      : file.status === 'deleted'
+        ? `--- a/${file.path}\n+++ /dev/null`
+        : `--- a/${file.path}\n+++ b/${file.path}`;
+    let body = file.diff;
+    if (body.length > MAX_FILE_DIFF_CHARS) {
+      body = body.slice(0, body.lastIndexOf('\n', MAX_FILE_DIFF_CHARS)) + '\n… (diff truncated)';
+    }
+    const part = `${header}\n${body}`;
+    if (used + part.length > maxChars) {
+      omitted.push(file);
+      continue;
+    }
+    parts.push(part);
+    used += part.length + 1;
+  }
+
+  if (omitted.length > 0) {
+    parts.push('Also changed (diff omitted):\n' + omitted.map(f => `${f.path} (${f.status}, +${f.added} -${f.removed})`).join('\n'));
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Messages asking the model for a commit message or PR description of the diff
+ */
+export function buildDescriptionMessages(kind: ChangeDescriptionKind, files: ChangedFile[], hint?: string): Array<{ role: 'system' | 'user'; content: string }> {
+  const added = files.reduce((sum, f) => sum + f.added, 0);
+  const removed = files.reduce((sum, f) => sum + f.removed, 0);
+
+  const system = kind === 'commit'
+    ? `You write git commit messages in the Conventional Commits format.
+- First line: <type>(<optional scope>): <summary>, imperative mood, at most 72 characters. Types: feat, fix, refactor, perf, docs, test, build, ci, chore, style.
+- If the change needs explanation, add a blank line and a short body wrapped at 72 characters: what changed and why, not how.
+- Mention breaking changes in a "BREAKING CHANGE:" footer.
+Reply with the commit message only — no code fences, no commentary.`
+    : `You write pull request descriptions in Markdown.
+- Start with a one-line title prefixed with "# ".
+- Then a "## Summary" section: 1-3 sentences on what the change does and why.
+- Then a "## Changes" section: a short bullet list grouped by area.
+- Then a "## Testing" section listing what a reviewer should verify.
+Reply with the description only — no surrounding code fences, no commentary.`;
+
+  const user = [
+    `${files.length} file(s) changed, +${added} -${removed}.`,
+    ...(hint ? [`Context from the author: ${hint}`] : []),
+    'Write it in the language of the author\'s context if given, otherwise in English.',
+    '',
+    buildCompactDiff(files)
+  ].join('\n');
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user }
+  ];
+}
+
+/** Strip code fences and a leading label the model may add despite the instructions */
+export function cleanDescription(text: string): string {
+  let result = text.trim();
+  const fenced = result.match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  if (fenced) result = fenced[1].trim();
+  return result.replace(/^(commit message|pr description|pull request description)\s*:\s*\n/i, '').trim();
+}
+
+/**
+ * Ask the model for a commit message or PR description of the changed files
+ */
+export async function generateChangeDescription(opts: GenerateChangeDescriptionOptions): Promise<string> {
+  logger.log(`[DESCRIBE] ${opts.kind}: ${opts.files.length} files, model=${opts.model}`);
+  const response = await fetchOpenRouterWithTools({
+    baseUrl: opts.baseUrl,
+    apiKey: opts.apiKey,
+    model: opts.model,
+    providerType: opts.providerType,
+    headers: opts.headers,
+    messages: buildDescriptionMessages(opts.kind, opts.files, opts.hint),
+    tools: [],
+    signal: opts.signal,
+    onChunk: () => {}
+  });
+  const text = cleanDescription(response.content || '');
+  if (!text) {
+    throw new Error('Модель вернула пустой ответ');
+  }
+  return text;
+}
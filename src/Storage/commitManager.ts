@@ -8,16 +8,21 @@
  *   <sessionsDir>/<sessionId>/commits/
  *     index.json           ← CommitMeta[] (sorted newest-first after load)
  *     <commitId>/
- *       meta.json          ← full CommitMeta with file list
- *       files/
- *         src/
- *           foo.ts         ← full file copy mirroring workspace path
+ *       meta.json          ← full CommitMeta with the tree manifest (path → sha256)
+ *       files/…            ← legacy commits only: full file copies
+ *   <blobsDir>/            ← content-addressed store shared by all commits and sessions
+ *     ab/
+ *       ab12…ef            ← file content, named by its sha256
+ *
+ * A file that did not change between commits is stored once. Blobs no longer
+ * referenced by any commit are removed by collectGarbage() (after deleteCommit).
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { existsSync } from 'fs';
 import { createHash } from 'crypto';
+import { unifiedDiff } from './lineDiff';
 
 export interface CommitMeta {
   id: string;
@@ -29,6 +34,34 @@ export interface CommitMeta {
   files: string[];
   /** Total bytes backed up */
   totalSize: number;
+  /** Workspace-relative path → sha256 of the blob (meta.json only; absent in legacy commits) */
+  tree?: Record<string, string>;
+}
+
+export type CommitFileStatus = 'unchanged' | 'modified' | 'deleted' | 'new';
+
+export interface CommitFileDiff {
+  /** Workspace-relative path */
+  file: string;
+  /** new = exists only on the compared side (workspace or `against` commit) */
+  status: CommitFileStatus;
+  added: number;
+  removed: number;
+  /** Unified diff ('' for unchanged files, a one-line note for binary ones) */
+  diff: string;
+  /** True when the diff was cut at maxDiffLines */
+  truncated: boolean;
+  /** Absolute path of the committed copy (null when the file is new) */
+  oldPath: string | null;
+  /** Absolute path of the compared copy (null when the file was deleted) */
+  newPath: string | null;
+}
+
+export interface DiffCommitOptions {
+  /** Compare with this commit instead of the workspace */
+  against?: string;
+  /** Max unified diff lines per file */
+  maxDiffLines?: number;
 }
 
 /** File extensions that are skipped (binary / generated). */
@@ -47,6 +80,31 @@ const SKIP_DIRS = new Set([
   '.vscode', '.next', '__pycache__', '.cache',
 ]);
 
+const DEFAULT_MAX_DIFF_LINES = 400;
+
+/** Unreferenced blobs younger than this survive GC (a concurrent addCommit may not have written meta.json yet). */
+const GC_GRACE_MS = 60_000;
+
+export interface CommitStorageUsage {
+  sessions: number;
+  commits: number;
+  /** Sum of commit sizes as if every file were copied */
+  logicalSize: number;
+  /** Bytes actually used: blobs plus legacy per-commit copies */
+  diskSize: number;
+  blobs: number;
+}
+
+/** Read a file, or null when it does not exist. */
+async function readOptional(filePath: string | null): Promise<Buffer | null> {
+  if (!filePath) return null;
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
 /** Generate a short unique id (timestamp + 4 hex chars from random). */
 function genId(): string {
   const ts = Date.now().toString(36);
@@ -56,9 +114,12 @@ function genId(): string {
 
 export class CommitManager {
   private sessionsDir: string;
+  private blobsDir: string;
 
-  constructor(sessionsDir: string) {
+  /** Blobs default to a `blobs` folder next to the sessions folder (shared across sessions). */
+  constructor(sessionsDir: string, blobsDir?: string) {
     this.sessionsDir = sessionsDir;
+    this.blobsDir = blobsDir ?? path.join(path.dirname(sessionsDir), 'blobs');
   }
 
   private commitsDir(sessionId: string): string {
@@ -73,6 +134,17 @@ export class CommitManager {
     return path.join(this.commitsDir(sessionId), commitId);
   }
 
+  private blobPath(hash: string): string {
+    return path.join(this.blobsDir, hash.slice(0, 2), hash);
+  }
+
+  /** Where the committed copy of `rel` lives: a blob, or the legacy files/ folder. */
+  private committedFilePath(sessionId: string, meta: CommitMeta, rel: string): string | null {
+    if (!meta.tree) return path.join(this.commitDir(sessionId, meta.id), 'files', rel);
+    const hash = meta.tree[rel];
+    return hash ? this.blobPath(hash) : null;
+  }
+
   // ── Internal helpers ────────────────────────────────────────────────────────
 
   private async readIndex(sessionId: string): Promise<CommitMeta[]> {
@@ -90,6 +162,50 @@ export class CommitManager {
     await fs.writeFile(this.indexPath(sessionId), JSON.stringify(index, null, 2), 'utf8');
   }
 
+  /** Store content under its hash; existing blobs are reused (and touched so GC keeps them). */
+  private async writeBlob(content: Buffer): Promise<string> {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const dest = this.blobPath(hash);
+    if (existsSync(dest)) {
+      const now = new Date();
+      await fs.utimes(dest, now, now).catch(() => { /* best effort */ });
+      return hash;
+    }
+    await fs.mkdir(path.dirname(dest), { recursive: true });
+    // Write-then-rename so a crash never leaves a truncated blob under a valid hash
+    const tmp = `${dest}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, content);
+    await fs.rename(tmp, dest);
+    return hash;
+  }
+
+  /** All commits of all sessions (from each session's index). */
+  private async allCommits(): Promise<Array<{ sessionId: string; meta: CommitMeta }>> {
+    let sessions: import('fs').Dirent[];
+    try {
+      sessions = await fs.readdir(this.sessionsDir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const result: Array<{ sessionId: string; meta: CommitMeta }> = [];
+    for (const entry of sessions) {
+      if (!entry.isDirectory()) continue;
+      for (const meta of await this.readIndex(entry.name)) {
+        result.push({ sessionId: entry.name, meta });
+      }
+    }
+    return result;
+  }
+
+  private async readMeta(sessionId: string, commitId: string): Promise<CommitMeta> {
+    const metaPath = path.join(this.commitDir(sessionId, commitId), 'meta.json');
+    try {
+      return JSON.parse(await fs.readFile(metaPath, 'utf8')) as CommitMeta;
+    } catch {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+  }
+
   /**
    * Recursively collect all text files from `dir`.
    * Returns paths relative to `rootDir`.
@@ -145,17 +261,14 @@ export class CommitManager {
       throw new Error(`No files found in scope "${scope}" (${scopeAbs})`);
     }
 
-    const destFilesDir = path.join(this.commitDir(sessionId, commitId), 'files');
+    const tree: Record<string, string> = {};
     let totalSize = 0;
 
-    // Copy each file
+    // Store each file as a blob (unchanged files are already in the store)
     for (const rel of relFiles) {
-      const src = path.join(workspaceRoot, rel);
-      const dest = path.join(destFilesDir, rel);
-      await fs.mkdir(path.dirname(dest), { recursive: true });
       try {
-        const content = await fs.readFile(src);
-        await fs.writeFile(dest, content);
+        const content = await fs.readFile(path.join(workspaceRoot, rel));
+        tree[rel] = await this.writeBlob(content);
         totalSize += content.length;
       } catch {
         // File disappeared between listing and copying — skip
@@ -167,8 +280,9 @@ export class CommitManager {
       name,
       scope,
       timestamp: Date.now(),
-      files: relFiles,
+      files: Object.keys(tree),
       totalSize,
+      tree,
     };
 
     // Write per-commit meta.json
@@ -179,9 +293,10 @@ export class CommitManager {
       'utf8'
     );
 
-    // Update index
+    // Update index (the tree manifest stays in meta.json only)
+    const { tree: _tree, ...entry } = meta;
     const index = await this.readIndex(sessionId);
-    index.unshift(meta); // newest first
+    index.unshift(entry); // newest first
     await this.writeIndex(sessionId, index);
 
     return meta;
@@ -196,28 +311,34 @@ export class CommitManager {
 
   /**
    * Restore files from a commit back to workspaceRoot.
+   * `only` limits the restore to the given files or folders (workspace-relative).
    * Returns list of relative paths that were restored.
    */
   async restoreCommit(
     sessionId: string,
     commitId: string,
-    workspaceRoot: string
+    workspaceRoot: string,
+    only?: string[]
   ): Promise<string[]> {
-    const metaPath = path.join(this.commitDir(sessionId, commitId), 'meta.json');
-    let meta: CommitMeta;
-    try {
-      meta = JSON.parse(await fs.readFile(metaPath, 'utf8'));
-    } catch {
-      throw new Error(`Commit "${commitId}" not found`);
+    const meta = await this.readMeta(sessionId, commitId);
+    let files = meta.files;
+    if (only && only.length > 0) {
+      const wanted = only.map(p => p.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, ''));
+      files = files.filter(rel => {
+        const norm = rel.replace(/\\/g, '/');
+        return wanted.some(w => norm === w || norm.startsWith(w + '/'));
+      });
+      if (files.length === 0) {
+        throw new Error(`None of the requested files are in commit "${commitId}": ${only.join(', ')}`);
+      }
     }
-
-    const destFilesDir = path.join(this.commitDir(sessionId, commitId), 'files');
     const restored: string[] = [];
 
-    for (const rel of meta.files) {
-      const src = path.join(destFilesDir, rel);
+    for (const rel of files) {
+      const src = this.committedFilePath(sessionId, meta, rel);
       const dest = path.join(workspaceRoot, rel);
       try {
+        if (!src) continue;
         const content = await fs.readFile(src);
         await fs.mkdir(path.dirname(dest), { recursive: true });
         await fs.writeFile(dest, content);
@@ -245,41 +366,158 @@ export class CommitManager {
     const filtered = index.filter(c => c.id !== commitId);
     if (filtered.length === index.length) return false; // nothing removed
     await this.writeIndex(sessionId, filtered);
+    // Not fatal — the blobs stay until a later collection can read every manifest
+    await this.collectGarbage().catch(() => {});
     return true;
   }
 
   /**
-   * Compare commit snapshot with current workspace state.
-   * Returns per-file status: unchanged | modified | deleted | new (only in workspace).
+   * Remove blobs that no commit of any session references (mark and sweep).
+   * Also call after deleting whole sessions. Throws without deleting anything when
+   * an indexed commit's meta.json can't be read — its blobs would look unreferenced.
    */
-  async diffCommit(
-    sessionId: string,
-    commitId: string,
-    workspaceRoot: string
-  ): Promise<Array<{ file: string; status: 'unchanged' | 'modified' | 'deleted' }>> {
-    const metaPath = path.join(this.commitDir(sessionId, commitId), 'meta.json');
-    let meta: CommitMeta;
-    try {
-      meta = JSON.parse(await fs.readFile(metaPath, 'utf8'));
-    } catch {
-      throw new Error(`Commit "${commitId}" not found`);
+  async collectGarbage(): Promise<{ removed: number; freedBytes: number }> {
+    const referenced = new Set<string>();
+    const unreadable: string[] = [];
+    for (const { sessionId, meta } of await this.allCommits()) {
+      try {
+        const full = await this.readMeta(sessionId, meta.id);
+        Object.values(full.tree ?? {}).forEach(h => referenced.add(h));
+      } catch {
+        unreadable.push(`${sessionId}/${meta.id}`);
+      }
+    }
+    if (unreadable.length) {
+      throw new Error(`Blob collection skipped: unreadable meta.json for commit(s) ${unreadable.join(', ')}`);
+    }
+
+    let removed = 0;
+    let freedBytes = 0;
+    const cutoff = Date.now() - GC_GRACE_MS;
+    for (const blob of await this.listBlobs()) {
+      if (referenced.has(path.basename(blob.path)) || blob.mtimeMs > cutoff) continue;
+      try {
+        await fs.rm(blob.path, { force: true });
+        removed++;
+        freedBytes += blob.size;
+      } catch {
+        // Not fatal — retried on the next collection
+      }
     }
+    return { removed, freedBytes };
+  }
 
-    const destFilesDir = path.join(this.commitDir(sessionId, commitId), 'files');
-    const results: Array<{ file: string; status: 'unchanged' | 'modified' | 'deleted' }> = [];
+  /**
+   * Storage usage of all checkpoints (all sessions), for the UI report.
+   */
+  async getStorageUsage(): Promise<CommitStorageUsage> {
+    const commits = await this.allCommits();
+    const blobs = await this.listBlobs();
+    let diskSize = blobs.reduce((sum, b) => sum + b.size, 0);
+    for (const { sessionId, meta } of commits) {
+      // Legacy commits keep full copies next to meta.json
+      if (existsSync(path.join(this.commitDir(sessionId, meta.id), 'files'))) diskSize += meta.totalSize;
+    }
+    return {
+      sessions: new Set(commits.map(c => c.sessionId)).size,
+      commits: commits.length,
+      logicalSize: commits.reduce((sum, c) => sum + c.meta.totalSize, 0),
+      diskSize,
+      blobs: blobs.length,
+    };
+  }
 
-    for (const rel of meta.files) {
-      const committed = path.join(destFilesDir, rel);
-      const current = path.join(workspaceRoot, rel);
+  private async listBlobs(): Promise<Array<{ path: string; size: number; mtimeMs: number }>> {
+    const result: Array<{ path: string; size: number; mtimeMs: number }> = [];
+    let shards: string[];
+    try {
+      shards = await fs.readdir(this.blobsDir);
+    } catch {
+      return result;
+    }
+    for (const shard of shards) {
+      let names: string[];
       try {
-        const [a, b] = await Promise.all([fs.readFile(committed), fs.readFile(current)]);
-        const hashA = createHash('md5').update(a).digest('hex');
-        const hashB = createHash('md5').update(b).digest('hex');
-        results.push({ file: rel, status: hashA === hashB ? 'unchanged' : 'modified' });
+        names = await fs.readdir(path.join(this.blobsDir, shard));
       } catch {
-        // Current file missing
-        results.push({ file: rel, status: 'deleted' });
+        continue;
+      }
+      for (const name of names) {
+        const blobFile = path.join(this.blobsDir, shard, name);
+        try {
+          const stat = await fs.stat(blobFile);
+          result.push({ path: blobFile, size: stat.size, mtimeMs: stat.mtimeMs });
+        } catch {
+          // Removed concurrently
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Compare a commit snapshot with the current workspace state, or with
+   * another commit when `options.against` is set.
+   * Returns per-file status (unchanged | modified | deleted | new) with a
+   * unified line diff for changed text files.
+   */
+  async diffCommit(
+    sessionId: string,
+    commitId: string,
+    workspaceRoot: string,
+    options: DiffCommitOptions = {}
+  ): Promise<CommitFileDiff[]> {
+    const meta = await this.readMeta(sessionId, commitId);
+
+    // "New" side: another commit's backup, or the workspace within the commit scope
+    let newFilePath = (rel: string): string | null => path.join(workspaceRoot, rel);
+    let newFiles: string[];
+    if (options.against) {
+      const other = await this.readMeta(sessionId, options.against);
+      newFilePath = rel => this.committedFilePath(sessionId, other, rel);
+      newFiles = other.files;
+    } else {
+      const scopeAbs = path.resolve(workspaceRoot, meta.scope === '.' ? '' : meta.scope);
+      newFiles = await this.collectFiles(scopeAbs, workspaceRoot);
+    }
+
+    const committed = new Set(meta.files);
+    const added = newFiles.filter(f => !committed.has(f)).sort();
+    const maxDiffLines = options.maxDiffLines ?? DEFAULT_MAX_DIFF_LINES;
+    const results: CommitFileDiff[] = [];
+
+    for (const rel of [...meta.files, ...added]) {
+      const oldPath = committed.has(rel) ? this.committedFilePath(sessionId, meta, rel) : null;
+      const newPath = newFilePath(rel);
+      const [before, after] = await Promise.all([readOptional(oldPath), readOptional(newPath)]);
+      if (!before && !after) continue;
+
+      const entry: CommitFileDiff = {
+        file: rel,
+        status: !before ? 'new' : !after ? 'deleted' : before.equals(after) ? 'unchanged' : 'modified',
+        added: 0,
+        removed: 0,
+        diff: '',
+        truncated: false,
+        oldPath: before ? oldPath : null,
+        newPath: after ? newPath : null,
+      };
+      if (entry.status !== 'unchanged') {
+        if ((before && before.includes(0)) || (after && after.includes(0))) {
+          entry.diff = `Binary files a/${rel} and b/${rel} differ`;
+        } else {
+          const diff = unifiedDiff(before?.toString('utf8') ?? '', after?.toString('utf8') ?? '', {
+            oldLabel: before ? `a/${rel}` : '/dev/null',
+            newLabel: after ? `b/${rel}` : '/dev/null',
+            maxLines: maxDiffLines,
+          });
+          entry.diff = diff.text;
+          entry.added = diff.added;
+          entry.removed = diff.removed;
+          entry.truncated = diff.truncated;
+        }
       }
+      results.push(entry);
     }
 
     return results;
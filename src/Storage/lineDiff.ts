@@ -0,0 +1,187 @@
+/**
+ * lineDiff.ts — Line-level diff for commit comparisons.
+ *
+ * Myers O(ND) diff over lines plus a git-style unified diff formatter.
+ * Common prefix/suffix are trimmed first, so typical edits in large files
+ * stay cheap; when the edit distance exceeds `maxEditDistance` the changed
+ * middle is reported as one replaced block instead of searching further.
+ */
+
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+export interface UnifiedDiff {
+  /** Unified diff text (empty when the inputs are equal) */
+  text: string;
+  added: number;
+  removed: number;
+  /** True when the hunk body was cut at `maxLines` */
+  truncated: boolean;
+}
+
+export interface UnifiedDiffOptions {
+  /** Header labels, e.g. "a/src/foo.ts" / "b/src/foo.ts" (headers omitted when unset) */
+  oldLabel?: string;
+  newLabel?: string;
+  /** Unchanged lines shown around each change (default 3) */
+  context?: number;
+  /** Max hunk lines in the output; the counts still cover the whole diff */
+  maxLines?: number;
+}
+
+const DEFAULT_MAX_EDIT_DISTANCE = 1000;
+
+/** Split text into lines; a trailing newline does not produce an empty last line. */
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Compute a minimal line diff between `a` and `b`.
+ */
+export function diffLines(a: string[], b: string[], maxEditDistance = DEFAULT_MAX_EDIT_DISTANCE): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (line: string): DiffOp => ({ type: 'equal', line });
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myers(a.slice(start, endA), b.slice(start, endB), maxEditDistance),
+    ...a.slice(endA).map(equal)
+  ];
+}
+
+function myers(a: string[], b: string[], maxEditDistance: number): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const replaced = (): DiffOp[] => [
+    ...a.map(line => ({ type: 'delete' as const, line })),
+    ...b.map(line => ({ type: 'insert' as const, line }))
+  ];
+  if (n === 0 || m === 0) return replaced();
+
+  const max = Math.min(n + m, maxEditDistance);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]))
+        ? v[k + 1 + offset]
+        : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) return backtrack(trace, a, b, offset, d);
+    }
+  }
+  return replaced();
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number, distance: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = distance; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])) ? k + 1 : k - 1;
+    const prevX = v[prevK + offset];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (prevK === k + 1) {
+      ops.push({ type: 'insert', line: b[prevY] });
+    } else {
+      ops.push({ type: 'delete', line: a[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', line: a[--x] });
+    y--;
+  }
+  return ops.reverse();
+}
+
+/**
+ * Format the diff between two texts as a unified diff with @@ hunk headers.
+ */
+export function unifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): UnifiedDiff {
+  const context = options.context ?? 3;
+  const maxLines = options.maxLines ?? Infinity;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  let added = 0;
+  let removed = 0;
+  // Number of old/new lines before each op (for hunk headers)
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  const changes: number[] = [];
+  ops.forEach((op, i) => {
+    oldBefore.push(i === 0 ? 0 : oldBefore[i - 1] + (ops[i - 1].type !== 'insert' ? 1 : 0));
+    newBefore.push(i === 0 ? 0 : newBefore[i - 1] + (ops[i - 1].type !== 'delete' ? 1 : 0));
+    if (op.type === 'insert') added++;
+    if (op.type === 'delete') removed++;
+    if (op.type !== 'equal') changes.push(i);
+  });
+  if (changes.length === 0) return { text: '', added, removed, truncated: false };
+
+  // Group changes whose unchanged gap fits in the shared context
+  const groups: Array<[number, number]> = [];
+  for (const i of changes) {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] - 1 <= context * 2) last[1] = i;
+    else groups.push([i, i]);
+  }
+
+  const out: string[] = [];
+  if (options.oldLabel !== undefined || options.newLabel !== undefined) {
+    out.push(`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`);
+  }
+  let bodyLines = 0;
+  let truncated = false;
+
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length, last + context + 1);
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== 'insert').length;
+    const newCount = hunk.filter(op => op.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? oldBefore[start] : oldBefore[start] + 1;
+    const newStart = newCount === 0 ? newBefore[start] : newBefore[start] + 1;
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+    for (const op of hunk) {
+      if (bodyLines >= maxLines) {
+        truncated = true;
+        break;
+      }
+      out.push((op.type === 'insert' ? '+' : op.type === 'delete' ? '-' : ' ') + op.line);
+      bodyLines++;
+    }
+    if (truncated) break;
+  }
+
+  return { text: out.join('\n'), added, removed, truncated };
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { getSnapshotManager, FileSnapshot, FileChange } from '../Storage/snapshotManager';
 import { logger } from '../logger';
+import * as fs from 'fs';
 
 // Decoration types for changed lines
 let addedDecorationType: vscode.TextEditorDecorationType | null = null;
@@ -46,6 +47,17 @@ class BaselineContentProvider implements vscode.TextDocumentContentProvider {
   
   provideTextDocumentContent(uri: vscode.Uri): string {
     // URI format: ashibalt-baseline:/path/to/file
+    // or ashibalt-baseline:/path/to/file?source=<backup path> for commit diffs (empty source = no file)
+    const query = new URLSearchParams(uri.query);
+    if (query.has('source')) {
+      const source = query.get('source');
+      try {
+        return source ? fs.readFileSync(source, 'utf8') : '';
+      } catch {
+        return '';
+      }
+    }
+
     const filePath = uri.path;
     const snapshotManager = getSnapshotManager();
     const snapshot = snapshotManager.getSnapshotForFile(filePath);
@@ -141,6 +153,18 @@ class SnapshotCodeLensProvider implements vscode.CodeLensProvider {
           arguments: [snapshot.id, change.id, document.uri.fsPath]
         }));
         
+        // Multi-file change sets (apply_patch, lsp_refactor) can be rejected together
+        if (change.changeSetId) {
+          const files = new Set(snapshotManager.getChangeSet(change.changeSetId).map(e => e.snapshot.filePath));
+          if (files.size > 1) {
+            codeLenses.push(new vscode.CodeLens(range, {
+              title: `✗ Reject all (${files.size} files)`,
+              command: 'ashibalt.undoChangeSet',
+              arguments: [change.changeSetId]
+            }));
+          }
+        }
+
         // Show Diff button
         codeLenses.push(new vscode.CodeLens(range, {
           title: `Diff (${changeInfo})${changeCount}`,
@@ -212,6 +236,24 @@ export function registerSnapshotCommands(context: vscode.ExtensionContext): void
     })
   );
 
+  // Undo every change of a multi-file change set
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ashibalt.undoChangeSet', async (changeSetId: string) => {
+      const snapshotManager = getSnapshotManager();
+
+      logger.log(`[Reject] Rolling back change set ${changeSetId}`);
+
+      const count = await snapshotManager.rollbackChangeSet(changeSetId);
+      if (count > 0) {
+        vscode.window.showInformationMessage(`Откачено изменений: ${count}`);
+        refreshAllDecorations();
+        codeLensProvider?.refresh();
+      } else {
+        vscode.window.showErrorMessage('Не удалось откатить изменения');
+      }
+    })
+  );
+
   // Keep all changes in file
   context.subscriptions.push(
     vscode.commands.registerCommand('ashibalt.keepAllChanges', async (filePath: string) => {
@@ -257,6 +299,30 @@ export function registerSnapshotCommands(context: vscode.ExtensionContext): void
     })
   );
   
+  // Side-by-side diff for a get_commit diff entry (paths are absolute, null = file absent)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ashibalt.showCommitDiff', async (entry: {
+      file: string; oldPath: string | null; newPath: string | null; commitId: string; compareTo?: string;
+    }) => {
+      if (!entry?.file) return;
+      const side = (source: string | null, label: string) => vscode.Uri.from({
+        scheme: 'ashibalt-baseline',
+        path: `/${label}/${entry.file.replace(/\\/g, '/')}`,
+        query: `source=${encodeURIComponent(source || '')}`
+      });
+      // Against the workspace, the right side is the real file so it stays editable
+      const right = !entry.compareTo && entry.newPath
+        ? vscode.Uri.file(entry.newPath)
+        : side(entry.newPath, entry.compareTo || 'workspace');
+      const fileName = entry.file.split(/[/\\]/).pop() || 'file';
+      await vscode.commands.executeCommand('vscode.diff',
+        side(entry.oldPath, entry.commitId),
+        right,
+        `${fileName} (${entry.commitId} ↔ ${entry.compareTo || 'Workspace'})`
+      );
+    })
+  );
+
   // Accept all changes for current file (from status bar)
   context.subscriptions.push(
     vscode.commands.registerCommand('ashibalt.acceptCurrentFile', async () => {
@@ -17,6 +17,8 @@ export interface FileChange {
   newLines: string[];       // Lines that were added
   // Cached position (updated on each refresh)
   cachedStartLine: number;
+  // Change set the change belongs to (apply_patch records all its files as one set)
+  changeSetId?: string;
 }
 
 /**
@@ -82,6 +84,8 @@ export class SnapshotManager {
   private snapshotsDir: string;
   private pendingDir: string;
   private snapshots: Map<string, FileSnapshot> = new Map(); // key = filePath
+  // Snapshots accepted since the last batch of changes started (for commit messages)
+  private recentlyAccepted: Map<string, FileSnapshot> = new Map(); // key = filePath
   private onChangeCallbacks: (() => void)[] = [];
   private _initPromise: Promise<void> | null = null;
 
@@ -157,10 +161,16 @@ export class SnapshotManager {
     oldContent: string | null,
     newContent: string,
     startLine: number,
-    _endLine: number  // Not used directly, calculated from content
+    _endLine: number,  // Not used directly, calculated from content
+    changeSetId?: string
   ): Promise<FileSnapshot> {
     let snapshot = this.snapshots.get(filePath);
     const now = Date.now();
+
+    // First change after everything was accepted or rejected starts a new batch
+    if (this.snapshots.size === 0) {
+      this.recentlyAccepted.clear();
+    }
     
     // Read current file to get context lines
     let currentFileLines: string[] = [];
@@ -194,7 +204,8 @@ export class SnapshotManager {
       contextAfter,
       oldLines,
       newLines,
-      cachedStartLine: startLine
+      cachedStartLine: startLine,
+      ...(changeSetId ? { changeSetId } : {})
     };
     
     if (snapshot) {
@@ -403,6 +414,7 @@ export class SnapshotManager {
     if (!snapshot) return false;
 
     this.snapshots.delete(snapshot.filePath);
+    this.recentlyAccepted.set(snapshot.filePath, snapshot);
     await this.deleteSnapshotFromDisk(snapshot);
     this.notifyChange();
     return true;
@@ -636,6 +648,35 @@ export class SnapshotManager {
     return count;
   }
 
+  /**
+   * Changes recorded under a change set, with the snapshot each belongs to
+   */
+  getChangeSet(changeSetId: string): { snapshot: FileSnapshot; change: FileChange }[] {
+    const result: { snapshot: FileSnapshot; change: FileChange }[] = [];
+    for (const snapshot of this.snapshots.values()) {
+      for (const change of snapshot.changes) {
+        if (change.changeSetId === changeSetId) {
+          result.push({ snapshot, change });
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Rollback every change of a change set (newest first)
+   */
+  async rollbackChangeSet(changeSetId: string): Promise<number> {
+    const entries = this.getChangeSet(changeSetId).sort((a, b) => b.change.timestamp - a.change.timestamp);
+    let count = 0;
+    for (const { snapshot, change } of entries) {
+      if (await this.rollbackChange(snapshot.id, change.id)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
   /**
    * Get workspace roots for filtering (lowercased for case-insensitive comparison on Windows)
    */
@@ -676,6 +717,17 @@ export class SnapshotManager {
     return pending;
   }
 
+  /**
+   * Snapshots accepted since the current batch of changes started (filtered to current workspace).
+   * Cleared when the agent makes its next change after all pending changes were resolved.
+   */
+  getRecentlyAccepted(): FileSnapshot[] {
+    const roots = this.getWorkspaceRoots();
+    return Array.from(this.recentlyAccepted.values())
+      .filter(s => this.isInWorkspace(s.filePath, roots))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
   /**
    * Get snapshot for a specific file
    */
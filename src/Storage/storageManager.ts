@@ -122,11 +122,32 @@ export interface LspBridgeAction {
   success: boolean;
 }
 
-export type MessageAction = TextAction | FileReadAction | FileEditAction | FileCreateAction | FileDeleteAction | TerminalAction | SearchAction | WebSearchAction | DiagnoseAction | ListFilesAction | FetchUrlAction | RunTestsAction | FindReferencesAction | LspBridgeAction;
+/**
+ * Generic action for registered tools without a dedicated shape
+ * (returned from a ToolDefinition.renderAction, see Engine/toolRegistry.ts).
+ */
+export interface ToolAction {
+  type: 'tool';
+  name: string;
+  success: boolean;
+  summary?: string;
+  error?: string;
+}
+
+export type MessageAction = TextAction | FileReadAction | FileEditAction | FileCreateAction | FileDeleteAction | TerminalAction | SearchAction | WebSearchAction | DiagnoseAction | ListFilesAction | FetchUrlAction | RunTestsAction | FindReferencesAction | LspBridgeAction | ToolAction;
 
 // Legacy support
 export type FileAction = FileReadAction;
 
+/** Switch to the next provider of a model's fallback chain (recorded in session metrics) */
+export interface ProviderSwitchRecord {
+  from: string;
+  to: string;
+  /** parseApiError summary of the error that triggered the switch */
+  reason: string;
+  at: number;
+}
+
 export interface StoredMessage {
   id: string;
   role: string;
@@ -291,7 +312,7 @@ export class StorageManager {
 
   // ---- Session metrics persistence ----
 
-  async saveSessionMetrics(sessionId: string, metrics: { inputTokens: number; outputTokens: number; apiCalls: number; currentContextTokens?: number; contextLimit?: number; modelCosts?: Record<string, number> }) {
+  async saveSessionMetrics(sessionId: string, metrics: { inputTokens: number; outputTokens: number; apiCalls: number; currentContextTokens?: number; contextLimit?: number; modelCosts?: Record<string, number>; providerSwitches?: ProviderSwitchRecord[] }) {
     sessionId = sanitizeSessionId(sessionId);
     const dir = path.join(this.sessionsDir, sessionId);
     await fs.mkdir(dir, { recursive: true });
@@ -300,7 +321,7 @@ export class StorageManager {
     logger.log(`[STORAGE] saveSessionMetrics session=${sessionId} apiCalls=${metrics.apiCalls} in=${metrics.inputTokens} out=${metrics.outputTokens} ctx=${metrics.currentContextTokens || 0}/${metrics.contextLimit || 0}`);
   }
 
-  async loadSessionMetrics(sessionId: string): Promise<{ inputTokens: number; outputTokens: number; apiCalls: number; currentContextTokens?: number; contextLimit?: number; modelCosts?: Record<string, number> }> {
+  async loadSessionMetrics(sessionId: string): Promise<{ inputTokens: number; outputTokens: number; apiCalls: number; currentContextTokens?: number; contextLimit?: number; modelCosts?: Record<string, number>; providerSwitches?: ProviderSwitchRecord[] }> {
     sessionId = sanitizeSessionId(sessionId);
     const metricsPath = path.join(this.sessionsDir, sessionId, 'metrics.json');
     try {
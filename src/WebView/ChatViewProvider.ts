@@ -1,6 +1,6 @@
-import { commands, env, Uri, Webview, WebviewView, WebviewViewProvider, window, workspace, ExtensionContext, FileType, Position, Range } from "vscode";
+import { commands, env, extensions, Uri, Webview, WebviewView, WebviewViewProvider, window, workspace, ExtensionContext, FileType, Position, ProgressLocation, Range } from "vscode";
 import { TextDecoder } from "util";
-import { ExtensionConfig, type ProviderType, loadExtensionConfig } from "../Config/config";
+import { ExtensionConfig, customProviderId, isCustomProvider, type ProviderId, loadExtensionConfig } from "../Config/config";
 import { logger } from "../logger";
 import { getChatSystemPrompt, getAgentSystemPrompt } from "../promptUtils";
 import { tools as availableTools, executeTool } from "../Engine/toolCalling";
@@ -10,9 +10,16 @@ import { getIconForFile } from "../iconMap";
 import { getNonce, loadHtmlTemplate } from './chatViewHtml';
 import { buildAttachedFilesFromContext } from '../Engine/SystemContext/contextHelpers';
 import { StorageManager } from "../Storage/storageManager";
+import type { ProviderFallbackTarget, TerminalConfirmDetails } from "../Engine/agentLoop";
 import { getSnapshotManager } from "../Storage/snapshotManager";
 import { CommitManager } from "../Storage/commitManager";
 import { SnapshotHandler } from './snapshotHandler';
+import { resolveFilePath, toWorkspacePath } from '../Engine/tools/toolUtils';
+import { resetWebSearchCache } from '../Engine/tools/webSearchTool';
+import { getSummarizationSettings, type SummarizerConnection } from '../Engine/SystemContext/contextSummarizer';
+import { getWebSearchSettings, isWebSearchProvider, webSearchSecretKey, WEB_SEARCH_PROVIDERS, type WebSearchProviderId } from '../Engine/tools/webSearchProviders';
+import { isWorkspaceScopeAvailable, maskSecret, resolveSecret, setSecret, type SecretScope } from '../Config/secrets';
+import { describeProviderKeys, providerSecretKey } from '../Config/providerKeys';
 import { 
   parseSlashCommand, 
   isValidCommand, 
@@ -35,6 +42,12 @@ interface AttachedFile {
 
 type ChatMode = 'agent' | 'chat';
 
+/** Display names of built-in providers (custom ones use their configured name) */
+const PROVIDER_DISPLAY_NAMES: Record<string, string> = {
+  ollama: 'Ollama', mistral: 'Mistral', openrouter: 'OpenRouter', openai: 'OpenAI',
+  claude: 'Claude', deepseek: 'DeepSeek', grok: 'Grok', gemini: 'Gemini'
+};
+
 const MODE_STORAGE_KEY = 'ashibaltChatMode';
 const DEFAULT_CHAT_MODE: ChatMode = 'agent';
 
@@ -81,7 +94,9 @@ export class ChatViewProvider implements WebviewViewProvider {
   private view?: WebviewView;
   private config: ExtensionConfig;
   private client!: ChatModelClient;
-  private primaryProvider: ProviderType = "mistral";
+  /** Settles when the client of the latest rebuildClient() call is ready (keys are read asynchronously) */
+  private clientReady: Promise<void> = Promise.resolve();
+  private primaryProvider: ProviderId = "mistral";
   private history: ChatMessage[] = [];
   private sessions: ChatSession[] = [];
   private currentSessionId: string = Date.now().toString();
@@ -112,7 +127,7 @@ export class ChatViewProvider implements WebviewViewProvider {
   private _apiConversation: any[] = [];
   // Terminal confirmation pending promise (only one at a time)
   private pendingTerminalConfirmation: {
-    resolve: (result: { confirmed: boolean; editedCommand?: string }) => void;
+    resolve: (result: { confirmed: boolean; editedCommand?: string; alwaysAllow?: boolean }) => void;
     reject: (error: Error) => void;
     command: string;
   } | null = null;
@@ -125,9 +140,9 @@ export class ChatViewProvider implements WebviewViewProvider {
   private pendingTerminalDetach: {
     resolve: () => void;
   } | null = null;
-  // Tool approval pending promise (chat mode)
+  // Tool approval pending promise (tools the permission policy marks as "ask")
   private pendingToolApproval: {
-    resolve: (approved: boolean) => void;
+    resolve: (approved: boolean | 'always') => void;
     reject: (error: Error) => void;
   } | null = null;
   // Terminal interactive prompt pending promise
@@ -247,13 +262,17 @@ export class ChatViewProvider implements WebviewViewProvider {
           this.postMessage({ type: "updateModelText", value: this.selectedModel?.name ?? null });
           // Restore mode
           this.postMessage({ type: 'restoreMode', mode: this.currentMode });
-          // Restore saved settings (API keys, URLs, etc.)
+          // Restore saved settings (URLs etc.; API keys are sent masked by postProviderKeys)
           {
             const cfg = workspace.getConfiguration("ashibaltAi");
-            const providerSettings = cfg.get<Record<string, any>>("providerSettings", {});
+            const providerSettings: Record<string, { url?: string }> = {};
+            for (const [prov, val] of Object.entries(cfg.get<Record<string, any>>("providerSettings", {}))) {
+              if (val && typeof val === 'object') providerSettings[prov] = { url: val.url };
+            }
             const ollamaBaseUrl = cfg.get<string>("ollamaBaseUrl", "http://localhost:11434");
             const agentIterations = cfg.get<number>("agentIterations", 25);
             const autoRunTerminal = cfg.get<boolean>("autoRunTerminal", false);
+            const terminalSandbox = cfg.get<boolean>("terminalSandbox", false);
             const metricsEnabled = cfg.get<boolean>("metricsEnabled", false);
             this.postMessage({
               type: 'restoreSettings',
@@ -261,8 +280,12 @@ export class ChatViewProvider implements WebviewViewProvider {
               ollamaBaseUrl,
               agentIterations,
               autoRunTerminal,
-              metricsEnabled
+              terminalSandbox,
+              metricsEnabled,
+              webSearch: getWebSearchSettings()
             });
+            await this.postProviderKeys();
+            await this.postWebSearchKeys();
           }
           // Wait for history/sessions to be loaded from disk before restoring.
           // Without this, pendingRestoreSessionId may still be null if
@@ -603,7 +626,7 @@ export class ChatViewProvider implements WebviewViewProvider {
          if (!model.contextLength) {
            try {
              const { resolveProviderConnection } = await import('../chatClientFactory');
-             const { baseUrl, apiKey } = resolveProviderConnection(this.config, model.provider);
+             const { baseUrl, apiKey } = await resolveProviderConnection(this.config, model.provider);
              const ctx = await this.configManager.fetchSingleModelContextLength(
                model.provider, model.id, baseUrl, apiKey
              );
@@ -676,8 +699,13 @@ export class ChatViewProvider implements WebviewViewProvider {
         case "fetchProviderModels": {
           const provider = message.provider;
           const url = message.url;
-          const apiKey = message.apiKey || '';
           try {
+            // The webview only has a key the user has just typed; saved keys stay on the host
+            let apiKey = message.apiKey || '';
+            if (!apiKey && provider !== 'ollama') {
+              const { resolveProviderConnection } = await import('../chatClientFactory');
+              apiKey = (await resolveProviderConnection(this.config, provider)).apiKey;
+            }
             const models = await this.configManager.fetchProviderModels(provider, url, apiKey);
             if (models.length > 0) {
               if (provider === 'ollama') {
@@ -702,6 +730,48 @@ export class ChatViewProvider implements WebviewViewProvider {
           }
           break;
         }
+        case "setModelFallbacks": {
+          try {
+            this.configManager.setModelFallbacks(message.id, message.provider, message.fallbacks || []);
+            this.syncModelsToView();
+          } catch (error: any) {
+            window.showErrorMessage(error.message || 'Не удалось сохранить резервных провайдеров.');
+          }
+          break;
+        }
+        case "saveCustomProvider": {
+          try {
+            // The key goes to SecretStorage; an empty field keeps the saved one
+            const apiKey = String(message.provider?.apiKey ?? '').trim();
+            this.configManager.saveCustomProvider({ ...message.provider, apiKey: '' });
+            if (apiKey) {
+              await setSecret(providerSecretKey(customProviderId(message.provider.id.trim())), apiKey, this.secretScope(message.apiKeyScope));
+            }
+            if (this.selectedModel && this.selectedModel.provider === `custom:${message.provider?.id}`) {
+              this.rebuildClient();
+            }
+            window.showInformationMessage(`Провайдер "${message.provider.name}" сохранён.`);
+            this.syncModelsToView();
+          } catch (error: any) {
+            window.showErrorMessage(error.message || 'Не удалось сохранить провайдер.');
+          }
+          await this.postProviderKeys();
+          break;
+        }
+        case "deleteCustomProvider": {
+          const providerId = `custom:${message.id}`;
+          this.configManager.deleteCustomProvider(message.id);
+          for (const scope of ['global', 'workspace'] as SecretScope[]) {
+            await setSecret(providerSecretKey(customProviderId(message.id)), '', scope).catch(() => {});
+          }
+          if (this.selectedModel && this.selectedModel.provider === providerId) {
+            this.selectedModel = null;
+            this.postMessage({ type: "updateModelText", value: null });
+          }
+          window.showInformationMessage('Провайдер удалён.');
+          this.syncModelsToView();
+          break;
+        }
         case "getSlashCommands": {
           // Return list of available slash commands for autocomplete
           this.postMessage({ 
@@ -721,6 +791,66 @@ export class ChatViewProvider implements WebviewViewProvider {
           this.postMessage({ type: "fileCompletions", files, query });
           break;
         }
+        case "getProjectMemory": {
+          this.postProjectMemory();
+          break;
+        }
+        case "saveProjectMemory": {
+          try {
+            const { writeProjectMemory } = await import('../Engine/SystemContext/projectMemory');
+            writeProjectMemory(String(message.content ?? ''));
+            window.showInformationMessage('Память проекта сохранена');
+          } catch (e: any) {
+            logger.error('Failed to save project memory', e);
+            window.showErrorMessage(`Не удалось сохранить память проекта: ${e?.message || e}`);
+          }
+          this.postProjectMemory();
+          break;
+        }
+        case "openProjectMemory": {
+          try {
+            const { ensureProjectMemoryFile } = await import('../Engine/SystemContext/projectMemory');
+            const doc = await workspace.openTextDocument(ensureProjectMemoryFile());
+            await window.showTextDocument(doc);
+          } catch (e) {
+            logger.error('Failed to open project memory', e);
+          }
+          break;
+        }
+        case "saveWebSearchKey": {
+          if (!isWebSearchProvider(message.provider)) break;
+          const apiKey = String(message.apiKey ?? '').trim();
+          try {
+            await setSecret(webSearchSecretKey(message.provider), apiKey, this.secretScope(message.scope));
+            const label = WEB_SEARCH_PROVIDERS[message.provider as WebSearchProviderId].label;
+            window.showInformationMessage(apiKey ? `Ключ ${label} сохранён` : `Ключ ${label} удалён`);
+          } catch (e: any) {
+            logger.error('Failed to save web search key', e);
+            window.showErrorMessage(`Не удалось сохранить ключ: ${e?.message || e}`);
+          }
+          await this.postWebSearchKeys();
+          break;
+        }
+        case "deleteProviderKey": {
+          try {
+            await setSecret(providerSecretKey(message.provider), '', this.secretScope(message.scope));
+            window.showInformationMessage(`Ключ ${this.providerDisplayName(message.provider)} удалён`);
+          } catch (e: any) {
+            window.showErrorMessage(`Не удалось удалить ключ: ${e?.message || e}`);
+          }
+          await this.postProviderKeys();
+          this.rebuildClient();
+          break;
+        }
+        case "getCommitStorageUsage": {
+          try {
+            const usage = await this.commitManager.getStorageUsage();
+            this.postMessage({ type: "commitStorageUsage", usage });
+          } catch (e) {
+            logger.error('Failed to read commit storage usage', e);
+          }
+          break;
+        }
         case "deleteSession": {
            this.deleteSession(message.sessionId);
            break;
@@ -778,6 +908,7 @@ export class ChatViewProvider implements WebviewViewProvider {
            // Suppress onDidChangeConfiguration during batch updates to avoid
            // multiple config reloads and client rebuilds per save.
            this._suppressConfigReload = true;
+           let keysChanged = false;
            try {
            const config = workspace.getConfiguration("ashibaltAi");
 
@@ -796,32 +927,47 @@ export class ChatViewProvider implements WebviewViewProvider {
            if (message.autoRunTerminal !== undefined) {
                await safeUpdate("autoRunTerminal", message.autoRunTerminal);
            }
+           if (message.terminalSandbox !== undefined) {
+               await safeUpdate("terminalSandbox", message.terminalSandbox);
+           }
            if (message.metricsEnabled !== undefined) {
                await safeUpdate("metricsEnabled", message.metricsEnabled);
            }
            if (message.ollamaBaseUrl !== undefined) {
                await safeUpdate("ollamaBaseUrl", message.ollamaBaseUrl);
            }
-           // Save all provider-specific settings (URLs and API keys)
+           if (message.webSearch) {
+             const ws = message.webSearch;
+             if (isWebSearchProvider(ws.provider)) await safeUpdate("webSearchProvider", ws.provider);
+             if (ws.searxngUrl !== undefined) await safeUpdate("searxngUrl", String(ws.searxngUrl).trim());
+             if (Array.isArray(ws.allowedDomains)) await safeUpdate("webSearchAllowedDomains", ws.allowedDomains);
+             if (Array.isArray(ws.blockedDomains)) await safeUpdate("webSearchBlockedDomains", ws.blockedDomains);
+           }
+           // Save provider URLs to settings and newly typed API keys to SecretStorage
            if (message.providerSettings) {
              const ps = message.providerSettings;
-             logger.log(`[SaveSettings] Received providerSettings: ${JSON.stringify(ps)}`);
+             const scope = this.secretScope(message.apiKeyScope);
+             logger.log(`[SaveSettings] Received providerSettings for: ${Object.keys(ps).join(', ')}`);
              // Merge with existing providerSettings
              const existing = config.get<Record<string, any>>("providerSettings", {});
              const merged = { ...existing };
              for (const [prov, val] of Object.entries(ps) as [string, any][]) {
                if (!val) continue;
-               if (!merged[prov]) merged[prov] = {};
+               merged[prov] = { ...merged[prov] };
                // Use !== undefined to allow clearing fields (empty string is valid)
                if (val.url !== undefined) merged[prov].url = val.url;
-               if (val.apiKey !== undefined) merged[prov].apiKey = val.apiKey;
+               delete merged[prov].apiKey;
+               const apiKey = typeof val.apiKey === 'string' ? val.apiKey.trim() : '';
+               if (apiKey) {
+                 try {
+                   await setSecret(providerSecretKey(prov as ProviderId), apiKey, scope);
+                   keysChanged = true;
+                 } catch (err: any) {
+                   window.showErrorMessage(`Не удалось сохранить ключ ${this.providerDisplayName(prov as ProviderId)}: ${err?.message || err}`);
+                 }
+               }
              }
-             logger.log(`[SaveSettings] Merged providerSettings: ${JSON.stringify(merged)}`);
              await safeUpdate("providerSettings", merged);
-             // Also keep legacy openrouter keys in sync
-             if (ps.openrouter?.apiKey) {
-               await safeUpdate("openRouterApiKey", ps.openrouter.apiKey);
-             }
              if (ps.openrouter?.url) {
                await safeUpdate("openRouterBaseUrl", ps.openrouter.url);
              }
@@ -833,10 +979,10 @@ export class ChatViewProvider implements WebviewViewProvider {
              // BEFORE releasing the suppress flag to prevent race conditions
              // with onDidChangeConfiguration events.
              this.config = loadExtensionConfig();
-             logger.log(`[SaveSettings] Reloaded config. providerSettings: ${JSON.stringify(this.config.providerSettings)}`);
              this.rebuildClient();
              this._suppressConfigReload = false;
            }
+           if (keysChanged) await this.postProviderKeys();
            break;
         }
         case "metricsToggle": {
@@ -1061,14 +1207,10 @@ export class ChatViewProvider implements WebviewViewProvider {
               return;
             }
             
-            // Resolve relative paths to workspace root
-            const path = require('path');
+            // Resolve relative / folder-qualified paths to the workspace
             if (!path.isAbsolute(filePath)) {
-              const folders = workspace.workspaceFolders;
-              if (folders && folders.length > 0) {
-                filePath = path.resolve(folders[0].uri.fsPath, filePath);
-                logger.log(`[openFile] Resolved relative path to: "${filePath}"`);
-              }
+              filePath = resolveFilePath(filePath);
+              logger.log(`[openFile] Resolved relative path to: "${filePath}"`);
             }
             
             const doc = await workspace.openTextDocument(filePath);
@@ -1089,12 +1231,25 @@ export class ChatViewProvider implements WebviewViewProvider {
         }
         break;
       }
+      case "openCommitDiff": {
+        if (message.file && message.commitId) {
+          await commands.executeCommand('ashibalt.showCommitDiff', {
+            file: String(message.file),
+            oldPath: message.oldPath || null,
+            newPath: message.newPath || null,
+            commitId: String(message.commitId),
+            compareTo: message.compareTo || undefined
+          });
+        }
+        break;
+      }
       case "terminalConfirmResponse": {
         // User responded to terminal confirmation dialog
         if (this.pendingTerminalConfirmation) {
           const confirmed = message.confirmed === true;
           const editedCommand = message.command || undefined;
-          this.pendingTerminalConfirmation.resolve({ confirmed, editedCommand });
+          const alwaysAllow = confirmed && message.always === true;
+          this.pendingTerminalConfirmation.resolve({ confirmed, editedCommand, alwaysAllow });
           this.pendingTerminalConfirmation = null;
         }
         break;
@@ -1108,9 +1263,10 @@ export class ChatViewProvider implements WebviewViewProvider {
         break;
       }
       case "toolApprovalResponse": {
-        // User responded to tool approval dialog (chat mode)
+        // User responded to tool approval dialog; "always" also adds an allow rule to the policy
         if (this.pendingToolApproval) {
-          this.pendingToolApproval.resolve(message.confirmed === true);
+          const confirmed = message.confirmed === true;
+          this.pendingToolApproval.resolve(confirmed && message.always === true ? 'always' : confirmed);
           this.pendingToolApproval = null;
         }
         break;
@@ -1297,6 +1453,13 @@ export class ChatViewProvider implements WebviewViewProvider {
             this.resetConversation();
           }
           return;
+        } else if (parsed.command === 'compact') {
+          await this.compactConversation(parsed.args.join(' ').trim() || undefined);
+          return;
+        } else if (parsed.command === 'commit_message' || parsed.command === 'pr_description') {
+          const hint = parsed.args.join(' ').trim();
+          await this.generateChangeDescription(parsed.command === 'commit_message' ? 'commit' : 'pr', hint || undefined);
+          return;
         }
         return;
       }
@@ -1459,7 +1622,7 @@ export class ChatViewProvider implements WebviewViewProvider {
   // Route to correct API based on provider — use centralized resolver
   {
     const { resolveProviderConnection } = await import('../chatClientFactory');
-    const resolved = resolveProviderConnection(this.config, activeProvider as any);
+    const resolved = await resolveProviderConnection(this.config, activeProvider as any);
     // Build provider messages: reuse stored API conversation if available
     // (preserves tool_calls and tool results from prior agent loop iterations)
     let providerMessages: any[];
@@ -1538,15 +1701,10 @@ export class ChatViewProvider implements WebviewViewProvider {
     const modelId = activeModel;
 
     logger.log(`[Request] Provider: ${activeProvider}, apiKey present: ${!!apiKey}, baseUrl: ${apiBaseUrl}`);
-    logger.log(`[Request] Config providerSettings: ${JSON.stringify(this.config.providerSettings)}`);
 
-    // Validate: require API key for cloud providers
-    if (activeProvider !== 'ollama' && !apiKey) {
-      const providerNames: Record<string, string> = {
-        mistral: 'Mistral', openrouter: 'OpenRouter', openai: 'OpenAI',
-        claude: 'Claude', deepseek: 'DeepSeek', grok: 'Grok', gemini: 'Gemini'
-      };
-      const name = providerNames[activeProvider] || activeProvider;
+    // Validate: require API key for cloud providers (custom providers may run without auth)
+    if (activeProvider !== 'ollama' && !isCustomProvider(activeProvider) && !apiKey) {
+      const name = this.providerDisplayName(activeProvider);
       this.postMessage({
         type: "addMessage", role: "system",
         content: `🔑 API-ключ для ${name} не задан. Откройте настройки → ${name} → введите ключ → Сохранить.`
@@ -1579,6 +1737,10 @@ export class ChatViewProvider implements WebviewViewProvider {
           baseUrl: apiBaseUrl,
           apiKey: apiKey, // OpenRouter API key or JWT token for Ashibalt
           model: modelId,
+          providerType: activeProvider,
+          headers: resolved.headers,
+          providerLabel: `${this.providerDisplayName(activeProvider)} (${modelId})`,
+          fallbacks: await this.resolveFallbackTargets(this.selectedModel),
           providerMessages,
           currentSessionId: this.currentSessionId,
           storageManager: this.storageManager as any,
@@ -1658,10 +1820,11 @@ export class ChatViewProvider implements WebviewViewProvider {
             toolOverrides: chatToolOverrides,
             maxIterationsOverride: 25,
             systemPromptOverride: chatSystemPrompt,
-            isChat: true,
-            requestToolApproval: this.requestToolApproval.bind(this)
+            isChat: true
           } : {}),
+          requestToolApproval: this.requestToolApproval.bind(this),
           contextLength: this.resolveContextLength(),
+          summarizer: await this.resolveSummarizer(),
           onConversationUpdate: (msgs: any[]) => {
             this._apiConversation = msgs;
             const assistantCount = msgs.filter((m: any) => m.role === 'assistant').length;
@@ -1740,6 +1903,7 @@ export class ChatViewProvider implements WebviewViewProvider {
   this.postMessage({ type: 'addMessage', role: 'assistant', content: '', id: assistantPlaceholderId, replyTo: lastUser?.id, modelName: activeModel });
 
     try {
+      await this.clientReady;
       await this.client.chat(
         chatOptions,
         (chunk) => {
@@ -1995,6 +2159,7 @@ export class ChatViewProvider implements WebviewViewProvider {
     logger.log("Пользователь очистил историю чата.");
     this.abortController?.abort();
     this._apiConversation = [];
+    resetWebSearchCache();
     
     // If current session is already empty, don't create a new one to avoid accumulating empty sessions
     if (this.history.length === 0) {
@@ -2031,6 +2196,8 @@ export class ChatViewProvider implements WebviewViewProvider {
       (async () => {
         try {
           await this.storageManager.deleteSession(sessionId);
+          // Drop checkpoint blobs that only the deleted session referenced
+          this.commitManager.collectGarbage().catch(e => logger.error('Commit blob GC failed', e));
           // reload index into memory
           const idx = await this.storageManager.listSessions();
           this.sessions = idx.map((s: any) => ({ id: s.id, title: s.title, date: s.date, mode: s.mode, messages: [] } as ChatSession));
@@ -2122,7 +2289,7 @@ export class ChatViewProvider implements WebviewViewProvider {
    * Returns Promise that resolves to true if confirmed, false if rejected.
    * Rejects if WebView is closed or timeout (no response from user).
    */
-  private requestTerminalConfirmation(command: string, workingDir: string): Promise<{ confirmed: boolean; editedCommand?: string }> {
+  private requestTerminalConfirmation(command: string, workingDir: string, details: TerminalConfirmDetails = {}): Promise<{ confirmed: boolean; editedCommand?: string; alwaysAllow?: boolean }> {
     return new Promise((resolve, reject) => {
       // Only one pending confirmation at a time
       if (this.pendingTerminalConfirmation) {
@@ -2142,7 +2309,9 @@ export class ChatViewProvider implements WebviewViewProvider {
       this.postMessage({
         type: 'terminalConfirm',
         command,
-        workingDir
+        workingDir,
+        rule: details.rule,
+        risks: details.risks || []
       });
 
       // Note: No timeout here - agentLoop controls flow
@@ -2186,9 +2355,10 @@ export class ChatViewProvider implements WebviewViewProvider {
   }
 
   /**
-   * Request user approval before executing a tool in chat mode
+   * Request user approval before executing a tool the permission policy marks as "ask".
+   * Resolves to 'always' when the user chose to add the suggested allow rule.
    */
-  private requestToolApproval(toolName: string, args: any): Promise<boolean> {
+  private requestToolApproval(toolName: string, args: any, rule?: string): Promise<boolean | 'always'> {
     return new Promise((resolve, reject) => {
       if (this.pendingToolApproval) {
         this.pendingToolApproval.reject(new Error('New approval request cancelled previous'));
@@ -2198,7 +2368,7 @@ export class ChatViewProvider implements WebviewViewProvider {
         return;
       }
       this.pendingToolApproval = { resolve, reject };
-      this.postMessage({ type: 'toolApproval', toolName, args });
+      this.postMessage({ type: 'toolApproval', toolName, args, rule });
     });
   }
 
@@ -2332,12 +2502,77 @@ export class ChatViewProvider implements WebviewViewProvider {
   }
 
   /**
-   * Resolve contextLength for the selected model.
-   * Priority: 1) model.contextLength 2) cached from API 3) guess by model family 4) undefined
+   * Model for context summaries: `summarizationModel` from settings when it is
+   * one of the saved models, otherwise the selected chat model.
    */
-  private resolveContextLength(): number | undefined {
-    const model = this.selectedModel;
+  private async resolveSummarizer(): Promise<SummarizerConnection | undefined> {
+    const { model: modelId } = getSummarizationSettings();
+    const configured = modelId ? this.configManager.getModels().find(m => m.id === modelId) : undefined;
+    if (modelId && !configured) {
+      logger.log(`[Summarize] Model "${modelId}" is not among the saved models — using the chat model`);
+    }
+    const model = configured || this.selectedModel;
     if (!model) return undefined;
+    const { resolveProviderConnection } = await import('../chatClientFactory');
+    const conn = await resolveProviderConnection(this.config, model.provider);
+    if (!conn.baseUrl || (model.provider !== 'ollama' && !isCustomProvider(model.provider) && !conn.apiKey)) {
+      return undefined;
+    }
+    return { ...conn, model: model.id, providerType: model.provider };
+  }
+
+  /** /compact: replace older turns of the API conversation with a model-written summary */
+  private async compactConversation(instructions?: string): Promise<void> {
+    if (this._isProcessing) {
+      window.showWarningMessage('Дождитесь окончания ответа модели.');
+      return;
+    }
+    if (!this.ensureModelReady()) return;
+    const summarizer = await this.resolveSummarizer();
+    if (!summarizer) {
+      window.showWarningMessage('Нет модели для сжатия контекста: проверьте API-ключ провайдера.');
+      return;
+    }
+
+    const { compactMessages, estimateTokenCount } = await import('../Engine/SystemContext/contextSummarizer');
+    const model = this.selectedModel?.id;
+    const before = estimateTokenCount(this._apiConversation, model);
+    let compacted: any[] | null;
+    try {
+      compacted = await compactMessages(this._apiConversation, summarizer, {
+        keepTurns: 1,
+        instructions,
+        onStatusChange: status => this.postMessage({ type: 'summarizationStatus', status })
+      });
+    } catch (err: any) {
+      logger.error('Failed to compact conversation', err);
+      window.showErrorMessage(`Не удалось сжать контекст: ${err?.message || err}`);
+      return;
+    }
+    if (!compacted) {
+      window.showInformationMessage('Сжимать нечего: в разговоре слишком мало сообщений.');
+      return;
+    }
+
+    this._apiConversation = compacted;
+    await this.storageManager.saveApiConversation(this.currentSessionId, compacted).catch(err => {
+      logger.error('Failed to persist API conversation', err);
+    });
+    window.showInformationMessage(`Контекст сжат: ~${before} → ~${estimateTokenCount(compacted, model)} токенов.`);
+  }
+
+  /**
+   * Resolve contextLength for the selected model (or another one, e.g. of the fallback chain).
+   * Priority: 0) custom provider override 1) model.contextLength 2) cached from API 3) guess by model family 4) undefined
+   */
+  private resolveContextLength(model: AIModel | null = this.selectedModel): number | undefined {
+    if (!model) return undefined;
+
+    // 0) Explicit override of a custom provider
+    if (isCustomProvider(model.provider)) {
+      const override = this.configManager.getCustomProvider(model.provider)?.contextLength;
+      if (override) return override;
+    }
 
     // 1) Already known
     if (model.contextLength) {
@@ -2502,11 +2737,52 @@ export class ChatViewProvider implements WebviewViewProvider {
     }
   }
 
+  private providerDisplayName(provider: ProviderId): string {
+    if (isCustomProvider(provider)) {
+      return this.configManager.getCustomProvider(provider)?.name || provider;
+    }
+    return PROVIDER_DISPLAY_NAMES[provider] || provider;
+  }
+
+  /**
+   * Resolve connections for the model's fallback chain.
+   * Providers without credentials are skipped — switching to them would fail anyway.
+   */
+  private async resolveFallbackTargets(model: AIModel | null): Promise<ProviderFallbackTarget[]> {
+    // Read the chain from storage — the selected model object may predate the last edit
+    const saved = model && this.configManager.getModels().find(m => m.id === model.id && m.provider === model.provider);
+    const chain = (saved || model)?.fallbacks;
+    if (!chain?.length) return [];
+    const { resolveProviderConnection } = await import('../chatClientFactory');
+    const targets: ProviderFallbackTarget[] = [];
+    const models = this.configManager.getModels();
+    for (const fb of chain) {
+      const conn = await resolveProviderConnection(this.config, fb.provider);
+      if (!conn.baseUrl || (fb.provider !== 'ollama' && !isCustomProvider(fb.provider) && !conn.apiKey)) {
+        logger.log(`[Fallback] Skipping ${fb.provider}/${fb.model}: provider is not configured`);
+        continue;
+      }
+      const known = models.find(m => m.id === fb.model && m.provider === fb.provider);
+      targets.push({
+        providerType: fb.provider,
+        model: fb.model,
+        ...conn,
+        label: `${this.providerDisplayName(fb.provider)} (${fb.model})`,
+        contextLength: this.resolveContextLength(known || { id: fb.model, name: fb.model, provider: fb.provider })
+      });
+    }
+    return targets;
+  }
+
   private rebuildClient() {
     const provider = this.selectedModel?.provider;
-    const clientInfo = createChatClientWithFallback(this.config, provider);
-    this.client = clientInfo.client;
-    this.primaryProvider = clientInfo.primaryProvider;
+    const ready = createChatClientWithFallback(this.config, provider).then(clientInfo => {
+      // A newer rebuild owns the client
+      if (this.clientReady !== ready) return;
+      this.client = clientInfo.client;
+      this.primaryProvider = clientInfo.primaryProvider;
+    }).catch(err => logger.error('Failed to create chat client', err));
+    this.clientReady = ready;
   }
 
   private persistSelectedModel() {
@@ -2527,7 +2803,8 @@ export class ChatViewProvider implements WebviewViewProvider {
         type: "updateModels",
         models: models,
         selectedModelId: this.selectedModel?.id ?? null,
-        codeModelId: codeModel
+        codeModelId: codeModel,
+        customProviders: this.configManager.getCustomProviders().map(({ apiKey: _apiKey, ...cp }) => cp)
       });
       // Also send current settings
       const vsConfig = workspace.getConfiguration("ashibaltAi");
@@ -2654,7 +2931,8 @@ export class ChatViewProvider implements WebviewViewProvider {
       const files = await workspace.findFiles(pattern, excludePattern, 50);
       
       for (const file of files) {
-        const relativePath = workspace.asRelativePath(file, false);
+        // Folder-qualified in multi-root workspaces ("backend:src/app.ts")
+        const relativePath = toWorkspacePath(file.fsPath);
         const fileName = path.basename(relativePath);
         
         // Filter by query if provided
@@ -2675,12 +2953,13 @@ export class ChatViewProvider implements WebviewViewProvider {
           const seenFolders = new Set<string>();
           
           for (const file of folders) {
-            const relativePath = workspace.asRelativePath(file, false);
-            const parts = relativePath.split(/[\\/]/);
+            const relativePath = toWorkspacePath(file.fsPath);
+            const rootPrefix = relativePath.match(/^[^/]+:/)?.[0] ?? '';
+            const parts = relativePath.slice(rootPrefix.length).split('/');
             
             // Add parent folders that match
             for (let i = 0; i < parts.length - 1; i++) {
-              const folderPath = parts.slice(0, i + 1).join('/');
+              const folderPath = rootPrefix + parts.slice(0, i + 1).join('/');
               const folderName = parts[i];
               
               if (folderName.toLowerCase().includes(queryLower) && !seenFolders.has(folderPath)) {
@@ -2711,6 +2990,7 @@ export class ChatViewProvider implements WebviewViewProvider {
   }
 
   private loadSession(sessionId: string) {
+    resetWebSearchCache();
     (async () => {
       try {
         // Save current session index before switching
@@ -2812,8 +3092,124 @@ export class ChatViewProvider implements WebviewViewProvider {
     })().catch(err => logger.error('loadSession error', err));
   }
 
+  /** Rule files and learned facts for the settings Memory tab */
+  private async postProjectMemory(): Promise<void> {
+    const { loadProjectRules, readProjectMemory, getProjectMemoryPath } = await import('../Engine/SystemContext/projectMemory');
+    this.postMessage({
+      type: "projectMemory",
+      available: !!getProjectMemoryPath(),
+      content: readProjectMemory(),
+      rules: loadProjectRules().map(r => ({ label: r.label, path: r.path, size: r.size, truncated: r.truncated }))
+    });
+  }
+
+  /** Masked web search keys from SecretStorage (values never leave the host) */
+  private async postWebSearchKeys(): Promise<void> {
+    const keys: Record<string, { masked: string; scope: SecretScope }> = {};
+    for (const id of Object.keys(WEB_SEARCH_PROVIDERS) as WebSearchProviderId[]) {
+      const secret = await resolveSecret(webSearchSecretKey(id));
+      if (secret) keys[id] = { masked: maskSecret(secret.value), scope: secret.scope };
+    }
+    this.postMessage({ type: "webSearchKeys", keys });
+  }
+
+  /** Masked provider keys and whether keys can be saved for this workspace only */
+  private async postProviderKeys(): Promise<void> {
+    this.postMessage({
+      type: "providerKeys",
+      keys: await describeProviderKeys(this.configManager),
+      workspaceScope: isWorkspaceScopeAvailable()
+    });
+  }
+
+  /** Public: re-send masked keys after they were moved out of settings.json */
+  public refreshProviderKeys(): void {
+    void this.postProviderKeys();
+  }
+
+  /** Scope requested by the settings panel; workspace scope needs an open folder */
+  private secretScope(value: unknown): SecretScope {
+    return value === 'workspace' && isWorkspaceScopeAvailable() ? 'workspace' : 'global';
+  }
+
   /** Public: send snapshot dashboard state to webview */
   public sendPendingSnapshotsUpdate(): void {
     this.snapshots.sendUpdate();
   }
+
+  /**
+   * Public: generate a commit message or PR description for the agent's changes
+   * with the selected model. Uses pending snapshots, or the ones accepted last
+   * when nothing is pending. The commit message goes to the Source Control input
+   * box, the PR description to a new Markdown editor — both for the user to edit.
+   */
+  public async generateChangeDescription(kind: 'commit' | 'pr', hint?: string): Promise<void> {
+    if (!this.ensureModelReady() || !this.selectedModel) return;
+
+    const snapshotMgr = getSnapshotManager();
+    await snapshotMgr.ready();
+    const pending = snapshotMgr.getPendingSnapshots();
+    const snapshots = pending.length > 0 ? pending : snapshotMgr.getRecentlyAccepted();
+
+    const { collectChangedFiles, generateChangeDescription } = await import('../Services/changeDescription');
+    const files = collectChangedFiles(snapshots);
+    if (files.length === 0) {
+      window.showInformationMessage('Нет изменений агента для описания: примите или оставьте правки агента и повторите.');
+      return;
+    }
+
+    const { resolveProviderConnection } = await import('../chatClientFactory');
+    const { provider, id: model } = this.selectedModel;
+    const conn = await resolveProviderConnection(this.config, provider);
+    if (provider !== 'ollama' && !isCustomProvider(provider) && !conn.apiKey) {
+      window.showWarningMessage(`API-ключ для ${this.providerDisplayName(provider)} не задан.`);
+      return;
+    }
+
+    const label = kind === 'commit' ? 'сообщения коммита' : 'описания PR';
+    let text: string;
+    try {
+      text = await window.withProgress(
+        { location: ProgressLocation.Notification, title: `Ashibalt: генерация ${label} (${files.length} файл.)`, cancellable: true },
+        (_progress, token) => {
+          const controller = new AbortController();
+          token.onCancellationRequested(() => controller.abort());
+          return generateChangeDescription({
+            kind, files, hint, model, providerType: provider, ...conn, signal: controller.signal
+          });
+        }
+      );
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return;
+      logger.error('Failed to generate change description', err);
+      window.showErrorMessage(`Не удалось сгенерировать текст ${label}: ${err?.message || err}`);
+      return;
+    }
+
+    if (kind === 'commit' && this.fillScmInputBox(text, snapshots.map(s => s.filePath))) {
+      await commands.executeCommand('workbench.view.scm');
+      window.showInformationMessage('Сообщение коммита добавлено в поле Source Control — отредактируйте его перед коммитом.');
+      return;
+    }
+    const doc = await workspace.openTextDocument({ content: text, language: kind === 'commit' ? 'git-commit' : 'markdown' });
+    await window.showTextDocument(doc);
+  }
+
+  /** Put a commit message into the input box of the git repository that holds the files */
+  private fillScmInputBox(message: string, filePaths: string[]): boolean {
+    try {
+      const git = extensions.getExtension('vscode.git')?.exports?.getAPI(1);
+      const repos: any[] = git?.repositories || [];
+      const norm = (p: string) => p.replace(/\\/g, '/').toLowerCase();
+      const repo = repos
+        .filter(r => filePaths.some(f => norm(f).startsWith(norm(r.rootUri.fsPath) + '/')))
+        .sort((a, b) => b.rootUri.fsPath.length - a.rootUri.fsPath.length)[0];
+      if (!repo) return false;
+      repo.inputBox.value = message;
+      return true;
+    } catch (err) {
+      logger.error('Git extension is not available', err);
+      return false;
+    }
+  }
 }
@@ -17,6 +17,7 @@ export function loadHtmlTemplate(webview: Webview, nonce: string, currentFileNam
     const cfg = vscodeWorkspace.getConfiguration('ashibaltAi');
     const agentIterations = cfg.get('agentIterations', 25);
     const autoRunTerminal = cfg.get('autoRunTerminal', false);
+    const terminalSandbox = cfg.get('terminalSandbox', false);
     const provider = cfg.get('provider', 'openrouter');
 
     const htmlPath = Uri.joinPath(extensionUri, 'media', 'chatView.html');
@@ -80,6 +81,7 @@ export function loadHtmlTemplate(webview: Webview, nonce: string, currentFileNam
       .replace(/\{\{currentFileName\}\}/g, currentFileName || 'No file')
       .replace(/\{\{agentIterations\}\}/g, String(agentIterations))
       .replace(/\{\{autoRunTerminalChecked\}\}/g, autoRunTerminal ? 'checked' : '')
+      .replace(/\{\{terminalSandboxChecked\}\}/g, terminalSandbox ? 'checked' : '')
       .replace(/\{\{provider\}\}/g, provider)
       .replace(/\{\{selectedModelName\}\}/g, selectedModelName || '');
   } catch (error) {
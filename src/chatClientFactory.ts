@@ -1,4 +1,6 @@
-import { ExtensionConfig, PROVIDER_DEFAULTS, type ProviderType } from "./Config/config";
+import { ExtensionConfig, PROVIDER_DEFAULTS, buildCustomProviderHeaders, isCustomProvider, type ProviderId } from "./Config/config";
+import { getConfigManager } from "./Config/configManager";
+import { resolveProviderKey } from "./Config/providerKeys";
 import { OpenRouterClient } from "./Engine/OpenRouter/openRouterClient";
 
 export interface ChatModelClient {
@@ -8,18 +10,44 @@ export interface ChatModelClient {
 export interface ChatClientWithFallback {
   client: ChatModelClient;
   fallbackClient: ChatModelClient | null;
-  primaryProvider: ProviderType;
+  primaryProvider: ProviderId;
 }
 
-export function createChatClient(config: ExtensionConfig, provider?: ProviderType): ChatModelClient {
-  return createChatClientWithFallback(config, provider).client;
+export async function createChatClient(config: ExtensionConfig, provider?: ProviderId): Promise<ChatModelClient> {
+  return (await createChatClientWithFallback(config, provider)).client;
+}
+
+/** Connection parameters for a provider */
+export interface ProviderConnection {
+  baseUrl: string;
+  apiKey: string;
+  /** Auth + extra headers of a custom provider. When set, replaces the default Bearer auth. */
+  headers?: Record<string, string>;
 }
 
 /**
  * Resolve baseUrl and apiKey for a given provider.
- * Priority: providerSettings from UI > legacy top-level config > defaults.
+ * URL priority: providerSettings from UI > legacy top-level config > defaults.
+ * Key priority: SecretStorage (workspace override, then global) > keys still
+ * kept in settings (headless CLI, not yet migrated).
+ * Custom providers (`custom:<id>`) are resolved from the ConfigManager registry.
  */
-export function resolveProviderConnection(config: ExtensionConfig, provider: ProviderType): { baseUrl: string; apiKey: string } {
+export async function resolveProviderConnection(config: ExtensionConfig, provider: ProviderId): Promise<ProviderConnection> {
+  const secretKey = provider === 'ollama' ? undefined : await resolveProviderKey(provider);
+
+  if (isCustomProvider(provider)) {
+    const cp = getConfigManager().getCustomProvider(provider);
+    if (!cp) {
+      return { baseUrl: '', apiKey: '' };
+    }
+    const apiKey = secretKey || cp.apiKey;
+    return {
+      baseUrl: cp.baseUrl,
+      apiKey,
+      headers: buildCustomProviderHeaders({ ...cp, apiKey })
+    };
+  }
+
   const ps = config.providerSettings?.[provider];
 
   switch (provider) {
@@ -31,11 +59,11 @@ export function resolveProviderConnection(config: ExtensionConfig, provider: Pro
     case 'openrouter':
       return {
         baseUrl: ps?.url || config.openRouterBaseUrl || PROVIDER_DEFAULTS.openrouter.url,
-        apiKey: ps?.apiKey || config.openRouterApiKey || ''
+        apiKey: secretKey || ps?.apiKey || config.openRouterApiKey || ''
       };
     case 'mistral': {
       // If user provided their own Mistral API key, go direct
-      const mistralKey = ps?.apiKey || '';
+      const mistralKey = secretKey || ps?.apiKey || '';
       return {
         baseUrl: ps?.url || PROVIDER_DEFAULTS.mistral.url,
         apiKey: mistralKey
@@ -46,20 +74,21 @@ export function resolveProviderConnection(config: ExtensionConfig, provider: Pro
       const defaults = PROVIDER_DEFAULTS[provider] || { url: '' };
       return {
         baseUrl: ps?.url || defaults.url,
-        apiKey: ps?.apiKey || ''
+        apiKey: secretKey || ps?.apiKey || ''
       };
     }
   }
 }
 
-export function createChatClientWithFallback(config: ExtensionConfig, provider?: ProviderType): ChatClientWithFallback {
+export async function createChatClientWithFallback(config: ExtensionConfig, provider?: ProviderId): Promise<ChatClientWithFallback> {
   const effectiveProvider = provider || 'mistral';
-  const { baseUrl, apiKey } = resolveProviderConnection(config, effectiveProvider);
+  const { baseUrl, apiKey, headers } = await resolveProviderConnection(config, effectiveProvider);
 
   const client = new OpenRouterClient({
     baseUrl,
     apiKey,
-    defaultModel: undefined
+    defaultModel: undefined,
+    headers
   });
 
   return { client, fallbackClient: null, primaryProvider: effectiveProvider };
@@ -11,9 +11,12 @@ import { logger } from "./logger";
 import { ConfigManager, setConfigManager } from "./Config/configManager";
 import { getSnapshotManager } from "./Storage/snapshotManager";
 import { initDecorations, setupDecorationListeners, refreshAllDecorations, disposeDecorations } from "./Storage/snapshotDecorations";
+import { disposeMcpServers } from "./Engine/Mcp/mcpRegistry";
 import { uidManager } from "./Storage/uidManager";
 import { metricsService } from "./Services/metricsService";
 import { initProviderCacheStorage } from "./Engine/providerAutoSelect";
+import { initSecretStorage } from "./Config/secrets";
+import { migrateApiKeysToSecrets } from "./Config/providerKeys";
 
 let chatProvider: ChatViewProvider | undefined;
 let configManager: ConfigManager | undefined;
@@ -36,6 +39,8 @@ export async function activate(context: ExtensionContext) {
 
   // Initialize provider auto-select cache persistence
   initProviderCacheStorage(context.globalState);
+  // Provider and web search API keys live in SecretStorage (global or per workspace)
+  initSecretStorage(context.secrets, workspace.workspaceFile?.fsPath ?? workspace.workspaceFolders?.[0]?.uri.fsPath);
   logger.log(`Config storage: ${configManager.getConfigPath()}`);
     logger.log(`Loaded ${configManager.getModels().length} models from config`);
 
@@ -62,6 +67,11 @@ export async function activate(context: ExtensionContext) {
       window.registerWebviewViewProvider(ChatViewProvider.viewType, chatProvider)
     );
 
+    // One-time move of API keys out of settings.json; harmless when nothing is left there
+    migrateApiKeysToSecrets(configManager).then(moved => {
+      if (moved > 0) chatProvider?.refreshProviderKeys();
+    }).catch(e => logger.error('Failed to migrate API keys to SecretStorage:', e));
+
     context.subscriptions.push(
       workspace.onDidChangeConfiguration((event: ConfigurationChangeEvent) => {
         if (event.affectsConfiguration("ashibaltAi")) {
@@ -115,6 +125,12 @@ export async function activate(context: ExtensionContext) {
       })
     );
 
+    // Commit message / PR description for the agent's changes
+    context.subscriptions.push(
+      commands.registerCommand("ashibaltAi.generateCommitMessage", () => chatProvider?.generateChangeDescription('commit')),
+      commands.registerCommand("ashibaltAi.generatePrDescription", () => chatProvider?.generateChangeDescription('pr'))
+    );
+
     context.subscriptions.push(
       commands.registerCommand("ashibaltAi.showConfigPath", () => {
         if (configManager) {
@@ -160,5 +176,6 @@ export async function activate(context: ExtensionContext) {
 
 export function deactivate() {
   disposeDecorations();
+  void disposeMcpServers();
   metricsService.dispose();
 }
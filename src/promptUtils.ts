@@ -3,6 +3,7 @@ import * as os from "os";
 import * as path from "path";
 import * as fs from "fs";
 import { IGNORED_DIRS, IGNORED_FILES } from "./constants";
+import { buildProjectMemoryPrompt } from "./Engine/SystemContext/projectMemory";
 
 // ----------------------------------------------------------------------------------------------------
 // PROJECT TREE GENERATION
@@ -57,7 +58,7 @@ function buildTreeRecursive(dirPath: string, prefix: string = '', maxDepth: numb
 }
 
 /**
- * Generate project tree for the workspace
+ * Generate project tree for the workspace (one block per folder in multi-root workspaces)
  * @param maxDepth Maximum depth to traverse (default: 4)
  * @returns XML formatted project tree
  */
@@ -67,18 +68,18 @@ export function getProjectTree(maxDepth: number = 4): string {
     return '';
   }
 
-  const rootPath = folders[0].uri.fsPath;
-  const rootName = path.basename(rootPath);
-  
-  const treeLines = buildTreeRecursive(rootPath, '', maxDepth, 0);
-  
-  if (treeLines.length === 0) {
-    return '';
+  const trees: string[] = [];
+  for (const folder of folders) {
+    const rootPath = folder.uri.fsPath;
+    const rootName = folder.name || path.basename(rootPath);
+    const treeLines = buildTreeRecursive(rootPath, '', maxDepth, 0);
+    if (treeLines.length === 0) continue;
+    trees.push(`<project_tree root="${rootName}">
+${treeLines.join('\n')}
+</project_tree>`);
   }
 
-  return `<project_tree root="${rootName}">
-${treeLines.join('\n')}
-</project_tree>`;
+  return trees.join('\n');
 }
 
 // ----------------------------------------------------------------------------------------------------
@@ -126,10 +127,19 @@ export function getWorkspaceInfo(): string {
     return '';
   }
   
-  const folderPaths = folders.map(f => `    <folder>${f.uri.fsPath}</folder>`).join('\n');
+  if (folders.length === 1) {
+    return `<workspace>
+    <folder>${folders[0].uri.fsPath}</folder>
+</workspace>`;
+  }
+
+  // Multi-root: relative paths resolve against the first folder, the others are addressed by name
+  const folderPaths = folders.map(f => `    <folder name="${f.name}">${f.uri.fsPath}</folder>`).join('\n');
+  const example = folders[1].name;
   
-  return `<workspace>
+  return `<workspace multi_root="true">
 ${folderPaths}
+    <paths>Relative paths resolve against the first folder. To address another folder, prefix the path with its name: "${example}:src/index.ts". Tools report files the same way; pass such paths back as is.</paths>
 </workspace>`;
 }
 
@@ -140,6 +150,7 @@ ${folderPaths}
 export function getChatSystemPrompt(): string {
   const envInfo = getEnvironmentInfo();
   const wsInfo = getWorkspaceInfo();
+  const projectMemory = buildProjectMemoryPrompt();
 
   return `<system>
 <identity>
@@ -156,7 +167,7 @@ export function getChatSystemPrompt(): string {
 ${envInfo}
 ${wsInfo}
 </context>
-
+${projectMemory ? `\n${projectMemory}\n` : ''}
 <communication>
   <rule priority="critical">ALWAYS respond in the same language the user writes in</rule>
   <rule>Be concise but thorough - explain your reasoning when it adds value</rule>
@@ -192,6 +203,7 @@ ${wsInfo}
 export function getAgentSystemPrompt(): string {
   const envInfo = getEnvironmentInfo();
   const wsInfo = getWorkspaceInfo();
+  const projectMemory = buildProjectMemoryPrompt();
 
   return `You are Ashibalt, an expert autonomous coding agent running inside VS Code.
 You have deep expertise in software engineering across all languages and frameworks.
@@ -201,7 +213,7 @@ You have deep expertise in software engineering across all languages and framewo
 ${envInfo}
 ${wsInfo}
 </ENVIRONMENT>
-
+${projectMemory ? `\n${projectMemory}\n` : ''}
 <RULES>
 1. ALWAYS read_file BEFORE editing. edit_file will FAIL if you haven't read the file first in this session.
 2. ALWAYS prefer editing existing files. NEVER create new files unless explicitly required by the user.
@@ -229,6 +241,7 @@ ${wsInfo}
 24. Use lsp(operation="references") BEFORE renaming or refactoring a symbol to find all usages across the project. Use lsp(operation="definitions") to navigate to source definitions instead of guessing file locations.
 25. When building UI/frontend features, use product_check(url="...") to verify the result looks correct. It detects layout bugs, broken images, overlaps, viewport overflow, and accessibility issues — all without screenshots. IMPORTANT: before calling product_check on a localhost URL, you MUST first start the dev server via terminal (e.g. "npm run dev", "npx vite", etc.) and confirm it is listening. product_check will auto-open the URL in the user's default browser, but it still needs a running server to get a valid response.
 26. When tasks are set, mark completed steps by appending <tasks>{"done":[0,1]}</tasks> at the END of your text response — do NOT call tasks() for this. Example: "Done!\n<tasks>{\"done\":[0]}</tasks>". This saves tokens — the tag is stripped before entering context.
+27. When you learn a durable project fact the next session will need (build/test commands, conventions, where things live, pitfalls you hit), save it with remember(). One short fact per call; do not save task progress, secrets, or anything already in <PROJECT_MEMORY>.
 </RULES>
 
 <WORKFLOW>
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({
+      appendLine: () => {},
+      append: () => {},
+      show: () => {},
+      clear: () => {}
+    })
+  },
+  workspace: {
+    getConfiguration: () => ({ get: () => undefined })
+  }
+}));
+
+import { fetchOpenRouterWithTools } from '../src/Engine/fetchWithTools';
+import { convertMessagesToAnthropic, parseAnthropicStream } from '../src/Engine/Providers/anthropicAdapter';
+
+const FIXTURE = fs.readFileSync(path.join(__dirname, 'fixtures', 'anthropic-tool-use.sse'), 'utf-8');
+
+/** Local fixture server: replays a recorded Messages API stream and captures the request */
+let server: http.Server;
+let baseUrl = '';
+let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: any } | null = null;
+let nextResponse: { status: number; body: string } | null = null;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(raw || '{}') };
+      if (nextResponse) {
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+        res.end(nextResponse.body);
+        nextResponse = null;
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      // Send in small pieces to exercise partial-line buffering
+      const chunks = FIXTURE.match(/[\s\S]{1,97}/g) || [];
+      for (const c of chunks) res.write(c);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const TOOLS = [{
+  type: 'function',
+  function: {
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: { type: 'object', properties: { file_path: { type: 'string' } }, required: ['file_path'] }
+  }
+}];
+
+describe('convertMessagesToAnthropic', () => {
+  it('moves system messages out and maps tool calls/results to blocks', () => {
+    const { system, messages } = convertMessagesToAnthropic([
+      { role: 'system', content: 'You are an agent.' },
+      { role: 'user', content: 'Fix config' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'read_file', arguments: '{"file_path":"a.ts"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'toolu_1', content: '1: const a = 1;' },
+      { role: 'user', content: '[CONTEXT RECOVERY ...]' }
+    ]);
+
+    expect(system).toEqual([{ type: 'text', text: 'You are an agent.' }]);
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[1].content).toEqual([
+      { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { file_path: 'a.ts' } }
+    ]);
+    // Tool result and following user text are merged into one user turn
+    expect(messages[2].content[0]).toEqual({ type: 'tool_result', tool_use_id: 'toolu_1', content: '1: const a = 1;' });
+    expect(messages[2].content[1]).toEqual({ type: 'text', text: '[CONTEXT RECOVERY ...]' });
+  });
+
+  it('replays thinking blocks only with an Anthropic signature', () => {
+    const withSig = convertMessagesToAnthropic([
+      { role: 'user', content: 'hi' },
+      {
+        role: 'assistant', content: 'ok', reasoning_content: 'firstsecond',
+        reasoning_signature: { provider: 'claude', blocks: [{ thinking: 'first', signature: 's1' }, { data: 'enc' }, { thinking: 'second', signature: 's2' }] }
+      }
+    ]);
+    expect(withSig.messages[1].content).toEqual([
+      { type: 'thinking', thinking: 'first', signature: 's1' },
+      { type: 'redacted_thinking', data: 'enc' },
+      { type: 'thinking', thinking: 'second', signature: 's2' },
+      { type: 'text', text: 'ok' }
+    ]);
+
+    // Signed by Gemini before a fallback — Anthropic can't verify it
+    const foreign = convertMessagesToAnthropic([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'ok', reasoning_content: 'thought', reasoning_signature: { provider: 'gemini', signature: 'sig' } }
+    ]);
+    expect(foreign.messages[1].content).toEqual([{ type: 'text', text: 'ok' }]);
+
+    const withoutSig = convertMessagesToAnthropic([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'ok', reasoning_content: 'thought' }
+    ]);
+    expect(withoutSig.messages[1].content).toEqual([{ type: 'text', text: 'ok' }]);
+  });
+
+  it('converts data-URL images to base64 image blocks', () => {
+    const { messages } = convertMessagesToAnthropic([
+      { role: 'user', content: [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }
+      ] }
+    ]);
+    expect(messages[0].content[1]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' }
+    });
+  });
+});
+
+describe('fetchOpenRouterWithTools — claude provider (fixture server)', () => {
+  it('sends a native Messages API request', async () => {
+    await fetchOpenRouterWithTools({
+      baseUrl,
+      apiKey: 'sk-ant-test',
+      model: 'claude-sonnet-4-5',
+      messages: [
+        { role: 'system', content: 'You are an agent.' },
+        { role: 'user', content: 'Read the config' }
+      ],
+      tools: TOOLS,
+      toolChoice: 'auto',
+      providerType: 'claude',
+      onChunk: () => {}
+    });
+
+    expect(lastRequest?.url).toBe('/v1/messages');
+    expect(lastRequest?.headers['x-api-key']).toBe('sk-ant-test');
+    expect(lastRequest?.headers['anthropic-version']).toBe('2023-06-01');
+    expect(lastRequest?.headers['authorization']).toBeUndefined();
+
+    const body = lastRequest!.body;
+    expect(body.stream).toBe(true);
+    expect(body.system).toEqual([
+      { type: 'text', text: 'You are an agent.', cache_control: { type: 'ephemeral' } }
+    ]);
+    expect(body.messages).toEqual([{ role: 'user', content: [{ type: 'text', text: 'Read the config' }] }]);
+    expect(body.tools[0]).toEqual({
+      name: 'read_file',
+      description: 'Read a file',
+      input_schema: TOOLS[0].function.parameters
+    });
+    expect(body.tool_choice).toEqual({ type: 'auto' });
+    expect(body.max_tokens).toBeGreaterThan(0);
+  });
+
+  it('enables thinking with a budget and drops temperature', async () => {
+    await fetchOpenRouterWithTools({
+      baseUrl,
+      apiKey: 'sk-ant-test',
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: TOOLS,
+      toolChoice: 'any',
+      reasoning: { enabled: true, max_tokens: 20000 },
+      providerType: 'claude',
+      onChunk: () => {}
+    });
+
+    const body = lastRequest!.body;
+    expect(body.thinking).toEqual({ type: 'enabled', budget_tokens: 20000 });
+    expect(body.max_tokens).toBeGreaterThan(20000);
+    expect(body.temperature).toBeUndefined();
+    // Forced tool choice is incompatible with thinking
+    expect(body.tool_choice).toEqual({ type: 'auto' });
+  });
+
+  it('parses text, thinking, tool_use and usage from the stream', async () => {
+    const chunks: string[] = [];
+    let lastReasoning = '';
+    const response = await fetchOpenRouterWithTools({
+      baseUrl,
+      apiKey: 'sk-ant-test',
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'Read the config' }],
+      tools: TOOLS,
+      providerType: 'claude',
+      onChunk: (c) => chunks.push(c),
+      onReasoning: (r) => { lastReasoning = r; }
+    });
+
+    expect(response.content).toBe('Let me look at the config first.');
+    expect(chunks.join('')).toBe(response.content);
+    expect(response.reasoning).toBe('Need to read the file before editing.');
+    expect(lastReasoning).toBe(response.reasoning);
+    expect(response.reasoning_signature).toEqual({
+      provider: 'claude',
+      blocks: [{ thinking: 'Need to read the file before editing.', signature: expect.stringMatching(/^EqQB/) }]
+    });
+    expect(response.finish_reason).toBe('tool_calls');
+    expect(response.tool_calls).toEqual([
+      { id: 'toolu_01A09q90qw90lq917835lq9', type: 'function', function: { name: 'read_file', arguments: '{"file_path": "src/Config/config.ts"}' } },
+      { id: 'toolu_01B7nd2kq0cz8dj3kd9e0v1', type: 'function', function: { name: 'list_files', arguments: '{}' } }
+    ]);
+    expect(response.usage).toEqual({
+      prompt_tokens: 3612,
+      completion_tokens: 87,
+      total_tokens: 3699,
+      cached_tokens: 3200
+    });
+  });
+
+  it('keeps each thinking block with its signature, redacted ones included', async () => {
+    const events = [
+      { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '', signature: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'first' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 's1' } },
+      { type: 'content_block_start', index: 1, content_block: { type: 'redacted_thinking', data: 'EmwKAhgB' } },
+      { type: 'content_block_start', index: 2, content_block: { type: 'thinking', thinking: '', signature: '' } },
+      { type: 'content_block_delta', index: 2, delta: { type: 'thinking_delta', thinking: 'second' } },
+      { type: 'content_block_delta', index: 2, delta: { type: 'signature_delta', signature: 's2' } },
+      { type: 'content_block_start', index: 3, content_block: { type: 'text', text: 'done' } }
+    ];
+    const sse = events.map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join('');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(sse));
+        controller.close();
+      }
+    });
+
+    const response = await parseAnthropicStream(body, { onChunk: () => {} });
+    expect(response.reasoning).toBe('firstsecond');
+    expect(response.reasoning_signature).toEqual({
+      provider: 'claude',
+      blocks: [{ thinking: 'first', signature: 's1' }, { data: 'EmwKAhgB' }, { thinking: 'second', signature: 's2' }]
+    });
+  });
+
+  it('surfaces HTTP errors in the "(STATUS)" format parseApiError expects', async () => {
+    nextResponse = { status: 401, body: '{"type":"error","error":{"type":"authentication_error","message":"invalid x-api-key"}}' };
+    await expect(fetchOpenRouterWithTools({
+      baseUrl,
+      apiKey: 'bad',
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: [],
+      providerType: 'claude',
+      onChunk: () => {}
+    })).rejects.toThrow('(401)');
+  });
+});
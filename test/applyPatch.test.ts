@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const state = vi.hoisted(() => ({ root: '' }));
+
+vi.mock('vscode', async () => {
+  const nodeFs = await import('fs');
+  return {
+    window: {
+      createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} }),
+      showWarningMessage: async () => 'Отклонить'
+    },
+    Uri: { file: (p: string) => ({ fsPath: p }) },
+    workspace: {
+      get workspaceFolders() { return [{ name: 'ws', uri: { fsPath: state.root } }]; },
+      getConfiguration: () => ({ get: (_key: string, def: unknown) => def }),
+      fs: {
+        readFile: async (uri: { fsPath: string }) => nodeFs.readFileSync(uri.fsPath),
+        writeFile: async (uri: { fsPath: string }, data: Uint8Array) => nodeFs.writeFileSync(uri.fsPath, data),
+        createDirectory: async (uri: { fsPath: string }) => { nodeFs.mkdirSync(uri.fsPath, { recursive: true }); },
+        delete: async (uri: { fsPath: string }) => nodeFs.rmSync(uri.fsPath, { force: true })
+      }
+    }
+  };
+});
+
+const snapshots: any[] = [];
+vi.mock('../src/Storage/snapshotManager', () => ({
+  getSnapshotManager: () => ({
+    createSnapshot: async (...args: any[]) => {
+      const snap = { filePath: args[0], tool: args[1], startLine: args[4], changeSetId: args[6] };
+      snapshots.push(snap);
+      return snap;
+    }
+  })
+}));
+vi.mock('../src/Storage/snapshotDecorations', () => ({ applySnapshotDecorations: () => {} }));
+vi.mock('../src/Engine/diagnosticsEngine', () => ({
+  checkSyntax: async (file: string) => file.endsWith('broken.ts') ? [{ line: 1, message: 'Unexpected token' }] : []
+}));
+
+import { parseUnifiedDiff, applyPatchTool } from '../src/Engine/tools/applyPatchTool';
+import { getFileTime } from '../src/Engine/SystemContext/contextCache';
+
+const read = (rel: string) => fs.readFileSync(path.join(state.root, rel), 'utf8');
+const write = (rel: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(state.root, rel)), { recursive: true });
+  fs.writeFileSync(path.join(state.root, rel), content);
+  getFileTime().read(path.join(state.root, rel));
+};
+
+beforeEach(() => {
+  state.root = fs.mkdtempSync(path.join(os.tmpdir(), 'apply-patch-'));
+  snapshots.length = 0;
+  getFileTime().clearAll();
+});
+
+afterEach(() => fs.rmSync(state.root, { recursive: true, force: true }));
+
+describe('parseUnifiedDiff', () => {
+  it('parses git headers, creates, deletes and bare hunk headers', () => {
+    const patches = parseUnifiedDiff([
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111..2222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,3 +1,3 @@',
+      ' one',
+      '-two',
+      '+TWO',
+      ' three',
+      '--- /dev/null',
+      '+++ b/new.txt',
+      '@@ -0,0 +1,2 @@',
+      '+hello',
+      '+world',
+      '--- a/old.txt',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye',
+      '--- b.ts',
+      '+++ b.ts',
+      '@@',
+      '-x',
+      '+y'
+    ].join('\n'));
+
+    expect(patches.map(p => [p.path, p.kind])).toEqual([
+      ['src/a.ts', 'update'], ['new.txt', 'create'], ['old.txt', 'delete'], ['b.ts', 'update']
+    ]);
+    expect(patches[0].hunks[0]).toMatchObject({ oldText: 'one\ntwo\nthree', newText: 'one\nTWO\nthree', startLine: 1 });
+    expect(patches[1].hunks[0].newText).toBe('hello\nworld');
+    expect(patches[3].hunks[0]).toMatchObject({ oldText: 'x', newText: 'y' });
+  });
+});
+
+describe('applyPatchTool', () => {
+  it('applies a multi-file diff as one change set', async () => {
+    write('src/a.ts', 'const a = 1;\nconst b = 2;\n');
+    write('src/b.ts', 'export const x = 1;\n');
+    write('gone.txt', 'bye\n');
+
+    const result = await applyPatchTool({
+      patch: [
+        '--- a/src/a.ts', '+++ b/src/a.ts', '@@ -1,2 +1,2 @@', ' const a = 1;', '-const b = 2;', '+const b = 3;',
+        '--- a/src/b.ts', '+++ b/src/b.ts', '@@ -1 +1,2 @@', ' export const x = 1;', '+export const y = 2;',
+        '--- /dev/null', '+++ b/src/broken.ts', '@@ -0,0 +1 @@', '+const = ;',
+        '--- a/gone.txt', '+++ /dev/null', '@@ -1 +0,0 @@', '-bye'
+      ].join('\n')
+    }, state.root);
+
+    expect(result.success).toBe(true);
+    expect(read('src/a.ts')).toBe('const a = 1;\nconst b = 3;\n');
+    expect(read('src/b.ts')).toBe('export const x = 1;\nexport const y = 2;\n');
+    expect(read('src/broken.ts')).toBe('const = ;\n');
+    expect(fs.existsSync(path.join(state.root, 'gone.txt'))).toBe(false);
+    expect(result.files.map((f: any) => f.action)).toEqual(['updated', 'updated', 'created', 'deleted']);
+    expect(result.syntax_errors).toEqual({ 'src/broken.ts': [{ line: 1, message: 'Unexpected token' }] });
+
+    expect(snapshots.map(s => s.tool)).toEqual(['edit_file', 'edit_file', 'create_file', 'delete_file']);
+    expect(new Set(snapshots.map(s => s.changeSetId))).toEqual(new Set([result.change_set]));
+    expect(snapshots[0].startLine).toBe(2);
+  });
+
+  it('changes nothing when any hunk fails to match', async () => {
+    write('a.txt', 'alpha\n');
+    write('b.txt', 'beta\n');
+
+    const result = await applyPatchTool({
+      hunks: [
+        { file_path: 'a.txt', old_string: 'alpha', new_string: 'ALPHA' },
+        { file_path: 'b.txt', old_string: 'gamma', new_string: 'GAMMA' }
+      ]
+    }, state.root);
+
+    expect(result.success).toBe(false);
+    expect(result).toMatchObject({ file: 'b.txt', hunk: 1 });
+    expect(result.note).toContain('all-or-nothing');
+    expect(read('a.txt')).toBe('alpha\n');
+    expect(snapshots).toEqual([]);
+  });
+
+  it('shifts start_line hints only by hunks above them', async () => {
+    write('x.ts', 'function f() {\n  return a;\n}\nfunction g() {\n  return a;\n}\n');
+
+    const result = await applyPatchTool({
+      hunks: [
+        { file_path: 'x.ts', old_string: 'function g() {', new_string: 'function g() {\n  // 1\n  // 2\n  // 3\n  // 4\n  // 5', start_line: 4 },
+        { file_path: 'x.ts', old_string: 'return a;', new_string: 'return f;', start_line: 2 },
+        { file_path: 'x.ts', old_string: '', new_string: '// header', start_line: 1 }
+      ]
+    }, state.root);
+
+    expect(result.success).toBe(true);
+    expect(read('x.ts')).toBe(
+      '// header\nfunction f() {\n  return f;\n}\nfunction g() {\n  // 1\n  // 2\n  // 3\n  // 4\n  // 5\n  return a;\n}\n'
+    );
+  });
+
+  it('creates files from structured hunks and requires reading edited files first', async () => {
+    fs.writeFileSync(path.join(state.root, 'unread.txt'), 'x\n');
+
+    const unread = await applyPatchTool({
+      hunks: [{ file_path: 'unread.txt', old_string: 'x', new_string: 'y' }]
+    }, state.root);
+    expect(unread.success).toBe(false);
+    expect(unread.error).toContain('read_file');
+
+    const created = await applyPatchTool({
+      hunks: [{ file_path: 'dir/new.md', old_string: '', new_string: '# Title' }]
+    }, state.root);
+    expect(created.success).toBe(true);
+    expect(read('dir/new.md')).toBe('# Title');
+    expect(created.files[0].action).toBe('created');
+  });
+});
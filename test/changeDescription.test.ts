@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const state = vi.hoisted(() => ({ root: '', reply: '', request: null as any }));
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+  },
+  workspace: {
+    get workspaceFolders() { return [{ name: 'ws', uri: { fsPath: state.root } }]; },
+    getConfiguration: () => ({ get: (_key: string, def: unknown) => def })
+  }
+}));
+
+vi.mock('../src/Engine/fetchWithTools', () => ({
+  fetchOpenRouterWithTools: async (opts: any) => {
+    state.request = opts;
+    return { content: state.reply };
+  }
+}));
+
+import {
+  buildCompactDiff,
+  buildDescriptionMessages,
+  cleanDescription,
+  collectChangedFiles,
+  generateChangeDescription,
+  type ChangedFile
+} from '../src/Services/changeDescription';
+import type { FileSnapshot } from '../src/Storage/snapshotManager';
+
+const snapshot = (rel: string, baselineContent: string | null): FileSnapshot => ({
+  id: `snap_${rel}`,
+  filePath: path.join(state.root, rel),
+  fileName: path.basename(rel),
+  createdAt: 1,
+  updatedAt: 1,
+  tool: baselineContent === null ? 'create_file' : 'edit_file',
+  baselineContent,
+  changes: [],
+  totalLinesAdded: 0,
+  totalLinesRemoved: 0
+});
+const write = (rel: string, content: string) => fs.writeFileSync(path.join(state.root, rel), content);
+
+beforeEach(() => {
+  state.root = fs.mkdtempSync(path.join(os.tmpdir(), 'change-desc-'));
+});
+
+afterEach(() => fs.rmSync(state.root, { recursive: true, force: true }));
+
+describe('collectChangedFiles', () => {
+  it('diffs snapshot baselines against the files on disk', () => {
+    write('app.ts', 'const a = 1;\nconst b = 3;\n');
+    write('new.ts', 'export {};\n');
+    write('same.ts', 'x\n');
+
+    const files = collectChangedFiles([
+      snapshot('new.ts', null),
+      snapshot('app.ts', 'const a = 1;\nconst b = 2;\n'),
+      snapshot('same.ts', 'x\n'),
+      snapshot('gone.ts', 'bye\n')
+    ]);
+
+    expect(files.map(f => [f.path, f.status, f.added, f.removed])).toEqual([
+      ['app.ts', 'modified', 1, 1],
+      ['gone.ts', 'deleted', 0, 1],
+      ['new.ts', 'added', 1, 0]
+    ]);
+    expect(files[0].diff).toContain('-const b = 2;\n+const b = 3;');
+  });
+});
+
+describe('buildCompactDiff', () => {
+  const file = (name: string, lines: number): ChangedFile => ({
+    path: name,
+    status: 'modified',
+    added: lines,
+    removed: 0,
+    diff: `@@ -0,0 +1,${lines} @@\n` + Array.from({ length: lines }, (_, i) => `+line ${i}`).join('\n')
+  });
+
+  it('cuts large files and lists files beyond the budget', () => {
+    const diff = buildCompactDiff([file('big.ts', 2000), file('small.ts', 2), file('late.ts', 300)], 8000);
+
+    expect(diff).toContain('--- a/big.ts\n+++ b/big.ts\n@@');
+    expect(diff).toContain('… (diff truncated)');
+    expect(diff).toContain('+++ b/small.ts');
+    expect(diff).toContain('Also changed (diff omitted):\nlate.ts (modified, +300 -0)');
+    expect(diff.length).toBeLessThan(8200);
+  });
+});
+
+describe('change descriptions', () => {
+  const files: ChangedFile[] = [{ path: 'src/app.ts', status: 'modified', added: 1, removed: 1, diff: '@@ -1 +1 @@\n-a\n+b' }];
+
+  it('builds commit and PR prompts with stats and the author hint', () => {
+    const [system, user] = buildDescriptionMessages('commit', files, 'closes #42');
+    expect(system.content).toContain('Conventional Commits');
+    expect(user.content).toContain('1 file(s) changed, +1 -1.');
+    expect(user.content).toContain('Context from the author: closes #42');
+    expect(user.content).toContain('--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1 +1 @@');
+    expect(buildDescriptionMessages('pr', files)[0].content).toContain('## Summary');
+  });
+
+  it('strips fences and labels from the model reply', async () => {
+    expect(cleanDescription('```\nfix(app): use b\n```')).toBe('fix(app): use b');
+    expect(cleanDescription('Commit message:\nfeat: add x\n\nBody')).toBe('feat: add x\n\nBody');
+
+    state.reply = '```markdown\n# Use b\n\n## Summary\nSwitch to b.\n```';
+    const text = await generateChangeDescription({ kind: 'pr', files, baseUrl: 'http://x', apiKey: 'k', model: 'm' });
+    expect(text).toBe('# Use b\n\n## Summary\nSwitch to b.');
+    expect(state.request.tools).toEqual([]);
+
+    state.reply = '  ';
+    await expect(generateChangeDescription({ kind: 'commit', files, baseUrl: 'http://x', apiKey: 'k', model: 'm' })).rejects.toThrow('пустой ответ');
+  });
+});
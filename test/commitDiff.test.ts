@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { diffLines, unifiedDiff } from '../src/Storage/lineDiff';
+import { CommitManager } from '../src/Storage/commitManager';
+
+describe('lineDiff', () => {
+  it('produces a minimal line diff', () => {
+    const ops = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd']);
+    expect(ops.map(op => `${op.type[0]}${op.line}`)).toEqual(['ea', 'db', 'ec', 'ix', 'ed']);
+  });
+
+  it('formats git-style hunks with context and caps the output', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+
+    const diff = unifiedDiff(oldText, newText, { oldLabel: 'a/f.txt', newLabel: 'b/f.txt' });
+    expect(diff).toMatchObject({ added: 1, removed: 2, truncated: false });
+    expect(diff.text.split('\n')).toEqual([
+      '--- a/f.txt', '+++ b/f.txt',
+      '@@ -1,5 +1,5 @@', ' line 1', '-line 2', '+line two', ' line 3', ' line 4', ' line 5',
+      '@@ -15,6 +15,5 @@', ' line 15', ' line 16', ' line 17', '-line 18', ' line 19', ' line 20'
+    ]);
+
+    const capped = unifiedDiff(oldText, newText, { maxLines: 3 });
+    expect(capped).toMatchObject({ added: 1, removed: 2, truncated: true });
+    expect(capped.text.split('\n')).toEqual(['@@ -1,5 +1,5 @@', ' line 1', '-line 2', '+line two']);
+  });
+
+  it('uses zero-length ranges for created files', () => {
+    expect(unifiedDiff('', 'x\ny\n').text).toBe('@@ -0,0 +1,2 @@\n+x\n+y');
+  });
+});
+
+describe('CommitManager.diffCommit', () => {
+  let tmp = '';
+  let ws = '';
+  let manager: CommitManager;
+  const write = (rel: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(ws, rel)), { recursive: true });
+    fs.writeFileSync(path.join(ws, rel), content);
+  };
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-diff-'));
+    ws = path.join(tmp, 'ws');
+    manager = new CommitManager(path.join(tmp, 'sessions'));
+    write('src/a.ts', 'const a = 1;\nconst b = 2;\n');
+    write('src/keep.ts', 'export {};\n');
+    write('src/gone.ts', 'bye\n');
+    write('README.md', 'outside scope\n');
+  });
+
+  afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  it('reports line diffs and files created in the commit scope', async () => {
+    const commit = await manager.addCommit('s1', 'before', 'src', ws);
+    write('src/a.ts', 'const a = 1;\nconst b = 3;\n');
+    write('src/new.ts', 'fresh\n');
+    write('docs.md', 'outside scope\n');
+    fs.rmSync(path.join(ws, 'src/gone.ts'));
+
+    const diffs = await manager.diffCommit('s1', commit.id, ws);
+    const byFile = Object.fromEntries(diffs.map(d => [d.file.replace(/\\/g, '/'), d]));
+
+    expect(Object.keys(byFile).sort()).toEqual(['src/a.ts', 'src/gone.ts', 'src/keep.ts', 'src/new.ts']);
+    expect(byFile['src/keep.ts']).toMatchObject({ status: 'unchanged', diff: '' });
+    expect(byFile['src/a.ts']).toMatchObject({ status: 'modified', added: 1, removed: 1 });
+    expect(byFile['src/a.ts'].diff).toContain('-const b = 2;\n+const b = 3;');
+    expect(byFile['src/new.ts']).toMatchObject({ status: 'new', added: 1, oldPath: null });
+    expect(byFile['src/gone.ts']).toMatchObject({ status: 'deleted', removed: 1, newPath: null });
+    expect(fs.readFileSync(byFile['src/gone.ts'].oldPath!, 'utf8')).toBe('bye\n');
+  });
+
+  it('compares two commits', async () => {
+    const first = await manager.addCommit('s1', 'first', '.', ws);
+    write('src/a.ts', 'const a = 2;\nconst b = 2;\n');
+    write('src/extra.ts', 'x\n');
+    const second = await manager.addCommit('s1', 'second', '.', ws);
+    write('src/a.ts', 'changed after second commit\n');
+
+    const diffs = await manager.diffCommit('s1', first.id, ws, { against: second.id });
+    const changed = diffs.filter(d => d.status !== 'unchanged').map(d => [d.file.replace(/\\/g, '/'), d.status]);
+
+    expect(changed).toEqual([['src/a.ts', 'modified'], ['src/extra.ts', 'new']]);
+    expect(diffs.find(d => d.status === 'modified')!.diff).toContain('+const a = 2;');
+    await expect(manager.diffCommit('s1', first.id, ws, { against: 'missing' })).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CommitManager } from '../src/Storage/commitManager';
+
+let tmp = '';
+let ws = '';
+let blobsDir = '';
+let manager: CommitManager;
+
+const write = (rel: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(ws, rel)), { recursive: true });
+  fs.writeFileSync(path.join(ws, rel), content);
+};
+const read = (rel: string) => fs.readFileSync(path.join(ws, rel), 'utf8');
+const listBlobs = () => fs.readdirSync(blobsDir).flatMap(shard => fs.readdirSync(path.join(blobsDir, shard)));
+/** Make blobs older than the GC grace period */
+const ageBlobs = () => {
+  const old = new Date(Date.now() - 10 * 60_000);
+  for (const shard of fs.readdirSync(blobsDir)) {
+    for (const name of fs.readdirSync(path.join(blobsDir, shard))) {
+      fs.utimesSync(path.join(blobsDir, shard, name), old, old);
+    }
+  }
+};
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-store-'));
+  ws = path.join(tmp, 'ws');
+  blobsDir = path.join(tmp, 'blobs');
+  manager = new CommitManager(path.join(tmp, 'sessions'));
+  write('src/a.ts', 'const a = 1;\n');
+  write('src/b.ts', 'const b = 1;\n');
+  write('README.md', '# readme\n');
+});
+
+afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('CommitManager blob store', () => {
+  it('stores unchanged files once across commits and sessions', async () => {
+    await manager.addCommit('s1', 'first', '.', ws);
+    write('src/a.ts', 'const a = 2;\n');
+    await manager.addCommit('s1', 'second', '.', ws);
+    await manager.addCommit('s2', 'other session', 'src', ws);
+
+    expect(listBlobs()).toHaveLength(4);
+    expect(fs.existsSync(path.join(tmp, 'sessions', 's1', 'commits'))).toBe(true);
+
+    const usage = await manager.getStorageUsage();
+    expect(usage).toMatchObject({ sessions: 2, commits: 3, blobs: 4 });
+    expect(usage.logicalSize).toBe(13 * 2 + 9 + 13 * 2 + 9 + 13 * 2);
+    expect(usage.diskSize).toBe(13 * 3 + 9);
+  });
+
+  it('garbage-collects blobs no commit references', async () => {
+    const first = await manager.addCommit('s1', 'first', '.', ws);
+    write('src/a.ts', 'const a = 2;\n');
+    const second = await manager.addCommit('s1', 'second', '.', ws);
+    ageBlobs();
+
+    expect(await manager.deleteCommit('s1', first.id)).toBe(true);
+    expect(listBlobs()).toHaveLength(3);
+
+    write('src/a.ts', 'broken');
+    await manager.restoreCommit('s1', second.id, ws);
+    expect(read('src/a.ts')).toBe('const a = 2;\n');
+
+    // Recently written blobs survive even when unreferenced
+    write('src/b.ts', 'const b = 3;\n');
+    const third = await manager.addCommit('s1', 'third', 'src', ws);
+    await manager.deleteCommit('s1', third.id);
+    expect(listBlobs()).toHaveLength(4);
+  });
+
+  it('keeps all blobs when a commit manifest is unreadable', async () => {
+    const first = await manager.addCommit('s1', 'first', '.', ws);
+    write('src/a.ts', 'const a = 2;\n');
+    const second = await manager.addCommit('s1', 'second', '.', ws);
+    ageBlobs();
+    fs.writeFileSync(path.join(tmp, 'sessions', 's1', 'commits', first.id, 'meta.json'), '{ corrupt');
+
+    await expect(manager.collectGarbage()).rejects.toThrow(first.id);
+    expect(await manager.deleteCommit('s1', second.id)).toBe(true);
+    expect(listBlobs()).toHaveLength(4);
+  });
+
+  it('restores selected files and folders only', async () => {
+    const commit = await manager.addCommit('s1', 'base', '.', ws);
+    write('src/a.ts', 'changed');
+    write('src/b.ts', 'changed');
+    write('README.md', 'changed');
+
+    const restored = await manager.restoreCommit('s1', commit.id, ws, ['./src/']);
+    expect(restored.map(f => f.replace(/\\/g, '/')).sort()).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(read('README.md')).toBe('changed');
+
+    await manager.restoreCommit('s1', commit.id, ws, ['README.md']);
+    expect(read('README.md')).toBe('# readme\n');
+
+    await expect(manager.restoreCommit('s1', commit.id, ws, ['missing.ts'])).rejects.toThrow('None of the requested files');
+  });
+
+  it('still reads legacy commits with full file copies', async () => {
+    const dir = path.join(tmp, 'sessions', 's1', 'commits', 'legacy-1');
+    fs.mkdirSync(path.join(dir, 'files', 'src'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'files', 'src', 'a.ts'), 'const a = 0;\n');
+    const meta = { id: 'legacy-1', name: 'old', scope: 'src', timestamp: 1, files: [path.join('src', 'a.ts')], totalSize: 13 };
+    fs.writeFileSync(path.join(dir, 'meta.json'), JSON.stringify(meta));
+    fs.writeFileSync(path.join(tmp, 'sessions', 's1', 'commits', 'index.json'), JSON.stringify([meta]));
+
+    const diffs = await manager.diffCommit('s1', 'legacy-1', ws);
+    expect(diffs.map(d => d.status).sort()).toEqual(['modified', 'new']);
+    expect((await manager.getStorageUsage()).diskSize).toBe(13);
+
+    await manager.restoreCommit('s1', 'legacy-1', ws);
+    expect(read('src/a.ts')).toBe('const a = 0;\n');
+  });
+});
@@ -1,4 +1,6 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const state = vi.hoisted(() => ({ requests: [] as any[], reply: '## Goals\nShip it' }));
 
 vi.mock('vscode', () => ({
   window: {
@@ -14,7 +16,25 @@ vi.mock('vscode', () => ({
   }
 }));
 
-import { estimateTokenCount, type Message } from '../src/Engine/SystemContext/contextSummarizer';
+vi.mock('../src/Engine/fetchWithTools', () => ({
+  fetchOpenRouterWithTools: async (opts: any) => {
+    state.requests.push(opts);
+    return { content: state.reply };
+  }
+}));
+
+import {
+  SUMMARY_MARKER,
+  buildTranscript,
+  compactMessages,
+  estimateTokenCount,
+  findCompactionSplit,
+  prepareMessagesForApi,
+  resetSummaryCache,
+  type Message
+} from '../src/Engine/SystemContext/contextSummarizer';
+
+const SUMMARIZER = { baseUrl: 'http://llm.local/v1', apiKey: 'k', model: 'cheap-model' };
 
 describe('estimateTokenCount', () => {
   it('should estimate tokens for simple messages', () => {
@@ -74,3 +94,84 @@ describe('estimateTokenCount', () => {
     expect(tokens).toBeGreaterThan(10);
   });
 });
+
+/** system + `turns` user turns, each with a tool call round trip and a final answer */
+function conversation(turns: number, size = 100): Message[] {
+  const messages: Message[] = [{ role: 'system', content: 'You are an agent.' }];
+  for (let t = 0; t < turns; t++) {
+    messages.push(
+      { role: 'user', content: `task ${t} ` + 'u'.repeat(size) },
+      { role: 'assistant', content: '', tool_calls: [{ id: `c${t}`, type: 'function', function: { name: 'read_file', arguments: `{"file_path":"src/f${t}.ts"}` } }] },
+      { role: 'tool', tool_call_id: `c${t}`, name: 'read_file', content: 'x'.repeat(size) },
+      { role: 'assistant', content: `done ${t}` }
+    );
+  }
+  return messages;
+}
+
+describe('context summarization', () => {
+  beforeEach(() => {
+    state.requests = [];
+    state.reply = '## Goals\nShip it';
+    resetSummaryCache();
+  });
+
+  it('splits at the start of a kept user turn', () => {
+    const messages = conversation(3);
+    expect(findCompactionSplit(messages, 1)).toBe(9);
+    expect(findCompactionSplit(messages, 2)).toBe(5);
+    expect(findCompactionSplit(messages, 3)).toBe(0);
+    expect(findCompactionSplit(conversation(1), 1)).toBe(0);
+  });
+
+  it('replaces older turns with one summary message and caches it by range', async () => {
+    const messages = conversation(3);
+    const statuses: string[] = [];
+    const compacted = await compactMessages(messages, SUMMARIZER, { keepTurns: 1, onStatusChange: s => statuses.push(s) });
+
+    expect(compacted).toHaveLength(1 + 1 + 4);
+    expect(compacted![0]).toBe(messages[0]);
+    expect(compacted![1].role).toBe('user');
+    expect(compacted![1].content.startsWith(SUMMARY_MARKER)).toBe(true);
+    expect(compacted![1].content).toContain('## Goals\nShip it');
+    expect(compacted!.slice(2)).toEqual(messages.slice(9));
+    expect(statuses).toEqual(['summarizing', 'idle']);
+
+    const request = state.requests[0];
+    expect(request).toMatchObject({ model: 'cheap-model', tools: [] });
+    expect(request.messages[0].content).toContain('## Files touched');
+    expect(request.messages[1].content).toContain('→ read_file({"file_path":"src/f1.ts"})');
+    expect(request.messages[1].content).not.toContain('task 2');
+
+    await compactMessages(messages, SUMMARIZER, { keepTurns: 1 });
+    expect(state.requests).toHaveLength(1);
+
+    // The next compaction folds the previous summary into the new one
+    const next = await compactMessages([...compacted!, ...conversation(1).slice(1)], SUMMARIZER, { keepTurns: 1, instructions: 'API' });
+    expect(next!.filter(m => m.content.startsWith(SUMMARY_MARKER))).toHaveLength(1);
+    expect(state.requests[1].messages[1].content).toMatch(/^Pay special attention to: API[\s\S]*PREVIOUS SUMMARY:/);
+  });
+
+  it('summarizes automatically only above the threshold', async () => {
+    const small = conversation(4);
+    expect(await prepareMessagesForApi(small, { summarizer: SUMMARIZER, contextLength: 32000 })).toBe(small);
+    expect(state.requests).toHaveLength(0);
+
+    // ~4 turns × 2×6000 chars ≈ 12K tokens > 60% of a 16K window
+    const large = conversation(4, 6000);
+    const statuses: string[] = [];
+    const result = await prepareMessagesForApi(large, { summarizer: SUMMARIZER, contextLength: 16000, onStatusChange: s => statuses.push(s) });
+    expect(result).toHaveLength(1 + 1 + 8);
+    expect(statuses).toEqual(['summarizing', 'idle', 'idle']);
+
+    state.reply = '';
+    resetSummaryCache();
+    expect(await prepareMessagesForApi(large, { summarizer: SUMMARIZER, contextLength: 16000 })).toBe(large);
+  });
+
+  it('keeps the transcript within budget', () => {
+    const transcript = buildTranscript(conversation(40, 5000).slice(1));
+    expect(transcript.length).toBeLessThanOrEqual(62000);
+    expect(transcript).toMatch(/^USER:\ntask 0 [\s\S]*messages omitted[\s\S]*done 39$/);
+  });
+});
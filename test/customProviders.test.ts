@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({
+      appendLine: () => {},
+      append: () => {},
+      show: () => {},
+      clear: () => {}
+    }),
+    showErrorMessage: () => {}
+  },
+  workspace: {
+    getConfiguration: () => ({ get: (_key: string, def?: any) => def })
+  }
+}));
+
+import { ConfigManager, setConfigManager } from '../src/Config/configManager';
+import { resolveProviderConnection } from '../src/chatClientFactory';
+import { fetchOpenRouterWithTools } from '../src/Engine/fetchWithTools';
+import type { CustomProviderConfig, ExtensionConfig } from '../src/Config/config';
+
+/** In-memory Memento */
+function createMemento() {
+  const store = new Map<string, any>();
+  return {
+    keys: () => [...store.keys()],
+    get: <T>(key: string, def?: T) => (store.has(key) ? store.get(key) : def),
+    update: async (key: string, value: any) => { store.set(key, JSON.parse(JSON.stringify(value))); }
+  } as any;
+}
+
+const EXT_CONFIG: ExtensionConfig = {
+  openRouterApiKey: '',
+  openRouterBaseUrl: 'https://openrouter.ai/api/v1',
+  ollamaBaseUrl: 'http://localhost:11434',
+  providerSettings: {}
+};
+
+/** Local OpenAI-compatible server (vLLM-style /models + streaming /chat/completions) */
+let server: http.Server;
+let baseUrl = '';
+let lastRequest: { url?: string; headers: http.IncomingHttpHeaders } | null = null;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    lastRequest = { url: req.url, headers: req.headers };
+    req.resume();
+    req.on('end', () => {
+      if (req.url?.endsWith('/models')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          object: 'list',
+          data: [
+            { id: 'Qwen/Qwen3-32B', object: 'model', max_model_len: 32768 },
+            { id: 'meta-llama/Llama-3.1-8B-Instruct', object: 'model', max_model_len: 131072 }
+          ]
+        }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"content":"ok"},"finish_reason":"stop"}]}\n\n');
+      res.end('data: [DONE]\n\n');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+function vllm(overrides: Partial<CustomProviderConfig> = {}): CustomProviderConfig {
+  return {
+    id: 'vllm-local',
+    name: 'vLLM',
+    baseUrl,
+    apiKey: 'secret',
+    authStyle: 'header',
+    authHeader: 'api-key',
+    extraHeaders: { 'X-Team': 'ml' },
+    ...overrides
+  };
+}
+
+describe('custom providers registry', () => {
+  let memento: any;
+  let manager: ConfigManager;
+
+  beforeEach(() => {
+    memento = createMemento();
+    manager = new ConfigManager(memento);
+    setConfigManager(manager);
+  });
+
+  it('persists providers and their models across reloads', async () => {
+    manager.saveCustomProvider(vllm());
+    manager.addModel({ id: 'Qwen/Qwen3-32B', name: 'Qwen3-32B', provider: 'custom:vllm-local' });
+    await Promise.resolve();
+
+    const reloaded = new ConfigManager(memento);
+    expect(reloaded.getCustomProviders().map(p => p.id)).toEqual(['vllm-local']);
+    expect(reloaded.getCustomProvider('custom:vllm-local')?.modelsEndpoint).toBe('/models');
+    // Custom provider ids survive the provider validation on load
+    expect(reloaded.getModels()[0].provider).toBe('custom:vllm-local');
+  });
+
+  it('validates provider definitions', () => {
+    expect(() => manager.saveCustomProvider(vllm({ id: 'bad id' }))).toThrow();
+    expect(() => manager.saveCustomProvider(vllm({ baseUrl: 'localhost:8000' }))).toThrow();
+    expect(() => manager.saveCustomProvider(vllm({ authHeader: '' }))).toThrow();
+  });
+
+  it('deletes a provider together with its models and selection', () => {
+    manager.saveCustomProvider(vllm());
+    manager.addModel({ id: 'Qwen/Qwen3-32B', name: 'Qwen3-32B', provider: 'custom:vllm-local' });
+    manager.addModel({ id: 'gpt-4o', name: 'GPT-4o', provider: 'openai' });
+    manager.setSelectedModel('Qwen/Qwen3-32B');
+
+    manager.deleteCustomProvider('vllm-local');
+    expect(manager.getCustomProviders()).toEqual([]);
+    expect(manager.getModels().map(m => m.id)).toEqual(['gpt-4o']);
+    expect(manager.getSelectedModelId()).toBeNull();
+  });
+
+  it('resolves the connection with auth style and extra headers', async () => {
+    manager.saveCustomProvider(vllm());
+    expect(await resolveProviderConnection(EXT_CONFIG, 'custom:vllm-local')).toEqual({
+      baseUrl,
+      apiKey: 'secret',
+      headers: { 'X-Team': 'ml', 'api-key': 'secret' }
+    });
+
+    manager.saveCustomProvider(vllm({ authStyle: 'bearer' }));
+    expect((await resolveProviderConnection(EXT_CONFIG, 'custom:vllm-local')).headers).toEqual({
+      'X-Team': 'ml',
+      Authorization: 'Bearer secret'
+    });
+  });
+
+  it('fetches models from the model-list endpoint with the provider headers', async () => {
+    manager.saveCustomProvider(vllm());
+    const models = await manager.fetchProviderModels('custom:vllm-local', baseUrl, '');
+
+    expect(lastRequest?.url).toBe('/v1/models');
+    expect(lastRequest?.headers['api-key']).toBe('secret');
+    expect(lastRequest?.headers['x-team']).toBe('ml');
+    expect(models).toEqual([
+      { id: 'Qwen/Qwen3-32B', name: 'Qwen/Qwen3-32B', provider: 'custom:vllm-local', contextLength: 32768 },
+      { id: 'meta-llama/Llama-3.1-8B-Instruct', name: 'meta-llama/Llama-3.1-8B-Instruct', provider: 'custom:vllm-local', contextLength: 131072 }
+    ]);
+  });
+
+  it('applies the context-length override to listed models', async () => {
+    manager.saveCustomProvider(vllm({ contextLength: 16000 }));
+    const models = await manager.fetchProviderModels('custom:vllm-local', baseUrl, '');
+    expect(models.every(m => m.contextLength === 16000)).toBe(true);
+    expect(await manager.fetchSingleModelContextLength('custom:vllm-local', 'Qwen/Qwen3-32B', baseUrl, '')).toBe(16000);
+  });
+
+  it('sends custom headers instead of Bearer auth on chat requests', async () => {
+    manager.saveCustomProvider(vllm());
+    const conn = await resolveProviderConnection(EXT_CONFIG, 'custom:vllm-local');
+    const response = await fetchOpenRouterWithTools({
+      ...conn,
+      model: 'Qwen/Qwen3-32B',
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: [],
+      providerType: 'custom:vllm-local',
+      onChunk: () => {}
+    });
+
+    expect(response.content).toBe('ok');
+    expect(lastRequest?.url).toBe('/v1/chat/completions');
+    expect(lastRequest?.headers['api-key']).toBe('secret');
+    expect(lastRequest?.headers['authorization']).toBeUndefined();
+  });
+});
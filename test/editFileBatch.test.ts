@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('vscode', async () => {
+  const nodeFs = await import('fs');
+  return {
+    window: {
+      createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+    },
+    Uri: { file: (p: string) => ({ fsPath: p }) },
+    workspace: {
+      getConfiguration: () => ({ get: (_key: string, def: unknown) => def }),
+      fs: {
+        readFile: async (uri: { fsPath: string }) => nodeFs.readFileSync(uri.fsPath),
+        writeFile: async (uri: { fsPath: string }, data: Uint8Array) => nodeFs.writeFileSync(uri.fsPath, data)
+      }
+    }
+  };
+});
+
+const snapshots: any[] = [];
+const diagnoseCalls: string[] = [];
+vi.mock('../src/Storage/snapshotManager', () => ({
+  getSnapshotManager: () => ({
+    createSnapshot: async (...args: any[]) => {
+      const snap = { filePath: args[0], tool: args[1], oldContent: args[2], newContent: args[3], startLine: args[4], endLine: args[5] };
+      snapshots.push(snap);
+      return snap;
+    }
+  })
+}));
+vi.mock('../src/Storage/snapshotDecorations', () => ({ applySnapshotDecorations: () => {} }));
+vi.mock('../src/Engine/diagnosticsEngine', () => ({
+  diagnose: async ({ file }: { file: string }) => {
+    diagnoseCalls.push(file);
+    return { errors: [], checker: 'tree-sitter' };
+  },
+  formatDiagnosticResult: () => ''
+}));
+
+import { editFileTool } from '../src/Engine/tools/editFileTool';
+import { getFileTime } from '../src/Engine/SystemContext/contextCache';
+import { getToolDefinition, validateToolArgs } from '../src/Engine/toolRegistry';
+
+let tmp = '';
+let file = '';
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'edit-batch-'));
+  file = path.join(tmp, 'app.ts');
+  fs.writeFileSync(file, 'const a = 1;\nconst b = 2;\n\nfunction f() {\n  return a;\n}\n\nfunction g() {\n  return a;\n}\n');
+  getFileTime().read(file);
+  snapshots.length = 0;
+  diagnoseCalls.length = 0;
+});
+
+afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('edit_file batched edits', () => {
+  it('applies edits in order with one snapshot and one diagnostics pass', async () => {
+    const result = await editFileTool({
+      file_path: 'app.ts',
+      edits: [
+        { old_string: 'const b = 2;', new_string: 'const b = 2;\nconst c = 3;' },
+        { old_string: 'const c = 3;', new_string: 'const c = 4;' },
+        { old_string: 'return a;', new_string: 'return c;', start_line: 9 },
+        { old_string: '\treturn a;', new_string: '\treturn b;', start_line: 5 }
+      ]
+    }, tmp);
+
+    expect(result.error).toBeUndefined();
+    expect(fs.readFileSync(file, 'utf8')).toBe(
+      'const a = 1;\nconst b = 2;\nconst c = 4;\n\nfunction f() {\n  return b;\n}\n\nfunction g() {\n  return c;\n}\n'
+    );
+    expect(result.edits.map((e: any) => [e.edit, e.line])).toEqual([[1, 2], [2, 3], [3, 10], [4, 6]]);
+    expect(result.edits[0].strategy).toBe('exact');
+    expect(result.edits[3].strategy).not.toBe('exact');
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({ tool: 'edit_file', startLine: 3 });
+    expect(diagnoseCalls).toEqual([file]);
+  });
+
+  it('shifts start_line hints only by edits above them', async () => {
+    const result = await editFileTool({
+      file_path: 'app.ts',
+      edits: [
+        { old_string: 'function g() {', new_string: 'function g() {\n  // 1\n  // 2\n  // 3\n  // 4\n  // 5', start_line: 8 },
+        { old_string: 'return a;', new_string: 'return f;', start_line: 5 },
+        { old_string: 'return a;', new_string: 'return g;', start_line: 9 }
+      ]
+    }, tmp);
+
+    expect(result.error).toBeUndefined();
+    expect(result.edits.map((e: any) => e.line)).toEqual([8, 5, 14]);
+    expect(fs.readFileSync(file, 'utf8')).toContain('function f() {\n  return f;\n}');
+    expect(fs.readFileSync(file, 'utf8')).toContain('// 5\n  return g;\n}');
+  });
+
+  it('writes nothing when any edit fails', async () => {
+    const before = fs.readFileSync(file, 'utf8');
+    const result = await editFileTool({
+      file_path: 'app.ts',
+      edits: [
+        { old_string: 'const a = 1;', new_string: 'const a = 10;' },
+        { old_string: 'return a;', new_string: 'return 0;' }
+      ]
+    }, tmp);
+
+    expect(result.success).toBe(false);
+    expect(result.failed_edit).toBe(2);
+    expect(result.error).toContain('matches 2 locations');
+    expect(fs.readFileSync(file, 'utf8')).toBe(before);
+    expect(snapshots).toEqual([]);
+    expect(diagnoseCalls).toEqual([]);
+  });
+
+  it('validates the edits argument', () => {
+    const def = getToolDefinition('edit_file')!;
+    expect(validateToolArgs(def, { file_path: 'a.ts', edits: [{ old_string: 'a', new_string: 'b' }] })).toBeNull();
+    expect(validateToolArgs(def, { file_path: 'a.ts', edits: [] })).toContain('at least 1');
+    expect(validateToolArgs(def, { file_path: 'a.ts', edits: [{}], old_string: 'a', new_string: 'b' })).toContain('not both');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+  },
+  workspace: {
+    getConfiguration: () => ({ get: (_key: string, def: unknown) => def })
+  }
+}));
+
+import { fetchUrlTool, selectJsonPath } from '../src/Engine/tools/fetchUrlTool';
+import { extractReadableContent } from '../src/Engine/tools/htmlToMarkdown';
+import { evaluateToolPolicy } from '../src/Engine/toolPolicy';
+
+const PAGE = `<!DOCTYPE html>
+<html><head><title>Guide &mdash; Docs</title><script>var x = "<p>not text</p>";</script></head>
+<body>
+  <header class="site-header"><a href="/">Home</a></header>
+  <nav><ul><li><a href="/a">A</a></li><li><a href="/b">B</a></li></ul></nav>
+  <div class="cookie-banner">We use cookies</div>
+  <main>
+    <h1>Getting started</h1>
+    <p>Install the <b>package</b> with <code>npm i pkg</code>, then read the <a href="/api">API docs</a>.</p>
+    <ul><li>First<ul><li>Nested</li></ul></li><li>Second</li></ul>
+    <pre><code class="language-ts">const a = 1;
+const b = 2;</code></pre>
+    <table><tr><th>Name</th><th>Type</th></tr><tr><td>id</td><td>number</td></tr></table>
+    <p style="display:none">hidden</p>
+  </main>
+  <footer>© 2026</footer>
+</body></html>`;
+
+const USERS = { data: { users: [{ id: 1, name: 'Ann', tags: ['a'] }, { id: 2, name: 'Bob', tags: [] }] } };
+
+let server: http.Server;
+let base = '';
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (req.url === '/page') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(PAGE);
+      } else if (req.url === '/users') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(USERS));
+      } else if (req.url === '/echo') {
+        res.writeHead(201, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ method: req.method, contentType: req.headers['content-type'], token: req.headers['x-token'], body }));
+      } else if (req.url === '/long') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(Array.from({ length: 400 }, (_, i) => `line ${i}`).join('\n'));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('readable content', () => {
+  it('converts the main content of a page to markdown without page chrome', () => {
+    const { title, content } = extractReadableContent(PAGE, { baseUrl: 'http://dev.local/guide/' });
+    expect(title).toBe('Guide — Docs');
+    expect(content).toBe([
+      '# Getting started',
+      '',
+      'Install the **package** with `npm i pkg`, then read the [API docs](http://dev.local/api).',
+      '',
+      '- First\n  - Nested\n- Second',
+      '',
+      '```ts\nconst a = 1;\nconst b = 2;\n```',
+      '',
+      '| Name | Type |\n| --- | --- |\n| id | number |'
+    ].join('\n'));
+
+    const text = extractReadableContent(PAGE, { plain: true }).content;
+    expect(text).toContain('Install the package with npm i pkg, then read the API docs.');
+    expect(text).not.toMatch(/cookies|Home|©|hidden|not text/);
+  });
+
+  it('selects JSON values with JSONPath', () => {
+    expect(selectJsonPath(USERS, '$.data.users[-1].name')).toEqual({ matches: ['Bob'], definite: true });
+    expect(selectJsonPath(USERS, "$['data'].users[*].id").matches).toEqual([1, 2]);
+    expect(selectJsonPath(USERS, '$..name').matches).toEqual(['Ann', 'Bob']);
+    expect(selectJsonPath(USERS, '$.data.users[0:1].tags').matches).toEqual([['a']]);
+    expect(() => selectJsonPath(USERS, '$.data users')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('fetch_url', () => {
+  it('returns HTML pages as markdown, text or raw', async () => {
+    const md = await fetchUrlTool({ url: `${base}/page` });
+    expect(md).toMatchObject({ success: true, status_code: 200, format: 'markdown', title: 'Guide — Docs', truncated: false });
+    expect(md.body).toContain(`[API docs](${base}/api)`);
+
+    const raw = await fetchUrlTool({ url: `${base}/page`, format: 'raw' });
+    expect(raw.body).toBe(PAGE);
+    expect(await fetchUrlTool({ url: `${base}/page`, format: 'pdf' })).toMatchObject({ error: expect.stringContaining('Unknown format') });
+  });
+
+  it('pretty-prints JSON and applies json_path', async () => {
+    const all = await fetchUrlTool({ url: `${base}/users` });
+    expect(all.format).toBe('json');
+    expect(all.body).toBe(JSON.stringify(USERS, null, 2));
+
+    const ids = await fetchUrlTool({ url: `${base}/users`, json_path: '$.data.users[*].id' });
+    expect(ids).toMatchObject({ json_path_matches: 2, body: '[\n  1,\n  2\n]' });
+    expect(await fetchUrlTool({ url: `${base}/page`, json_path: '$.a' })).toMatchObject({ success: false, error: expect.stringContaining('not valid JSON') });
+  });
+
+  it('pages through long responses at line breaks', async () => {
+    const first = await fetchUrlTool({ url: `${base}/long`, max_chars: 1000 });
+    expect(first.total_chars).toBe(3489);
+    expect(first.body.endsWith('\n')).toBe(true);
+    expect(first.next_offset).toBe(first.body.length);
+
+    const second = await fetchUrlTool({ url: `${base}/long`, max_chars: 1000, offset: first.next_offset });
+    expect(second.body.startsWith('line ')).toBe(true);
+    const last = await fetchUrlTool({ url: `${base}/long`, offset: 3200 });
+    expect(last).toMatchObject({ truncated: false, offset: 3200 });
+    expect(last.next_offset).toBeUndefined();
+  });
+
+  it('sends JSON and raw bodies with custom headers', async () => {
+    const posted = await fetchUrlTool({ url: `${base}/echo`, json: { name: 'x' }, headers: { 'X-Token': 'dev' } });
+    expect(posted.status_code).toBe(201);
+    expect(JSON.parse(posted.body)).toEqual({ method: 'POST', contentType: 'application/json', token: 'dev', body: '{"name":"x"}' });
+
+    const put = await fetchUrlTool({ url: `${base}/echo`, method: 'put', body: 'a=1', headers: { 'content-type': 'application/x-www-form-urlencoded' } });
+    expect(JSON.parse(put.body)).toMatchObject({ method: 'PUT', contentType: 'application/x-www-form-urlencoded', body: 'a=1' });
+  });
+
+  it('asks before state-changing requests to remote hosts', () => {
+    expect(evaluateToolPolicy('fetch_url', { url: 'https://api.example.com/x' }).decision).toBe('allow');
+    expect(evaluateToolPolicy('fetch_url', { url: 'https://api.example.com/x', json: { a: 1 } }).decision).toBe('ask');
+    expect(evaluateToolPolicy('fetch_url', { url: 'http://localhost:3000/x', method: 'DELETE' }).decision).toBe('allow');
+    expect(evaluateToolPolicy('fetch_url', { url: 'http://localhost:3000/x', method: 'POST' }, { isChat: true }).decision).toBe('ask');
+  });
+});
@@ -0,0 +1,64 @@
+// Minimal MCP server used by test/mcpClient.test.ts.
+// Run directly → stdio transport (newline-delimited JSON-RPC).
+// Required as a module → exposes handleMessage() for the HTTP transport test.
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Echo the given text back',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] }
+  },
+  {
+    name: 'fail',
+    description: 'Always returns an error result',
+    inputSchema: { type: 'object', properties: {} }
+  }
+];
+
+function handleMessage(msg) {
+  if (msg.id === undefined) return null; // notification
+  switch (msg.method) {
+    case 'initialize':
+      return { jsonrpc: '2.0', id: msg.id, result: {
+        protocolVersion: msg.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'echo-server', version: '1.0.0' }
+      } };
+    case 'tools/list':
+      // Two pages to exercise cursor pagination
+      return msg.params && msg.params.cursor
+        ? { jsonrpc: '2.0', id: msg.id, result: { tools: [TOOLS[1]] } }
+        : { jsonrpc: '2.0', id: msg.id, result: { tools: [TOOLS[0]], nextCursor: 'page2' } };
+    case 'tools/call': {
+      const { name, arguments: args } = msg.params;
+      if (name === 'echo') {
+        return { jsonrpc: '2.0', id: msg.id, result: { content: [{ type: 'text', text: `echo: ${args.text}` }] } };
+      }
+      if (name === 'fail') {
+        return { jsonrpc: '2.0', id: msg.id, result: { content: [{ type: 'text', text: 'boom' }], isError: true } };
+      }
+      return { jsonrpc: '2.0', id: msg.id, error: { code: -32602, message: `Unknown tool: ${name}` } };
+    }
+    default:
+      return { jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: `Method not found: ${msg.method}` } };
+  }
+}
+
+module.exports = { handleMessage };
+
+if (require.main === module) {
+  let buffer = '';
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', (chunk) => {
+    buffer += chunk;
+    let nl;
+    while ((nl = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, nl).trim();
+      buffer = buffer.slice(nl + 1);
+      if (!line) continue;
+      const reply = handleMessage(JSON.parse(line));
+      if (reply) process.stdout.write(JSON.stringify(reply) + '\n');
+    }
+  });
+  process.stdin.on('end', () => process.exit(0));
+}
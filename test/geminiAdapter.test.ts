@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({
+      appendLine: () => {},
+      append: () => {},
+      show: () => {},
+      clear: () => {}
+    })
+  },
+  workspace: {
+    getConfiguration: () => ({ get: () => undefined })
+  }
+}));
+
+import { fetchOpenRouterWithTools } from '../src/Engine/fetchWithTools';
+import { convertMessagesToGemini, sanitizeGeminiSchema } from '../src/Engine/Providers/geminiAdapter';
+
+const FIXTURE = fs.readFileSync(path.join(__dirname, 'fixtures', 'gemini-function-call.sse'), 'utf-8');
+
+/** Local fixture server: replays a recorded streamGenerateContent stream and captures the request */
+let server: http.Server;
+let baseUrl = '';
+let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: any } | null = null;
+let nextResponse: { status: number; body: string } | null = null;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(raw || '{}') };
+      if (nextResponse) {
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+        res.end(nextResponse.body);
+        nextResponse = null;
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      // Send in small pieces to exercise partial-line buffering
+      const chunks = FIXTURE.match(/[\s\S]{1,97}/g) || [];
+      for (const c of chunks) res.write(c);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const TOOLS = [
+  {
+    type: 'function',
+    function: {
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: { type: 'object', properties: { file_path: { type: 'string' } }, required: ['file_path'], additionalProperties: false }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_files',
+      description: 'List files',
+      parameters: { type: 'object', properties: {}, required: [] }
+    }
+  }
+];
+
+describe('convertMessagesToGemini', () => {
+  it('maps system, tool calls and tool results to Gemini parts', () => {
+    const { systemInstruction, contents } = convertMessagesToGemini([
+      { role: 'system', content: 'You are an agent.' },
+      { role: 'user', content: 'Fix config' },
+      {
+        role: 'assistant',
+        content: '',
+        reasoning_signature: { provider: 'gemini', signature: 'sig' },
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"file_path":"a.ts"}' } },
+          { id: 'call_2', type: 'function', function: { name: 'list_files', arguments: '{}' } }
+        ]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '1: const a = 1;' },
+      { role: 'tool', tool_call_id: 'call_2', content: '{"files":["a.ts"]}' }
+    ]);
+
+    expect(systemInstruction).toEqual({ parts: [{ text: 'You are an agent.' }] });
+    expect(contents.map(c => c.role)).toEqual(['user', 'model', 'user']);
+    // Thought signature is replayed on the first function call only
+    expect(contents[1].parts).toEqual([
+      { functionCall: { name: 'read_file', args: { file_path: 'a.ts' } }, thoughtSignature: 'sig' },
+      { functionCall: { name: 'list_files', args: {} } }
+    ]);
+    // Responses are matched by name; plain text is wrapped, JSON objects pass through
+    expect(contents[2].parts).toEqual([
+      { functionResponse: { name: 'read_file', response: { content: '1: const a = 1;' } } },
+      { functionResponse: { name: 'list_files', response: { files: ['a.ts'] } } }
+    ]);
+  });
+
+  it('does not replay a signature from another provider', () => {
+    const { contents } = convertMessagesToGemini([
+      { role: 'user', content: 'Fix config' },
+      {
+        role: 'assistant',
+        content: '',
+        reasoning_signature: { provider: 'claude', blocks: [{ thinking: 'plan', signature: 'EqQB' }] },
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{}' } }]
+      }
+    ]);
+    expect(contents[1].parts).toEqual([{ functionCall: { name: 'read_file', args: {} } }]);
+  });
+
+  it('converts data-URL images to inlineData parts', () => {
+    const { contents } = convertMessagesToGemini([
+      { role: 'user', content: [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }
+      ] }
+    ]);
+    expect(contents[0].parts[1]).toEqual({ inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } });
+  });
+
+  it('reduces schemas to the supported subset', () => {
+    expect(sanitizeGeminiSchema({
+      type: 'object',
+      additionalProperties: false,
+      properties: { query: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], default: '' } },
+      required: []
+    })).toEqual({
+      type: 'object',
+      properties: { query: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] } }
+    });
+  });
+});
+
+describe('fetchOpenRouterWithTools — gemini provider (fixture server)', () => {
+  it('sends a native streamGenerateContent request', async () => {
+    await fetchOpenRouterWithTools({
+      baseUrl: `${baseUrl}/openai`,
+      apiKey: 'AIza-test',
+      model: 'gemini-2.5-pro',
+      messages: [
+        { role: 'system', content: 'You are an agent.' },
+        { role: 'user', content: 'Read the config' }
+      ],
+      tools: TOOLS,
+      toolChoice: 'required',
+      reasoning: { enabled: true, effort: 'high' },
+      providerType: 'gemini',
+      onChunk: () => {}
+    });
+
+    // OpenAI-compatible suffix is stripped
+    expect(lastRequest?.url).toBe('/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse');
+    expect(lastRequest?.headers['x-goog-api-key']).toBe('AIza-test');
+    expect(lastRequest?.headers['authorization']).toBeUndefined();
+
+    const body = lastRequest!.body;
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'You are an agent.' }] });
+    expect(body.contents).toEqual([{ role: 'user', parts: [{ text: 'Read the config' }] }]);
+    expect(body.tools[0].functionDeclarations).toEqual([
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        parameters: { type: 'object', properties: { file_path: { type: 'string' } }, required: ['file_path'] }
+      },
+      { name: 'list_files', description: 'List files' }
+    ]);
+    expect(body.toolConfig).toEqual({ functionCallingConfig: { mode: 'ANY' } });
+    expect(body.generationConfig.thinkingConfig).toEqual({ includeThoughts: true, thinkingBudget: 24576 });
+    expect(body.generationConfig.maxOutputTokens).toBeGreaterThan(0);
+  });
+
+  it('parses text, thoughts, function calls and usage from the stream', async () => {
+    const chunks: string[] = [];
+    let lastReasoning = '';
+    const response = await fetchOpenRouterWithTools({
+      baseUrl,
+      apiKey: 'AIza-test',
+      model: 'gemini-2.5-pro',
+      messages: [{ role: 'user', content: 'Read the config' }],
+      tools: TOOLS,
+      providerType: 'gemini',
+      onChunk: (c) => chunks.push(c),
+      onReasoning: (r) => { lastReasoning = r; }
+    });
+
+    expect(response.content).toBe('Let me look at the config first.');
+    expect(chunks.join('')).toBe(response.content);
+    expect(response.reasoning).toBe('Need to read the file before editing.');
+    expect(lastReasoning).toBe(response.reasoning);
+    expect(response.reasoning_signature).toEqual({ provider: 'gemini', signature: 'CiQB0e2Kb7kGx1RkYq3m' });
+    expect(response.finish_reason).toBe('tool_calls');
+    expect(response.tool_calls?.map(tc => tc.function)).toEqual([
+      { name: 'read_file', arguments: '{"file_path":"src/Config/config.ts"}' },
+      { name: 'list_files', arguments: '{}' }
+    ]);
+    // Generated ids must be unique so tool results can be matched back
+    expect(new Set(response.tool_calls?.map(tc => tc.id)).size).toBe(2);
+    expect(response.usage).toEqual({
+      prompt_tokens: 3612,
+      completion_tokens: 87,
+      total_tokens: 3699,
+      cached_tokens: 3200
+    });
+  });
+
+  it('surfaces HTTP errors in the "(STATUS)" format parseApiError expects', async () => {
+    nextResponse = { status: 400, body: '{"error":{"code":400,"message":"API key not valid.","status":"INVALID_ARGUMENT"}}' };
+    await expect(fetchOpenRouterWithTools({
+      baseUrl,
+      apiKey: 'bad',
+      model: 'gemini-2.5-pro',
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: [],
+      providerType: 'gemini',
+      onChunk: () => {}
+    })).rejects.toThrow('(400)');
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const state = vi.hoisted(() => ({ root: '', answer: 'Отклонить', asked: [] as string[] }));
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} }),
+    showWarningMessage: async (msg: string) => { state.asked.push(msg); return state.answer; }
+  },
+  workspace: {
+    get workspaceFolders() { return [{ name: 'ws', uri: { fsPath: state.root } }]; },
+    getConfiguration: () => ({ get: (_key: string, def: unknown) => def })
+  }
+}));
+
+import { gitTool, parseGitStatus } from '../src/Engine/tools/gitTool';
+import { evaluateToolPolicy } from '../src/Engine/toolPolicy';
+
+const git = (...args: string[]) => execFileSync('git', args, { cwd: state.root, encoding: 'utf8' });
+const write = (rel: string, content: string) => fs.writeFileSync(path.join(state.root, rel), content);
+const lines = (n: number, change: Record<number, string> = {}) =>
+  Array.from({ length: n }, (_, i) => change[i + 1] ?? `line ${i + 1}`).join('\n') + '\n';
+
+beforeEach(() => {
+  state.root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-tool-'));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.name', 'Test User');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'commit.gpgsign', 'false');
+  write('app.ts', lines(30));
+  git('add', '.');
+  git('commit', '-q', '-m', 'Initial commit');
+});
+
+afterEach(() => fs.rmSync(state.root, { recursive: true, force: true }));
+
+describe('parseGitStatus', () => {
+  it('parses branch tracking, renames and conflicts', () => {
+    const status = parseGitStatus('## main...origin/main [ahead 2, behind 1]\0R  new.ts\0old.ts\0 M app.ts\0UU both.ts\0?? tmp.log\0');
+    expect(status).toMatchObject({ branch: 'main', upstream: 'origin/main', ahead: 2, behind: 1 });
+    expect(status.staged).toEqual([{ path: 'new.ts', status: 'renamed', from: 'old.ts' }]);
+    expect(status.unstaged).toEqual([{ path: 'app.ts', status: 'modified' }]);
+    expect(status.conflicted).toEqual(['both.ts']);
+    expect(status.untracked).toEqual(['tmp.log']);
+  });
+});
+
+describe('git tool', () => {
+  it('reports status and diff against HEAD as JSON', async () => {
+    write('app.ts', lines(30, { 2: 'line two' }));
+    write('notes.md', 'todo\n');
+
+    const status = await gitTool({ operation: 'status' }, state.root);
+    expect(status).toMatchObject({ success: true, branch: 'main', clean: false, untracked: ['notes.md'] });
+    expect(status.unstaged).toEqual([{ path: 'app.ts', status: 'modified' }]);
+
+    const diff = await gitTool({ operation: 'diff' }, state.root);
+    expect(diff).toMatchObject({ success: true, ref: 'HEAD', files_changed: 1, added: 1, removed: 1 });
+    expect(diff.files[0]).toMatchObject({ path: 'app.ts', status: 'modified', binary: false });
+    expect(diff.files[0].hunks[0]).toMatchObject({ old_start: 1, new_start: 1 });
+    expect(diff.files[0].hunks[0].lines).toContain('+line two');
+  });
+
+  it('stages selected hunks, commits, logs and blames', async () => {
+    write('app.ts', lines(30, { 2: 'first change', 28: 'second change' }));
+
+    const unstaged = await gitTool({ operation: 'diff', unstaged: true }, state.root);
+    expect(unstaged.files[0].hunks).toHaveLength(2);
+
+    const staged = await gitTool({ operation: 'stage', paths: ['app.ts'], hunks: [2] }, state.root);
+    expect(staged).toMatchObject({ success: true, staged: [{ path: 'app.ts', status: 'modified' }] });
+    const cached = await gitTool({ operation: 'diff', staged: true }, state.root);
+    expect(cached.files[0].hunks.map((h: any) => h.lines.filter((l: string) => l.startsWith('+')))).toEqual([['+second change']]);
+
+    const commit = await gitTool({ operation: 'commit', message: 'Change line 28' }, state.root);
+    expect(commit).toMatchObject({ success: true, subject: 'Change line 28', branch: 'main', files: [{ path: 'app.ts', added: 1, removed: 1 }] });
+    expect(git('diff', '--name-only').trim()).toBe('app.ts'); // first hunk is still unstaged
+
+    const log = await gitTool({ operation: 'log', path: 'app.ts', max_count: 5 }, state.root);
+    expect(log.commits.map((c: any) => c.subject)).toEqual(['Change line 28', 'Initial commit']);
+    expect(log.commits[0]).toMatchObject({ hash: commit.hash, author: 'Test User', email: 'test@example.com' });
+
+    const blame = await gitTool({ operation: 'blame', path: 'app.ts', start_line: 27, end_line: 28 }, state.root);
+    expect(blame.lines.map((l: any) => [l.line, l.summary, l.content])).toEqual([
+      [27, 'Initial commit', 'line 27'],
+      [28, 'Change line 28', 'second change']
+    ]);
+  });
+
+  it('creates branches and reports git errors', async () => {
+    const branch = await gitTool({ operation: 'branch', name: 'feature/x' }, state.root);
+    expect(branch).toMatchObject({ success: true, current_branch: 'feature/x', checked_out: true });
+
+    const nothing = await gitTool({ operation: 'commit', message: 'empty' }, state.root);
+    expect(nothing.success).toBe(false);
+    expect(nothing.error).toContain('nothing to commit');
+
+    const push = await gitTool({ operation: 'push' }, state.root);
+    expect(push.success).toBe(false);
+  });
+
+  it('rejects option-like refs and forcing push refspecs', async () => {
+    const target = path.join(state.root, 'leak.txt');
+    write('app.ts', lines(30, { 2: 'changed' }));
+    const diff = await gitTool({ operation: 'diff', ref: `--output=${target}` }, state.root);
+    expect(diff).toMatchObject({ success: false, error: expect.stringContaining('must not start with "-"') });
+    expect(fs.existsSync(target)).toBe(false);
+    expect((await gitTool({ operation: 'branch', name: 'x', start_point: '--orphan' }, state.root)).success).toBe(false);
+
+    git('init', '-q', '--bare', path.join(state.root, 'remote.git'));
+    git('remote', 'add', 'origin', path.join(state.root, 'remote.git'));
+    expect(await gitTool({ operation: 'push', branch: '+main' }, state.root)).toMatchObject({ success: false, error: expect.stringContaining('force') });
+    expect((await gitTool({ operation: 'push', remote: '--force' }, state.root)).success).toBe(false);
+    expect((await gitTool({ operation: 'push', branch: ':main' }, state.root)).success).toBe(false);
+    expect(git('ls-remote', 'origin').trim()).toBe('');
+  });
+
+  it('asks before using a repo or staging files outside the workspace', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'git-outside-'));
+    try {
+      execFileSync('git', ['init', '-q', '-b', 'main'], { cwd: outside });
+      fs.writeFileSync(path.join(outside, 'x.txt'), 'x');
+      state.asked = [];
+
+      await expect(gitTool({ operation: 'stage', repo: outside, paths: [path.join(outside, 'x.txt')] }, state.root))
+        .rejects.toThrow('User denied');
+      await expect(gitTool({ operation: 'commit', message: 'm', paths: ['../x.txt'] }, state.root)).rejects.toThrow('User denied');
+      expect(state.asked).toHaveLength(2);
+      expect(execFileSync('git', ['status', '--porcelain'], { cwd: outside, encoding: 'utf8' })).toBe('?? x.txt\n');
+
+      state.answer = 'Разрешить';
+      expect(await gitTool({ operation: 'stage', repo: outside, paths: [path.join(outside, 'x.txt')] }, state.root)).toMatchObject({ success: true });
+      expect(state.asked).toHaveLength(4);
+      expect(execFileSync('git', ['status', '--porcelain'], { cwd: outside, encoding: 'utf8' })).toBe('A  x.txt\n');
+    } finally {
+      state.answer = 'Отклонить';
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('asks before push, force and amend', () => {
+    const decide = (args: any) => evaluateToolPolicy('git', args, { workspaceRoot: state.root }).decision;
+    expect(decide({ operation: 'status' })).toBe('allow');
+    expect(decide({ operation: 'commit', message: 'x' })).toBe('allow');
+    expect(decide({ operation: 'push' })).toBe('ask');
+    expect(decide({ operation: 'commit', message: 'x', amend: true })).toBe('ask');
+    expect(decide({ operation: 'branch', name: 'main', force: true })).toBe('ask');
+    expect(evaluateToolPolicy('git', { operation: 'push' }, { workspaceRoot: state.root }).subject).toBe('push origin');
+
+    fs.mkdirSync(path.join(state.root, '.vscode'));
+    fs.writeFileSync(path.join(state.root, '.vscode', 'ashibalt-policy.json'), JSON.stringify({ rules: ['git: "push origin*" allow'] }));
+    // The repository's own policy file cannot approve a push
+    expect(decide({ operation: 'push', branch: 'main' })).toBe('ask');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCliArgs } from '../src/Cli/main';
+import { HeadlessEventWriter } from '../src/Cli/jsonlEvents';
+import { createVscodeShim, globToRegExp, parseJsonc } from '../src/Cli/vscodeShim';
+
+describe('parseCliArgs', () => {
+  it('parses options, aliases and env fallbacks', () => {
+    const opts = parseCliArgs(
+      ['-m', 'gpt-x', '--on-ask=allow', '-w', 'proj', '--max-iterations', '5', 'fix', 'the', 'tests'],
+      { ASHIBALT_PROVIDER: 'openai', ASHIBALT_API_KEY: 'sk-env' },
+      '/home/u'
+    );
+    expect(opts).toMatchObject({
+      task: 'fix the tests',
+      model: 'gpt-x',
+      provider: 'openai',
+      apiKey: 'sk-env',
+      workspace: path.resolve('/home/u/proj'),
+      onAsk: 'allow',
+      mode: 'agent',
+      maxIterations: 5,
+      verbose: false
+    });
+  });
+
+  it('reports usage errors', () => {
+    expect(parseCliArgs(['task'], {})).toEqual({ error: 'Model is required (--model or ASHIBALT_MODEL)' });
+    expect(parseCliArgs(['-m', 'x'], {})).toEqual({ error: 'Task is required' });
+    expect(parseCliArgs(['-m', 'x', '--bogus', 't'], {})).toEqual({ error: 'Unknown option: --bogus' });
+    expect(parseCliArgs(['-m', 'x', '--mode', 'plan', 't'], {})).toEqual({ error: 'Invalid --mode: plan' });
+    expect(parseCliArgs(['-m', 'x', '--max-iterations', '0', 't'], {})).toEqual({ error: '--max-iterations must be a positive integer' });
+    expect(parseCliArgs(['-m', 'x', '-p', 'custom:abc', 't'], {})).toHaveProperty('error');
+    expect(parseCliArgs(['-m', 'x', '-p', 'anthropic', 't'], {})).toEqual({
+      error: 'Invalid --provider: anthropic (expected openrouter, openai, claude, gemini, deepseek, mistral, grok, ollama)'
+    });
+    expect(parseCliArgs(['-m', 'x', 't'], { ASHIBALT_PROVIDER: 'Claude' })).toHaveProperty('error');
+    expect(parseCliArgs(['-m'], {})).toEqual({ error: '--model requires a value' });
+    expect(parseCliArgs(['--help'], {})).toEqual({ help: true });
+  });
+});
+
+describe('HeadlessEventWriter', () => {
+  it('turns cumulative stream updates into deltas and status notes', () => {
+    const lines: any[] = [];
+    const writer = new HeadlessEventWriter(line => lines.push(JSON.parse(line)));
+
+    writer.handleLoopMessage({ type: 'streamResponse', content: 'Hello' });
+    writer.handleLoopMessage({ type: 'streamResponse', content: 'Hello world', reasoning: 'think' });
+    writer.handleLoopMessage({ type: 'streamResponse', content: 'Hello world\n\n⏳ *Retrying (1/3)...*' });
+    writer.handleLoopMessage({ type: 'streamResponse', content: 'Hello world!' });
+    writer.handleLoopMessage({ type: 'toolCall', name: 'read_file', args: { file_path: 'a.ts' } });
+    writer.toolResult('read_file', '{"success":true}', 12);
+    writer.handleLoopMessage({ type: 'summarizationStatus', status: 'idle' });
+    writer.handleLoopMessage({ type: 'streamEnd' });
+
+    expect(lines.map(({ ts, ...rest }) => rest)).toEqual([
+      { type: 'text_delta', delta: 'Hello' },
+      { type: 'reasoning_delta', delta: 'think' },
+      { type: 'text_delta', delta: ' world' },
+      { type: 'status', message: '⏳ *Retrying (1/3)...' },
+      { type: 'text_delta', delta: '!' },
+      { type: 'tool_call', name: 'read_file', args: { file_path: 'a.ts' } },
+      { type: 'tool_result', name: 'read_file', result: { success: true }, durationMs: 12 }
+    ]);
+    expect(lines.every(l => typeof l.ts === 'number')).toBe(true);
+    expect(writer.text).toBe('Hello world!');
+    expect(writer.toolCallCount).toBe(1);
+  });
+});
+
+describe('vscodeShim', () => {
+  let tmp = '';
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-shim-'));
+  });
+  afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  it('converts globs and parses settings with comments', () => {
+    expect(globToRegExp('**/*.{ts,js}').test('src/a/b.ts')).toBe(true);
+    expect(globToRegExp('**/*.{ts,js}').test('b.js')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/b.ts')).toBe(false);
+    expect(parseJsonc('{\n  // note\n  "a": "http://x", /* b */ "b": [1,2,],\n}')).toEqual({ a: 'http://x', b: [1, 2] });
+  });
+
+  it('serves the workspace from the filesystem', async () => {
+    fs.mkdirSync(path.join(tmp, 'src'));
+    fs.mkdirSync(path.join(tmp, '.git'));
+    fs.writeFileSync(path.join(tmp, 'src', 'a.ts'), 'one\ntwo');
+    fs.writeFileSync(path.join(tmp, '.git', 'x.ts'), '');
+    const vscode: any = createVscodeShim({ workspaceRoot: tmp, settings: { 'ashibaltAi.terminalSandbox': true } });
+
+    expect(vscode.workspace.workspaceFolders[0].uri.fsPath).toBe(tmp);
+    const found = await vscode.workspace.findFiles('**/*.ts');
+    expect(found.map((u: any) => path.relative(tmp, u.fsPath))).toEqual([path.join('src', 'a.ts')]);
+
+    const target = vscode.Uri.file(path.join(tmp, 'out', 'b.txt'));
+    await vscode.workspace.fs.writeFile(target, Buffer.from('hi'));
+    expect(fs.readFileSync(target.fsPath, 'utf8')).toBe('hi');
+    await expect(vscode.workspace.fs.stat(vscode.Uri.file(path.join(tmp, 'missing')))).rejects.toThrow();
+
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(tmp, 'src', 'a.ts')));
+    expect(doc.lineCount).toBe(2);
+    expect(doc.lineAt(1).text).toBe('two');
+
+    const config = vscode.workspace.getConfiguration('ashibaltAi');
+    expect(config.get('terminalSandbox')).toBe(true);
+    expect(config.get('missingSetting', 'fallback')).toBe('fallback');
+  });
+});
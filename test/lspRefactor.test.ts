@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const state = vi.hoisted(() => ({
+  commandHandler: (async () => undefined) as (name: string, ...args: any[]) => Promise<any>,
+  changeListeners: [] as Array<(e: any) => void>,
+  fileListeners: {} as Record<string, Array<(e: any) => void>>
+}));
+
+vi.mock('vscode', async () => {
+  const nodeFs = await import('fs');
+  class Position {
+    constructor(public line: number, public character: number) {}
+  }
+  class Range {
+    constructor(public start: Position, public end: Position) {}
+  }
+  const openDocs = new Map<string, any>();
+  const makeDoc = (fsPath: string, initial?: string) => {
+    let text = initial ?? nodeFs.readFileSync(fsPath, 'utf8');
+    const lines = () => text.split('\n');
+    const doc = {
+      uri: { fsPath, scheme: 'file' },
+      fileName: fsPath,
+      getText: () => text,
+      get lineCount() { return lines().length; },
+      lineAt: (line: number) => ({ text: lines()[line], range: { end: new Position(line, lines()[line].length) } }),
+      offsetAt: (pos: Position) => lines().slice(0, pos.line).reduce((n, l) => n + l.length + 1, 0) + pos.character,
+      positionAt: (offset: number) => {
+        const before = text.slice(0, offset).split('\n');
+        return new Position(before.length - 1, before[before.length - 1].length);
+      },
+      save: async () => { nodeFs.writeFileSync(fsPath, text); return true; },
+      /** Test helper: simulate an editor edit made by a command */
+      edit: (next: string, changes = 1) => {
+        text = next;
+        state.changeListeners.forEach(l => l({ document: doc, contentChanges: Array.from({ length: changes }, () => ({})) }));
+      }
+    };
+    return doc;
+  };
+  const openDoc = (fsPath: string) => {
+    if (!openDocs.has(fsPath)) openDocs.set(fsPath, makeDoc(fsPath));
+    return openDocs.get(fsPath);
+  };
+  const onFiles = (event: string) => (listener: (e: any) => void) => {
+    (state.fileListeners[event] ??= []).push(listener);
+    return { dispose: () => { state.fileListeners[event] = state.fileListeners[event].filter(l => l !== listener); } };
+  };
+  const fireFiles = async (event: string, files: any[]) => {
+    const pending: Promise<unknown>[] = [];
+    (state.fileListeners[event] ?? []).forEach(l => l({ files, waitUntil: (p: Promise<unknown>) => pending.push(p) }));
+    await Promise.all(pending);
+  };
+  /**
+   * Like VS Code: text edits go to (unsaved) documents, then file operations run with
+   * will/did events. Test edits list file operations as fileOps: [{ from?, to? }].
+   */
+  const applyEdit = async (edit: any) => {
+    const entries: Array<[{ fsPath: string }, any[]]> = edit.entries();
+    if (entries.some(([uri]) => !nodeFs.existsSync(uri.fsPath))) return false;
+    for (const [uri, edits] of entries) {
+      const doc = openDoc(uri.fsPath);
+      let text: string = doc.getText();
+      const sorted = edits
+        .map(e => ({ start: doc.offsetAt(e.range.start), end: doc.offsetAt(e.range.end), text: e.newText }))
+        .sort((a, b) => b.start - a.start);
+      for (const e of sorted) text = text.slice(0, e.start) + e.text + text.slice(e.end);
+      doc.edit(text, edits.length);
+    }
+    for (const op of edit.fileOps ?? []) {
+      const from = op.from && { fsPath: op.from, scheme: 'file' };
+      const to = op.to && { fsPath: op.to, scheme: 'file' };
+      const [kind, files] = from && to ? ['Rename', [{ oldUri: from, newUri: to }]] : to ? ['Create', [to]] : ['Delete', [from]];
+      await fireFiles(`will${kind}`, files);
+      if (kind === 'Rename') {
+        nodeFs.renameSync(op.from, op.to);
+        const moved = openDocs.get(op.from);
+        openDocs.delete(op.from);
+        if (moved) openDocs.set(op.to, makeDoc(op.to, moved.getText()));
+      } else if (kind === 'Create') {
+        nodeFs.writeFileSync(op.to, op.contents ?? '');
+      } else {
+        nodeFs.rmSync(op.from);
+        openDocs.delete(op.from);
+      }
+      await fireFiles(`did${kind}`, files);
+    }
+    return true;
+  };
+  return {
+    Position,
+    Range,
+    Uri: { file: (p: string) => ({ fsPath: p, scheme: 'file' }) },
+    window: {
+      createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+    },
+    commands: { executeCommand: (name: string, ...args: any[]) => state.commandHandler(name, ...args) },
+    workspace: {
+      get textDocuments() { return Array.from(openDocs.values()); },
+      openTextDocument: async (uri: { fsPath: string }) => openDoc(uri.fsPath),
+      applyEdit,
+      onWillCreateFiles: onFiles('willCreate'),
+      onWillDeleteFiles: onFiles('willDelete'),
+      onWillRenameFiles: onFiles('willRename'),
+      onDidCreateFiles: onFiles('didCreate'),
+      onDidDeleteFiles: onFiles('didDelete'),
+      onDidRenameFiles: onFiles('didRename'),
+      onDidChangeTextDocument: (listener: (e: any) => void) => {
+        state.changeListeners.push(listener);
+        return { dispose: () => { state.changeListeners = state.changeListeners.filter(l => l !== listener); } };
+      },
+      getConfiguration: () => ({ get: (_key: string, def: unknown) => def }),
+      fs: {
+        stat: async (uri: { fsPath: string }) => nodeFs.statSync(uri.fsPath),
+        readFile: async (uri: { fsPath: string }) => nodeFs.readFileSync(uri.fsPath),
+        writeFile: async (uri: { fsPath: string }, data: Uint8Array) => {
+          nodeFs.writeFileSync(uri.fsPath, data);
+          openDocs.delete(uri.fsPath);
+        }
+      }
+    }
+  };
+});
+
+const snapshots: any[] = [];
+vi.mock('../src/Storage/snapshotManager', () => ({
+  getSnapshotManager: () => ({
+    createSnapshot: async (...args: any[]) => {
+      const snap = { filePath: args[0], tool: args[1], oldContent: args[2], newContent: args[3], startLine: args[4], changeSetId: args[6] };
+      snapshots.push(snap);
+      return snap;
+    }
+  })
+}));
+vi.mock('../src/Storage/snapshotDecorations', () => ({ applySnapshotDecorations: () => {} }));
+
+import * as vscode from 'vscode';
+import { lspRefactorTool } from '../src/Engine/tools/lspBridgeTool';
+
+let tmp = '';
+const pos = (line: number, character: number) => new vscode.Position(line, character);
+const range = (l1: number, c1: number, l2: number, c2: number) => new vscode.Range(pos(l1, c1), pos(l2, c2));
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-refactor-'));
+  fs.writeFileSync(path.join(tmp, 'a.ts'), 'export function load() {}\nload();\n');
+  fs.writeFileSync(path.join(tmp, 'b.ts'), "import { load } from './a';\nload();\n");
+  snapshots.length = 0;
+});
+
+afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('lsp_refactor', () => {
+  it('applies a rename across files as one change set', async () => {
+    const a = path.join(tmp, 'a.ts');
+    const b = path.join(tmp, 'b.ts');
+    state.commandHandler = async (name, _uri, position, newName) => {
+      expect(name).toBe('vscode.executeDocumentRenameProvider');
+      expect(position).toMatchObject({ line: 0, character: 16 });
+      return {
+        size: 2,
+        entries: () => [
+          [{ fsPath: a }, [{ range: range(0, 16, 0, 20), newText: newName }, { range: range(1, 0, 1, 4), newText: newName }]],
+          [{ fsPath: b }, [{ range: range(0, 9, 0, 13), newText: newName }, { range: range(1, 0, 1, 4), newText: newName }]]
+        ]
+      };
+    };
+
+    const result = await lspRefactorTool({ operation: 'rename', file_path: 'a.ts', line: 1, character: 16, new_name: 'loadHistory' }, tmp);
+
+    expect(result).toMatchObject({ success: true, applied: true, files_modified: ['a.ts', 'b.ts'], results_count: 4 });
+    expect(fs.readFileSync(a, 'utf8')).toBe('export function loadHistory() {}\nloadHistory();\n');
+    expect(fs.readFileSync(b, 'utf8')).toBe("import { loadHistory } from './a';\nloadHistory();\n");
+    expect(snapshots.map(s => [s.filePath, s.tool, s.startLine])).toEqual([[a, 'edit_file', 1], [b, 'edit_file', 1]]);
+    expect(new Set(snapshots.map(s => s.changeSetId))).toEqual(new Set([result.change_set]));
+  });
+
+  it('counts only the changed lines of a region', async () => {
+    const c = path.join(tmp, 'c.ts');
+    fs.writeFileSync(c, 'let load = 1;\nconst keep = 2;\nconst keep2 = 3;\nload++;\n');
+    state.commandHandler = async (_name, _uri, _position, newName) => ({
+      size: 1,
+      entries: () => [[{ fsPath: c }, [{ range: range(0, 4, 0, 8), newText: newName }, { range: range(3, 0, 3, 4), newText: newName }]]]
+    });
+
+    const result = await lspRefactorTool({ operation: 'rename', file_path: 'c.ts', line: 1, character: 4, new_name: 'count' }, tmp);
+
+    expect(result.success).toBe(true);
+    expect(result.files).toEqual([expect.objectContaining({ file: 'c.ts', edits: 2, startLine: 1, linesAdded: 2, linesRemoved: 2 })]);
+  });
+
+  it('records renamed files as deleted and created in the change set', async () => {
+    const a = path.join(tmp, 'a.ts');
+    const b = path.join(tmp, 'b.ts');
+    const moved = path.join(tmp, 'loadHistory.ts');
+    // Rename that also moves the module file
+    state.commandHandler = async () => ({
+      size: 3,
+      entries: () => [
+        [{ fsPath: a }, [{ range: range(0, 16, 0, 20), newText: 'loadHistory' }]],
+        [{ fsPath: b }, [{ range: range(0, 9, 0, 13), newText: 'loadHistory' }, { range: range(0, 22, 0, 25), newText: './loadHistory' }]]
+      ],
+      fileOps: [{ from: a, to: moved }]
+    });
+
+    const result = await lspRefactorTool({ operation: 'rename', file_path: 'a.ts', line: 1, character: 16, new_name: 'loadHistory' }, tmp);
+
+    expect(result).toMatchObject({ success: true, files_modified: ['a.ts', 'b.ts', 'loadHistory.ts'] });
+    expect(result.files.map((f: any) => f.kind)).toEqual(['deleted', undefined, 'created']);
+    expect(fs.existsSync(a)).toBe(false);
+    expect(fs.readFileSync(moved, 'utf8')).toBe('export function loadHistory() {}\nload();\n');
+    expect(fs.readFileSync(b, 'utf8')).toBe("import { loadHistory } from './loadHistory';\nload();\n");
+    expect(snapshots.map(s => [s.filePath, s.tool, s.oldContent])).toEqual([
+      [a, 'delete_file', 'export function load() {}\nload();\n'],
+      [b, 'edit_file', "import { load } from './a';"],
+      [moved, 'create_file', null]
+    ]);
+  });
+
+  it('reports an edit VS Code refuses without recording anything', async () => {
+    state.commandHandler = async () => ({
+      size: 1,
+      entries: () => [[{ fsPath: path.join(tmp, 'new.ts') }, [{ range: range(0, 0, 0, 0), newText: 'x' }]]]
+    });
+    const result = await lspRefactorTool({ operation: 'rename', file_path: 'a.ts', line: 1, character: 16, new_name: 'loadHistory' }, tmp);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('could not apply');
+    expect(fs.readFileSync(path.join(tmp, 'a.ts'), 'utf8')).toBe('export function load() {}\nload();\n');
+    expect(snapshots).toEqual([]);
+  });
+
+  it('lists code actions, then applies a command-based one', async () => {
+    const b = path.join(tmp, 'b.ts');
+    const actions = [
+      { title: 'Organize imports', kind: { value: 'source.organizeImports' }, command: { title: 'Organize imports', command: 'test.organize', arguments: [b] } },
+      { title: 'Extract to function', kind: { value: 'refactor.extract.function' }, disabled: { reason: 'no selection' } },
+      { title: 'Add missing import', command: 'test.noop' }
+    ];
+    state.commandHandler = async (name, ...args) => {
+      if (name === 'vscode.executeCodeActionProvider') {
+        return args[2] ? actions.filter(a => a.kind?.value.startsWith(args[2])) : actions;
+      }
+      if (name === 'test.organize') {
+        const doc: any = await vscode.workspace.openTextDocument(vscode.Uri.file(args[0]));
+        doc.edit("import { load } from './a';\n\nload();\n");
+      }
+      return undefined;
+    };
+
+    const listing = await lspRefactorTool({ operation: 'code_action', file_path: 'b.ts' }, tmp);
+    expect(listing).toMatchObject({ success: true, applied: false });
+    expect(listing.actions).toEqual([
+      { title: 'Organize imports', kind: 'source.organizeImports' },
+      { title: 'Add missing import' }
+    ]);
+    expect(snapshots).toEqual([]);
+
+    const applied = await lspRefactorTool({ operation: 'code_action', file_path: 'b.ts', kind: 'source.organizeImports' }, tmp);
+    expect(applied).toMatchObject({ success: true, applied: true, files_modified: ['b.ts'] });
+    expect(fs.readFileSync(b, 'utf8')).toBe("import { load } from './a';\n\nload();\n");
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({ filePath: b, startLine: 2, changeSetId: applied.change_set });
+  });
+});
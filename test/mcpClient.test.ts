@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+
+let mcpServersSetting: Record<string, any> = {};
+const trust = vi.hoisted(() => ({ isTrusted: true, answer: undefined as string | undefined, asked: [] as string[] }));
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({
+      appendLine: () => {},
+      append: () => {},
+      show: () => {},
+      clear: () => {}
+    }),
+    showWarningMessage: async (message: string) => {
+      trust.asked.push(message);
+      return trust.answer;
+    }
+  },
+  workspace: {
+    workspaceFolders: undefined,
+    get isTrusted() { return trust.isTrusted; },
+    getConfiguration: () => ({
+      get: (key: string, def?: any) => (key === 'mcpServers' ? mcpServersSetting : def)
+    })
+  }
+}));
+
+import { McpClient } from '../src/Engine/Mcp/mcpClient';
+import {
+  ensureMcpServers, getMcpToolSpecs, disposeMcpServers, loadMcpServerConfigs, mcpToolName
+} from '../src/Engine/Mcp/mcpRegistry';
+import { executeTool } from '../src/Engine/toolCalling';
+import { logger } from '../src/logger';
+
+const ECHO_SERVER = path.join(__dirname, 'fixtures', 'mcp-echo-server.js');
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { handleMessage } = require('./fixtures/mcp-echo-server.js');
+
+afterEach(async () => {
+  mcpServersSetting = {};
+  await disposeMcpServers();
+});
+
+describe('MCP stdio transport', () => {
+  it('lists tools across pages and calls them', async () => {
+    const client = new McpClient('echo', { command: process.execPath, args: [ECHO_SERVER] });
+    try {
+      await client.connect();
+      const tools = await client.listTools();
+      expect(tools.map(t => t.name)).toEqual(['echo', 'fail']);
+
+      const result = await client.callTool('echo', { text: 'hi' });
+      expect(result.content?.[0]).toEqual({ type: 'text', text: 'echo: hi' });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('merges namespaced tools and routes them through executeTool', async () => {
+    mcpServersSetting = { echo: { command: process.execPath, args: [ECHO_SERVER] } };
+    await ensureMcpServers();
+
+    const names = getMcpToolSpecs().map(t => t.function.name);
+    expect(names).toEqual(['mcp__echo__echo', 'mcp__echo__fail']);
+    expect(getMcpToolSpecs()[0].function.parameters.required).toEqual(['text']);
+
+    const logSpy = vi.spyOn(logger, 'log');
+    try {
+      expect(await executeTool('mcp__echo__echo', { text: 'hello' })).toBe('echo: hello');
+      expect(await executeTool('mcp__echo__fail', {})).toEqual({ error: 'boom' });
+      const dispatchLogs = logSpy.mock.calls.map(c => String(c[0])).filter(l => l.startsWith('[TOOL_DISPATCH]'));
+      expect(dispatchLogs.some(l => l.includes('START mcp__echo__echo'))).toBe(true);
+      expect(dispatchLogs.some(l => l.includes('END mcp__echo__fail ok=false'))).toBe(true);
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+
+  it('drops tools of servers removed from the config', async () => {
+    mcpServersSetting = { echo: { command: process.execPath, args: [ECHO_SERVER] } };
+    await ensureMcpServers();
+    expect(getMcpToolSpecs()).toHaveLength(2);
+
+    mcpServersSetting = {};
+    await ensureMcpServers();
+    expect(getMcpToolSpecs()).toHaveLength(0);
+    expect(await executeTool('mcp__echo__echo', { text: 'x' })).toEqual({
+      error: 'Unknown MCP tool: mcp__echo__echo. The server may be disconnected.'
+    });
+  });
+});
+
+describe('MCP streamable HTTP transport', () => {
+  let server: http.Server;
+  let url = '';
+  const sessionHeaders: Array<string | undefined> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => { body += c; });
+      req.on('end', () => {
+        if (req.method === 'DELETE') { res.writeHead(204); res.end(); return; }
+        sessionHeaders.push(req.headers['mcp-session-id'] as string | undefined);
+        const msg = JSON.parse(body);
+        const reply = handleMessage(msg);
+        if (!reply) { res.writeHead(202); res.end(); return; }
+        if (msg.method === 'tools/call') {
+          // Answer over SSE, preceded by a progress notification
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } })}\n\n`);
+          res.end(`data: ${JSON.stringify(reply)}\n\n`);
+          return;
+        }
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (msg.method === 'initialize') headers['Mcp-Session-Id'] = 'session-1';
+        res.writeHead(200, headers);
+        res.end(JSON.stringify(reply));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('keeps the session id and reads SSE responses', async () => {
+    mcpServersSetting = { remote: { url } };
+    await ensureMcpServers();
+
+    expect(getMcpToolSpecs().map(t => t.function.name)).toEqual(['mcp__remote__echo', 'mcp__remote__fail']);
+    expect(await executeTool('mcp__remote__echo', { text: 'over http' })).toBe('echo: over http');
+    expect(sessionHeaders[0]).toBeUndefined();
+    expect(sessionHeaders.slice(1).every(h => h === 'session-1')).toBe(true);
+  });
+});
+
+describe('MCP server config', () => {
+  it('lets .vscode/mcp.json override global servers', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-config-'));
+    try {
+      fs.mkdirSync(path.join(root, '.vscode'));
+      fs.writeFileSync(path.join(root, '.vscode', 'mcp.json'), JSON.stringify({
+        servers: {
+          shared: { command: 'workspace-bin', cwd: 'tools' },
+          off: { command: 'x', disabled: true }
+        }
+      }));
+      mcpServersSetting = { shared: { command: 'global-bin' }, other: { url: 'http://localhost:1/mcp' }, broken: {} };
+
+      const configs = loadMcpServerConfigs(root);
+      expect(Object.keys(configs).sort()).toEqual(['other', 'shared']);
+      expect(configs.shared.command).toBe('workspace-bin');
+      expect(configs.shared.cwd).toBe(path.join(root, 'tools'));
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('ignores .vscode/mcp.json in untrusted workspaces', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-config-'));
+    try {
+      fs.mkdirSync(path.join(root, '.vscode'));
+      fs.writeFileSync(path.join(root, '.vscode', 'mcp.json'), JSON.stringify({ servers: { evil: { command: 'curl' } } }));
+      mcpServersSetting = { own: { command: 'own-bin' } };
+
+      expect(Object.keys(loadMcpServerConfigs(root)).sort()).toEqual(['evil', 'own']);
+      trust.isTrusted = false;
+      expect(Object.keys(loadMcpServerConfigs(root))).toEqual(['own']);
+    } finally {
+      trust.isTrusted = true;
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('starts workspace stdio servers only after consent for the exact command', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-consent-'));
+    const savedHome = process.env.HOME;
+    process.env.HOME = root;
+    const writeServers = (args: string[]) => fs.writeFileSync(path.join(root, '.vscode', 'mcp.json'),
+      JSON.stringify({ servers: { echo: { command: process.execPath, args } } }));
+    try {
+      fs.mkdirSync(path.join(root, '.vscode'));
+      writeServers([ECHO_SERVER]);
+      trust.asked = [];
+
+      // Declined: nothing is spawned, and the same session does not ask again
+      trust.answer = undefined;
+      await ensureMcpServers(root);
+      await ensureMcpServers(root);
+      expect(getMcpToolSpecs()).toEqual([]);
+      expect(trust.asked).toHaveLength(1);
+      expect(trust.asked[0]).toContain(ECHO_SERVER);
+
+      // "Always" is remembered across sessions
+      await disposeMcpServers();
+      trust.answer = 'Разрешать всегда';
+      await ensureMcpServers(root);
+      expect(getMcpToolSpecs()).toHaveLength(2);
+      await disposeMcpServers();
+      trust.answer = undefined;
+      await ensureMcpServers(root);
+      expect(getMcpToolSpecs()).toHaveLength(2);
+      expect(trust.asked).toHaveLength(2);
+
+      // A different command asks again
+      writeServers([ECHO_SERVER, '--other']);
+      await ensureMcpServers(root);
+      expect(trust.asked).toHaveLength(3);
+      expect(getMcpToolSpecs()).toEqual([]);
+    } finally {
+      process.env.HOME = savedHome;
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('sanitizes namespaced tool names', () => {
+    expect(mcpToolName('my server', 'search.repos')).toBe('mcp__my_server__search_repos');
+    expect(mcpToolName('s', 'x'.repeat(100))).toHaveLength(64);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const state = vi.hoisted(() => ({ folders: [] as Array<{ name: string; uri: { fsPath: string } }> }));
+
+vi.mock('vscode', async () => {
+  const nodeFs = await import('fs');
+  const nodePath = await import('path');
+  const Uri = {
+    file: (p: string) => ({ fsPath: p }),
+    joinPath: (base: { fsPath: string }, ...parts: string[]) => ({ fsPath: nodePath.join(base.fsPath, ...parts) })
+  };
+  return {
+    Uri,
+    FileType: { File: 1, Directory: 2 },
+    RelativePattern: class { constructor(public baseUri: { fsPath: string }, public pattern: string) {} },
+    window: {
+      createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} }),
+      showWarningMessage: vi.fn(async () => 'Отклонить')
+    },
+    workspace: {
+      get workspaceFolders() { return state.folders; },
+      getConfiguration: () => ({ get: (_key: string, def: unknown) => def }),
+      fs: {
+        stat: async (uri: { fsPath: string }) => ({ type: nodeFs.statSync(uri.fsPath).isDirectory() ? 2 : 1, size: nodeFs.statSync(uri.fsPath).size }),
+        readDirectory: async (uri: { fsPath: string }) =>
+          nodeFs.readdirSync(uri.fsPath, { withFileTypes: true }).map(e => [e.name, e.isDirectory() ? 2 : 1])
+      }
+    }
+  };
+});
+
+import {
+  resolveFilePath, parseRootQualifiedPath, toWorkspacePath, findWorkspaceRoot, checkPathSecurity
+} from '../src/Engine/tools/toolUtils';
+import { getProjectTreeTool } from '../src/Engine/tools/searchTools';
+import { getWorkspaceInfo, getProjectTree } from '../src/promptUtils';
+import { analyzeShellCommand } from '../src/Engine/shellParser';
+
+let tmp = '';
+let frontend = '';
+let backend = '';
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-root-'));
+  frontend = path.join(tmp, 'web');
+  backend = path.join(tmp, 'api');
+  fs.mkdirSync(path.join(frontend, 'src'), { recursive: true });
+  fs.mkdirSync(path.join(backend, 'src'), { recursive: true });
+  fs.writeFileSync(path.join(frontend, 'src', 'App.tsx'), '');
+  fs.writeFileSync(path.join(backend, 'src', 'app.ts'), '');
+  state.folders = [
+    { name: 'frontend', uri: { fsPath: frontend } },
+    { name: 'backend', uri: { fsPath: backend } }
+  ];
+});
+
+afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('multi-root workspaces', () => {
+  it('resolves folder-qualified paths and labels paths by folder', () => {
+    expect(resolveFilePath('backend:src/app.ts', frontend)).toBe(path.join(backend, 'src', 'app.ts'));
+    expect(resolveFilePath('Backend:/src', frontend)).toBe(path.join(backend, 'src'));
+    expect(resolveFilePath('src/App.tsx', frontend)).toBe(path.join(frontend, 'src', 'App.tsx'));
+    expect(resolveFilePath('other:src/x.ts', frontend)).toBe(path.join(frontend, 'other:src', 'x.ts'));
+    expect(parseRootQualifiedPath('backend:')?.relPath).toBe('');
+
+    expect(toWorkspacePath(path.join(backend, 'src', 'app.ts'), frontend)).toBe('backend:src/app.ts');
+    expect(toWorkspacePath(path.join(frontend, 'src', 'App.tsx'), frontend)).toBe('frontend:src/App.tsx');
+    expect(findWorkspaceRoot(path.join(tmp, 'elsewhere'))).toBeUndefined();
+
+    state.folders = state.folders.slice(0, 1);
+    expect(toWorkspacePath(path.join(frontend, 'src', 'App.tsx'), frontend)).toBe('src/App.tsx');
+  });
+
+  it('treats every workspace folder as inside the workspace', async () => {
+    await expect(checkPathSecurity(path.join(backend, 'src', 'app.ts'), frontend)).resolves.toBeUndefined();
+    await expect(checkPathSecurity(path.join(tmp, 'secret.txt'), frontend, 'чтение')).rejects.toThrow('outside workspace');
+
+    const write = 'echo hi > ' + path.join(backend, 'out.txt');
+    expect(analyzeShellCommand(write, { workspaceRoot: frontend, posix: true }).findings).toHaveLength(1);
+    expect(analyzeShellCommand(write, { workspaceRoot: frontend, extraRoots: [backend], posix: true }).findings).toEqual([]);
+  });
+
+  it('lists a tree per folder and describes the folders in the prompt', async () => {
+    const all = await getProjectTreeTool({}, frontend);
+    expect(all.roots.map((r: any) => r.root)).toEqual(['frontend', 'backend']);
+    expect(all.roots[1].tree).toContain('app.ts');
+
+    const one = await getProjectTreeTool({ path: 'backend:src' }, frontend);
+    expect(one.root).toBe('backend:src');
+    expect(one.tree).toContain('app.ts');
+
+    expect(getProjectTree().match(/<project_tree root="(\w+)">/g)).toEqual([
+      '<project_tree root="frontend">', '<project_tree root="backend">'
+    ]);
+    const info = getWorkspaceInfo();
+    expect(info).toContain(`<folder name="backend">${backend}</folder>`);
+    expect(info).toContain('"backend:src/index.ts"');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const state = vi.hoisted(() => ({ roots: [] as string[] }));
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+  },
+  workspace: {
+    get workspaceFolders() { return state.roots.map(root => ({ name: path.basename(root), uri: { fsPath: root } })); },
+    getConfiguration: () => ({ get: (_key: string, def: unknown) => def })
+  },
+  env: { shell: '/bin/bash' }
+}));
+
+import { addMemoryFact, buildProjectMemoryPrompt, loadProjectRules, parseMemoryFacts, readProjectMemory } from '../src/Engine/SystemContext/projectMemory';
+import { rememberTool } from '../src/Engine/tools/rememberTool';
+import { getAgentSystemPrompt } from '../src/promptUtils';
+
+let tmp = '';
+let root = '';
+const write = (rel: string, content: string, base = root) => {
+  fs.mkdirSync(path.dirname(path.join(base, rel)), { recursive: true });
+  fs.writeFileSync(path.join(base, rel), content);
+};
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'project-memory-'));
+  root = path.join(tmp, 'app');
+  fs.mkdirSync(root);
+  state.roots = [root];
+});
+
+afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('project memory', () => {
+  it('saves facts under category headings without duplicates', () => {
+    expect(addMemoryFact('Build with npm run compile', 'Build')).toMatchObject({ added: true, category: 'Build', totalFacts: 1 });
+    addMemoryFact('Tests use vitest', 'Conventions');
+    addMemoryFact('Lint with   npm run lint', 'build');
+    expect(addMemoryFact('build with npm run compile.', 'Other')).toMatchObject({ added: false, duplicate: true });
+
+    const text = readProjectMemory();
+    expect(text.startsWith('# Project memory\n')).toBe(true);
+    expect([...parseMemoryFacts(text)]).toEqual([
+      ['Build', ['Build with npm run compile', 'Lint with npm run lint']],
+      ['Conventions', ['Tests use vitest']]
+    ]);
+  });
+
+  it('keeps facts the user edited by hand', () => {
+    write('.ashibalt/memory.md', '## Build\n- make all\n\n## Notes\n- ask before deploys\n');
+    addMemoryFact('make test runs the suite', 'Build');
+    expect(fs.readFileSync(path.join(root, '.ashibalt/memory.md'), 'utf8')).toBe(
+      '## Build\n- make all\n- make test runs the suite\n\n## Notes\n- ask before deploys\n'
+    );
+  });
+
+  it('adds rule files and learned facts to the agent system prompt', () => {
+    const other = path.join(tmp, 'api');
+    fs.mkdirSync(other);
+    state.roots = [root, other];
+    write('AGENTS.md', 'Use tabs.');
+    write('.ashibalt/rules.md', 'Never touch generated/.', other);
+    addMemoryFact('Dev server: npm run dev');
+
+    expect(loadProjectRules().map(r => r.label)).toEqual(['app:AGENTS.md', 'api:.ashibalt/rules.md']);
+    const prompt = getAgentSystemPrompt();
+    expect(prompt).toContain('<rules file="app:AGENTS.md">\nUse tabs.\n</rules>');
+    expect(prompt).toContain('<rules file="api:.ashibalt/rules.md">\nNever touch generated/.\n</rules>');
+    expect(prompt).toContain('<learned_facts file=".ashibalt/memory.md">\n## General\n- Dev server: npm run dev\n</learned_facts>');
+  });
+
+  it('omits the block when there is nothing to remember', () => {
+    expect(buildProjectMemoryPrompt()).toBe('');
+    expect(getAgentSystemPrompt()).not.toContain('</PROJECT_MEMORY>');
+  });
+
+  it('remember tool reports saved and duplicate facts', async () => {
+    expect(await rememberTool({ fact: 'Use pnpm, not npm', category: 'Build' }, root)).toMatchObject({
+      success: true, added: true, file: '.ashibalt/memory.md'
+    });
+    expect(await rememberTool({ fact: 'Use pnpm, not npm' }, root)).toMatchObject({ success: true, duplicate: true });
+    state.roots = [];
+    expect(await rememberTool({ fact: 'x' })).toMatchObject({ success: false, error: 'No workspace folder is open' });
+  });
+});
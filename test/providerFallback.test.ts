@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({
+      appendLine: () => {},
+      append: () => {},
+      show: () => {},
+      clear: () => {}
+    }),
+    showErrorMessage: () => {}
+  },
+  workspace: {
+    getConfiguration: () => ({ get: (_key: string, def?: any) => def })
+  }
+}));
+
+import { parseApiError, isProviderFallbackError } from '../src/Engine/agentErrors';
+import { ConfigManager } from '../src/Config/configManager';
+
+/** In-memory Memento */
+function createMemento() {
+  const store = new Map<string, any>();
+  return {
+    keys: () => [...store.keys()],
+    get: <T>(key: string, def?: T) => (store.has(key) ? store.get(key) : def),
+    update: async (key: string, value: any) => { store.set(key, JSON.parse(JSON.stringify(value))); }
+  } as any;
+}
+
+describe('parseApiError kind', () => {
+  it('classifies provider failures that should trigger a fallback', () => {
+    const cases: Array<[string, string]> = [
+      ['OpenRouter API error (401): {"error":{"message":"No auth credentials found"}}', 'auth'],
+      ['OpenRouter API error (403): {"error":{"message":"Forbidden"}}', 'auth'],
+      ['OpenRouter API error (503): {"error":{"message":"Service Unavailable"}}', 'server'],
+      ['OpenRouter API error (529): overloaded', 'server'],
+      ['OpenRouter API error (404): {"error":{"message":"No endpoints found for deepseek/deepseek-r1"}}', 'no_endpoints'],
+      ['No endpoints found matching your data policy', 'no_endpoints'],
+    ];
+    for (const [msg, kind] of cases) {
+      const parsed = parseApiError(new Error(msg));
+      expect(parsed.kind).toBe(kind);
+      expect(isProviderFallbackError(parsed.kind)).toBe(true);
+    }
+  });
+
+  it('does not fall back on request-level errors', () => {
+    const cases: Array<[string, string]> = [
+      ['OpenRouter API error (429): rate limited', 'rate_limit'],
+      ['OpenRouter API error (400): {"error":{"message":"context too long"}}', 'bad_request'],
+      ['OpenRouter API error (404): model not found', 'not_found'],
+      ['fetch failed: ECONNREFUSED', 'network'],
+    ];
+    for (const [msg, kind] of cases) {
+      const parsed = parseApiError(new Error(msg));
+      expect(parsed.kind).toBe(kind);
+      expect(isProviderFallbackError(parsed.kind)).toBe(false);
+    }
+  });
+});
+
+describe('ConfigManager fallback chains', () => {
+  it('persists an ordered chain and drops self references', () => {
+    const memento = createMemento();
+    const manager = new ConfigManager(memento);
+    manager.addModel({ id: 'deepseek/deepseek-chat', name: 'DeepSeek V3', provider: 'openrouter' });
+    manager.addModel({ id: 'deepseek-chat', name: 'DeepSeek Chat', provider: 'deepseek' });
+
+    manager.setModelFallbacks('deepseek/deepseek-chat', 'openrouter', [
+      { provider: 'openrouter', model: 'deepseek/deepseek-chat' },
+      { provider: 'deepseek', model: 'deepseek-chat' },
+    ]);
+
+    const reloaded = new ConfigManager(memento);
+    const model = reloaded.getModels().find(m => m.id === 'deepseek/deepseek-chat');
+    expect(model?.fallbacks).toEqual([{ provider: 'deepseek', model: 'deepseek-chat' }]);
+
+    reloaded.setModelFallbacks('deepseek/deepseek-chat', 'openrouter', []);
+    expect(reloaded.getModels().find(m => m.id === 'deepseek/deepseek-chat')?.fallbacks).toBeUndefined();
+  });
+
+  it('rejects unknown models', () => {
+    const manager = new ConfigManager(createMemento());
+    expect(() => manager.setModelFallbacks('missing', 'openrouter', [])).toThrow('Model not found');
+  });
+});
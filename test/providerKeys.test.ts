@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const state = vi.hoisted(() => ({
+  settings: { global: {} as Record<string, any>, workspace: {} as Record<string, any> }
+}));
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} }),
+    showErrorMessage: () => {}
+  },
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, def?: any) => state.settings.workspace[key] ?? state.settings.global[key] ?? def,
+      inspect: (key: string) => ({ key, globalValue: state.settings.global[key], workspaceValue: state.settings.workspace[key] }),
+      update: async (key: string, value: any, global: boolean) => {
+        const target = global ? state.settings.global : state.settings.workspace;
+        if (value === undefined) delete target[key];
+        else target[key] = value;
+      }
+    })
+  }
+}));
+
+import { ConfigManager, setConfigManager } from '../src/Config/configManager';
+import { loadExtensionConfig } from '../src/Config/config';
+import { initSecretStorage, maskSecret, resolveSecret, setSecret } from '../src/Config/secrets';
+import { describeProviderKeys, migrateApiKeysToSecrets, providerSecretKey } from '../src/Config/providerKeys';
+import { resolveProviderConnection } from '../src/chatClientFactory';
+
+function createMemento() {
+  const data = new Map<string, any>();
+  return {
+    get: (key: string, def?: any) => (data.has(key) ? data.get(key) : def),
+    update: async (key: string, value: any) => { data.set(key, value); },
+    keys: () => [...data.keys()]
+  } as any;
+}
+
+let secrets: Map<string, string>;
+let manager: ConfigManager;
+
+beforeEach(() => {
+  state.settings = { global: {}, workspace: {} };
+  secrets = new Map();
+  initSecretStorage({
+    get: async k => secrets.get(k),
+    store: async (k, v) => { secrets.set(k, v); },
+    delete: async k => { secrets.delete(k); }
+  }, '/work/project');
+  manager = new ConfigManager(createMemento());
+  setConfigManager(manager);
+});
+
+describe('secret storage scopes', () => {
+  it('prefers the workspace key over the global one', async () => {
+    await setSecret('k', 'global-value');
+    expect(await resolveSecret('k')).toEqual({ value: 'global-value', scope: 'global' });
+
+    await setSecret('k', 'local-value', 'workspace');
+    expect(await resolveSecret('k')).toEqual({ value: 'local-value', scope: 'workspace' });
+    expect(secrets.get('k')).toBe('global-value');
+
+    await setSecret('k', '', 'workspace');
+    expect((await resolveSecret('k'))?.scope).toBe('global');
+
+    initSecretStorage(null);
+    expect(await resolveSecret('k')).toBeUndefined();
+    await expect(setSecret('k', 'x')).rejects.toThrow('Secret storage is not available');
+  });
+
+  it('masks keys for the settings panel', () => {
+    expect(maskSecret('sk-or-v1-0123456789abcdef')).toBe('sk-…cdef');
+    expect(maskSecret('short')).toBe('••••••••');
+  });
+});
+
+describe('API key migration', () => {
+  it('moves keys out of user and workspace settings and the custom provider registry', async () => {
+    state.settings.global = {
+      providerSettings: { openrouter: { url: 'https://openrouter.ai/api/v1', apiKey: 'sk-or-global-key' }, mistral: { url: '', apiKey: '' } },
+      openRouterApiKey: 'sk-or-legacy-key'
+    };
+    state.settings.workspace = { providerSettings: { deepseek: { apiKey: 'sk-ds-project-key' } } };
+    manager.saveCustomProvider({ id: 'vllm', name: 'vLLM', baseUrl: 'http://localhost:8000/v1', apiKey: 'vllm-secret-key', authStyle: 'bearer' });
+
+    expect(await migrateApiKeysToSecrets(manager)).toBe(4);
+
+    expect(state.settings.global).toEqual({ providerSettings: { openrouter: { url: 'https://openrouter.ai/api/v1' }, mistral: { url: '' } } });
+    expect(state.settings.workspace).toEqual({ providerSettings: { deepseek: {} } });
+    expect(manager.getCustomProvider('vllm')?.apiKey).toBe('');
+
+    // The legacy top-level key is migrated after providerSettings and wins
+    expect(await resolveSecret(providerSecretKey('openrouter'))).toEqual({ value: 'sk-or-legacy-key', scope: 'global' });
+    expect(await resolveSecret(providerSecretKey('deepseek'))).toEqual({ value: 'sk-ds-project-key', scope: 'workspace' });
+    expect(await describeProviderKeys(manager)).toEqual({
+      openrouter: { masked: 'sk-…-key', scope: 'global' },
+      deepseek: { masked: 'sk-…-key', scope: 'workspace' },
+      'custom:vllm': { masked: 'vll…-key', scope: 'global' }
+    });
+
+    expect(await migrateApiKeysToSecrets(manager)).toBe(0);
+  });
+
+  it('resolves connections from secrets with settings as the CLI fallback', async () => {
+    state.settings.global = { providerSettings: { mistral: { apiKey: 'settings-key' } } };
+    manager.saveCustomProvider({ id: 'vllm', name: 'vLLM', baseUrl: 'http://localhost:8000/v1', apiKey: '', authStyle: 'bearer' });
+    await setSecret(providerSecretKey('custom:vllm'), 'vllm-secret-key', 'workspace');
+
+    expect((await resolveProviderConnection(loadExtensionConfig(), 'mistral')).apiKey).toBe('settings-key');
+    await setSecret(providerSecretKey('mistral'), 'secret-key');
+    expect((await resolveProviderConnection(loadExtensionConfig(), 'mistral')).apiKey).toBe('secret-key');
+
+    expect(await resolveProviderConnection(loadExtensionConfig(), 'custom:vllm')).toMatchObject({
+      apiKey: 'vllm-secret-key',
+      headers: { Authorization: 'Bearer vllm-secret-key' }
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('vscode', async () => {
+  const nodeFs = await import('fs');
+  return {
+    window: {
+      createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+    },
+    Uri: { file: (p: string) => ({ fsPath: p }) },
+    workspace: {
+      getConfiguration: () => ({ get: (_key: string, def: unknown) => def }),
+      fs: {
+        readFile: async (uri: { fsPath: string }) => nodeFs.readFileSync(uri.fsPath),
+        writeFile: async (uri: { fsPath: string }, data: Uint8Array) => nodeFs.writeFileSync(uri.fsPath, data)
+      }
+    },
+    languages: { getDiagnostics: () => [] }
+  };
+});
+
+const snapshots: any[] = [];
+vi.mock('../src/Storage/snapshotManager', () => ({
+  getSnapshotManager: () => ({
+    createSnapshot: async (...args: any[]) => {
+      const snap = { filePath: args[0], tool: args[1], startLine: args[4] };
+      snapshots.push(snap);
+      return snap;
+    }
+  })
+}));
+vi.mock('../src/Storage/snapshotDecorations', () => ({ applySnapshotDecorations: () => {} }));
+
+import { structuralEditTool, parseSymbolPath } from '../src/Engine/tools/structuralEditTool';
+import { getFileTime } from '../src/Engine/SystemContext/contextCache';
+
+const TS_SOURCE = `import { x } from './x';
+
+// Провайдер чата
+export class ChatViewProvider {
+  private count = 0;
+
+  /** Загружает историю */
+  async loadHistory(id: string): Promise<void> {
+    const old = 1;
+    return;
+  }
+
+  render() {
+    return 'view';
+  }
+}
+
+export function main() {
+  return new ChatViewProvider();
+}
+`;
+
+let tmp = '';
+const setup = (name: string, content: string) => {
+  const file = path.join(tmp, name);
+  fs.writeFileSync(file, content);
+  getFileTime().read(file);
+  return file;
+};
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'structural-edit-'));
+  snapshots.length = 0;
+});
+
+afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('parseSymbolPath', () => {
+  it('accepts kind words and dotted paths', () => {
+    expect(parseSymbolPath('class ChatViewProvider > method loadHistory')).toEqual([
+      { kind: 'class', name: 'ChatViewProvider' }, { kind: 'method', name: 'loadHistory' }
+    ]);
+    expect(parseSymbolPath('ChatViewProvider.loadHistory')).toEqual([{ name: 'ChatViewProvider' }, { name: 'loadHistory' }]);
+    expect(parseSymbolPath('mod::Thing')).toEqual([{ name: 'mod' }, { name: 'Thing' }]);
+  });
+});
+
+describe('structural_edit', () => {
+  it('replaces a method body without the old text', async () => {
+    const file = setup('chat.ts', TS_SOURCE);
+    const result = await structuralEditTool({
+      file_path: 'chat.ts',
+      symbol: 'class ChatViewProvider > method loadHistory',
+      operation: 'replace_body',
+      content: 'this.count++;\nif (id) {\n  return;\n}'
+    }, tmp);
+
+    expect(result).toMatchObject({ success: true, symbol: 'class ChatViewProvider > method loadHistory', line: 8 });
+    expect(fs.readFileSync(file, 'utf8')).toContain(
+      '  async loadHistory(id: string): Promise<void> {\n    this.count++;\n    if (id) {\n      return;\n    }\n  }\n'
+    );
+    expect(snapshots).toEqual([{ filePath: file, tool: 'edit_file', startLine: 9 }]);
+  });
+
+  it('inserts, deletes and wraps declarations with matching indentation', async () => {
+    const file = setup('chat.ts', TS_SOURCE);
+
+    await structuralEditTool({ file_path: 'chat.ts', symbol: 'ChatViewProvider.render', operation: 'insert_after', content: 'dispose() {\n  this.count = 0;\n}' }, tmp);
+    await structuralEditTool({ file_path: 'chat.ts', symbol: 'method loadHistory', operation: 'delete' }, tmp);
+    await structuralEditTool({ file_path: 'chat.ts', symbol: 'function main', operation: 'wrap', content: '/* start */\n$NODE\n/* end */' }, tmp);
+
+    expect(fs.readFileSync(file, 'utf8')).toBe(`import { x } from './x';
+
+// Провайдер чата
+export class ChatViewProvider {
+  private count = 0;
+
+  render() {
+    return 'view';
+  }
+
+  dispose() {
+    this.count = 0;
+  }
+}
+
+/* start */
+export function main() {
+  return new ChatViewProvider();
+}
+/* end */
+`);
+  });
+
+  it('edits Python by indentation-delimited body', async () => {
+    const file = setup('app.py', 'class Service:\n    def run(self):\n        return 1\n\n    def stop(self):\n        pass\n');
+    const result = await structuralEditTool({
+      file_path: 'app.py', symbol: 'Service > def run', operation: 'replace_body', content: 'value = 2\nreturn value'
+    }, tmp);
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(file, 'utf8')).toBe('class Service:\n    def run(self):\n        value = 2\n        return value\n\n    def stop(self):\n        pass\n');
+  });
+
+  it('reports unknown and ambiguous symbols', async () => {
+    setup('chat.ts', TS_SOURCE + '\nclass Other {\n  render() {}\n}\n');
+
+    const missing = await structuralEditTool({ file_path: 'chat.ts', symbol: 'ChatViewProvider > loadHist', operation: 'delete' }, tmp);
+    expect(missing.success).toBe(false);
+    expect(missing.similar_symbols).toEqual(['class ChatViewProvider > method loadHistory (L8)']);
+
+    const ambiguous = await structuralEditTool({ file_path: 'chat.ts', symbol: 'render', operation: 'delete' }, tmp);
+    expect(ambiguous.error).toContain('matches 2 declarations');
+
+    const interfaceKind = await structuralEditTool({ file_path: 'chat.ts', symbol: 'interface ChatViewProvider', operation: 'delete' }, tmp);
+    expect(interfaceKind.success).toBe(false);
+  });
+});
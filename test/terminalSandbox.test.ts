@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+const state = vi.hoisted(() => ({ folders: [] as string[] }));
+
+vi.mock('vscode', async () => {
+  const nodeFs = await import('fs');
+  return {
+    window: {
+      createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+    },
+    Uri: { file: (p: string) => ({ fsPath: p }) },
+    workspace: {
+      get workspaceFolders() { return state.folders.map(p => ({ name: p, uri: { fsPath: p } })); },
+      getConfiguration: () => ({ get: (_key: string, def: unknown) => def }),
+      fs: {
+        writeFile: async (uri: { fsPath: string }, data: Uint8Array) => nodeFs.writeFileSync(uri.fsPath, data),
+        createDirectory: async (uri: { fsPath: string }) => { nodeFs.mkdirSync(uri.fsPath, { recursive: true }); },
+        delete: async (uri: { fsPath: string }) => nodeFs.rmSync(uri.fsPath, { force: true })
+      }
+    }
+  };
+});
+
+const snapshots: any[] = [];
+vi.mock('../src/Storage/snapshotManager', () => ({
+  getSnapshotManager: () => ({
+    createSnapshot: async (...args: any[]) => {
+      const snap = { filePath: args[0], tool: args[1], oldContent: args[2], newContent: args[3], startLine: args[4], endLine: args[5] };
+      snapshots.push(snap);
+      return snap;
+    }
+  })
+}));
+vi.mock('../src/Storage/snapshotDecorations', () => ({ applySnapshotDecorations: () => {} }));
+
+import {
+  collectOverlayChanges, collectCopyChanges, applySandboxChanges, detectSandboxMode, runSandboxedCommand
+} from '../src/Engine/tools/terminalSandbox';
+
+let tmp = '';
+const write = (root: string, rel: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+  fs.writeFileSync(path.join(root, rel), content);
+};
+
+const runner = async (command: string, cwd: string, env: Record<string, string>) => {
+  const r = spawnSync('/bin/bash', ['-c', command], { cwd, env: { ...process.env, ...env }, encoding: 'utf8', timeout: 30_000 });
+  return { success: r.status === 0, exitCode: r.status, output: `${r.stdout}${r.stderr}`, method: 'child_process' };
+};
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-'));
+  snapshots.length = 0;
+  state.folders = [];
+});
+
+afterEach(() => {
+  spawnSync('chmod', ['-R', 'u+rwx', tmp]);
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+describe('terminalSandbox', () => {
+  it('collects overlay changes, using the manifest for deletions', async () => {
+    const lower = path.join(tmp, 'lower');
+    const upper = path.join(tmp, 'upper');
+    write(lower, 'a.txt', 'a');
+    write(lower, 'src/keep.ts', 'keep');
+    write(lower, 'src/gone.ts', 'gone');
+    write(lower, 'old/x.ts', 'x');
+    write(upper, 'a.txt', 'a');           // copied up but unchanged
+    write(upper, 'src/new.ts', 'new');
+    write(upper, 'src/keep.ts', 'changed');
+    write(upper, 'node_modules/p/index.js', 'ignored');
+
+    const manifest = new Set(['a.txt', 'src', 'src/keep.ts', 'src/new.ts']);
+    expect(await collectOverlayChanges(lower, upper, manifest)).toEqual([
+      { relPath: 'old/x.ts', kind: 'deleted' },
+      { relPath: 'src/gone.ts', kind: 'deleted' },
+      { relPath: 'src/keep.ts', kind: 'modified' },
+      { relPath: 'src/new.ts', kind: 'created' }
+    ]);
+    expect((await collectOverlayChanges(lower, upper, null)).map(c => c.kind)).toEqual(['modified', 'created']);
+  });
+
+  it('collects changes between the workspace and a sandbox copy', async () => {
+    const orig = path.join(tmp, 'orig');
+    const copy = path.join(tmp, 'copy');
+    write(orig, 'same.txt', 'same');
+    write(orig, 'edit.txt', 'one');
+    write(orig, 'del.txt', 'bye');
+    write(orig, '.git/HEAD', 'ref');
+    spawnSync('cp', ['-a', orig + '/.', copy]);
+    write(copy, 'edit.txt', 'two');
+    write(copy, 'add/new.txt', 'hi');
+    write(copy, '.git/HEAD', 'other');
+    fs.rmSync(path.join(copy, 'del.txt'));
+
+    expect(await collectCopyChanges(orig, copy)).toEqual([
+      { relPath: 'add/new.txt', kind: 'created' },
+      { relPath: 'del.txt', kind: 'deleted' },
+      { relPath: 'edit.txt', kind: 'modified' }
+    ]);
+  });
+
+  it('applies changes as focused snapshots and skips binary files', async () => {
+    const ws = path.join(tmp, 'ws');
+    const result = path.join(tmp, 'result');
+    write(ws, 'app.ts', 'line1\nline2\nline3\nline4');
+    write(ws, 'remove.ts', 'x\ny');
+    write(result, 'app.ts', 'line1\nLINE2\nline3\nline4');
+    write(result, 'new.ts', 'created');
+    write(result, 'image.bin', 'a\u0000b');
+
+    const { applied, skipped } = await applySandboxChanges([
+      { relPath: 'app.ts', kind: 'modified' },
+      { relPath: 'image.bin', kind: 'created' },
+      { relPath: 'new.ts', kind: 'created' },
+      { relPath: 'remove.ts', kind: 'deleted' }
+    ], ws, result);
+
+    expect(applied.map(c => c.relPath)).toEqual(['app.ts', 'new.ts', 'remove.ts']);
+    expect(skipped).toEqual([{ relPath: 'image.bin', reason: 'binary file' }]);
+    expect(fs.readFileSync(path.join(ws, 'app.ts'), 'utf8')).toBe('line1\nLINE2\nline3\nline4');
+    expect(fs.existsSync(path.join(ws, 'remove.ts'))).toBe(false);
+    expect(fs.existsSync(path.join(ws, 'image.bin'))).toBe(false);
+    expect(snapshots.map(s => [s.tool, s.oldContent, s.newContent, s.startLine, s.endLine])).toEqual([
+      ['edit_file', 'line2', 'LINE2', 2, 2],
+      ['create_file', null, 'created', 1, 1],
+      ['delete_file', 'x\ny', '', 1, 2]
+    ]);
+  });
+
+  it('runs a command in the sandbox without network and transfers its edits', async () => {
+    const mode = await detectSandboxMode();
+    if (!mode) return; // user namespaces unavailable on this machine
+
+    // A comma in the path can't be passed to overlayfs — falls back to a workspace copy
+    for (const [dir, expected] of [['ws', mode], ['ws,copy', 'copy']]) {
+      const ws = path.join(tmp, dir);
+      write(ws, 'keep.txt', 'keep');
+      write(ws, 'old.txt', 'old');
+      // Absolute paths and `cd ..` lead into the sandboxed view too
+      const result = await runSandboxedCommand(
+        `echo hi > made.txt && rm old.txt && echo abs > "${ws}/abs.txt" && cd .. && echo up > "${dir}/up.txt" && ` +
+        '(curl -s --max-time 2 http://example.com >/dev/null 2>&1 && echo ONLINE || echo OFFLINE)',
+        ws, ws, runner
+      );
+      expect(result.method).toBe(`sandbox_${expected}`);
+      expect(result.output).toContain('OFFLINE');
+      expect(result.sandbox.applied).toEqual([
+        { relPath: 'abs.txt', kind: 'created' },
+        { relPath: 'made.txt', kind: 'created' },
+        { relPath: 'old.txt', kind: 'deleted' },
+        { relPath: 'up.txt', kind: 'created' }
+      ]);
+      expect(fs.readFileSync(path.join(ws, 'made.txt'), 'utf8')).toBe('hi\n');
+      expect(fs.readFileSync(path.join(ws, 'abs.txt'), 'utf8')).toBe('abs\n');
+      expect(fs.existsSync(path.join(ws, 'old.txt'))).toBe(false);
+    }
+  }, 60_000);
+  it('keeps .git and node_modules read-only in a workspace copy', async () => {
+    if (!await detectSandboxMode()) return;
+
+    // A comma in the path forces copy mode
+    const ws = path.join(tmp, 'ws,ro');
+    write(ws, 'src/a.txt', 'a');
+    write(ws, 'node_modules/pkg/index.js', 'orig');
+    write(ws, 'packages/x/node_modules/dep.js', 'dep');
+    write(ws, '.git/HEAD', 'ref');
+    const result = await runSandboxedCommand(
+      'cat node_modules/pkg/index.js; echo; echo hacked > node_modules/pkg/index.js || echo RO1; ' +
+      'echo hacked > packages/x/node_modules/dep.js || echo RO2; echo x > .git/HEAD || echo RO3; echo b > src/a.txt',
+      ws, ws, runner
+    );
+    expect(result.method).toBe('sandbox_copy');
+    expect(result.output).toMatch(/^orig/);
+    expect(result.output).toContain('RO1');
+    expect(result.output).toContain('RO2');
+    expect(result.output).toContain('RO3');
+    expect(result.sandbox.applied).toEqual([{ relPath: 'src/a.txt', kind: 'modified' }]);
+    expect(fs.readFileSync(path.join(ws, 'node_modules/pkg/index.js'), 'utf8')).toBe('orig');
+    expect(fs.readFileSync(path.join(ws, '.git/HEAD'), 'utf8')).toBe('ref');
+  }, 60_000);
+
+  it('refuses to run when another workspace folder lies outside the mounted one', async () => {
+    if (!await detectSandboxMode()) return;
+
+    const ws = path.join(tmp, 'ws');
+    const other = path.join(tmp, 'other');
+    write(ws, 'a.txt', 'a');
+    write(other, 'b.txt', 'b');
+    state.folders = [ws, path.join(ws, 'nested'), other];
+    const result = await runSandboxedCommand(`echo x > "${other}/b.txt"`, ws, ws, runner);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(other);
+    expect(fs.readFileSync(path.join(other, 'b.txt'), 'utf8')).toBe('b');
+
+    state.folders = [ws, path.join(ws, 'nested')];
+    expect((await runSandboxedCommand('echo x > a.txt', ws, ws, runner)).sandbox.applied).toEqual([{ relPath: 'a.txt', kind: 'modified' }]);
+  }, 60_000);
+});
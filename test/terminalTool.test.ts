@@ -75,6 +75,7 @@ vi.mock('vscode', () => {
     },
     workspace: {
       workspaceFolders: [{ uri: { fsPath: 'C:/ws' } }],
+      getConfiguration: vi.fn(() => ({ get: (_key: string, def: unknown) => def })),
       fs: { stat: vi.fn() }
     },
     Uri: { file: (p: string) => ({ fsPath: p }) },
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('vscode', () => ({
+  window: { createOutputChannel: () => ({ appendLine() {}, append() {}, show() {}, clear() {} }) },
+  workspace: { getConfiguration: () => ({ get: () => undefined }) }
+}));
+
+import {
+  MESSAGE_OVERHEAD_TOKENS,
+  StreamingTokenCounter,
+  countMessagesTokens,
+  countTokens,
+  getTokenizer,
+  registerTokenizer,
+  resetTokenizers
+} from '../src/Engine/SystemContext/tokenizer';
+
+const ENGLISH = 'The quick brown fox jumps over the lazy dog. Token counting should be close for English prose.';
+const RUSSIAN = 'Быстрая коричневая лиса перепрыгивает через ленивую собаку. Подсчёт токенов должен быть точным.';
+const CODE = [
+  'export function estimateTokenCount(messages: Message[]): number {',
+  '  let totalChars = 0;',
+  '  for (const msg of messages) {',
+  '    totalChars += msg.content.length;',
+  '  }',
+  '  return Math.ceil(totalChars / 4);',
+  '}'
+].join('\n');
+
+describe('tokenizer selection', () => {
+  afterEach(resetTokenizers);
+
+  it('picks the tokenizer by model family', () => {
+    expect(getTokenizer('openai/gpt-4o-mini').name).toBe('o200k');
+    expect(getTokenizer('openai/o3-mini').name).toBe('o200k');
+    expect(getTokenizer('meta-llama/llama-3.1-70b-instruct').name).toBe('llama3');
+    expect(getTokenizer('codellama-34b-instruct').name).toBe('llama2');
+    expect(getTokenizer('mistralai/devstral-small').name).toBe('tekken');
+    expect(getTokenizer('mistralai/mixtral-8x7b-instruct').name).toBe('mistral');
+    expect(getTokenizer('anthropic/claude-sonnet-4').name).toBe('cl100k');
+    expect(getTokenizer().name).toBe('cl100k');
+  });
+
+  it('lets an exact tokenizer take over a family', () => {
+    registerTokenizer(/^exact-model$/, { name: 'exact', count: text => text.length });
+    expect(countTokens('abcdef', 'exact-model')).toBe(6);
+    expect(getTokenizer('exact-model-2').name).toBe('cl100k');
+
+    resetTokenizers();
+    expect(getTokenizer('exact-model').name).toBe('cl100k');
+  });
+});
+
+describe('token counting', () => {
+  it('counts exactly with the cl100k and o200k tables', () => {
+    expect(countTokens('hello world')).toBe(2);
+    expect(countTokens('tiktoken is great!')).toBe(6);
+    expect(countTokens('tiktoken is great!', 'gpt-4o')).toBe(6);
+    // Special-token text is counted as plain text
+    expect(countTokens('<|endoftext|>')).toBe(7);
+    // Very long runs fall back to the approximation instead of quadratic merging
+    expect(countTokens('u'.repeat(6000))).toBe(1499);
+  });
+
+  it('stays near chars/4 for English and counts Cyrillic per tokenizer', () => {
+    const english = countTokens(ENGLISH);
+    expect(english).toBeGreaterThan(ENGLISH.length / 4 * 0.7);
+    expect(english).toBeLessThan(ENGLISH.length / 4 * 1.3);
+
+    const cl100k = countTokens(RUSSIAN);
+    expect(cl100k).toBeGreaterThan(RUSSIAN.length / 4 * 1.3);
+    expect(countTokens(RUSSIAN, 'gpt-4o')).toBeLessThan(cl100k);
+    expect(countTokens(RUSSIAN, 'llama-2-13b')).toBeGreaterThan(RUSSIAN.length / 4 * 1.3);
+  });
+
+  it('splits digits and newlines the SentencePiece way for Llama 2 and Mistral', () => {
+    expect(countTokens('12345678')).toBe(3);
+    expect(countTokens('12345678', 'mistral-7b-instruct')).toBe(8);
+    expect(countTokens('a\n\n\nb')).toBe(3);
+    expect(countTokens('a\n\n\nb', 'llama-2-7b')).toBe(5);
+    expect(countTokens(CODE, 'llama-2-7b')).toBeGreaterThan(countTokens(CODE));
+  });
+
+  it('adds per-message overhead and counts tool calls', () => {
+    expect(countMessagesTokens([])).toBe(0);
+    const message = { role: 'assistant', content: '', tool_calls: [{ id: 'c1', function: { name: 'read_file', arguments: '{"file_path":"a.ts"}' } }] };
+    const tokens = countMessagesTokens([message]);
+    expect(tokens).toBeGreaterThan(MESSAGE_OVERHEAD_TOKENS);
+
+    // Cached counts follow in-place edits
+    message.content = 'Reading the file first.';
+    expect(countMessagesTokens([message])).toBeGreaterThan(tokens);
+  });
+
+  it('counts a streamed reply like the whole text', () => {
+    for (const model of ['gpt-4o', 'llama-2-7b']) {
+      const counter = new StreamingTokenCounter(model);
+      let text = '';
+      let streamed = 0;
+      for (const chunk of (CODE + '\n\n' + RUSSIAN).match(/[\s\S]{1,3}/g)!) {
+        text += chunk;
+        streamed = counter.update(text);
+      }
+      expect(streamed).toBe(countTokens(text, model));
+      expect(counter.update('Другой текст')).toBe(countTokens('Другой текст', model));
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({
+      appendLine: () => {},
+      append: () => {},
+      show: () => {},
+      clear: () => {}
+    })
+  },
+  workspace: {
+    getConfiguration: () => ({ get: () => undefined })
+  }
+}));
+
+import { executeTool } from '../src/Engine/toolCalling';
+import {
+  registerTool, getToolDefinition, resolveToolAlias, validateToolArgs, validateSchemaValue
+} from '../src/Engine/toolRegistry';
+
+describe('toolRegistry', () => {
+  it('generates validation from the parameters schema', () => {
+    const readFile = getToolDefinition('read_file')!;
+    expect(validateToolArgs(readFile, {})).toBe('read_file: file_path is required (string)');
+    expect(validateToolArgs(readFile, { file_path: '' })).toBe('read_file: file_path must not be empty');
+    expect(validateToolArgs(readFile, { file_path: 'a.ts', start_line: 0 })).toBe('read_file: start_line must be >= 1');
+    expect(validateToolArgs(readFile, { file_path: 'a.ts', start_line: 'x' })).toBe('read_file: start_line must be integer');
+    expect(validateToolArgs(readFile, { file_path: 'a.ts', start_line: 5 })).toBeNull();
+
+    const lsp = getToolDefinition('lsp')!;
+    expect(validateToolArgs(lsp, { file_path: 'a.ts', operation: 'rename' })).toContain('operation must be one of: definitions');
+  });
+
+  it('runs semantic checks after the schema', () => {
+    const lsp = getToolDefinition('lsp')!;
+    expect(validateToolArgs(lsp, { file_path: 'a.ts', operation: 'hover' }))
+      .toBe('lsp operation "hover" requires either "line" (number) or "symbol_name" (string)');
+    expect(validateToolArgs(lsp, { file_path: 'a.ts', operation: 'symbols' })).toBeNull();
+
+    // edit_file keeps accepting the legacy line-range format
+    const editFile = getToolDefinition('edit_file')!;
+    expect(validateToolArgs(editFile, { file_path: 'a.ts', start_line: 1, end_line: 2, content: 'x' })).toBeNull();
+    expect(validateToolArgs(editFile, { file_path: 'a.ts', oldString: 'a', newString: 'b' })).toBeNull();
+  });
+
+  it('validates oneOf and array items', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        query: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' }, maxItems: 2 }] }
+      },
+      required: ['query']
+    };
+    expect(validateSchemaValue(schema, { query: ['a', 'b'] }, '')).toBeNull();
+    expect(validateSchemaValue(schema, { query: ['a', 'b', 'c'] }, '')).toBe('query must be string or array of string');
+    expect(validateSchemaValue(schema, { query: 42 }, '')).toBe('query must be string or array of string');
+  });
+
+  it('resolves aliases declared by tool modules', () => {
+    expect(resolveToolAlias('write_file')).toBe('create_file');
+    expect(resolveToolAlias('go_to_definition')).toBe('lsp');
+    expect(resolveToolAlias('read_file')).toBeUndefined();
+    expect(resolveToolAlias('no_such_tool')).toBeUndefined();
+  });
+
+  it('dispatches registered tools through executeTool', async () => {
+    const execute = vi.fn(async (args: any) => ({ echoed: args.text }));
+    registerTool({
+      spec: {
+        name: 'test_echo',
+        description: 'Echo text',
+        parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] }
+      },
+      readOnly: true,
+      execute
+    });
+
+    expect(await executeTool('test_echo', { text: 'hi' })).toEqual({ echoed: 'hi' });
+    const invalid = await executeTool('test_echo', {});
+    expect(invalid.error).toBe('test_echo: text is required (string)');
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    expect(() => registerTool({ spec: { name: 'test_echo', description: '', parameters: {} } }))
+      .toThrow('Tool already registered: test_echo');
+  });
+
+  it('refuses to dispatch tools executed by the agent loop', async () => {
+    await expect(executeTool('ask_user', { question: 'q', options: ['a', 'b'] })).rejects.toThrow('executed by the agent loop');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const state = vi.hoisted(() => ({ config: {} as Record<string, unknown> }));
+
+vi.mock('vscode', () => ({
+  window: {
+    createOutputChannel: () => ({ appendLine: () => {}, append: () => {}, show: () => {}, clear: () => {} })
+  },
+  workspace: {
+    workspaceFolders: [],
+    getConfiguration: () => ({ get: (key: string, def: unknown) => (key in state.config ? state.config[key] : def) })
+  }
+}));
+
+import { initSecretStorage } from '../src/Config/secrets';
+import { matchesDomain, parseDuckDuckGoHtml, webSearchSecretKey } from '../src/Engine/tools/webSearchProviders';
+import { resetWebSearchCache, webSearchTool } from '../src/Engine/tools/webSearchTool';
+
+const fetchMock = vi.fn();
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+beforeEach(() => {
+  state.config = {};
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  resetWebSearchCache();
+  initSecretStorage(null);
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('web search providers', () => {
+  it('parses DuckDuckGo HTML results and skips ads', () => {
+    const html = `
+      <div class="result results_links results_links_deep result--ad"><a class="result__a" href="https://ads.example/x">Ad</a></div>
+      <div class="result results_links results_links_deep web-result ">
+        <h2 class="result__title"><a rel="nofollow" class="result__a" href="//duckduckgo.com/l/?uddg=https%3A%2F%2Fvitest.dev%2Fguide%2F&amp;rut=abc">Getting <b>Started</b> | Vitest</a></h2>
+        <a class="result__snippet" href="//duckduckgo.com/l/?uddg=x">Vitest is a <b>next generation</b> testing framework &amp; more</a>
+      </div>`;
+    expect(parseDuckDuckGoHtml(html)).toEqual([
+      { title: 'Getting <b>Started</b> | Vitest', url: 'https://vitest.dev/guide/', content: 'Vitest is a <b>next generation</b> testing framework &amp; more' }
+    ]);
+  });
+
+  it('matches domains and their subdomains', () => {
+    expect(matchesDomain('https://docs.python.org/3/', ['python.org'])).toBe(true);
+    expect(matchesDomain('https://www.github.com/a', ['https://github.com/'])).toBe(true);
+    expect(matchesDomain('https://notgithub.com/a', ['github.com'])).toBe(false);
+  });
+});
+
+describe('webSearchTool', () => {
+  it('normalizes and filters results, then answers repeated queries from the cache', async () => {
+    state.config = { webSearchProvider: 'searxng', searxngUrl: 'https://searx.local/', webSearchBlockedDomains: ['pinterest.com'] };
+    fetchMock.mockImplementation(async () => jsonResponse({
+      results: [
+        { title: 'Node &amp; <em>fetch</em>', url: 'https://nodejs.org/api/globals.html', content: '  The <b>fetch</b>\n API ', score: 1 },
+        { title: 'Pin', url: 'https://www.pinterest.com/pin/1', content: 'x' },
+        { title: 'Dup', url: 'https://nodejs.org/api/globals.html', content: 'y' }
+      ]
+    }));
+
+    const first = await webSearchTool({ query: 'node fetch' });
+    expect(String(fetchMock.mock.calls[0][0])).toBe('https://searx.local/search?q=node+fetch&format=json');
+    expect(first).toMatchObject({ success: true, provider: 'searxng', results_count: 1, filtered_out: 1 });
+    expect(first.results).toEqual([{ title: 'Node & fetch', url: 'https://nodejs.org/api/globals.html', content: 'The fetch API', score: 1 }]);
+
+    expect(await webSearchTool({ query: '  Node fetch ' })).toMatchObject({ cached: true, results_count: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    resetWebSearchCache();
+    await webSearchTool({ query: 'node fetch' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads the API key from secret storage and reports a missing key', async () => {
+    state.config = { webSearchProvider: 'brave', webSearchAllowedDomains: ['github.com'] };
+    expect(await webSearchTool({ query: 'x' })).toMatchObject({ success: false, error: expect.stringContaining('Brave Search API key is not set') });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const secrets = new Map([[webSearchSecretKey('brave'), 'brave-key']]);
+    initSecretStorage({ get: async k => secrets.get(k), store: async () => {}, delete: async () => {} });
+    fetchMock.mockResolvedValue(jsonResponse({
+      web: { results: [{ title: 'Repo', url: 'https://github.com/a/b', description: 'A <strong>repo</strong>' }, { title: 'Other', url: 'https://example.com', description: '' }] }
+    }));
+
+    const result = await webSearchTool({ query: 'x', max_results: 3 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toContain('count=6');
+    expect(init.headers['X-Subscription-Token']).toBe('brave-key');
+    expect(result.results).toEqual([{ title: 'Repo', url: 'https://github.com/a/b', content: 'A repo' }]);
+  });
+});